@@ -1,27 +1,42 @@
-import './App.css';
+import { useState, useEffect, useCallback } from 'react';
+import { Toaster } from '@/components/ui/sonner';
+import CanvasEditor from '@/components/CanvasEditor';
+import CanvasGallery from '@/components/CanvasGallery';
+
+// Canvases are addressed as #/canvas/<id> so a reload reopens the same canvas; anything else is the gallery
+const CANVAS_HASH_PREFIX = '#/canvas/';
+
+function getCanvasIdFromHash(): string | null {
+  return window.location.hash.startsWith(CANVAS_HASH_PREFIX)
+    ? window.location.hash.slice(CANVAS_HASH_PREFIX.length) || null
+    : null;
+}
 
 function App() {
+  const [canvasId, setCanvasId] = useState<string | null>(getCanvasIdFromHash);
+
+  useEffect(() => {
+    const handleHashChange = () => setCanvasId(getCanvasIdFromHash());
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  const openCanvas = useCallback((id: string) => {
+    window.location.hash = `${CANVAS_HASH_PREFIX}${id}`;
+  }, []);
+
+  const openGallery = useCallback(() => {
+    window.location.hash = '#/';
+  }, []);
+
   return (
-    <div>
-      <div className="gradient"></div>
-      <div className="grid"></div>
-      <div className="container">
-        <h1 className="title">Under Construction</h1>
-        <p className="description">
-          Your app is under construction. It's being built right now!
-        </p>
-        <div className="dots">
-          <div className="dot"></div>
-          <div className="dot"></div>
-          <div className="dot"></div>
-        </div>
-        <footer className="footer">
-          Built with ❤️ by{" "}
-          <a href="https://app.build" target="_blank" className="footer-link">
-            app.build
-          </a>
-        </footer>
-      </div>
+    <div className={canvasId ? 'h-screen' : 'min-h-screen'}>
+      {canvasId ? (
+        <CanvasEditor key={canvasId} canvasId={canvasId} onBack={openGallery} />
+      ) : (
+        <CanvasGallery onOpenCanvas={openCanvas} />
+      )}
+      <Toaster />
     </div>
   );
 }
@@ -0,0 +1,86 @@
+import { Fragment, useMemo } from 'react';
+import CanvasElementShape from '@/components/CanvasElementShape';
+import { sortByZIndex } from '@/lib/canvas';
+import { getBackgroundBlur } from '@/lib/effects';
+import { getFillLayers } from '@/lib/fills';
+import { getShownElements } from '@/lib/groups';
+import { getStrokeLayers } from '@/lib/strokes';
+import type { Canvas, CanvasElement, StrokeStyle } from '../../../server/src/schema';
+
+interface CanvasArtboardProps {
+  canvas: Canvas;
+  elements: CanvasElement[];
+}
+
+/**
+ * The artboard background plus every shown element in paint order.
+ * Rendered in canvas coordinates so callers decide how it is scaled and positioned.
+ */
+export default function CanvasArtboard({ canvas, elements }: CanvasArtboardProps) {
+  const orderedElements = useMemo(() => sortByZIndex(getShownElements(elements)), [elements]);
+
+  return (
+    <g>
+      <ArtboardBackground canvas={canvas} />
+      {orderedElements.map((element: CanvasElement, index: number) => {
+        const blur = getBackgroundBlur(element.effects);
+        return (
+          <Fragment key={element.id}>
+            {blur !== null && (
+              <BackgroundBlur canvas={canvas} element={element} below={orderedElements.slice(0, index)} blur={blur} />
+            )}
+            <CanvasElementShape element={element} />
+          </Fragment>
+        );
+      })}
+    </g>
+  );
+}
+
+function ArtboardBackground({ canvas }: { canvas: Canvas }) {
+  return <rect x={0} y={0} width={canvas.width} height={canvas.height} fill={canvas.backgroundColor} />;
+}
+
+interface BackgroundBlurProps {
+  canvas: Canvas;
+  element: CanvasElement;
+  below: CanvasElement[];
+  blur: number;
+}
+
+/**
+ * What lies behind an element, blurred and cut to the element's shape. SVG can't read back what is already painted,
+ * so the artboard and the elements below are drawn again; their own background blurs are left out of the copy, and
+ * the definitions in it get ids of their own
+ */
+function BackgroundBlur({ canvas, element, below, blur }: BackgroundBlurProps) {
+  const id = `backdrop-${element.id}`;
+  // An opaque silhouette, so the blur shows through translucent fills at full strength
+  const silhouette: CanvasElement = {
+    ...element,
+    effects: [],
+    fill: getFillLayers(element).length > 0 ? { type: 'solid', color: '#000000', opacity: 1 } : null,
+    stroke: null,
+    extraFills: [],
+    extraStrokes: getStrokeLayers(element).map((stroke: StrokeStyle) => ({ ...stroke, opacity: 1, blendMode: undefined }))
+  };
+
+  return (
+    <g pointerEvents="none">
+      <defs>
+        <mask id={id} style={{ maskType: 'alpha' }}>
+          <CanvasElementShape element={silhouette} idPrefix={`${id}-mask-`} />
+        </mask>
+        <filter id={`${id}-blur`}>
+          <feGaussianBlur stdDeviation={blur / 2} edgeMode="duplicate" />
+        </filter>
+      </defs>
+      <g mask={`url(#${id})`}>
+        <g filter={`url(#${id}-blur)`}>
+          <ArtboardBackground canvas={canvas} />
+          {below.map((other: CanvasElement) => <CanvasElementShape key={other.id} element={other} idPrefix={`${id}-`} />)}
+        </g>
+      </g>
+    </g>
+  );
+}
@@ -0,0 +1,164 @@
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
+import { Archive, ArchiveRestore, Copy, MoreHorizontal, Trash2 } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import CanvasThumbnail from '@/components/CanvasThumbnail';
+import InlineEditableText from '@/components/InlineEditableText';
+import { getConflictState, trpc } from '@/utils/trpc';
+import type { Canvas } from '../../../server/src/schema';
+
+interface CanvasCardProps {
+  canvas: Canvas;
+  onOpen: (canvas: Canvas) => void;
+  onUpdated: (canvas: Canvas) => void;
+  onDuplicated: (canvas: Canvas) => void;
+  onDeleted: (canvasId: string) => void;
+}
+
+export default function CanvasCard({ canvas, onOpen, onUpdated, onDuplicated, onDeleted }: CanvasCardProps) {
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const saveField = async (changes: { name?: string; description?: string | null }) => {
+    try {
+      const updated = await trpc.updateCanvas.mutate({ id: canvas.id, ...changes, expectedUpdatedAt: canvas.updatedAt });
+      onUpdated(updated);
+    } catch (err) {
+      const current = getConflictState<Canvas>(err);
+      if (current) {
+        onUpdated(current);
+        toast.warning('This canvas was changed elsewhere. Review the latest version and try again.');
+      } else {
+        toast.error('Failed to update canvas. Please try again.');
+      }
+      throw err;
+    }
+  };
+
+  const handleDuplicate = async () => {
+    setIsBusy(true);
+    try {
+      const copy = await trpc.duplicateCanvas.mutate({ id: canvas.id, includeChatHistory: false });
+      onDuplicated(copy);
+      toast.success(`Created "${copy.name}"`);
+    } catch (err) {
+      console.error('Failed to duplicate canvas:', err);
+      toast.error('Failed to duplicate canvas. Please try again.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleArchive = async () => {
+    setIsBusy(true);
+    try {
+      const updated = await trpc.archiveCanvas.mutate({ id: canvas.id, archived: !canvas.archivedAt });
+      onUpdated(updated);
+    } catch (err) {
+      console.error('Failed to archive canvas:', err);
+      toast.error('Failed to update canvas. Please try again.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    setIsBusy(true);
+    try {
+      await trpc.deleteCanvas.mutate(canvas.id);
+      onDeleted(canvas.id);
+    } catch (err) {
+      console.error('Failed to delete canvas:', err);
+      toast.error('Failed to delete canvas. Please try again.');
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <Card className="gap-0 overflow-hidden py-0 transition-shadow hover:shadow-md">
+      <button type="button" className="block w-full cursor-pointer" onClick={() => onOpen(canvas)} aria-label={`Open ${canvas.name}`}>
+        <CanvasThumbnail canvas={canvas} />
+      </button>
+      <CardContent className="space-y-1 p-4">
+        <div className="flex items-center gap-2">
+          <div className="min-w-0 flex-1">
+            <InlineEditableText
+              value={canvas.name}
+              className="font-semibold"
+              onSave={(name: string) => saveField({ name })}
+            />
+          </div>
+          {canvas.archivedAt && <Badge variant="secondary">Archived</Badge>}
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="icon" className="size-8 shrink-0" disabled={isBusy} aria-label="Canvas actions">
+                <MoreHorizontal className="size-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onSelect={handleDuplicate}>
+                <Copy /> Duplicate
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={handleArchive}>
+                {canvas.archivedAt ? <ArchiveRestore /> : <Archive />}
+                {canvas.archivedAt ? 'Unarchive' : 'Archive'}
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem variant="destructive" onSelect={() => setIsConfirmingDelete(true)}>
+                <Trash2 /> Delete
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+        <InlineEditableText
+          value={canvas.description || ''}
+          placeholder="Add a description"
+          className="text-sm text-muted-foreground"
+          allowEmpty
+          onSave={(description: string) => saveField({ description: description || null })}
+        />
+        <p className="text-xs text-muted-foreground">
+          {canvas.width} × {canvas.height} · Updated {formatDistanceToNow(canvas.updatedAt, { addSuffix: true })}
+        </p>
+      </CardContent>
+
+      <AlertDialog open={isConfirmingDelete} onOpenChange={setIsConfirmingDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{canvas.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This permanently removes the canvas, its elements and its chat history. Archive it instead to hide it
+              without losing anything.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction className="bg-destructive text-white hover:bg-destructive/90" onClick={handleDelete}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
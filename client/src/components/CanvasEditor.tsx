@@ -0,0 +1,618 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ArrowLeft, FileDown, Group, MessageSquare, Redo2, Undo2, Ungroup } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import CanvasStage, { type ElementUpdate } from '@/components/CanvasStage';
+import ChatPanel from '@/components/ChatPanel';
+import ImageUploadButton from '@/components/ImageUploadButton';
+import PresenceAvatars from '@/components/PresenceAvatars';
+import PropertiesPanel from '@/components/PropertiesPanel';
+import ToolPalette from '@/components/ToolPalette';
+import VersionsDialog from '@/components/VersionsDialog';
+import ZoomControls from '@/components/ZoomControls';
+import { useCanvasEvents } from '@/hooks/useCanvasEvents';
+import { useCanvasViewport } from '@/hooks/useCanvasViewport';
+import { usePresence } from '@/hooks/usePresence';
+import { isImageFile, readFileAsBase64 } from '@/lib/assets';
+import {
+  applyElementChanges,
+  buildImageInput,
+  canRebaseChanges,
+  unionBounds,
+  TOOL_SHORTCUTS,
+  type ElementChanges,
+  type Point,
+  type Tool
+} from '@/lib/canvas';
+import { downloadFile, exportCanvasSvg } from '@/lib/export';
+import { getDescendants, withMemberChanges } from '@/lib/groups';
+import { getDrawnBounds } from '@/lib/transforms';
+import { isEditableTarget } from '@/lib/utils';
+import { MAX_ZOOM, ZOOM_STEP } from '@/lib/viewport';
+import { getConflictState, trpc } from '@/utils/trpc';
+import type {
+  Asset,
+  Canvas,
+  CanvasElement,
+  CanvasEvent,
+  CreateElementInput,
+  HistoryResult,
+  HistoryState,
+  RestoreSnapshotResult
+} from '../../../server/src/schema';
+import { MAX_ASSET_SIZE } from '../../../server/src/asset_limits';
+
+// Distance between images inserted together
+const IMAGE_CASCADE_OFFSET = 24;
+
+interface CanvasEditorProps {
+  canvasId: string;
+  onBack: () => void;
+}
+
+export default function CanvasEditor({ canvasId, onBack }: CanvasEditorProps) {
+  const [canvas, setCanvas] = useState<Canvas | null>(null);
+  const [elements, setElements] = useState<CanvasElement[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [tool, setTool] = useState<Tool>('select');
+  const [isChatOpen, setIsChatOpen] = useState(true);
+  const [history, setHistory] = useState<HistoryState>({ canUndo: false, canRedo: false });
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [stageContainer, setStageContainer] = useState<HTMLDivElement | null>(null);
+  const { viewport, setViewport, zoomBy, zoomToBounds } = useCanvasViewport(canvas, stageContainer);
+  const { viewers, others, self, updateCursor } = usePresence(canvasId, selectedIds);
+
+  const loadCanvas = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const [canvasResult, elementsResult, historyResult] = await Promise.all([
+        trpc.getCanvas.query(canvasId),
+        trpc.getCanvasElements.query(canvasId),
+        trpc.getHistoryState.query(canvasId)
+      ]);
+      setCanvas(canvasResult);
+      setElements(elementsResult);
+      setHistory(historyResult);
+    } catch (err) {
+      console.error('Failed to load canvas:', err);
+      setError('Failed to load canvas. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [canvasId]);
+
+  useEffect(() => {
+    loadCanvas();
+  }, [loadCanvas]);
+
+  const replaceElements = useCallback((updated: CanvasElement[]) => {
+    const byId = new Map(updated.map((element: CanvasElement) => [element.id, element]));
+    setElements((prev: CanvasElement[]) => prev.map((element: CanvasElement) => byId.get(element.id) ?? element));
+  }, []);
+
+  // Any new change becomes the latest undo step and discards what could have been redone
+  const recordChange = useCallback(() => setHistory({ canUndo: true, canRedo: false }), []);
+
+  // Replace elements that are already on the canvas and add the rest
+  const upsertElements = useCallback((incoming: CanvasElement[]) => {
+    const byId = new Map(incoming.map((element: CanvasElement) => [element.id, element]));
+    setElements((prev: CanvasElement[]) => [
+      ...prev.map((element: CanvasElement) => byId.get(element.id) ?? element),
+      ...incoming.filter((element: CanvasElement) => !prev.some((existing: CanvasElement) => existing.id === element.id))
+    ]);
+  }, []);
+
+  const removeElements = useCallback((elementIds: string[]) => {
+    setElements((prev: CanvasElement[]) => prev.filter((element: CanvasElement) => !elementIds.includes(element.id)));
+    setSelectedIds((prev: string[]) => prev.filter((id: string) => !elementIds.includes(id)));
+  }, []);
+
+  const handleUpdateElements = useCallback(async (updates: ElementUpdate[]) => {
+    // Apply optimistically so the element doesn't snap back while the request is in flight. Members of moved
+    // groups follow along locally; only the groups' own changes are sent
+    const changesById = new Map(updates.map((update: ElementUpdate) => [update.id, update.changes]));
+    const optimistic = withMemberChanges(elements, Object.fromEntries(changesById));
+    const previous = elements.filter((element: CanvasElement) => optimistic[element.id] !== undefined);
+    setElements((prev: CanvasElement[]) =>
+      prev.map((element: CanvasElement) => {
+        const changes = optimistic[element.id];
+        return changes ? applyElementChanges(element, changes) : element;
+      })
+    );
+
+    // Every update is based on the version we last saw, so concurrent edits by others aren't silently overwritten.
+    // The batch is all-or-nothing, so a conflict on one element is rebased and the whole batch retried
+    const bases = new Map(previous.map((element: CanvasElement) => [element.id, element]));
+    const rebasedIds = new Set<string>();
+    const saveUpdates = async (): Promise<CanvasElement[]> => {
+      try {
+        const result = await trpc.batchElements.mutate({
+          canvasId,
+          operations: updates.map((update: ElementUpdate) => ({
+            op: 'update' as const,
+            element: { id: update.id, ...update.changes, expectedUpdatedAt: bases.get(update.id)?.updatedAt }
+          }))
+        });
+        return result.elements;
+      } catch (err) {
+        const current = getConflictState<CanvasElement>(err);
+        const base = current && bases.get(current.id);
+        const changes = current && changesById.get(current.id);
+        if (!current || !base || !changes || rebasedIds.has(current.id) || !canRebaseChanges(base, current, changes)) throw err;
+        // Someone else changed other properties; keep theirs and apply ours on top
+        bases.set(current.id, current);
+        rebasedIds.add(current.id);
+        return saveUpdates();
+      }
+    };
+
+    try {
+      // Groups refitted around moved members come back too, so the result may hold elements we didn't send
+      upsertElements(await saveUpdates());
+      recordChange();
+    } catch (err) {
+      const current = getConflictState<CanvasElement>(err);
+      replaceElements(current ? [...previous, current] : previous);
+      if (current) {
+        toast.warning('Someone else changed this element at the same time. Their version was kept.');
+      } else {
+        console.error('Failed to update elements:', err);
+        toast.error('Failed to save changes. Please try again.');
+      }
+    }
+  }, [canvasId, elements, replaceElements, upsertElements, recordChange]);
+
+  const handleCreateElement = useCallback(async (input: CreateElementInput) => {
+    setTool('select');
+    try {
+      const created = await trpc.createElement.mutate(input);
+      upsertElements([created]);
+      setSelectedIds([created.id]);
+      recordChange();
+    } catch (err) {
+      console.error('Failed to create element:', err);
+      toast.error('Failed to create element. Please try again.');
+    }
+  }, [upsertElements, recordChange]);
+
+  // Uploads image files and places them around a canvas point, the middle of the view by default
+  const handleInsertImages = useCallback(async (files: File[], at?: Point) => {
+    if (files.some((file: File) => !isImageFile(file))) {
+      toast.error('Only PNG, JPEG, GIF, WebP and SVG images can be added.');
+    }
+    const images = files.filter(isImageFile);
+    const center = at ?? {
+      x: ((stageContainer?.clientWidth ?? 0) / 2 - viewport.panX) / viewport.zoom,
+      y: ((stageContainer?.clientHeight ?? 0) / 2 - viewport.panY) / viewport.zoom
+    };
+    const zIndex = elements.reduce((max: number, element: CanvasElement) => Math.max(max, element.zIndex), -1) + 1;
+
+    for (const [index, file] of images.entries()) {
+      // Checked up front, so large files fail before they are read and sent
+      if (file.size > MAX_ASSET_SIZE) {
+        toast.error(`${file.name} is larger than ${MAX_ASSET_SIZE / 1024 / 1024} MB.`);
+        continue;
+      }
+      try {
+        const asset = await trpc.uploadAsset.mutate({
+          canvasId,
+          fileName: file.name,
+          mimeType: file.type as Asset['mimeType'],
+          data: await readFileAsBase64(file)
+        });
+        // Several images at once are fanned out so they don't hide each other
+        const offset = index * IMAGE_CASCADE_OFFSET;
+        await handleCreateElement(buildImageInput(canvasId, asset, { x: center.x + offset, y: center.y + offset }, zIndex + index));
+      } catch (err) {
+        console.error('Failed to upload image:', err);
+        toast.error(`Failed to upload ${file.name}. Please try again.`);
+      }
+    }
+  }, [canvasId, elements, handleCreateElement, stageContainer, viewport]);
+
+  const handleDrop = useCallback((event: React.DragEvent<HTMLDivElement>) => {
+    if (event.dataTransfer.files.length === 0) return;
+    event.preventDefault();
+    const rect = event.currentTarget.getBoundingClientRect();
+    handleInsertImages(Array.from(event.dataTransfer.files), {
+      x: (event.clientX - rect.left - viewport.panX) / viewport.zoom,
+      y: (event.clientY - rect.top - viewport.panY) / viewport.zoom
+    });
+  }, [handleInsertImages, viewport]);
+
+  const handleAssistantChanges = useCallback((created: CanvasElement[], modified: CanvasElement[]) => {
+    upsertElements([...modified, ...created]);
+    const changedIds = [...created, ...modified].map((element: CanvasElement) => element.id);
+    // Keep the current selection when the assistant changed nothing, so the user can rephrase
+    if (changedIds.length > 0) {
+      setSelectedIds(changedIds);
+      setTool('select');
+      recordChange();
+    }
+  }, [upsertElements, recordChange]);
+
+  const handleHighlightElements = useCallback((elementIds: string[]) => {
+    const existingIds = elementIds.filter((id: string) => elements.some((element: CanvasElement) => element.id === id));
+    if (existingIds.length === 0) {
+      toast.info('Those elements are no longer on the canvas.');
+      return;
+    }
+    setSelectedIds(existingIds);
+    setTool('select');
+  }, [elements]);
+
+  const handleDeleteSelected = useCallback(async () => {
+    const deletable = elements.filter((element: CanvasElement) => selectedIds.includes(element.id) && !element.locked);
+    if (deletable.length === 0) return;
+
+    // Deleting a group deletes everything inside it
+    const deletedIds = deletable.flatMap((element: CanvasElement) => [
+      element.id,
+      ...getDescendants(elements, element.id).map((member: CanvasElement) => member.id)
+    ]);
+    removeElements(deletedIds);
+
+    try {
+      const result = await trpc.batchElements.mutate({
+        canvasId,
+        operations: deletable.map((element: CanvasElement) => ({ op: 'delete' as const, id: element.id }))
+      });
+      // The groups the deleted elements were in are refitted around what is left
+      upsertElements(result.elements);
+      recordChange();
+    } catch (err) {
+      console.error('Failed to delete elements:', err);
+      toast.error('Failed to delete elements. Please try again.');
+      loadCanvas();
+    }
+  }, [canvasId, elements, selectedIds, loadCanvas, removeElements, upsertElements, recordChange]);
+
+  const selectedElements = elements.filter((element: CanvasElement) => selectedIds.includes(element.id));
+  const canGroup = selectedElements.length >= 2;
+  const canUngroup = selectedElements.some((element: CanvasElement) => element.type === 'group');
+  // Groups have no properties of their own to edit
+  const editedElement = selectedElements.length === 1 && selectedElements[0].type !== 'group' ? selectedElements[0] : null;
+
+  const handleGroup = useCallback(async () => {
+    const grouped = elements.filter((element: CanvasElement) => selectedIds.includes(element.id));
+    if (grouped.length < 2) return;
+    if (grouped.some((element: CanvasElement) => element.parentId !== grouped[0].parentId)) {
+      toast.error('Only elements in the same group can be grouped together.');
+      return;
+    }
+
+    try {
+      const result = await trpc.groupElements.mutate({
+        canvasId,
+        elementIds: grouped.map((element: CanvasElement) => element.id)
+      });
+      upsertElements(result.elements);
+      setSelectedIds([result.elements[0].id]);
+      recordChange();
+    } catch (err) {
+      console.error('Failed to group elements:', err);
+      toast.error('Failed to group elements. Please try again.');
+    }
+  }, [canvasId, elements, selectedIds, upsertElements, recordChange]);
+
+  const handleUngroup = useCallback(async () => {
+    const groups = elements.filter((element: CanvasElement) => selectedIds.includes(element.id) && element.type === 'group');
+    if (groups.length === 0) return;
+
+    try {
+      // The former members stay selected in place of their groups
+      const memberIds: string[] = [];
+      for (const group of groups) {
+        const result = await trpc.ungroupElements.mutate(group.id);
+        removeElements(result.deletedElementIds);
+        upsertElements(result.elements);
+        memberIds.push(...result.elements.map((element: CanvasElement) => element.id));
+      }
+      setSelectedIds((prev: string[]) => [...prev, ...memberIds]);
+      recordChange();
+    } catch (err) {
+      console.error('Failed to ungroup elements:', err);
+      toast.error('Failed to ungroup elements. Please try again.');
+    }
+  }, [elements, selectedIds, removeElements, upsertElements, recordChange]);
+
+  const applyHistoryResult = useCallback((result: HistoryResult) => {
+    removeElements(result.deletedElementIds);
+    upsertElements(result.elements);
+    setHistory({ canUndo: result.canUndo, canRedo: result.canRedo });
+  }, [removeElements, upsertElements]);
+
+  const handleSnapshotRestored = useCallback((result: RestoreSnapshotResult) => {
+    setCanvas(result.canvas);
+    setElements(result.elements);
+    setSelectedIds([]);
+    recordChange();
+  }, [recordChange]);
+
+  const handleUndo = useCallback(async () => {
+    try {
+      applyHistoryResult(await trpc.undo.mutate(canvasId));
+    } catch (err) {
+      console.error('Failed to undo:', err);
+      toast.error('Failed to undo. Please try again.');
+    }
+  }, [canvasId, applyHistoryResult]);
+
+  const handleRedo = useCallback(async () => {
+    try {
+      applyHistoryResult(await trpc.redo.mutate(canvasId));
+    } catch (err) {
+      console.error('Failed to redo:', err);
+      toast.error('Failed to redo. Please try again.');
+    }
+  }, [canvasId, applyHistoryResult]);
+
+  const handleExport = useCallback(async () => {
+    if (!canvas) return;
+    try {
+      downloadFile(`${canvas.name}.svg`, await exportCanvasSvg(canvas, elements), 'image/svg+xml');
+    } catch (err) {
+      console.error('Failed to export canvas:', err);
+      toast.error('Failed to export the canvas. Please try again.');
+    }
+  }, [canvas, elements]);
+
+  // Changes from other editors (and echoes of our own) arrive here; applying them is idempotent
+  const handleCanvasEvent = useCallback((event: CanvasEvent) => {
+    switch (event.type) {
+      case 'elements.created':
+      case 'elements.updated':
+        upsertElements(event.elements);
+        break;
+      case 'elements.deleted':
+        removeElements(event.elementIds);
+        break;
+      case 'canvas.updated':
+        setCanvas(event.canvas);
+        return;
+      case 'chat.messages':
+        // The chat panel follows these itself
+        return;
+      case 'history.changed':
+        setHistory({ canUndo: event.canUndo, canRedo: event.canRedo });
+        return;
+    }
+
+    // Element changes are new undo steps that discard the redo steps, unless they come from an undo or redo,
+    // which is followed by the history state it left
+    recordChange();
+  }, [upsertElements, removeElements, recordChange]);
+
+  useCanvasEvents(canvasId, handleCanvasEvent);
+
+  const handleZoomToFit = useCallback(() => {
+    if (canvas) {
+      zoomToBounds({ x: 0, y: 0, width: canvas.width, height: canvas.height });
+    }
+  }, [canvas, zoomToBounds]);
+
+  const handleZoomToSelection = useCallback(() => {
+    const bounds = unionBounds(
+      elements
+        .filter((element: CanvasElement) => selectedIds.includes(element.id))
+        .map(getDrawnBounds)
+    );
+    if (bounds) {
+      zoomToBounds(bounds, MAX_ZOOM);
+    }
+  }, [elements, selectedIds, zoomToBounds]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isEditableTarget(event.target)) return;
+
+      if ((event.ctrlKey || event.metaKey) && (event.key === '=' || event.key === '+')) {
+        event.preventDefault();
+        zoomBy(ZOOM_STEP);
+        return;
+      }
+      if ((event.ctrlKey || event.metaKey) && event.key === '-') {
+        event.preventDefault();
+        zoomBy(1 / ZOOM_STEP);
+        return;
+      }
+      // Ctrl+Shift+Z and Ctrl+Y both redo, matching the common Windows and macOS conventions
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'z') {
+        event.preventDefault();
+        if (event.shiftKey) {
+          handleRedo();
+        } else {
+          handleUndo();
+        }
+        return;
+      }
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'y') {
+        event.preventDefault();
+        handleRedo();
+        return;
+      }
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'g') {
+        event.preventDefault();
+        if (event.shiftKey) {
+          handleUngroup();
+        } else {
+          handleGroup();
+        }
+        return;
+      }
+      if (event.ctrlKey || event.metaKey || event.altKey) return;
+
+      // Shift+1 / Shift+2 as in most design tools; event.code is layout independent
+      if (event.shiftKey && event.code === 'Digit1') {
+        handleZoomToFit();
+      } else if (event.shiftKey && event.code === 'Digit2') {
+        handleZoomToSelection();
+      } else if (event.key === 'Delete' || event.key === 'Backspace') {
+        event.preventDefault();
+        handleDeleteSelected();
+      } else if (event.key === 'Escape') {
+        setSelectedIds([]);
+        setTool('select');
+      } else if (TOOL_SHORTCUTS[event.key.toLowerCase()]) {
+        setTool(TOOL_SHORTCUTS[event.key.toLowerCase()]);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleDeleteSelected, handleGroup, handleRedo, handleUndo, handleUngroup, handleZoomToFit, handleZoomToSelection, zoomBy]);
+
+  if (error) {
+    return (
+      <div className="flex h-full flex-col items-center justify-center gap-4">
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">{error}</div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={onBack}>
+            Back to canvases
+          </Button>
+          <Button variant="outline" onClick={loadCanvas}>
+            Retry
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (isLoading || !canvas) {
+    return (
+      <div className="flex h-full items-center justify-center p-8">
+        <Skeleton className="h-full w-full max-w-5xl" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex h-full flex-col">
+      <header className="flex items-center justify-between gap-4 border-b px-4 py-2">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" onClick={onBack} title="Back to canvases" aria-label="Back to canvases">
+            <ArrowLeft />
+          </Button>
+          <div>
+            <h1 className="text-lg font-semibold">{canvas.name}</h1>
+            {canvas.description && <p className="text-sm text-muted-foreground">{canvas.description}</p>}
+          </div>
+        </div>
+        <div className="flex items-center gap-1">
+          <ToolPalette tool={tool} onToolChange={setTool} />
+          <ImageUploadButton onSelect={handleInsertImages} />
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={handleGroup}
+            disabled={!canGroup}
+            title="Group (Ctrl+G)"
+            aria-label="Group"
+          >
+            <Group />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={handleUngroup}
+            disabled={!canUngroup}
+            title="Ungroup (Ctrl+Shift+G)"
+            aria-label="Ungroup"
+          >
+            <Ungroup />
+          </Button>
+        </div>
+        <div className="flex items-center gap-2">
+          <PresenceAvatars viewers={viewers} selfSessionId={self.sessionId} />
+          <div className="flex items-center">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={handleUndo}
+              disabled={!history.canUndo}
+              title="Undo (Ctrl+Z)"
+              aria-label="Undo"
+            >
+              <Undo2 />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={handleRedo}
+              disabled={!history.canRedo}
+              title="Redo (Ctrl+Shift+Z)"
+              aria-label="Redo"
+            >
+              <Redo2 />
+            </Button>
+            <VersionsDialog canvasId={canvasId} onRestored={handleSnapshotRestored} />
+            <Button variant="ghost" size="icon" onClick={handleExport} title="Export as SVG" aria-label="Export as SVG">
+              <FileDown />
+            </Button>
+          </div>
+          <ZoomControls
+            zoom={viewport.zoom}
+            canZoomToSelection={selectedIds.length > 0}
+            onZoomIn={() => zoomBy(ZOOM_STEP)}
+            onZoomOut={() => zoomBy(1 / ZOOM_STEP)}
+            onZoomToFit={handleZoomToFit}
+            onZoomToSelection={handleZoomToSelection}
+          />
+          <Button
+            variant={isChatOpen ? 'secondary' : 'ghost'}
+            size="icon"
+            onClick={() => setIsChatOpen((open: boolean) => !open)}
+            title={isChatOpen ? 'Hide AI assistant' : 'Show AI assistant'}
+            aria-label="Toggle AI assistant"
+            aria-pressed={isChatOpen}
+          >
+            <MessageSquare />
+          </Button>
+        </div>
+      </header>
+
+      <div className="flex min-h-0 flex-1">
+        <div
+          ref={setStageContainer}
+          className="flex-1 overflow-hidden bg-muted"
+          onDragOver={(event: React.DragEvent<HTMLDivElement>) => {
+            // Accept dropped files
+            if (event.dataTransfer.types.includes('Files')) event.preventDefault();
+          }}
+          onDrop={handleDrop}
+        >
+          <CanvasStage
+            canvas={canvas}
+            elements={elements}
+            selectedIds={selectedIds}
+            tool={tool}
+            viewport={viewport}
+            onViewportChange={setViewport}
+            onSelectionChange={setSelectedIds}
+            onUpdateElements={handleUpdateElements}
+            onCreateElement={handleCreateElement}
+            remoteViewers={others}
+            onCursorMove={updateCursor}
+          />
+        </div>
+        {editedElement && (
+          <PropertiesPanel
+            element={editedElement}
+            onChange={(changes: ElementChanges) => handleUpdateElements([{ id: editedElement.id, changes }])}
+          />
+        )}
+        {isChatOpen && (
+          <ChatPanel
+            canvasId={canvas.id}
+            selectedIds={selectedIds}
+            onElementsChanged={handleAssistantChanges}
+            onHighlightElements={handleHighlightElements}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,476 @@
+import { Fragment } from 'react';
+import { getAssetUrl } from '@/lib/assets';
+import { getElementBounds, type Bounds } from '@/lib/canvas';
+import { getEffectsFilterId, getFilterEffects, getFilterRegion } from '@/lib/effects';
+import { getFillLayers, getFillPaint, getGradientId, getLinearGradientPoints } from '@/lib/fills';
+import { getPathData } from '@/lib/paths';
+import { getArrowHeadShape, getEllipsePath, getPolygonPoints, getStarPoints, type ArrowHeadShape } from '@/lib/shapes';
+import { getBlendStyle, getStrokeLayers, getStrokePaint, getStrokeReach } from '@/lib/strokes';
+import { DEFAULT_TEXT_STYLE, layoutText, type TextLine, type TextSegment } from '@/lib/text';
+import { getSvgTransform } from '@/lib/transforms';
+import type { CanvasElement, ElementEffect, FillStyle, StrokeStyle } from '../../../server/src/schema';
+
+const LINE_HIT_WIDTH = 10;
+
+const DEFAULT_TEXT_FILL: FillStyle = { type: 'solid', color: '#000000', opacity: 1 };
+
+type Paint = React.SVGAttributes<SVGElement>;
+
+type ImageFit = NonNullable<CanvasElement['imageProps']>['fit'];
+
+const PRESERVE_ASPECT_RATIO: Record<ImageFit, string> = {
+  fill: 'none',
+  contain: 'xMidYMid meet',
+  cover: 'xMidYMid slice'
+};
+
+interface CanvasElementShapeProps {
+  element: CanvasElement;
+  // Put before the ids of the element's gradients, filters, clips and masks, so a copy of the element drawn
+  // in the same document doesn't take over the original's definitions
+  idPrefix?: string;
+}
+
+type GradientFill = Exclude<FillStyle, { type: 'solid' }>;
+
+/**
+ * Renders a single canvas element as SVG in canvas coordinates, with its transform applied
+ */
+export default function CanvasElementShape({ element, idPrefix = '' }: CanvasElementShapeProps) {
+  if (!element.visible) {
+    return null;
+  }
+
+  const defsId = `${idPrefix}${element.id}`;
+  const transform = getSvgTransform(element);
+  const effects = getFilterEffects(element.effects);
+  const content = (
+    <>
+      {getFillLayers(element).map((fill: FillStyle, index: number) => fill.type !== 'solid' && (
+        <FillGradient key={index} id={getGradientId(defsId, index)} element={element} fill={fill} />
+      ))}
+      {effects.length > 0 ? (
+        <>
+          <EffectsFilter id={getEffectsFilterId(defsId)} element={element} effects={effects} />
+          <g filter={`url(#${getEffectsFilterId(defsId)})`}>
+            <ElementGeometry element={element} defsId={defsId} />
+          </g>
+        </>
+      ) : (
+        <ElementGeometry element={element} defsId={defsId} />
+      )}
+    </>
+  );
+  return transform ? <g transform={transform}>{content}</g> : content;
+}
+
+/**
+ * Definition of the gradient a fill refers to. Linear gradients span the element's box at their true angle;
+ * radial ones stretch with the box, so a centered radius of 0.5 always touches its edges
+ */
+function FillGradient({ id, element, fill }: { id: string; element: CanvasElement; fill: GradientFill }) {
+  const stops = fill.stops.map((stop, index: number) => (
+    <stop key={index} offset={stop.offset} stopColor={stop.color} stopOpacity={stop.opacity} />
+  ));
+
+  if (fill.type === 'radial') {
+    return (
+      <defs>
+        <radialGradient id={id} cx={fill.center.x} cy={fill.center.y} r={fill.radius}>
+          {stops}
+        </radialGradient>
+      </defs>
+    );
+  }
+
+  const { x, y } = element.position;
+  const { start, end } = getLinearGradientPoints(
+    { x, y, width: element.dimensions?.width ?? 0, height: element.dimensions?.height ?? 0 },
+    fill.angle
+  );
+  return (
+    <defs>
+      <linearGradient id={id} gradientUnits="userSpaceOnUse" x1={start.x} y1={start.y} x2={end.x} y2={end.y}>
+        {stops}
+      </linearGradient>
+    </defs>
+  );
+}
+
+/**
+ * Filter drawing an element's shadows and layer blurs, in their order: drop shadows behind the element, inner
+ * shadows on top of it, and the blurs over the result. Shadows are the element's silhouette grown by their spread,
+ * blurred, offset and colored; inner shadows are cast by the silhouette's inverse and cut back to the shape
+ */
+function EffectsFilter({ id, element, effects }: { id: string; element: CanvasElement; effects: ElementEffect[] }) {
+  const region = getFilterRegion(getElementBounds(element), effects, getStrokeReach(getStrokeLayers(element)));
+  const dropShadows: string[] = [];
+  const innerShadows: string[] = [];
+  const primitives = effects.flatMap((effect: ElementEffect, index: number) => {
+    if (effect.type !== 'drop-shadow' && effect.type !== 'inner-shadow') {
+      return [];
+    }
+    const inner = effect.type === 'inner-shadow';
+    const source = inner ? 'inverse' : 'SourceAlpha';
+    const result = `shadow-${index}`;
+    (inner ? innerShadows : dropShadows).push(result);
+    return [
+      ...(effect.spread !== 0 ? [
+        <feMorphology
+          key={`${result}-spread`}
+          in={source}
+          operator={effect.spread < 0 ? 'erode' : 'dilate'}
+          radius={Math.abs(effect.spread)}
+          result={`${result}-spread`}
+        />
+      ] : []),
+      <feGaussianBlur
+        key={`${result}-blur`}
+        in={effect.spread !== 0 ? `${result}-spread` : source}
+        stdDeviation={effect.blur / 2}
+      />,
+      <feOffset key={`${result}-offset`} dx={effect.offset.x} dy={effect.offset.y} result={`${result}-shape`} />,
+      <feFlood key={`${result}-color`} floodColor={effect.color} floodOpacity={effect.opacity} />,
+      <feComposite
+        key={result}
+        operator="in"
+        in2={`${result}-shape`}
+        result={inner ? `${result}-unclipped` : result}
+      />,
+      ...(inner ? [<feComposite key={`${result}-clip`} operator="in" in2="SourceAlpha" result={result} />] : [])
+    ];
+  });
+  const blur = Math.max(0, ...effects.map((effect: ElementEffect) => effect.type === 'layer-blur' ? effect.blur : 0));
+
+  return (
+    <defs>
+      <filter
+        id={id}
+        filterUnits="userSpaceOnUse"
+        x={region.x}
+        y={region.y}
+        width={region.width}
+        height={region.height}
+      >
+        {innerShadows.length > 0 && (
+          <feComponentTransfer in="SourceAlpha" result="inverse">
+            <feFuncA type="table" tableValues="1 0" />
+          </feComponentTransfer>
+        )}
+        {primitives}
+        <feMerge>
+          {[...dropShadows, 'SourceGraphic', ...innerShadows].map((name: string) => <feMergeNode key={name} in={name} />)}
+        </feMerge>
+        {blur > 0 && <feGaussianBlur stdDeviation={blur / 2} />}
+      </filter>
+    </defs>
+  );
+}
+
+/**
+ * The element's own shape, in its untransformed box. `defsId` is what the ids of its definitions are built from
+ */
+function ElementGeometry({ element, defsId }: { element: CanvasElement; defsId: string }) {
+  const fills = getFillLayers(element);
+  const strokes = getStrokeLayers(element);
+  const { x, y } = element.position;
+  const width = element.dimensions?.width ?? 0;
+  const height = element.dimensions?.height ?? 0;
+  const bounds = { x, y, width, height };
+  const layers = { element, defsId, fills, strokes, bounds };
+
+  switch (element.type) {
+    case 'rectangle': {
+      const radius = element.rectangleProps?.borderRadius ?? 0;
+      return (
+        <PaintLayers
+          {...layers}
+          shape={(paint: Paint) => <rect x={x} y={y} width={width} height={height} rx={radius} ry={radius} {...paint} />}
+        />
+      );
+    }
+
+    case 'circle':
+      return (
+        <PaintLayers
+          {...layers}
+          shape={(paint: Paint) => <ellipse cx={x + width / 2} cy={y + height / 2} rx={width / 2} ry={height / 2} {...paint} />}
+        />
+      );
+
+    case 'ellipse': {
+      const path = element.ellipseProps && getEllipsePath(bounds, element.ellipseProps);
+      return (
+        <PaintLayers
+          {...layers}
+          shape={(paint: Paint) => path
+            ? <path d={path} fillRule="evenodd" clipRule="evenodd" {...paint} />
+            : <ellipse cx={x + width / 2} cy={y + height / 2} rx={width / 2} ry={height / 2} {...paint} />}
+        />
+      );
+    }
+
+    case 'polygon': {
+      const points = getPolygonPoints(bounds, element.polygonProps?.sides ?? 6);
+      return <PaintLayers {...layers} shape={(paint: Paint) => <polygon points={points} {...paint} />} />;
+    }
+
+    case 'star': {
+      const points = getStarPoints(bounds, element.starProps?.points ?? 5, element.starProps?.innerRadius ?? 0.5);
+      return <PaintLayers {...layers} shape={(paint: Paint) => <polygon points={points} {...paint} />} />;
+    }
+
+    case 'arrow': {
+      if (!element.arrowProps) {
+        return null;
+      }
+      const { x1, y1, x2, y2, startHead, endHead } = element.arrowProps;
+      const length = Math.hypot(x2 - x1, y2 - y1) || 1;
+
+      return (
+        <g data-element-id={element.id}>
+          {strokes.map((stroke: StrokeStyle, index: number) => {
+            const paint = getStrokePaint(stroke);
+            const start = getArrowHeadShape(startHead, { x: x2, y: y2 }, { x: x1, y: y1 }, stroke.width);
+            const end = getArrowHeadShape(endHead, { x: x1, y: y1 }, { x: x2, y: y2 }, stroke.width);
+            // Stop the shaft at closed heads so a wide stroke doesn't show through their tips
+            const startInset = Math.min(start?.inset ?? 0, length / 2) / length;
+            const endInset = Math.min(end?.inset ?? 0, length / 2) / length;
+            // Dashes run along the shaft; heads are always drawn whole
+            const renderHead = (head: ArrowHeadShape | null, key: string) => head && (
+              <path
+                key={key}
+                d={head.d}
+                {...paint}
+                fill={head.closed ? stroke.color : 'none'}
+                fillOpacity={stroke.opacity}
+                strokeLinejoin="miter"
+                strokeDasharray={undefined}
+              />
+            );
+
+            return (
+              <g key={index} style={getBlendStyle(stroke.blendMode)}>
+                <line
+                  x1={x1 + (x2 - x1) * startInset}
+                  y1={y1 + (y2 - y1) * startInset}
+                  x2={x2 - (x2 - x1) * endInset}
+                  y2={y2 - (y2 - y1) * endInset}
+                  {...paint}
+                />
+                {renderHead(start, 'start')}
+                {renderHead(end, 'end')}
+              </g>
+            );
+          })}
+          <line x1={x1} y1={y1} x2={x2} y2={y2} stroke="transparent" strokeWidth={LINE_HIT_WIDTH} />
+        </g>
+      );
+    }
+
+    case 'path': {
+      if (!element.pathProps) {
+        return null;
+      }
+      const d = getPathData(element.pathProps.commands);
+      const { commands, fillRule } = element.pathProps;
+      return (
+        <PaintLayers
+          {...layers}
+          shape={(paint: Paint) => <path d={d} fillRule={fillRule} clipRule={fillRule} {...paint} />}
+          closed={commands[commands.length - 1].type === 'close'}
+        >
+          {/* Unfilled paths are as hard to hit as lines */}
+          <path d={d} fill="none" stroke="transparent" strokeWidth={LINE_HIT_WIDTH} />
+        </PaintLayers>
+      );
+    }
+
+    case 'image': {
+      if (!element.imageProps) {
+        return null;
+      }
+      const { assetId, fit, crop } = element.imageProps;
+      const href = getAssetUrl(assetId);
+      const preserveAspectRatio = PRESERVE_ASPECT_RATIO[fit];
+
+      // Fills show behind transparent and letterboxed areas, which still select the image
+      return (
+        <PaintLayers {...layers} shape={(paint: Paint) => <rect x={x} y={y} width={width} height={height} {...paint} />}>
+          <rect x={x} y={y} width={width} height={height} fill="transparent" />
+          {crop ? (
+            // The viewBox picks the crop out of the image at its natural size; the clip hides the rest when letterboxed
+            <svg
+              x={x}
+              y={y}
+              width={width}
+              height={height}
+              viewBox={`${crop.x} ${crop.y} ${crop.width} ${crop.height}`}
+              preserveAspectRatio={preserveAspectRatio}
+            >
+              <clipPath id={`crop-${defsId}`}>
+                <rect x={crop.x} y={crop.y} width={crop.width} height={crop.height} />
+              </clipPath>
+              <image href={href} clipPath={`url(#crop-${defsId})`} />
+            </svg>
+          ) : (
+            <image href={href} x={x} y={y} width={width} height={height} preserveAspectRatio={preserveAspectRatio} />
+          )}
+        </PaintLayers>
+      );
+    }
+
+    case 'line': {
+      if (!element.lineProps) {
+        return null;
+      }
+      const { x1, y1, x2, y2 } = element.lineProps;
+      return (
+        <PaintLayers {...layers} fills={[]} shape={(paint: Paint) => <line x1={x1} y1={y1} x2={x2} y2={y2} {...paint} />} closed={false}>
+          {/* Thin lines are hard to hit, so add a wider invisible stroke for pointer events */}
+          <line x1={x1} y1={y1} x2={x2} y2={y2} stroke="transparent" strokeWidth={LINE_HIT_WIDTH} />
+        </PaintLayers>
+      );
+    }
+
+    case 'text': {
+      if (!element.textProps) {
+        return null;
+      }
+      const textStyle = element.textStyle ?? DEFAULT_TEXT_STYLE;
+      const { textAlign } = textStyle;
+      const boxWidth = element.textProps.maxWidth ?? width;
+      const anchorX = textAlign === 'center' ? x + boxWidth / 2 : textAlign === 'right' ? x + boxWidth : x;
+      const { lines } = layoutText(element.textProps, textStyle);
+
+      return (
+        <PaintLayers
+          {...layers}
+          // Text without an explicit fill would be invisible, so fall back to black
+          fills={fills.length > 0 ? fills : [DEFAULT_TEXT_FILL]}
+          closed={false}
+          shape={(paint: Paint) => {
+            // Colored runs keep their color in every fill layer but are outlined like the rest
+            const filled = paint.fill !== undefined && paint.fill !== 'none';
+            return (
+              <text
+                fontFamily={textStyle.fontFamily}
+                fontSize={textStyle.fontSize}
+                fontWeight={textStyle.fontWeight}
+                textAnchor={textAlign === 'center' ? 'middle' : textAlign === 'right' ? 'end' : 'start'}
+                {...paint}
+                style={{ ...paint.style, whiteSpace: 'pre' }}
+              >
+                {lines.map((line: TextLine, index: number) => (
+                  <tspan key={index} x={anchorX} y={y + line.baseline}>
+                    {line.segments.map((segment: TextSegment, segmentIndex: number) => (
+                      <tspan
+                        key={segmentIndex}
+                        fontSize={segment.style.fontSize}
+                        fontWeight={segment.style.fontWeight}
+                        fontStyle={segment.style.italic ? 'italic' : undefined}
+                        textDecoration={segment.style.underline ? 'underline' : undefined}
+                        fill={filled ? segment.style.color : undefined}
+                      >
+                        {segment.text}
+                      </tspan>
+                    ))}
+                  </tspan>
+                ))}
+              </text>
+            );
+          }}
+        />
+      );
+    }
+
+    default:
+      return null;
+  }
+}
+
+interface PaintLayersProps {
+  element: CanvasElement;
+  defsId: string;
+  fills: FillStyle[];
+  strokes: StrokeStyle[];
+  bounds: Bounds;
+  // The bare shape with the given presentation attributes
+  shape: (paint: Paint) => React.ReactNode;
+  // Only closed outlines have an inside and an outside to align strokes to
+  closed?: boolean;
+  // Drawn between the fills and the strokes
+  children?: React.ReactNode;
+}
+
+/**
+ * An element's shape drawn once per fill layer and then once per stroke layer, bottom to top
+ */
+function PaintLayers({ element, defsId, fills, strokes, bounds, shape, closed = true, children }: PaintLayersProps) {
+  return (
+    <g data-element-id={element.id}>
+      {fills.map((fill: FillStyle, index: number) => (
+        <Fragment key={`fill-${index}`}>
+          {shape({
+            fill: getFillPaint(defsId, index, fill),
+            fillOpacity: fill.opacity,
+            stroke: 'none',
+            style: getBlendStyle(fill.blendMode)
+          })}
+        </Fragment>
+      ))}
+      {children}
+      {strokes.map((stroke: StrokeStyle, index: number) => (
+        <StrokeLayer
+          key={`stroke-${index}`}
+          id={`stroke-${defsId}-${index}`}
+          stroke={stroke}
+          bounds={bounds}
+          shape={shape}
+          align={closed ? stroke.align ?? 'center' : 'center'}
+        />
+      ))}
+    </g>
+  );
+}
+
+interface StrokeLayerProps {
+  id: string;
+  stroke: StrokeStyle;
+  bounds: Bounds;
+  shape: (paint: Paint) => React.ReactNode;
+  align: NonNullable<StrokeStyle['align']>;
+}
+
+/**
+ * A stroke layer on the shape. SVG only centers strokes on the outline, so inside and outside strokes are drawn
+ * twice as wide and the half on the wrong side of the outline is cut away
+ */
+function StrokeLayer({ id, stroke, bounds, shape, align }: StrokeLayerProps) {
+  const paint = getStrokePaint(stroke);
+  if (align === 'center') {
+    return shape({ ...paint, style: getBlendStyle(stroke.blendMode) });
+  }
+
+  const wide = { ...paint, strokeWidth: stroke.width * 2 };
+  if (align === 'inside') {
+    return (
+      <g style={getBlendStyle(stroke.blendMode)}>
+        <clipPath id={id}>{shape({})}</clipPath>
+        <g clipPath={`url(#${id})`}>{shape(wide)}</g>
+      </g>
+    );
+  }
+
+  const reach = getStrokeReach([stroke]) + 1;
+  const region = { x: bounds.x - reach, y: bounds.y - reach, width: bounds.width + reach * 2, height: bounds.height + reach * 2 };
+  return (
+    <g style={getBlendStyle(stroke.blendMode)}>
+      <mask id={id} maskUnits="userSpaceOnUse" {...region}>
+        <rect {...region} fill="white" />
+        {shape({ fill: 'black', stroke: 'none' })}
+      </mask>
+      <g mask={`url(#${id})`}>{shape(wide)}</g>
+    </g>
+  );
+}
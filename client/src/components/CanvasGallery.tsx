@@ -0,0 +1,121 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import CanvasCard from '@/components/CanvasCard';
+import CreateCanvasDialog from '@/components/CreateCanvasDialog';
+import { trpc } from '@/utils/trpc';
+import type { Canvas, GetAllCanvasesInput } from '../../../server/src/schema';
+
+interface CanvasGalleryProps {
+  onOpenCanvas: (canvasId: string) => void;
+}
+
+const SORT_OPTIONS: Record<string, { label: string; input: GetAllCanvasesInput }> = {
+  recent: { label: 'Last modified', input: { sortBy: 'updatedAt', sortOrder: 'desc' } },
+  newest: { label: 'Newest first', input: { sortBy: 'createdAt', sortOrder: 'desc' } },
+  'name-asc': { label: 'Name (A–Z)', input: { sortBy: 'name', sortOrder: 'asc' } },
+  'name-desc': { label: 'Name (Z–A)', input: { sortBy: 'name', sortOrder: 'desc' } }
+};
+
+export default function CanvasGallery({ onOpenCanvas }: CanvasGalleryProps) {
+  const [canvases, setCanvases] = useState<Canvas[]>([]);
+  const [sort, setSort] = useState('recent');
+  const [showArchived, setShowArchived] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadCanvases = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const result = await trpc.getAllCanvases.query({ ...SORT_OPTIONS[sort].input, includeArchived: showArchived });
+      setCanvases(result);
+    } catch (err) {
+      console.error('Failed to load canvases:', err);
+      setError('Failed to load canvases. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [sort, showArchived]);
+
+  useEffect(() => {
+    loadCanvases();
+  }, [loadCanvases]);
+
+  const handleCanvasDeleted = (canvasId: string) => {
+    setCanvases((prev: Canvas[]) => prev.filter((canvas: Canvas) => canvas.id !== canvasId));
+  };
+
+  const handleCanvasUpdated = (updated: Canvas) => {
+    // Archiving a canvas drops it from the list unless archived canvases are shown
+    if (updated.archivedAt && !showArchived) {
+      handleCanvasDeleted(updated.id);
+      return;
+    }
+    setCanvases((prev: Canvas[]) => prev.map((canvas: Canvas) => (canvas.id === updated.id ? updated : canvas)));
+  };
+
+  return (
+    <div className="container mx-auto space-y-6 p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h1 className="text-3xl font-bold">Canvases</h1>
+        <div className="flex items-center gap-2">
+          <div className="flex items-center gap-2 px-2">
+            <Switch id="show-archived" checked={showArchived} onCheckedChange={setShowArchived} />
+            <Label htmlFor="show-archived">Show archived</Label>
+          </div>
+          <Select value={sort} onValueChange={setSort}>
+            <SelectTrigger className="w-44" aria-label="Sort canvases">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(SORT_OPTIONS).map(([value, option]) => (
+                <SelectItem key={value} value={value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <CreateCanvasDialog onCreated={(canvas: Canvas) => onOpenCanvas(canvas.id)} />
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center justify-between bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+          <span>{error}</span>
+          <Button variant="outline" size="sm" onClick={loadCanvases}>
+            Retry
+          </Button>
+        </div>
+      )}
+
+      {isLoading && canvases.length === 0 ? (
+        <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
+          {Array.from({ length: 4 }, (_, index: number) => (
+            <Skeleton key={index} className="aspect-[4/3] w-full" />
+          ))}
+        </div>
+      ) : canvases.length === 0 && !error ? (
+        <div className="py-16 text-center">
+          <p className="text-muted-foreground">No canvases yet. Create one to start designing.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
+          {canvases.map((canvas: Canvas) => (
+            <CanvasCard
+              key={canvas.id}
+              canvas={canvas}
+              onOpen={(opened: Canvas) => onOpenCanvas(opened.id)}
+              onUpdated={handleCanvasUpdated}
+              onDuplicated={loadCanvases}
+              onDeleted={handleCanvasDeleted}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,508 @@
+import { useState, useRef, useEffect, useMemo } from 'react';
+import CanvasArtboard from '@/components/CanvasArtboard';
+import PresenceOverlay from '@/components/PresenceOverlay';
+import SelectionOverlay from '@/components/SelectionOverlay';
+import TextEditor from '@/components/TextEditor';
+import {
+  applyElementChanges,
+  buildElementInput,
+  buildPathInput,
+  getLineEndpointChanges,
+  getMoveChanges,
+  getResizeChanges,
+  previewElement,
+  type ElementChanges,
+  type LineEndpoint,
+  type Point,
+  type ResizeHandle,
+  type ShapeTool,
+  type Tool
+} from '@/lib/canvas';
+import { getAncestorIds, getOutermostId, withMemberChanges } from '@/lib/groups';
+import { getFreehandCommands, getPenCommands, type PenAnchor } from '@/lib/paths';
+import { getTransformOrigin, IDENTITY_TRANSFORM, resizeElementBounds, toElementPoint } from '@/lib/transforms';
+import { isEditableTarget } from '@/lib/utils';
+import { zoomAtPoint, type Viewport } from '@/lib/viewport';
+import type { Canvas, CanvasElement, CreateElementInput, Viewer } from '../../../server/src/schema';
+
+export interface ElementUpdate {
+  id: string;
+  changes: ElementChanges;
+}
+
+interface CanvasStageProps {
+  canvas: Canvas;
+  elements: CanvasElement[];
+  selectedIds: string[];
+  tool: Tool;
+  viewport: Viewport;
+  onViewportChange: (viewport: Viewport) => void;
+  onSelectionChange: (ids: string[]) => void;
+  onUpdateElements: (updates: ElementUpdate[]) => void;
+  onCreateElement: (input: CreateElementInput) => void;
+  // Other people viewing the canvas, whose cursors and selections are drawn on top
+  remoteViewers: Viewer[];
+  // Pointer position in canvas coordinates, or null when it leaves the stage
+  onCursorMove: (point: Point | null) => void;
+}
+
+// The pointer gesture currently in progress, captured at pointerdown
+type Interaction =
+  | { kind: 'move'; start: Point; elements: CanvasElement[] }
+  | { kind: 'resize'; start: Point; element: CanvasElement; handle: ResizeHandle }
+  | { kind: 'endpoint'; element: CanvasElement; endpoint: LineEndpoint }
+  | { kind: 'rotate'; element: CanvasElement; startAngle: number }
+  | { kind: 'draw'; tool: ShapeTool; start: Point }
+  | { kind: 'freehand'; points: Point[] }
+  | { kind: 'pen'; anchorIndex: number }
+  | { kind: 'pan'; start: Point; viewport: Viewport };
+
+const DRAFT_ELEMENT_ID = 'draft';
+
+// Wheel deltas are in pixels; pinch gestures arrive as ctrl+wheel with much smaller deltas
+const WHEEL_ZOOM_SPEED = 0.002;
+const PINCH_ZOOM_SPEED = 0.01;
+
+// Screen pixels: how close a pen click must be to an anchor to close or finish the path, and how much
+// pencil jitter is smoothed away
+const PEN_SNAP_DISTANCE = 8;
+const FREEHAND_TOLERANCE = 1.5;
+
+// Holding shift while rotating snaps to multiples of this many degrees
+const ROTATION_SNAP = 15;
+
+/**
+ * Interactive SVG surface: selection, moving, resizing, drawing, text editing, zooming and panning.
+ * Element gestures are previewed locally and only reported to the parent once the pointer is released;
+ * viewport changes are reported as they happen.
+ */
+export default function CanvasStage({
+  canvas,
+  elements,
+  selectedIds,
+  tool,
+  viewport,
+  onViewportChange,
+  onSelectionChange,
+  onUpdateElements,
+  onCreateElement,
+  remoteViewers,
+  onCursorMove
+}: CanvasStageProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const contentRef = useRef<SVGGElement>(null);
+  const interactionRef = useRef<Interaction | null>(null);
+  const pendingRef = useRef<Record<string, ElementChanges>>({});
+  const draftRef = useRef<CreateElementInput | null>(null);
+  // Anchors placed with the pen so far; the path is created once it is closed or finished
+  const penAnchorsRef = useRef<PenAnchor[]>([]);
+  const [pending, setPending] = useState<Record<string, ElementChanges>>({});
+  const [draft, setDraft] = useState<CreateElementInput | null>(null);
+  const [isSpacePressed, setIsSpacePressed] = useState(false);
+  const [isPanning, setIsPanning] = useState(false);
+  // Text element being edited in place, which is hidden while its editor shows
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  // The native wheel listener outlives renders, so it reads the latest viewport through refs
+  const viewportRef = useRef(viewport);
+  const onViewportChangeRef = useRef(onViewportChange);
+  useEffect(() => {
+    viewportRef.current = viewport;
+    onViewportChangeRef.current = onViewportChange;
+  }, [viewport, onViewportChange]);
+
+  // React registers wheel listeners as passive, which would not let us stop the page from scrolling
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      const speed = event.ctrlKey ? PINCH_ZOOM_SPEED : WHEEL_ZOOM_SPEED;
+      onViewportChangeRef.current(
+        zoomAtPoint(viewportRef.current, Math.exp(-event.deltaY * speed), {
+          x: event.clientX - rect.left,
+          y: event.clientY - rect.top
+        })
+      );
+    };
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  // Holding space turns any drag into a pan
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.code === 'Space' && !isEditableTarget(event.target)) {
+        event.preventDefault();
+        setIsSpacePressed(true);
+      }
+    };
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (event.code === 'Space') setIsSpacePressed(false);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  }, []);
+
+  // Overlays are drawn in canvas units, so one screen pixel is 1 / zoom
+  const pixelSize = 1 / viewport.zoom;
+
+  const displayedElements = useMemo(() => {
+    const withPending = elements.map((element: CanvasElement) =>
+      pending[element.id] ? applyElementChanges(element, pending[element.id]) : element
+    );
+    return draft ? [...withPending, previewElement(draft, DRAFT_ELEMENT_ID)] : withPending;
+  }, [elements, pending, draft]);
+
+  const selectedElements = useMemo(
+    () => displayedElements.filter((element: CanvasElement) => selectedIds.includes(element.id) && element.id !== editingId),
+    [displayedElements, selectedIds, editingId]
+  );
+
+  const editingElement = displayedElements.find((element: CanvasElement) => element.id === editingId);
+  const artboardElements = useMemo(
+    () => displayedElements.map((element: CanvasElement) =>
+      element.id === editingId ? { ...element, visible: false } : element
+    ),
+    [displayedElements, editingId]
+  );
+
+  const toCanvasPoint = (event: React.PointerEvent): Point => {
+    const ctm = contentRef.current?.getScreenCTM();
+    if (!ctm) return { x: event.clientX, y: event.clientY };
+    const point = new DOMPoint(event.clientX, event.clientY).matrixTransform(ctm.inverse());
+    return { x: point.x, y: point.y };
+  };
+
+  const updatePending = (next: Record<string, ElementChanges>) => {
+    pendingRef.current = next;
+    setPending(next);
+  };
+
+  const updateDraft = (next: CreateElementInput | null) => {
+    draftRef.current = next;
+    setDraft(next);
+  };
+
+  const beginInteraction = (interaction: Interaction, event: React.PointerEvent) => {
+    interactionRef.current = interaction;
+    svgRef.current?.setPointerCapture(event.pointerId);
+  };
+
+  const nextZIndex = () =>
+    elements.reduce((max: number, element: CanvasElement) => Math.max(max, element.zIndex), -1) + 1;
+
+  // The preview runs on to the cursor to show where the next segment will go
+  const updatePenDraft = (anchors: PenAnchor[], cursor: Point | null) => {
+    penAnchorsRef.current = anchors;
+    const preview = cursor ? [...anchors, { point: cursor, handle: null }] : anchors;
+    updateDraft(anchors.length > 0 ? buildPathInput(canvas.id, getPenCommands(preview, false), nextZIndex()) : null);
+  };
+
+  const finishPen = (closed: boolean) => {
+    const anchors = penAnchorsRef.current;
+    if (anchors.length === 0) return;
+    penAnchorsRef.current = [];
+    updateDraft(null);
+    if (anchors.length >= 2) {
+      onCreateElement(buildPathInput(canvas.id, getPenCommands(anchors, closed), nextZIndex()));
+    }
+  };
+
+  // Switching tools (Escape included) or pressing Enter finishes the pen path in progress
+  const finishPenRef = useRef(finishPen);
+  useEffect(() => {
+    finishPenRef.current = finishPen;
+  });
+  useEffect(() => {
+    if (tool !== 'pen') finishPenRef.current(false);
+  }, [tool]);
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Enter' && !isEditableTarget(event.target)) finishPenRef.current(false);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const handlePenPointerDown = (point: Point, event: React.PointerEvent) => {
+    const anchors = penAnchorsRef.current;
+    const isNear = (anchor: PenAnchor | undefined) =>
+      anchor !== undefined && Math.hypot(anchor.point.x - point.x, anchor.point.y - point.y) <= PEN_SNAP_DISTANCE * pixelSize;
+
+    // Clicking the first anchor closes the path; clicking the last one again (or double-clicking) ends it open
+    if (anchors.length >= 2 && isNear(anchors[0])) {
+      finishPen(true);
+    } else if (isNear(anchors[anchors.length - 1])) {
+      finishPen(false);
+    } else {
+      const next = [...anchors, { point, handle: null }];
+      beginInteraction({ kind: 'pen', anchorIndex: next.length - 1 }, event);
+      updatePenDraft(next, null);
+    }
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    // Middle-button drags and space-drags pan the view regardless of the active tool
+    if (event.button === 1 || (event.button === 0 && isSpacePressed)) {
+      event.preventDefault();
+      beginInteraction({ kind: 'pan', start: { x: event.clientX, y: event.clientY }, viewport }, event);
+      setIsPanning(true);
+      return;
+    }
+
+    if (event.button !== 0) return;
+    const point = toCanvasPoint(event);
+
+    if (tool === 'pen') {
+      handlePenPointerDown(point, event);
+      return;
+    }
+
+    if (tool === 'pencil') {
+      beginInteraction({ kind: 'freehand', points: [point] }, event);
+      return;
+    }
+
+    if (tool !== 'select') {
+      beginInteraction({ kind: 'draw', tool, start: point }, event);
+      updateDraft(buildElementInput(tool, canvas.id, point, point, nextZIndex()));
+      return;
+    }
+
+    const target = (event.target as Element).closest('[data-element-id]');
+    const hitId = target?.getAttribute('data-element-id');
+    if (!hitId) {
+      onSelectionChange([]);
+      return;
+    }
+    // Clicking a member selects its outermost group; Ctrl/Cmd-click reaches into groups for the member itself
+    const elementId = event.ctrlKey || event.metaKey ? hitId : getOutermostId(elements, hitId);
+
+    if (event.shiftKey) {
+      onSelectionChange(
+        selectedIds.includes(elementId)
+          ? selectedIds.filter((id: string) => id !== elementId)
+          : [...selectedIds, elementId]
+      );
+      return;
+    }
+
+    const selection = selectedIds.includes(elementId) ? selectedIds : [elementId];
+    if (selection !== selectedIds) {
+      onSelectionChange(selection);
+    }
+
+    // Locked elements stay selectable but never move, and members move with their group when both are selected
+    const movable = elements.filter((element: CanvasElement) =>
+      selection.includes(element.id) &&
+      !element.locked &&
+      !getAncestorIds(elements, element.id).some((id: string) => selection.includes(id))
+    );
+    if (movable.length > 0) {
+      beginInteraction({ kind: 'move', start: point, elements: movable }, event);
+    }
+  };
+
+  const handleResizeStart = (element: CanvasElement, handle: ResizeHandle, event: React.PointerEvent) => {
+    event.stopPropagation();
+    if (element.locked || event.button !== 0) return;
+    beginInteraction({ kind: 'resize', start: toCanvasPoint(event), element, handle }, event);
+  };
+
+  const handleEndpointStart = (element: CanvasElement, endpoint: LineEndpoint, event: React.PointerEvent) => {
+    event.stopPropagation();
+    if (element.locked || event.button !== 0) return;
+    beginInteraction({ kind: 'endpoint', element, endpoint }, event);
+  };
+
+  const handleRotateStart = (element: CanvasElement, event: React.PointerEvent) => {
+    event.stopPropagation();
+    if (element.locked || event.button !== 0) return;
+    const origin = getTransformOrigin(element);
+    const point = toCanvasPoint(event);
+    beginInteraction({ kind: 'rotate', element, startAngle: Math.atan2(point.y - origin.y, point.x - origin.x) }, event);
+  };
+
+  // Double-clicking text edits it, reaching into groups like Ctrl/Cmd-click. Clicks on elements capture the pointer,
+  // so the element is found under the pointer rather than from the event's target
+  const handleDoubleClick = (event: React.MouseEvent<SVGSVGElement>) => {
+    if (tool !== 'select') return;
+    const target = document.elementFromPoint(event.clientX, event.clientY)?.closest('[data-element-id]');
+    const hitId = target?.getAttribute('data-element-id');
+    const element = elements.find((candidate: CanvasElement) => candidate.id === hitId);
+    if (element?.type === 'text' && element.textProps && !element.locked) {
+      onSelectionChange([element.id]);
+      setEditingId(element.id);
+    }
+  };
+
+  const handleEditorClose = (changes: ElementChanges | null) => {
+    const id = editingId;
+    setEditingId(null);
+    if (id && changes) {
+      onUpdateElements([{ id, changes }]);
+    }
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    onCursorMove(toCanvasPoint(event));
+    const interaction = interactionRef.current;
+    if (!interaction) {
+      if (tool === 'pen' && penAnchorsRef.current.length > 0) {
+        updatePenDraft(penAnchorsRef.current, toCanvasPoint(event));
+      }
+      return;
+    }
+
+    if (interaction.kind === 'pan') {
+      onViewportChange({
+        zoom: interaction.viewport.zoom,
+        panX: interaction.viewport.panX + event.clientX - interaction.start.x,
+        panY: interaction.viewport.panY + event.clientY - interaction.start.y
+      });
+      return;
+    }
+
+    const point = toCanvasPoint(event);
+
+    switch (interaction.kind) {
+      case 'move': {
+        const dx = point.x - interaction.start.x;
+        const dy = point.y - interaction.start.y;
+        updatePending(withMemberChanges(
+          elements,
+          Object.fromEntries(
+            interaction.elements.map((element: CanvasElement) => [element.id, getMoveChanges(element, dx, dy)])
+          )
+        ));
+        break;
+      }
+      case 'resize': {
+        const bounds = resizeElementBounds(interaction.element, interaction.handle, interaction.start, point);
+        updatePending(withMemberChanges(elements, { [interaction.element.id]: getResizeChanges(interaction.element, bounds) }));
+        break;
+      }
+      case 'endpoint':
+        updatePending({
+          [interaction.element.id]: getLineEndpointChanges(
+            interaction.element,
+            interaction.endpoint,
+            toElementPoint(interaction.element, point)
+          )
+        });
+        break;
+      case 'rotate': {
+        // The origin stays in place under the transform, so it is the pivot
+        const origin = getTransformOrigin(interaction.element);
+        const transform = interaction.element.transform ?? IDENTITY_TRANSFORM;
+        const angle = Math.atan2(point.y - origin.y, point.x - origin.x) - interaction.startAngle;
+        let rotation = transform.rotation + angle * 180 / Math.PI;
+        if (event.shiftKey) rotation = Math.round(rotation / ROTATION_SNAP) * ROTATION_SNAP;
+        // Kept within (-180, 180] so repeated turns don't pile up
+        rotation = rotation - 360 * Math.ceil((rotation - 180) / 360);
+        updatePending(withMemberChanges(elements, { [interaction.element.id]: { transform: { ...transform, rotation } } }));
+        break;
+      }
+      case 'draw':
+        updateDraft(buildElementInput(interaction.tool, canvas.id, interaction.start, point, nextZIndex()));
+        break;
+      case 'freehand':
+        interaction.points.push(point);
+        updateDraft(buildPathInput(
+          canvas.id,
+          interaction.points.map((pencilPoint: Point, index: number) => ({ type: index === 0 ? 'move' : 'line', ...pencilPoint })),
+          nextZIndex()
+        ));
+        break;
+      case 'pen': {
+        // Dragging away from the anchor just placed pulls out its handle, making the segments around it curve
+        const anchors = penAnchorsRef.current;
+        const anchor = anchors[interaction.anchorIndex];
+        const isDrag = Math.hypot(point.x - anchor.point.x, point.y - anchor.point.y) > PEN_SNAP_DISTANCE * pixelSize;
+        updatePenDraft(
+          anchors.map((item: PenAnchor, index: number) =>
+            index === interaction.anchorIndex ? { ...item, handle: isDrag ? point : null } : item
+          ),
+          null
+        );
+        break;
+      }
+    }
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<SVGSVGElement>) => {
+    const interaction = interactionRef.current;
+    if (!interaction) return;
+    interactionRef.current = null;
+    svgRef.current?.releasePointerCapture(event.pointerId);
+
+    if (interaction.kind === 'pan') {
+      setIsPanning(false);
+      return;
+    }
+
+    if (interaction.kind === 'draw') {
+      const input = draftRef.current;
+      updateDraft(null);
+      if (input) onCreateElement(input);
+      return;
+    }
+
+    if (interaction.kind === 'freehand') {
+      updateDraft(null);
+      const commands = getFreehandCommands(interaction.points, FREEHAND_TOLERANCE * pixelSize);
+      if (commands.length >= 2) onCreateElement(buildPathInput(canvas.id, commands, nextZIndex()));
+      return;
+    }
+
+    // The pen path stays open for the next anchor
+    if (interaction.kind === 'pen') return;
+
+    // Members of moved groups are only previewed here; the server carries them along with their group
+    const ownIds = interaction.kind === 'move'
+      ? interaction.elements.map((element: CanvasElement) => element.id)
+      : [interaction.element.id];
+    const updates = Object.entries(pendingRef.current)
+      .filter(([id]) => ownIds.includes(id))
+      .map(([id, changes]) => ({ id, changes }));
+    updatePending({});
+    if (updates.length > 0) {
+      onUpdateElements(updates);
+    }
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      className="h-full w-full touch-none select-none"
+      style={{ cursor: isPanning ? 'grabbing' : isSpacePressed ? 'grab' : tool === 'select' ? 'default' : 'crosshair' }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onPointerLeave={() => onCursorMove(null)}
+      onDoubleClick={handleDoubleClick}
+    >
+      <g ref={contentRef} transform={`translate(${viewport.panX} ${viewport.panY}) scale(${viewport.zoom})`}>
+        <CanvasArtboard canvas={canvas} elements={artboardElements} />
+        <PresenceOverlay viewers={remoteViewers} elements={displayedElements} pixelSize={pixelSize} />
+        <SelectionOverlay
+          elements={selectedElements}
+          pixelSize={pixelSize}
+          onResizeStart={handleResizeStart}
+          onEndpointStart={handleEndpointStart}
+          onRotateStart={handleRotateStart}
+        />
+        {editingElement && (
+          <TextEditor key={editingElement.id} element={editingElement} pixelSize={pixelSize} onClose={handleEditorClose} />
+        )}
+      </g>
+    </svg>
+  );
+}
@@ -0,0 +1,59 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Skeleton } from '@/components/ui/skeleton';
+import CanvasArtboard from '@/components/CanvasArtboard';
+import { trpc } from '@/utils/trpc';
+import type { Canvas, CanvasElement } from '../../../server/src/schema';
+
+interface CanvasThumbnailProps {
+  canvas: Canvas;
+}
+
+/**
+ * Scaled-down preview of a canvas, rendered with the same SVG renderer as the editor
+ */
+export default function CanvasThumbnail({ canvas }: CanvasThumbnailProps) {
+  const [elements, setElements] = useState<CanvasElement[] | null>(null);
+  const [hasError, setHasError] = useState(false);
+
+  const loadElements = useCallback(async () => {
+    try {
+      setHasError(false);
+      const result = await trpc.getCanvasElements.query(canvas.id);
+      setElements(result);
+    } catch (err) {
+      console.error('Failed to load thumbnail elements:', err);
+      setHasError(true);
+    }
+  }, [canvas.id]);
+
+  // Reload when the canvas changes so edits made elsewhere show up
+  useEffect(() => {
+    loadElements();
+  }, [loadElements, canvas.updatedAt]);
+
+  if (hasError) {
+    return (
+      <div className="flex aspect-video items-center justify-center bg-muted text-sm text-muted-foreground">
+        Preview unavailable
+      </div>
+    );
+  }
+
+  if (!elements) {
+    return <Skeleton className="aspect-video w-full rounded-none" />;
+  }
+
+  return (
+    <div className="flex aspect-video items-center justify-center overflow-hidden bg-muted p-3">
+      <svg
+        className="max-h-full max-w-full shadow-sm"
+        viewBox={`0 0 ${canvas.width} ${canvas.height}`}
+        width={canvas.width}
+        height={canvas.height}
+        aria-hidden="true"
+      >
+        <CanvasArtboard canvas={canvas} elements={elements} />
+      </svg>
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Loader2, Send, Sparkles } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Textarea } from '@/components/ui/textarea';
+import { useCanvasEvents } from '@/hooks/useCanvasEvents';
+import { cn } from '@/lib/utils';
+import { trpc } from '@/utils/trpc';
+import type { CanvasElement, CanvasEvent, ChatMessage } from '../../../server/src/schema';
+
+interface ChatPanelProps {
+  canvasId: string;
+  // Currently selected elements are sent along as context for the prompt
+  selectedIds: string[];
+  // Called with the elements a turn created and changed, which the editor applies and selects
+  onElementsChanged: (created: CanvasElement[], modified: CanvasElement[]) => void;
+  onHighlightElements: (elementIds: string[]) => void;
+}
+
+/**
+ * Conversation with the design assistant. Each prompt is sent as one server-side turn; created and edited elements
+ * are applied to the canvas and recorded on the assistant reply so clicking it highlights them again. Turns sent by
+ * other people editing the canvas appear live.
+ */
+export default function ChatPanel({ canvasId, selectedIds, onElementsChanged, onHighlightElements }: ChatPanelProps) {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [prompt, setPrompt] = useState('');
+  // Shown while the turn is in flight; the server records it together with the reply
+  const [pendingPrompt, setPendingPrompt] = useState<string | null>(null);
+  const [activeMessageId, setActiveMessageId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const endRef = useRef<HTMLDivElement>(null);
+
+  const loadMessages = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const result = await trpc.getChatMessages.query(canvasId);
+      // The server returns newest first; the conversation reads top to bottom
+      setMessages([...result].reverse());
+    } catch (err) {
+      console.error('Failed to load chat messages:', err);
+      setError('Failed to load chat history.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [canvasId]);
+
+  useEffect(() => {
+    loadMessages();
+  }, [loadMessages]);
+
+  // Our own turns come back as events too, possibly before the mutation resolves, so only add unseen messages
+  const appendMessages = useCallback((incoming: ChatMessage[]) => {
+    setMessages((prev: ChatMessage[]) => [
+      ...prev,
+      ...incoming.filter((message: ChatMessage) => !prev.some((existing: ChatMessage) => existing.id === message.id))
+    ]);
+  }, []);
+
+  const handleCanvasEvent = useCallback((event: CanvasEvent) => {
+    if (event.type === 'chat.messages') {
+      appendMessages(event.messages);
+    }
+  }, [appendMessages]);
+
+  useCanvasEvents(canvasId, handleCanvasEvent);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: 'end' });
+  }, [messages, pendingPrompt]);
+
+  const handleSend = async () => {
+    const content = prompt.trim();
+    if (!content || isSending) return;
+
+    setIsSending(true);
+    setPendingPrompt(content);
+    setPrompt('');
+    try {
+      const result = await trpc.chat.send.mutate({
+        canvasId,
+        content,
+        contextElementIds: selectedIds.length > 0 ? selectedIds : undefined
+      });
+      appendMessages([result.userMessage, result.assistantMessage]);
+      setActiveMessageId(result.assistantMessage.id);
+      onElementsChanged(result.elementsCreated, result.elementsModified);
+    } catch (err) {
+      console.error('Failed to send prompt:', err);
+      toast.error('The assistant could not complete that request. Please try again.');
+      // Nothing was recorded, so give the prompt back for another attempt
+      setPrompt(content);
+    } finally {
+      setPendingPrompt(null);
+      setIsSending(false);
+    }
+  };
+
+  const handleMessageClick = (message: ChatMessage) => {
+    const elementIds = [...(message.elementsCreated ?? []), ...(message.elementsModified ?? [])];
+    if (elementIds.length === 0) return;
+    setActiveMessageId(message.id);
+    onHighlightElements(elementIds);
+  };
+
+  return (
+    <aside className="flex h-full w-80 flex-col border-l bg-background">
+      <div className="flex items-center gap-2 border-b px-4 py-3">
+        <Sparkles className="size-4 text-primary" />
+        <h2 className="font-semibold">AI Assistant</h2>
+      </div>
+
+      <ScrollArea className="min-h-0 flex-1">
+        <div className="space-y-3 p-4">
+          {error && (
+            <div className="flex items-center justify-between bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded text-sm">
+              <span>{error}</span>
+              <Button variant="outline" size="sm" onClick={loadMessages}>
+                Retry
+              </Button>
+            </div>
+          )}
+
+          {isLoading && messages.length === 0 ? (
+            Array.from({ length: 3 }, (_, index: number) => <Skeleton key={index} className="h-12 w-full" />)
+          ) : messages.length === 0 && !error && !pendingPrompt ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              Describe what to add, e.g. "two red circles and a title 'Hello'", or select elements and ask to change them.
+            </p>
+          ) : (
+            messages.map((message: ChatMessage) => {
+              const elementCount = (message.elementsCreated?.length ?? 0) + (message.elementsModified?.length ?? 0);
+              const isUser = message.role === 'user';
+              return (
+                <button
+                  key={message.id}
+                  type="button"
+                  disabled={elementCount === 0}
+                  onClick={() => handleMessageClick(message)}
+                  className={cn(
+                    'block max-w-[85%] rounded-lg px-3 py-2 text-left text-sm whitespace-pre-wrap',
+                    isUser ? 'ml-auto bg-primary text-primary-foreground' : 'bg-muted',
+                    elementCount > 0 && 'cursor-pointer hover:ring-2 hover:ring-primary/40',
+                    message.id === activeMessageId && 'ring-2 ring-primary'
+                  )}
+                  title={elementCount > 0 ? 'Highlight these elements on the canvas' : undefined}
+                >
+                  {message.content}
+                  {elementCount > 0 && (
+                    <span className="mt-1 block text-xs text-muted-foreground">
+                      {elementCount} element{elementCount === 1 ? '' : 's'}
+                    </span>
+                  )}
+                </button>
+              );
+            })
+          )}
+
+          {pendingPrompt && (
+            <div className="ml-auto max-w-[85%] rounded-lg bg-primary px-3 py-2 text-sm whitespace-pre-wrap text-primary-foreground opacity-70">
+              {pendingPrompt}
+            </div>
+          )}
+          {isSending && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="size-4 animate-spin" />
+              Generating…
+            </div>
+          )}
+          <div ref={endRef} />
+        </div>
+      </ScrollArea>
+
+      <form
+        className="space-y-2 border-t p-3"
+        onSubmit={(e: React.FormEvent) => {
+          e.preventDefault();
+          handleSend();
+        }}
+      >
+        <Textarea
+          value={prompt}
+          rows={3}
+          placeholder={selectedIds.length > 0 ? `Prompt (using ${selectedIds.length} selected as context)` : 'Ask the assistant…'}
+          disabled={isSending}
+          onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setPrompt(e.target.value)}
+          onKeyDown={(e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+            // Enter sends, Shift+Enter inserts a newline
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              handleSend();
+            }
+          }}
+        />
+        <Button type="submit" className="w-full" disabled={isSending || !prompt.trim()}>
+          {isSending ? <Loader2 className="animate-spin" /> : <Send />}
+          Send
+        </Button>
+      </form>
+    </aside>
+  );
+}
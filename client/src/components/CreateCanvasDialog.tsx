@@ -0,0 +1,164 @@
+import { useState } from 'react';
+import { Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { trpc } from '@/utils/trpc';
+import type { Canvas, CreateCanvasInput } from '../../../server/src/schema';
+
+interface CreateCanvasDialogProps {
+  onCreated: (canvas: Canvas) => void;
+}
+
+const INITIAL_FORM: CreateCanvasInput = {
+  name: '',
+  description: null,
+  width: 1920,
+  height: 1080,
+  backgroundColor: '#FFFFFF'
+};
+
+export default function CreateCanvasDialog({ onCreated }: CreateCanvasDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [formData, setFormData] = useState<CreateCanvasInput>(INITIAL_FORM);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (!nextOpen) {
+      setFormData(INITIAL_FORM);
+      setError(null);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.name.trim()) {
+      setError('Name is required');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const canvas = await trpc.createCanvas.mutate({ ...formData, name: formData.name.trim() });
+      handleOpenChange(false);
+      onCreated(canvas);
+    } catch (err) {
+      console.error('Failed to create canvas:', err);
+      setError('Failed to create canvas. Please check your input and try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button>
+          <Plus />
+          New canvas
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Create canvas</DialogTitle>
+            <DialogDescription>Set up the artboard. Everything can be changed later.</DialogDescription>
+          </DialogHeader>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">{error}</div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="canvas-name">Name</Label>
+            <Input
+              id="canvas-name"
+              value={formData.name}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setFormData((prev: CreateCanvasInput) => ({ ...prev, name: e.target.value }))
+              }
+              placeholder="Landing page hero"
+              autoFocus
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="canvas-description">Description</Label>
+            <Textarea
+              id="canvas-description"
+              value={formData.description || ''}
+              onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
+                setFormData((prev: CreateCanvasInput) => ({ ...prev, description: e.target.value || null }))
+              }
+              placeholder="Optional"
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="canvas-width">Width</Label>
+              <Input
+                id="canvas-width"
+                type="number"
+                min="1"
+                value={formData.width}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData((prev: CreateCanvasInput) => ({ ...prev, width: parseFloat(e.target.value) || 1 }))
+                }
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="canvas-height">Height</Label>
+              <Input
+                id="canvas-height"
+                type="number"
+                min="1"
+                value={formData.height}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData((prev: CreateCanvasInput) => ({ ...prev, height: parseFloat(e.target.value) || 1 }))
+                }
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="canvas-background">Background</Label>
+              <Input
+                id="canvas-background"
+                type="color"
+                className="p-1"
+                value={formData.backgroundColor}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData((prev: CreateCanvasInput) => ({ ...prev, backgroundColor: e.target.value.toUpperCase() }))
+                }
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? 'Creating...' : 'Create canvas'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
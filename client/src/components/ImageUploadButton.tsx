@@ -0,0 +1,38 @@
+import { useRef } from 'react';
+import { ImagePlus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ASSET_MIME_TYPES } from '../../../server/src/asset_limits';
+
+interface ImageUploadButtonProps {
+  onSelect: (files: File[]) => void;
+}
+
+export default function ImageUploadButton({ onSelect }: ImageUploadButtonProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => inputRef.current?.click()}
+        title="Insert image"
+        aria-label="Insert image"
+      >
+        <ImagePlus />
+      </Button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={ASSET_MIME_TYPES.join(',')}
+        multiple
+        className="hidden"
+        onChange={(event: React.ChangeEvent<HTMLInputElement>) => {
+          onSelect(Array.from(event.target.files ?? []));
+          // Allow picking the same file again
+          event.target.value = '';
+        }}
+      />
+    </>
+  );
+}
@@ -0,0 +1,81 @@
+import { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+
+interface InlineEditableTextProps {
+  value: string;
+  placeholder?: string;
+  className?: string;
+  // Whether an empty value may be saved (e.g. descriptions) or should be rejected (e.g. names)
+  allowEmpty?: boolean;
+  onSave: (value: string) => Promise<void>;
+}
+
+/**
+ * Text that turns into an input on click. Enter or blur saves, Escape cancels.
+ */
+export default function InlineEditableText({
+  value,
+  placeholder,
+  className,
+  allowEmpty = false,
+  onSave
+}: InlineEditableTextProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(value);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const startEditing = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setDraft(value);
+    setIsEditing(true);
+  };
+
+  const commit = async () => {
+    const trimmed = draft.trim();
+    if (trimmed === value || (!trimmed && !allowEmpty)) {
+      setIsEditing(false);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onSave(trimmed);
+      setIsEditing(false);
+    } catch (err) {
+      // Keep the input open so the edit isn't lost; the caller reports the failure
+      console.error('Inline edit failed:', err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isEditing) {
+    return (
+      <Input
+        value={draft}
+        autoFocus
+        disabled={isSaving}
+        className="h-8"
+        onClick={(e: React.MouseEvent) => e.stopPropagation()}
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e: React.KeyboardEvent<HTMLInputElement>) => {
+          if (e.key === 'Enter') commit();
+          if (e.key === 'Escape') setIsEditing(false);
+        }}
+      />
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      className={cn('w-full truncate rounded text-left hover:bg-muted', !value && 'text-muted-foreground italic', className)}
+      title="Click to edit"
+      onClick={startEditing}
+    >
+      {value || placeholder}
+    </button>
+  );
+}
@@ -0,0 +1,48 @@
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { getInitials } from '@/lib/presence';
+import type { Viewer } from '../../../server/src/schema';
+
+interface PresenceAvatarsProps {
+  viewers: Viewer[];
+  selfSessionId: string;
+}
+
+const MAX_VISIBLE = 4;
+
+/**
+ * Overlapping avatars of everyone viewing the canvas, with the overflow collapsed into a count
+ */
+export default function PresenceAvatars({ viewers, selfSessionId }: PresenceAvatarsProps) {
+  if (viewers.length === 0) return null;
+
+  const visible = viewers.slice(0, MAX_VISIBLE);
+  const hidden = viewers.slice(MAX_VISIBLE);
+
+  return (
+    <div className="flex -space-x-2" aria-label={`${viewers.length} viewing`}>
+      {visible.map((viewer: Viewer) => (
+        <Tooltip key={viewer.sessionId}>
+          <TooltipTrigger asChild>
+            <Avatar className="size-8 border-2 border-background">
+              <AvatarFallback className="text-xs font-medium text-white" style={{ backgroundColor: viewer.color }}>
+                {getInitials(viewer.name)}
+              </AvatarFallback>
+            </Avatar>
+          </TooltipTrigger>
+          <TooltipContent>{viewer.sessionId === selfSessionId ? `${viewer.name} (you)` : viewer.name}</TooltipContent>
+        </Tooltip>
+      ))}
+      {hidden.length > 0 && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Avatar className="size-8 border-2 border-background">
+              <AvatarFallback className="text-xs">+{hidden.length}</AvatarFallback>
+            </Avatar>
+          </TooltipTrigger>
+          <TooltipContent>{hidden.map((viewer: Viewer) => viewer.name).join(', ')}</TooltipContent>
+        </Tooltip>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import { getDrawnBounds } from '@/lib/transforms';
+import type { CanvasElement, Viewer } from '../../../server/src/schema';
+
+interface PresenceOverlayProps {
+  viewers: Viewer[];
+  elements: CanvasElement[];
+  // Canvas units per screen pixel, so cursors and labels keep a constant on-screen size
+  pixelSize: number;
+}
+
+const SELECTION_PADDING = 3;
+const LABEL_FONT_SIZE = 11;
+
+/**
+ * Other viewers' selections and cursors, each in the viewer's color
+ */
+export default function PresenceOverlay({ viewers, elements, pixelSize }: PresenceOverlayProps) {
+  const padding = SELECTION_PADDING * pixelSize;
+
+  return (
+    <g pointerEvents="none">
+      {viewers.map((viewer: Viewer) =>
+        elements
+          .filter((element: CanvasElement) => viewer.selection.includes(element.id))
+          .map((element: CanvasElement) => {
+            const bounds = getDrawnBounds(element);
+            return (
+              <rect
+                key={`${viewer.sessionId}-${element.id}`}
+                x={bounds.x - padding}
+                y={bounds.y - padding}
+                width={bounds.width + padding * 2}
+                height={bounds.height + padding * 2}
+                fill="none"
+                stroke={viewer.color}
+                strokeWidth={2 * pixelSize}
+              />
+            );
+          })
+      )}
+
+      {viewers.map((viewer: Viewer) => viewer.cursor && (
+        <g
+          key={viewer.sessionId}
+          transform={`translate(${viewer.cursor.x} ${viewer.cursor.y}) scale(${pixelSize})`}
+        >
+          <path d="M0 0 L0 16 L4.5 12 L7.5 19 L10 18 L7 11 L13 11 Z" fill={viewer.color} stroke="#FFFFFF" strokeWidth={1} />
+          <text
+            x={14}
+            y={26}
+            fontSize={LABEL_FONT_SIZE}
+            fontFamily="sans-serif"
+            fill="#FFFFFF"
+            stroke={viewer.color}
+            strokeWidth={3}
+            paintOrder="stroke"
+          >
+            {viewer.name}
+          </text>
+        </g>
+      ))}
+    </g>
+  );
+}
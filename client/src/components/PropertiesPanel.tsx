@@ -0,0 +1,207 @@
+import { useId } from 'react';
+import { Eye, EyeOff, Plus, SlidersHorizontal, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { ElementChanges } from '@/lib/canvas';
+import { changeEffectType, createEffect, EFFECT_LABELS, type EffectType } from '@/lib/effects';
+import type { CanvasElement, ElementEffect } from '../../../server/src/schema';
+
+// Matches the server's limit
+const MAX_EFFECTS = 16;
+
+interface PropertiesPanelProps {
+  element: CanvasElement;
+  onChange: (changes: ElementChanges) => void;
+}
+
+/**
+ * Editable properties of the selected element. Fields save when they lose focus or on Enter, so typing a value
+ * is one change rather than one per keystroke. Locked elements are shown read-only
+ */
+export default function PropertiesPanel({ element, onChange }: PropertiesPanelProps) {
+  const effects = element.effects;
+  const setEffects = (updated: ElementEffect[]) => onChange({ effects: updated });
+
+  return (
+    <aside className="flex h-full w-72 flex-col border-l bg-background">
+      <div className="flex items-center gap-2 border-b px-4 py-3">
+        <SlidersHorizontal className="size-4 text-primary" />
+        <h2 className="font-semibold">Properties</h2>
+      </div>
+
+      <ScrollArea className="min-h-0 flex-1">
+        <fieldset disabled={element.locked} className="space-y-3 p-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-medium">Effects</h3>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="size-7"
+              disabled={effects.length >= MAX_EFFECTS}
+              onClick={() => setEffects([...effects, createEffect('drop-shadow')])}
+              title="Add effect"
+              aria-label="Add effect"
+            >
+              <Plus />
+            </Button>
+          </div>
+          {effects.length === 0 && <p className="text-sm text-muted-foreground">No shadows or blurs.</p>}
+          {effects.map((effect: ElementEffect, index: number) => (
+            <EffectEditor
+              key={index}
+              effect={effect}
+              onChange={(updated: ElementEffect) => setEffects(effects.map((other: ElementEffect, otherIndex: number) =>
+                otherIndex === index ? updated : other
+              ))}
+              onRemove={() => setEffects(effects.filter((_, otherIndex: number) => otherIndex !== index))}
+            />
+          ))}
+        </fieldset>
+      </ScrollArea>
+    </aside>
+  );
+}
+
+interface EffectEditorProps {
+  effect: ElementEffect;
+  onChange: (effect: ElementEffect) => void;
+  onRemove: () => void;
+}
+
+function EffectEditor({ effect, onChange, onRemove }: EffectEditorProps) {
+  const { type } = effect;
+  return (
+    <div className="space-y-2 rounded-md border p-2">
+      <div className="flex items-center gap-1">
+        <Select value={type} onValueChange={(value: string) => onChange(changeEffectType(effect, value as EffectType))}>
+          <SelectTrigger size="sm" className="flex-1" aria-label="Effect type">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(EFFECT_LABELS).map(([type, label]) => (
+              <SelectItem key={type} value={type}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="size-7"
+          onClick={() => onChange({ ...effect, visible: !effect.visible })}
+          title={effect.visible ? 'Hide effect' : 'Show effect'}
+          aria-label="Toggle effect"
+          aria-pressed={effect.visible}
+        >
+          {effect.visible ? <Eye /> : <EyeOff />}
+        </Button>
+        <Button variant="ghost" size="icon" className="size-7" onClick={onRemove} title="Remove effect" aria-label="Remove effect">
+          <Trash2 />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {(effect.type === 'drop-shadow' || effect.type === 'inner-shadow') && (
+          <>
+            <NumberField
+              label="X"
+              value={effect.offset.x}
+              onChange={(x: number) => onChange({ ...effect, offset: { ...effect.offset, x } })}
+            />
+            <NumberField
+              label="Y"
+              value={effect.offset.y}
+              onChange={(y: number) => onChange({ ...effect, offset: { ...effect.offset, y } })}
+            />
+          </>
+        )}
+        <NumberField label="Blur" value={effect.blur} min={0} max={1000} onChange={(blur: number) => onChange({ ...effect, blur })} />
+        {(effect.type === 'drop-shadow' || effect.type === 'inner-shadow') && (
+          <>
+            <NumberField
+              label="Spread"
+              value={effect.spread}
+              min={-1000}
+              max={1000}
+              onChange={(spread: number) => onChange({ ...effect, spread })}
+            />
+            <ColorField label="Color" value={effect.color} onChange={(color: string) => onChange({ ...effect, color })} />
+            <NumberField
+              label="Opacity %"
+              value={Math.round(effect.opacity * 100)}
+              min={0}
+              max={100}
+              onChange={(percent: number) => onChange({ ...effect, opacity: percent / 100 })}
+            />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface NumberFieldProps {
+  label: string;
+  value: number;
+  min?: number;
+  max?: number;
+  onChange: (value: number) => void;
+}
+
+// Uncontrolled and keyed by the value, so a change from elsewhere resets the draft
+function NumberField({ label, value, min = -Infinity, max = Infinity, onChange }: NumberFieldProps) {
+  const id = useId();
+  const commit = (input: HTMLInputElement) => {
+    const parsed = parseFloat(input.value);
+    if (!Number.isFinite(parsed)) {
+      input.value = String(value);
+      return;
+    }
+    const clamped = Math.min(max, Math.max(min, parsed));
+    input.value = String(clamped);
+    if (clamped !== value) onChange(clamped);
+  };
+
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id} className="text-xs text-muted-foreground">{label}</Label>
+      <Input
+        key={value}
+        id={id}
+        type="number"
+        className="h-8"
+        defaultValue={value}
+        min={Number.isFinite(min) ? min : undefined}
+        max={Number.isFinite(max) ? max : undefined}
+        onBlur={(e: React.FocusEvent<HTMLInputElement>) => commit(e.currentTarget)}
+        onKeyDown={(e: React.KeyboardEvent<HTMLInputElement>) => {
+          if (e.key === 'Enter') e.currentTarget.blur();
+        }}
+      />
+    </div>
+  );
+}
+
+function ColorField({ label, value, onChange }: { label: string; value: string; onChange: (value: string) => void }) {
+  const id = useId();
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id} className="text-xs text-muted-foreground">{label}</Label>
+      <Input
+        key={value}
+        id={id}
+        type="color"
+        className="h-8 p-1"
+        defaultValue={value}
+        onBlur={(e: React.FocusEvent<HTMLInputElement>) => {
+          const color = e.currentTarget.value.toUpperCase();
+          if (color !== value.toUpperCase()) onChange(color);
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+import { getElementBounds, getEndpoints, RESIZE_HANDLES, type LineEndpoint, type Point, type ResizeHandle } from '@/lib/canvas';
+import { getHandlePosition, toDrawnPoint } from '@/lib/transforms';
+import type { CanvasElement } from '../../../server/src/schema';
+
+interface SelectionOverlayProps {
+  elements: CanvasElement[];
+  // Canvas units per screen pixel, so outlines and handles keep a constant on-screen size
+  pixelSize: number;
+  onResizeStart: (element: CanvasElement, handle: ResizeHandle, event: React.PointerEvent) => void;
+  onEndpointStart: (element: CanvasElement, endpoint: LineEndpoint, event: React.PointerEvent) => void;
+  onRotateStart: (element: CanvasElement, event: React.PointerEvent) => void;
+}
+
+const SELECTION_COLOR = '#0EA5E9';
+const LOCKED_COLOR = '#94A3B8';
+const HANDLE_SIZE = 8;
+// Screen pixels between the top edge and the rotation handle
+const ROTATE_HANDLE_OFFSET = 24;
+
+const HANDLE_CURSORS: Record<ResizeHandle, string> = {
+  nw: 'nwse-resize',
+  se: 'nwse-resize',
+  ne: 'nesw-resize',
+  sw: 'nesw-resize',
+  n: 'ns-resize',
+  s: 'ns-resize',
+  e: 'ew-resize',
+  w: 'ew-resize'
+};
+
+/**
+ * Outlines selected elements as they are drawn, transforms included. With a single unlocked element selected
+ * it also shows resize handles and a rotation handle, or endpoint handles for lines and arrows.
+ */
+export default function SelectionOverlay({
+  elements,
+  pixelSize,
+  onResizeStart,
+  onEndpointStart,
+  onRotateStart
+}: SelectionOverlayProps) {
+  const handleSize = HANDLE_SIZE * pixelSize;
+  const editable = elements.length === 1 && !elements[0].locked ? elements[0] : null;
+  const editableEndpoints = editable && getEndpoints(editable);
+
+  const renderHandle = (key: string, center: Point, cursor: string, onPointerDown: (e: React.PointerEvent) => void) => (
+    <rect
+      key={key}
+      x={center.x - handleSize / 2}
+      y={center.y - handleSize / 2}
+      width={handleSize}
+      height={handleSize}
+      fill="#FFFFFF"
+      stroke={SELECTION_COLOR}
+      strokeWidth={pixelSize}
+      style={{ cursor }}
+      onPointerDown={onPointerDown}
+    />
+  );
+
+  // The rotation handle sits above the middle of the top edge, following the element's own up direction
+  const renderRotateHandle = (element: CanvasElement) => {
+    const bounds = getElementBounds(element);
+    const top = toDrawnPoint(element, { x: bounds.x + bounds.width / 2, y: bounds.y });
+    const center = toDrawnPoint(element, { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 });
+    const length = Math.hypot(top.x - center.x, top.y - center.y);
+    const direction = length > 0 ? { x: (top.x - center.x) / length, y: (top.y - center.y) / length } : { x: 0, y: -1 };
+    const handle = {
+      x: top.x + direction.x * ROTATE_HANDLE_OFFSET * pixelSize,
+      y: top.y + direction.y * ROTATE_HANDLE_OFFSET * pixelSize
+    };
+    return (
+      <>
+        <line x1={top.x} y1={top.y} x2={handle.x} y2={handle.y} stroke={SELECTION_COLOR} strokeWidth={pixelSize} pointerEvents="none" />
+        <circle
+          cx={handle.x}
+          cy={handle.y}
+          r={handleSize / 2}
+          fill="#FFFFFF"
+          stroke={SELECTION_COLOR}
+          strokeWidth={pixelSize}
+          style={{ cursor: 'grab' }}
+          onPointerDown={(e: React.PointerEvent) => onRotateStart(element, e)}
+        />
+      </>
+    );
+  };
+
+  return (
+    <g>
+      {elements.map((element: CanvasElement) => {
+        const color = element.locked ? LOCKED_COLOR : SELECTION_COLOR;
+        const endpoints = getEndpoints(element);
+        if (endpoints) {
+          const start = toDrawnPoint(element, { x: endpoints.x1, y: endpoints.y1 });
+          const end = toDrawnPoint(element, { x: endpoints.x2, y: endpoints.y2 });
+          return (
+            <line
+              key={element.id}
+              x1={start.x}
+              y1={start.y}
+              x2={end.x}
+              y2={end.y}
+              stroke={color}
+              strokeWidth={pixelSize}
+              pointerEvents="none"
+            />
+          );
+        }
+
+        const bounds = getElementBounds(element);
+        const corners = (['nw', 'ne', 'se', 'sw'] as ResizeHandle[])
+          .map((handle: ResizeHandle) => toDrawnPoint(element, getHandlePosition(bounds, handle)));
+        return (
+          <polygon
+            key={element.id}
+            points={corners.map((corner: Point) => `${corner.x},${corner.y}`).join(' ')}
+            fill="none"
+            stroke={color}
+            strokeWidth={pixelSize}
+            strokeDasharray={element.locked ? `${4 * pixelSize} ${4 * pixelSize}` : undefined}
+            pointerEvents="none"
+          />
+        );
+      })}
+
+      {editable && editableEndpoints && (
+        <>
+          {renderHandle('start', toDrawnPoint(editable, { x: editableEndpoints.x1, y: editableEndpoints.y1 }), 'move', (e: React.PointerEvent) =>
+            onEndpointStart(editable, 'start', e)
+          )}
+          {renderHandle('end', toDrawnPoint(editable, { x: editableEndpoints.x2, y: editableEndpoints.y2 }), 'move', (e: React.PointerEvent) =>
+            onEndpointStart(editable, 'end', e)
+          )}
+        </>
+      )}
+
+      {editable && editable.type !== 'line' && editable.type !== 'arrow' && (
+        <>
+          {RESIZE_HANDLES.map((handle: ResizeHandle) =>
+            renderHandle(handle, toDrawnPoint(editable, getHandlePosition(getElementBounds(editable), handle)), HANDLE_CURSORS[handle], (e: React.PointerEvent) =>
+              onResizeStart(editable, handle, e)
+            )
+          )}
+          {renderRotateHandle(editable)}
+        </>
+      )}
+    </g>
+  );
+}
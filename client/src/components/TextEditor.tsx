@@ -0,0 +1,362 @@
+import { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { Bold, Italic, Underline } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import type { ElementChanges } from '@/lib/canvas';
+import { getFillLayers } from '@/lib/fills';
+import { DEFAULT_TEXT_STYLE, getPlainText, getTextDimensions } from '@/lib/text';
+import { getSvgTransform } from '@/lib/transforms';
+import type { CanvasElement, TextRun } from '../../../server/src/schema';
+
+interface TextEditorProps {
+  element: CanvasElement;
+  // Canvas units per screen pixel, so the toolbar and outline keep a constant on-screen size
+  pixelSize: number;
+  // Called once when editing ends, with the changes to save or null when there are none
+  onClose: (changes: ElementChanges | null) => void;
+}
+
+interface NodeStyle {
+  fontWeight: number;
+  fontSize: number;
+  italic: boolean;
+  underline: boolean;
+  color: string;
+}
+
+// Matches the selection outline
+const OUTLINE_COLOR = '#0EA5E9';
+
+// Canvas units the editor may grow into while typing; the element's box only fits the text as it was
+const EDITOR_EXTENT = 10000;
+
+// Elements browsers wrap lines in when Enter is pressed
+const BLOCK_TAGS = ['DIV', 'P', 'LI'];
+
+/**
+ * Edits a text element in place, drawn over it in canvas coordinates with its transform. Selected text is styled
+ * with the toolbar or Ctrl/Cmd+B, I and U. Editing ends when focus leaves the editor or on Escape; the text is
+ * then saved with dimensions that fit it. Text that was emptied is left as it was
+ */
+export default function TextEditor({ element, pixelSize, onClose }: TextEditorProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const editableRef = useRef<HTMLDivElement>(null);
+  // The last selection inside the text, which the toolbar's inputs style while they have focus
+  const rangeRef = useRef<Range | null>(null);
+  // The span the color or size was last applied through, so further changes restyle it instead of nesting spans
+  const styledRef = useRef<{ range: Range; span: HTMLSpanElement } | null>(null);
+  const closedRef = useRef(false);
+  const [initialRuns] = useState(() => element.textProps?.content ?? []);
+  const [selectionStyle, setSelectionStyle] = useState<NodeStyle | null>(null);
+
+  const textStyle = element.textStyle ?? DEFAULT_TEXT_STYLE;
+  const maxWidth = element.textProps?.maxWidth;
+  const transform = getSvgTransform(element);
+
+  const syncSelection = useCallback(() => {
+    const editable = editableRef.current;
+    const selection = document.getSelection();
+    if (!editable || !selection || selection.rangeCount === 0 || !editable.contains(selection.anchorNode)) {
+      return;
+    }
+    rangeRef.current = selection.getRangeAt(0).cloneRange();
+    const anchor = selection.anchorNode instanceof Element ? selection.anchorNode : selection.anchorNode?.parentElement;
+    setSelectionStyle(anchor ? readStyle(anchor, editable) : null);
+  }, []);
+
+  // Filled in once; from then on the browser owns the editable content
+  useLayoutEffect(() => {
+    const editable = editableRef.current;
+    if (!editable) return;
+    renderRuns(editable, initialRuns);
+    editable.focus();
+    document.getSelection()?.selectAllChildren(editable);
+  }, [initialRuns]);
+
+  useEffect(() => {
+    document.addEventListener('selectionchange', syncSelection);
+    return () => document.removeEventListener('selectionchange', syncSelection);
+  }, [syncSelection]);
+
+  const close = () => {
+    const editable = editableRef.current;
+    if (closedRef.current || !editable) return;
+    closedRef.current = true;
+
+    const runs = readRuns(editable);
+    const textProps = { ...element.textProps, content: runs };
+    const unchanged = JSON.stringify(runs) === JSON.stringify(element.textProps?.content);
+    onClose(unchanged || !getPlainText(runs).trim()
+      ? null
+      : { textProps, dimensions: getTextDimensions(textProps, element.textStyle) });
+  };
+
+  const toggle = (command: 'bold' | 'italic' | 'underline') => {
+    document.execCommand(command);
+    syncSelection();
+  };
+
+  // Wraps the selection in a span with the style; nested styles inside it would otherwise win
+  const applyStyle = (property: 'fontSize' | 'color', value: string) => {
+    const range = rangeRef.current;
+    if (!range || range.collapsed) return;
+
+    const styled = styledRef.current;
+    const span = styled?.range === range ? styled.span : document.createElement('span');
+    if (span !== styled?.span) {
+      span.append(range.extractContents());
+      range.insertNode(span);
+      range.selectNodeContents(span);
+      styledRef.current = { range, span };
+    }
+    span.style[property] = value;
+    span.querySelectorAll<HTMLElement>('[style]').forEach((child: HTMLElement) => {
+      child.style[property] = '';
+    });
+    setSelectionStyle(readStyle(span, editableRef.current ?? span));
+  };
+
+  const applyFontSize = (input: HTMLInputElement) => {
+    const size = parseFloat(input.value);
+    if (Number.isFinite(size) && size > 0 && size !== selectionStyle?.fontSize) {
+      applyStyle('fontSize', `${size}px`);
+    }
+  };
+
+  return (
+    <g transform={transform ?? undefined}>
+      <foreignObject
+        x={element.position.x}
+        y={element.position.y}
+        width={EDITOR_EXTENT}
+        height={EDITOR_EXTENT}
+        overflow="visible"
+        pointerEvents="none"
+      >
+        <div
+          ref={containerRef}
+          className="relative w-fit"
+          onPointerDown={(e: React.PointerEvent) => e.stopPropagation()}
+          onBlur={(e: React.FocusEvent) => {
+            if (!containerRef.current?.contains(e.relatedTarget as Node | null)) close();
+          }}
+          onKeyDown={(e: React.KeyboardEvent) => {
+            if (e.key === 'Escape') {
+              e.stopPropagation();
+              (e.target as HTMLElement).blur();
+            }
+          }}
+        >
+          <div
+            className="absolute bottom-full left-0 pb-2"
+            style={{ transform: `scale(${pixelSize})`, transformOrigin: 'bottom left', pointerEvents: 'auto' }}
+          >
+            <div className="flex items-center gap-1 rounded-md border bg-background p-1 shadow-md">
+              {([['bold', Bold], ['italic', Italic], ['underline', Underline]] as const).map(([command, Icon]) => {
+                const label = command[0].toUpperCase() + command.slice(1);
+                const active = command === 'bold'
+                  ? (selectionStyle?.fontWeight ?? 400) >= 600
+                  : selectionStyle?.[command] ?? false;
+                return (
+                  <Button
+                    key={command}
+                    variant={active ? 'secondary' : 'ghost'}
+                    size="icon"
+                    className="size-7"
+                    // Keeps focus, and with it the selection, in the text
+                    onMouseDown={(e: React.MouseEvent) => e.preventDefault()}
+                    onClick={() => toggle(command)}
+                    title={label}
+                    aria-label={label}
+                    aria-pressed={active}
+                  >
+                    <Icon />
+                  </Button>
+                );
+              })}
+              <Input
+                type="color"
+                className="h-7 w-9 p-1"
+                value={selectionStyle?.color ?? '#000000'}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => applyStyle('color', e.currentTarget.value.toUpperCase())}
+                title="Text color"
+                aria-label="Text color"
+              />
+              <Input
+                key={selectionStyle?.fontSize}
+                type="number"
+                min={1}
+                className="h-7 w-16"
+                defaultValue={selectionStyle?.fontSize ?? textStyle.fontSize}
+                onBlur={(e: React.FocusEvent<HTMLInputElement>) => applyFontSize(e.currentTarget)}
+                onKeyDown={(e: React.KeyboardEvent<HTMLInputElement>) => {
+                  if (e.key === 'Enter') {
+                    applyFontSize(e.currentTarget);
+                    editableRef.current?.focus();
+                  }
+                }}
+                title="Font size"
+                aria-label="Font size"
+              />
+            </div>
+          </div>
+
+          <div
+            ref={editableRef}
+            contentEditable
+            suppressContentEditableWarning
+            role="textbox"
+            aria-multiline
+            onInput={syncSelection}
+            onPaste={(e: React.ClipboardEvent) => {
+              // Pasted text takes the styling where it lands rather than bringing its own
+              e.preventDefault();
+              document.execCommand('insertText', false, e.clipboardData.getData('text/plain'));
+            }}
+            style={{
+              width: maxWidth ?? 'max-content',
+              minWidth: maxWidth === undefined ? element.dimensions?.width : undefined,
+              fontFamily: textStyle.fontFamily,
+              fontSize: textStyle.fontSize,
+              fontWeight: textStyle.fontWeight,
+              lineHeight: textStyle.lineHeight,
+              textAlign: textStyle.textAlign,
+              color: getBaseColor(element),
+              whiteSpace: 'pre-wrap',
+              outline: `${pixelSize}px solid ${OUTLINE_COLOR}`,
+              pointerEvents: 'auto',
+              userSelect: 'text',
+              cursor: 'text'
+            }}
+          />
+        </div>
+      </foreignObject>
+    </g>
+  );
+}
+
+/**
+ * Color of text in runs that don't set one: the bottom fill's, or its first stop for gradients
+ */
+function getBaseColor(element: CanvasElement): string {
+  const fill = getFillLayers(element)[0];
+  if (!fill) return '#000000';
+  return fill.type === 'solid' ? fill.color : fill.stops[0].color;
+}
+
+/**
+ * Styling the browser gives text inside an element. Underlines are drawn by whichever ancestor sets them, so every
+ * element up to the editor is checked
+ */
+function readStyle(element: Element, root: HTMLElement): NodeStyle {
+  const style = getComputedStyle(element);
+  let underline = false;
+  for (let node: Element | null = element; node && !underline; node = node === root ? null : node.parentElement) {
+    underline = getComputedStyle(node).textDecorationLine.includes('underline');
+  }
+  return {
+    fontWeight: parseInt(style.fontWeight, 10),
+    fontSize: parseFloat(style.fontSize),
+    italic: style.fontStyle !== 'normal',
+    underline,
+    color: toHexColor(style.color)
+  };
+}
+
+function toHexColor(color: string): string {
+  const channels = (color.match(/[\d.]+/g) ?? []).slice(0, 3).map(Number);
+  return `#${channels.map((channel: number) => Math.round(channel).toString(16).padStart(2, '0')).join('')}`.toUpperCase();
+}
+
+/**
+ * Fill the editor with spans for the runs, with line breaks as <br> like the browser inserts them
+ */
+function renderRuns(root: HTMLElement, runs: TextRun[]) {
+  root.replaceChildren(...runs.map((run: TextRun) => {
+    const span = document.createElement('span');
+    if (run.fontWeight !== undefined) span.style.fontWeight = String(run.fontWeight);
+    if (run.fontSize !== undefined) span.style.fontSize = `${run.fontSize}px`;
+    if (run.italic) span.style.fontStyle = 'italic';
+    if (run.underline) span.style.textDecoration = 'underline';
+    if (run.color) span.style.color = run.color;
+    run.text.split('\n').forEach((line: string, index: number) => {
+      if (index > 0) span.append(document.createElement('br'));
+      if (line) span.append(line);
+    });
+    return span;
+  }));
+  // A line break at the very end shows no empty line after it unless another follows
+  if (getPlainText(runs).endsWith('\n')) {
+    root.append(document.createElement('br'));
+  }
+}
+
+/**
+ * Read the edited content back as runs, keeping only the styling that differs from the editor's own. Browsers mark
+ * line breaks with <br> or by wrapping lines in blocks, and add a <br> at the end of a block that would otherwise
+ * show no line
+ */
+function readRuns(root: HTMLElement): TextRun[] {
+  const base = readStyle(root, root);
+  const runs: TextRun[] = [];
+  let started = false;
+  let breakPending = false;
+
+  const push = (text: string, element: Element) => {
+    const style = readStyle(element, root);
+    const run: TextRun = { text };
+    if (style.fontWeight !== base.fontWeight) run.fontWeight = Math.min(900, Math.max(100, style.fontWeight));
+    if (style.fontSize !== base.fontSize) run.fontSize = style.fontSize;
+    if (style.italic) run.italic = true;
+    if (style.underline) run.underline = true;
+    if (style.color !== base.color) run.color = style.color;
+
+    const last = runs[runs.length - 1];
+    if (last && JSON.stringify({ ...last, text: '' }) === JSON.stringify({ ...run, text: '' })) {
+      last.text += text;
+    } else {
+      runs.push(run);
+    }
+  };
+
+  const append = (text: string, element: Element) => {
+    if (breakPending) {
+      push('\n', element);
+      breakPending = false;
+    }
+    if (text) push(text, element);
+    started = true;
+  };
+
+  const visit = (node: Node) => {
+    if (node instanceof Text) {
+      if (node.data && node.parentElement) append(node.data, node.parentElement);
+      return;
+    }
+    if (!(node instanceof HTMLElement)) return;
+    if (node.tagName === 'BR') {
+      append(isTrailing(node, root) ? '' : '\n', node.parentElement ?? root);
+      return;
+    }
+    const block = BLOCK_TAGS.includes(node.tagName);
+    if (block && started) breakPending = true;
+    node.childNodes.forEach(visit);
+    if (block && started) breakPending = true;
+  };
+
+  root.childNodes.forEach(visit);
+  return runs;
+}
+
+// Whether nothing follows a node before the end of its block
+function isTrailing(node: Node, root: HTMLElement): boolean {
+  for (let current: Node = node; current !== root; current = current.parentNode ?? root) {
+    if (current instanceof HTMLElement && current !== node && BLOCK_TAGS.includes(current.tagName)) {
+      return true;
+    }
+    let next = current.nextSibling;
+    while (next instanceof Text && !next.data) next = next.nextSibling;
+    if (next) return false;
+  }
+  return true;
+}
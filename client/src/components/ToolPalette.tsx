@@ -0,0 +1,45 @@
+import { ArrowUpRight, Circle, Hexagon, Minus, MousePointer2, PenTool, Pencil, Square, Star, Type } from 'lucide-react';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { TOOL_SHORTCUTS, type Tool } from '@/lib/canvas';
+
+interface ToolPaletteProps {
+  tool: Tool;
+  onToolChange: (tool: Tool) => void;
+}
+
+const TOOLS: { tool: Tool; label: string; icon: typeof Square }[] = [
+  { tool: 'select', label: 'Select', icon: MousePointer2 },
+  { tool: 'rectangle', label: 'Rectangle', icon: Square },
+  { tool: 'ellipse', label: 'Ellipse', icon: Circle },
+  { tool: 'polygon', label: 'Polygon', icon: Hexagon },
+  { tool: 'star', label: 'Star', icon: Star },
+  { tool: 'line', label: 'Line', icon: Minus },
+  { tool: 'arrow', label: 'Arrow', icon: ArrowUpRight },
+  { tool: 'text', label: 'Text', icon: Type },
+  { tool: 'pen', label: 'Pen', icon: PenTool },
+  { tool: 'pencil', label: 'Pencil', icon: Pencil }
+];
+
+const SHORTCUT_BY_TOOL = Object.fromEntries(
+  Object.entries(TOOL_SHORTCUTS).map(([key, tool]) => [tool, key.toUpperCase()])
+);
+
+export default function ToolPalette({ tool, onToolChange }: ToolPaletteProps) {
+  return (
+    <ToggleGroup
+      type="single"
+      variant="outline"
+      value={tool}
+      onValueChange={(value: string) => {
+        // Radix reports an empty value when the active item is clicked again
+        if (value) onToolChange(value as Tool);
+      }}
+    >
+      {TOOLS.map(({ tool: itemTool, label, icon: Icon }) => (
+        <ToggleGroupItem key={itemTool} value={itemTool} aria-label={label} title={`${label} (${SHORTCUT_BY_TOOL[itemTool]})`}>
+          <Icon />
+        </ToggleGroupItem>
+      ))}
+    </ToggleGroup>
+  );
+}
@@ -0,0 +1,262 @@
+import { useState, useCallback, useEffect } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
+import { GitCompare, History, RotateCcw } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Skeleton } from '@/components/ui/skeleton';
+import { getPlainText } from '@/lib/text';
+import { trpc } from '@/utils/trpc';
+import type { CanvasElement, CanvasSnapshot, RestoreSnapshotResult, SnapshotDiff } from '../../../server/src/schema';
+
+interface VersionsDialogProps {
+  canvasId: string;
+  onRestored: (result: RestoreSnapshotResult) => void;
+}
+
+/**
+ * Named versions of the canvas: save the current state, compare a version with the canvas as it is now, or restore it.
+ */
+export default function VersionsDialog({ canvasId, onRestored }: VersionsDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [snapshots, setSnapshots] = useState<CanvasSnapshot[]>([]);
+  const [label, setLabel] = useState('');
+  const [comparison, setComparison] = useState<{ snapshotId: string; diff: SnapshotDiff } | null>(null);
+  const [restoreTarget, setRestoreTarget] = useState<CanvasSnapshot | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSnapshots = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      setSnapshots(await trpc.getSnapshots.query(canvasId));
+    } catch (err) {
+      console.error('Failed to load versions:', err);
+      setError('Failed to load versions.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [canvasId]);
+
+  useEffect(() => {
+    if (open) {
+      loadSnapshots();
+    } else {
+      setComparison(null);
+    }
+  }, [open, loadSnapshots]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = label.trim();
+    if (!trimmed) return;
+
+    setIsBusy(true);
+    try {
+      const snapshot = await trpc.createSnapshot.mutate({ canvasId, label: trimmed });
+      setSnapshots((prev: CanvasSnapshot[]) => [snapshot, ...prev]);
+      setLabel('');
+      toast.success(`Saved version "${snapshot.label}"`);
+    } catch (err) {
+      console.error('Failed to save version:', err);
+      toast.error('Failed to save version. Please try again.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCompare = async (snapshot: CanvasSnapshot) => {
+    if (comparison?.snapshotId === snapshot.id) {
+      setComparison(null);
+      return;
+    }
+
+    setIsBusy(true);
+    try {
+      const diff = await trpc.diffSnapshot.query({ snapshotId: snapshot.id });
+      setComparison({ snapshotId: snapshot.id, diff });
+    } catch (err) {
+      console.error('Failed to compare version:', err);
+      toast.error('Failed to compare with the current canvas.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!restoreTarget) return;
+
+    setIsBusy(true);
+    try {
+      const result = await trpc.restoreSnapshot.mutate(restoreTarget.id);
+      onRestored(result);
+      toast.success(`Restored "${restoreTarget.label}"`);
+      setOpen(false);
+    } catch (err) {
+      console.error('Failed to restore version:', err);
+      toast.error('Failed to restore version. Please try again.');
+    } finally {
+      setIsBusy(false);
+      setRestoreTarget(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" title="Versions" aria-label="Versions">
+          <History />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Versions</DialogTitle>
+          <DialogDescription>Save a checkpoint before big changes and restore it if you don't like the result.</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSave} className="flex gap-2">
+          <Input
+            value={label}
+            maxLength={100}
+            placeholder="Version name, e.g. Before AI run"
+            aria-label="Version name"
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setLabel(e.target.value)}
+          />
+          <Button type="submit" disabled={isBusy || !label.trim()}>
+            Save version
+          </Button>
+        </form>
+
+        {error && (
+          <div className="flex items-center justify-between bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded text-sm">
+            <span>{error}</span>
+            <Button variant="outline" size="sm" onClick={loadSnapshots}>
+              Retry
+            </Button>
+          </div>
+        )}
+
+        <ScrollArea className="max-h-96">
+          <div className="space-y-2">
+            {isLoading && snapshots.length === 0 ? (
+              Array.from({ length: 2 }, (_, index: number) => <Skeleton key={index} className="h-14 w-full" />)
+            ) : snapshots.length === 0 && !error ? (
+              <p className="py-6 text-center text-sm text-muted-foreground">No saved versions yet.</p>
+            ) : (
+              snapshots.map((snapshot: CanvasSnapshot) => (
+                <div key={snapshot.id} className="rounded-md border p-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="truncate font-medium">{snapshot.label}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {snapshot.elementCount} element{snapshot.elementCount === 1 ? '' : 's'} · Saved{' '}
+                        {formatDistanceToNow(snapshot.createdAt, { addSuffix: true })}
+                      </p>
+                    </div>
+                    <div className="flex shrink-0 gap-1">
+                      <Button
+                        variant={comparison?.snapshotId === snapshot.id ? 'secondary' : 'ghost'}
+                        size="icon"
+                        disabled={isBusy}
+                        onClick={() => handleCompare(snapshot)}
+                        title="Compare with current canvas"
+                        aria-label={`Compare ${snapshot.label} with current canvas`}
+                      >
+                        <GitCompare />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        disabled={isBusy}
+                        onClick={() => setRestoreTarget(snapshot)}
+                        title="Restore this version"
+                        aria-label={`Restore ${snapshot.label}`}
+                      >
+                        <RotateCcw />
+                      </Button>
+                    </div>
+                  </div>
+                  {comparison?.snapshotId === snapshot.id && <DiffSummary diff={comparison.diff} />}
+                </div>
+              ))
+            )}
+          </div>
+        </ScrollArea>
+
+        <AlertDialog open={restoreTarget !== null} onOpenChange={(nextOpen: boolean) => !nextOpen && setRestoreTarget(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Restore "{restoreTarget?.label}"?</AlertDialogTitle>
+              <AlertDialogDescription>
+                All elements on the canvas are replaced with the ones from this version. You can undo the restore.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={handleRestore}>Restore</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface DiffSummaryProps {
+  diff: SnapshotDiff;
+}
+
+/**
+ * What changed on the canvas since the version was saved
+ */
+function DiffSummary({ diff }: DiffSummaryProps) {
+  const rows = [
+    ...diff.added.map((element: CanvasElement) => ({ element, sign: '+', className: 'text-green-700' })),
+    ...diff.removed.map((element: CanvasElement) => ({ element, sign: '−', className: 'text-red-700' })),
+    ...diff.modified.map(({ after }: { after: CanvasElement }) => ({ element: after, sign: '~', className: 'text-amber-700' }))
+  ];
+
+  return (
+    <div className="mt-2 border-t pt-2 text-xs">
+      <p className="text-muted-foreground">
+        Since this version: {diff.added.length} added · {diff.removed.length} removed · {diff.modified.length} changed ·{' '}
+        {diff.unchangedCount} unchanged
+      </p>
+      {rows.length > 0 && (
+        <ul className="mt-1 space-y-0.5 font-mono">
+          {rows.map(({ element, sign, className }: { element: CanvasElement; sign: string; className: string }) => (
+            <li key={element.id} className={className}>
+              {sign} {describeElement(element)}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function describeElement(element: CanvasElement): string {
+  const name = element.type === 'text' && element.textProps ? `text "${getPlainText(element.textProps.content)}"` : element.type;
+  return `${name} at (${Math.round(element.position.x)}, ${Math.round(element.position.y)})`;
+}
@@ -0,0 +1,45 @@
+import { Maximize, Minus, Plus, Scan } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+interface ZoomControlsProps {
+  zoom: number;
+  canZoomToSelection: boolean;
+  onZoomIn: () => void;
+  onZoomOut: () => void;
+  onZoomToFit: () => void;
+  onZoomToSelection: () => void;
+}
+
+export default function ZoomControls({
+  zoom,
+  canZoomToSelection,
+  onZoomIn,
+  onZoomOut,
+  onZoomToFit,
+  onZoomToSelection
+}: ZoomControlsProps) {
+  return (
+    <div className="flex items-center gap-1">
+      <Button variant="ghost" size="icon" onClick={onZoomOut} title="Zoom out (Ctrl+-)" aria-label="Zoom out">
+        <Minus />
+      </Button>
+      <span className="w-12 text-center text-sm tabular-nums text-muted-foreground">{Math.round(zoom * 100)}%</span>
+      <Button variant="ghost" size="icon" onClick={onZoomIn} title="Zoom in (Ctrl+=)" aria-label="Zoom in">
+        <Plus />
+      </Button>
+      <Button variant="ghost" size="icon" onClick={onZoomToFit} title="Zoom to fit (Shift+1)" aria-label="Zoom to fit">
+        <Maximize />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={onZoomToSelection}
+        disabled={!canZoomToSelection}
+        title="Zoom to selection (Shift+2)"
+        aria-label="Zoom to selection"
+      >
+        <Scan />
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+import { useEffect, useRef } from 'react';
+import { trpc } from '@/utils/trpc';
+import type { CanvasEvent } from '../../../server/src/schema';
+
+/**
+ * Follow live changes to a canvas made by anyone editing it, including this client's own changes
+ * echoed back, so handlers must be safe to apply twice.
+ */
+export function useCanvasEvents(canvasId: string, onEvent: (event: CanvasEvent) => void) {
+  // Keep the latest handler without resubscribing whenever it changes
+  const onEventRef = useRef(onEvent);
+  useEffect(() => {
+    onEventRef.current = onEvent;
+  }, [onEvent]);
+
+  useEffect(() => {
+    const subscription = trpc.onCanvasEvent.subscribe(canvasId, {
+      onData: (event: CanvasEvent) => onEventRef.current(event),
+      onError: (err: unknown) => console.error('Canvas event subscription failed:', err),
+    });
+    return () => subscription.unsubscribe();
+  }, [canvasId]);
+}
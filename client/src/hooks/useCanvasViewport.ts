@@ -0,0 +1,76 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { Bounds } from '@/lib/canvas';
+import { fitBounds, isSameViewport, zoomAtPoint, type Size, type Viewport } from '@/lib/viewport';
+import { trpc } from '@/utils/trpc';
+import type { Canvas } from '../../../server/src/schema';
+
+// Viewport changes arrive on every wheel tick, so only persist once the user pauses
+const SAVE_DELAY_MS = 500;
+
+/**
+ * Zoom/pan state for the editor, seeded from Canvas.zoom/panX/panY and saved back (debounced)
+ * so a canvas reopens where the user left it. A canvas that was never navigated is fitted to the screen.
+ */
+export function useCanvasViewport(canvas: Canvas | null, container: HTMLElement | null) {
+  const [viewport, setViewport] = useState<Viewport>({ zoom: 1, panX: 0, panY: 0 });
+  const [containerSize, setContainerSize] = useState<Size | null>(null);
+  const initializedCanvasIdRef = useRef<string | null>(null);
+  const lastSavedRef = useRef<Viewport | null>(null);
+  const pendingSaveRef = useRef<{ canvasId: string; viewport: Viewport } | null>(null);
+
+  useEffect(() => {
+    if (!container) return;
+    const observer = new ResizeObserver(() => {
+      setContainerSize({ width: container.clientWidth, height: container.clientHeight });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [container]);
+
+  useEffect(() => {
+    if (!canvas || !containerSize || initializedCanvasIdRef.current === canvas.id) return;
+    initializedCanvasIdRef.current = canvas.id;
+
+    const stored = { zoom: canvas.zoom, panX: canvas.panX, panY: canvas.panY };
+    const neverNavigated = isSameViewport(stored, { zoom: 1, panX: 0, panY: 0 });
+    lastSavedRef.current = stored;
+    setViewport(neverNavigated
+      ? fitBounds({ x: 0, y: 0, width: canvas.width, height: canvas.height }, containerSize)
+      : stored);
+  }, [canvas, containerSize]);
+
+  const flushSave = useCallback(() => {
+    const pending = pendingSaveRef.current;
+    if (!pending) return;
+    pendingSaveRef.current = null;
+    lastSavedRef.current = pending.viewport;
+    trpc.updateCanvas.mutate({ id: pending.canvasId, ...pending.viewport }).catch((err: unknown) => {
+      console.error('Failed to save viewport:', err);
+    });
+  }, []);
+
+  useEffect(() => {
+    const canvasId = initializedCanvasIdRef.current;
+    if (!canvasId || (lastSavedRef.current && isSameViewport(lastSavedRef.current, viewport))) return;
+    pendingSaveRef.current = { canvasId, viewport };
+    const timer = setTimeout(flushSave, SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [viewport, flushSave]);
+
+  // Don't lose the last few zoom/pan changes when the editor closes before the debounce fires
+  useEffect(() => flushSave, [flushSave]);
+
+  const zoomBy = useCallback((factor: number) => {
+    if (!containerSize) return;
+    setViewport((prev: Viewport) =>
+      zoomAtPoint(prev, factor, { x: containerSize.width / 2, y: containerSize.height / 2 })
+    );
+  }, [containerSize]);
+
+  const zoomToBounds = useCallback((bounds: Bounds, maxZoom?: number) => {
+    if (!containerSize) return;
+    setViewport(fitBounds(bounds, containerSize, maxZoom));
+  }, [containerSize]);
+
+  return { viewport, setViewport, zoomBy, zoomToBounds };
+}
@@ -0,0 +1,63 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { Point } from '@/lib/canvas';
+import { getLocalViewer } from '@/lib/presence';
+import { trpc } from '@/utils/trpc';
+import type { Viewer } from '../../../server/src/schema';
+
+// Pointer moves fire far more often than others need to see them
+const CURSOR_SEND_INTERVAL_MS = 50;
+
+/**
+ * Live presence on a canvas: announces this tab as a viewer for as long as the editor is open, shares its cursor
+ * and selection, and returns everyone viewing. Nothing is stored; the server drops the viewer on disconnect.
+ */
+export function usePresence(canvasId: string, selectedIds: string[]) {
+  const [viewers, setViewers] = useState<Viewer[]>([]);
+  const [self] = useState(getLocalViewer);
+  const pendingCursorRef = useRef<Point | null | undefined>(undefined);
+  const cursorTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    const subscription = trpc.presence.watch.subscribe(
+      { canvasId, sessionId: self.sessionId, name: self.name },
+      {
+        onData: (next: Viewer[]) => setViewers(next),
+        onError: (err: unknown) => console.error('Presence subscription failed:', err),
+      }
+    );
+    return () => {
+      subscription.unsubscribe();
+      setViewers([]);
+    };
+  }, [canvasId, self]);
+
+  const sendPresence = useCallback((changes: { cursor?: Point | null; selection?: string[] }) => {
+    trpc.presence.update.mutate({ canvasId, sessionId: self.sessionId, ...changes }).catch((err: unknown) => {
+      console.error('Failed to share presence:', err);
+    });
+  }, [canvasId, self]);
+
+  useEffect(() => {
+    sendPresence({ selection: selectedIds });
+  }, [selectedIds, sendPresence]);
+
+  // Throttled: the latest position is sent at most once per interval
+  const updateCursor = useCallback((cursor: Point | null) => {
+    pendingCursorRef.current = cursor;
+    if (cursorTimerRef.current) return;
+    cursorTimerRef.current = setTimeout(() => {
+      cursorTimerRef.current = null;
+      if (pendingCursorRef.current !== undefined) {
+        sendPresence({ cursor: pendingCursorRef.current });
+        pendingCursorRef.current = undefined;
+      }
+    }, CURSOR_SEND_INTERVAL_MS);
+  }, [sendPresence]);
+
+  useEffect(() => () => {
+    if (cursorTimerRef.current) clearTimeout(cursorTimerRef.current);
+  }, []);
+
+  const others = viewers.filter((viewer: Viewer) => viewer.sessionId !== self.sessionId);
+  return { viewers, others, self, updateCursor };
+}
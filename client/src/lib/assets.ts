@@ -0,0 +1,25 @@
+import { ASSET_MIME_TYPES } from '../../../server/src/asset_limits';
+
+/**
+ * URL the server serves an asset's file at, through the same /api proxy as tRPC
+ */
+export function getAssetUrl(assetId: string): string {
+  return `/api/assets/${assetId}`;
+}
+
+export function isImageFile(file: File): boolean {
+  return (ASSET_MIME_TYPES as readonly string[]).includes(file.type);
+}
+
+/**
+ * File contents as base64, the form uploadAsset takes them in
+ */
+export function readFileAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    // The result is a data URL; everything after the comma is the base64 payload
+    reader.onload = () => resolve((reader.result as string).slice((reader.result as string).indexOf(',') + 1));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
@@ -0,0 +1,422 @@
+import { fitPath, getPathControlBounds, translatePath } from '@/lib/paths';
+import { DEFAULT_TEXT_STYLE, getTextDimensions } from '@/lib/text';
+import type { Asset, CanvasElement, CreateElementInput, PathCommand, UpdateElementInput } from '../../../server/src/schema';
+
+export type Tool = 'select' | 'rectangle' | 'ellipse' | 'polygon' | 'star' | 'line' | 'arrow' | 'text' | 'pen' | 'pencil';
+
+// Tools that draw a shape with a single drag; the pen and pencil build paths point by point
+export type ShapeTool = Exclude<Tool, 'select' | 'pen' | 'pencil'>;
+
+// Single-key shortcuts for switching tools in the editor
+export const TOOL_SHORTCUTS: Record<string, Tool> = {
+  v: 'select',
+  r: 'rectangle',
+  o: 'ellipse',
+  g: 'polygon',
+  s: 'star',
+  l: 'line',
+  a: 'arrow',
+  t: 'text',
+  p: 'pen',
+  n: 'pencil'
+};
+
+export type ResizeHandle = 'nw' | 'n' | 'ne' | 'e' | 'se' | 's' | 'sw' | 'w';
+
+export type LineEndpoint = 'start' | 'end';
+
+// Everything updateElement accepts except the element id
+export type ElementChanges = Omit<UpdateElementInput, 'id' | 'expectedUpdatedAt'>;
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface Endpoints {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+export const RESIZE_HANDLES: ResizeHandle[] = ['nw', 'n', 'ne', 'e', 'se', 's', 'sw', 'w'];
+
+// Smallest width/height an element can be resized or drawn to (schema requires positive dimensions)
+const MIN_SIZE = 1;
+
+// Drags shorter than this are treated as clicks when drawing
+const CLICK_TOLERANCE = 3;
+
+// Inserted images larger than this are scaled down; images without an intrinsic size get it as their size
+const MAX_IMAGE_SIZE = 480;
+const DEFAULT_IMAGE_SIZE = 240;
+
+/**
+ * Returns elements in paint order: lowest zIndex first, ties keep creation order
+ */
+export function sortByZIndex(elements: CanvasElement[]): CanvasElement[] {
+  return [...elements].sort((a: CanvasElement, b: CanvasElement) =>
+    a.zIndex - b.zIndex || a.createdAt.getTime() - b.createdAt.getTime()
+  );
+}
+
+/**
+ * Start and end point of a line or arrow, or null for elements positioned by their box
+ */
+export function getEndpoints(element: CanvasElement): Endpoints | null {
+  if (element.type === 'line') return element.lineProps;
+  if (element.type === 'arrow') return element.arrowProps;
+  return null;
+}
+
+/**
+ * Changes that put a line or arrow on new endpoints; arrows keep their head styles
+ */
+function getEndpointsChanges(element: CanvasElement, endpoints: Endpoints): ElementChanges {
+  return element.type === 'arrow' && element.arrowProps
+    ? { arrowProps: { ...element.arrowProps, ...endpoints } }
+    : { lineProps: endpoints };
+}
+
+/**
+ * Axis-aligned bounding box of an element in canvas coordinates.
+ * Lines and arrows have no dimensions, so their box is derived from the endpoints.
+ */
+export function getElementBounds(element: CanvasElement): Bounds {
+  const endpoints = getEndpoints(element);
+  if (endpoints) {
+    const { x1, y1, x2, y2 } = endpoints;
+    return {
+      x: Math.min(x1, x2),
+      y: Math.min(y1, y2),
+      width: Math.abs(x2 - x1),
+      height: Math.abs(y2 - y1)
+    };
+  }
+
+  return {
+    x: element.position.x,
+    y: element.position.y,
+    width: element.dimensions?.width ?? 0,
+    height: element.dimensions?.height ?? 0
+  };
+}
+
+/**
+ * Smallest box containing all given boxes, or null when there are none
+ */
+export function unionBounds(boundsList: Bounds[]): Bounds | null {
+  if (boundsList.length === 0) {
+    return null;
+  }
+
+  const left = Math.min(...boundsList.map((bounds: Bounds) => bounds.x));
+  const top = Math.min(...boundsList.map((bounds: Bounds) => bounds.y));
+  const right = Math.max(...boundsList.map((bounds: Bounds) => bounds.x + bounds.width));
+  const bottom = Math.max(...boundsList.map((bounds: Bounds) => bounds.y + bounds.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+export function boundsFromPoints(a: Point, b: Point): Bounds {
+  return {
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    width: Math.abs(b.x - a.x),
+    height: Math.abs(b.y - a.y)
+  };
+}
+
+/**
+ * Moves the edges selected by a resize handle by (dx, dy).
+ * Dragging past the opposite edge flips the box instead of producing negative sizes.
+ */
+export function resizeBounds(bounds: Bounds, handle: ResizeHandle, dx: number, dy: number): Bounds {
+  let left = bounds.x;
+  let top = bounds.y;
+  let right = bounds.x + bounds.width;
+  let bottom = bounds.y + bounds.height;
+
+  if (handle.includes('w')) left += dx;
+  if (handle.includes('e')) right += dx;
+  if (handle.includes('n')) top += dy;
+  if (handle.includes('s')) bottom += dy;
+
+  return {
+    x: Math.min(left, right),
+    y: Math.min(top, bottom),
+    width: Math.max(Math.abs(right - left), MIN_SIZE),
+    height: Math.max(Math.abs(bottom - top), MIN_SIZE)
+  };
+}
+
+/**
+ * Changes that translate an element by (dx, dy); lines, arrows and paths also shift their points
+ */
+export function getMoveChanges(element: CanvasElement, dx: number, dy: number): ElementChanges {
+  const position = { x: element.position.x + dx, y: element.position.y + dy };
+  if (element.type === 'path' && element.pathProps) {
+    return { position, pathProps: { ...element.pathProps, commands: translatePath(element.pathProps.commands, dx, dy) } };
+  }
+
+  const endpoints = getEndpoints(element);
+  if (!endpoints) {
+    return { position };
+  }
+
+  const { x1, y1, x2, y2 } = endpoints;
+  return { position, ...getEndpointsChanges(element, { x1: x1 + dx, y1: y1 + dy, x2: x2 + dx, y2: y2 + dy }) };
+}
+
+/**
+ * Changes that fit an element into new bounds; paths scale their points along
+ */
+function getBoundsChanges(element: CanvasElement, bounds: Bounds): ElementChanges {
+  const changes: ElementChanges = {
+    position: { x: bounds.x, y: bounds.y },
+    dimensions: { width: bounds.width, height: bounds.height }
+  };
+
+  if (element.type === 'path' && element.pathProps) {
+    const commands = fitPath(element.pathProps.commands, getElementBounds(element), bounds);
+    changes.pathProps = { ...element.pathProps, commands };
+  }
+
+  return changes;
+}
+
+/**
+ * Changes for resizing an element with its handles. Text isn't stretched: it wraps at the new width and keeps the
+ * height its lines need
+ */
+export function getResizeChanges(element: CanvasElement, bounds: Bounds): ElementChanges {
+  const changes = getBoundsChanges(element, bounds);
+  if (element.type === 'text' && element.textProps) {
+    changes.textProps = { ...element.textProps, maxWidth: bounds.width };
+    changes.dimensions = getTextDimensions(changes.textProps, element.textStyle);
+  }
+  return changes;
+}
+
+/**
+ * Changes that carry an element along when the box around it maps from `from` to `to`, as its group's box does
+ * when the group is moved or resized
+ */
+export function getTransformChanges(element: CanvasElement, from: Bounds, to: Bounds): ElementChanges {
+  const scaleX = from.width > 0 ? to.width / from.width : 1;
+  const scaleY = from.height > 0 ? to.height / from.height : 1;
+  const map = (x: number, y: number): Point => ({ x: to.x + (x - from.x) * scaleX, y: to.y + (y - from.y) * scaleY });
+
+  const endpoints = getEndpoints(element);
+  if (endpoints) {
+    const start = map(endpoints.x1, endpoints.y1);
+    const end = map(endpoints.x2, endpoints.y2);
+    return {
+      position: { x: Math.min(start.x, end.x), y: Math.min(start.y, end.y) },
+      ...getEndpointsChanges(element, { x1: start.x, y1: start.y, x2: end.x, y2: end.y })
+    };
+  }
+
+  const position = map(element.position.x, element.position.y);
+  if (!element.dimensions) {
+    return { position };
+  }
+  return getBoundsChanges(element, {
+    ...position,
+    width: element.dimensions.width * scaleX,
+    height: element.dimensions.height * scaleY
+  });
+}
+
+/**
+ * Changes that move one endpoint of a line or arrow, keeping position at the top-left of the endpoints
+ */
+export function getLineEndpointChanges(element: CanvasElement, endpoint: LineEndpoint, point: Point): ElementChanges {
+  const current = getEndpoints(element) ?? { x1: point.x, y1: point.y, x2: point.x, y2: point.y };
+  const endpoints = endpoint === 'start'
+    ? { ...current, x1: point.x, y1: point.y }
+    : { ...current, x2: point.x, y2: point.y };
+
+  return {
+    position: { x: Math.min(endpoints.x1, endpoints.x2), y: Math.min(endpoints.y1, endpoints.y2) },
+    ...getEndpointsChanges(element, endpoints)
+  };
+}
+
+/**
+ * Applies pending changes locally, mirroring what updateElement persists
+ */
+export function applyElementChanges(element: CanvasElement, changes: ElementChanges): CanvasElement {
+  const updated: CanvasElement = { ...element };
+  for (const [key, value] of Object.entries(changes)) {
+    if (value !== undefined) {
+      (updated as Record<string, unknown>)[key] = value;
+    }
+  }
+  return updated;
+}
+
+/**
+ * Whether changes made against `base` can be reapplied on top of `current` after a conflict: true when someone
+ * else only changed properties that the changes don't touch
+ */
+export function canRebaseChanges(base: CanvasElement, current: CanvasElement, changes: ElementChanges): boolean {
+  return Object.keys(changes).every((key: string) =>
+    JSON.stringify(base[key as keyof CanvasElement]) === JSON.stringify(current[key as keyof CanvasElement])
+  );
+}
+
+/**
+ * Builds the createElement input for a shape drawn with a creation tool from `start` to `end`.
+ * A click without a meaningful drag creates the shape at a default size.
+ */
+export function buildElementInput(
+  tool: ShapeTool,
+  canvasId: string,
+  start: Point,
+  end: Point,
+  zIndex: number
+): CreateElementInput {
+  const isClick = Math.abs(end.x - start.x) < CLICK_TOLERANCE && Math.abs(end.y - start.y) < CLICK_TOLERANCE;
+  const base = { canvasId, zIndex, visible: true, locked: false };
+
+  switch (tool) {
+    case 'line':
+    case 'arrow': {
+      const lineEnd = isClick ? { x: start.x + 100, y: start.y } : end;
+      const endpoints = { x1: start.x, y1: start.y, x2: lineEnd.x, y2: lineEnd.y };
+      return {
+        ...base,
+        type: tool,
+        position: { x: Math.min(start.x, lineEnd.x), y: Math.min(start.y, lineEnd.y) },
+        stroke: { color: '#111827', width: 2, opacity: 1, cap: 'round', join: 'miter' },
+        ...(tool === 'arrow'
+          ? { arrowProps: { ...endpoints, startHead: 'none', endHead: 'triangle' } }
+          : { lineProps: endpoints })
+      };
+    }
+
+    case 'text': {
+      const textStyle = { ...DEFAULT_TEXT_STYLE, fontSize: 24 };
+      const textProps = { content: [{ text: 'Text' }] };
+      return {
+        ...base,
+        type: 'text',
+        position: { x: start.x, y: start.y },
+        dimensions: getTextDimensions(textProps, textStyle),
+        fill: { type: 'solid', color: '#111827', opacity: 1 },
+        textStyle,
+        textProps
+      };
+    }
+
+    case 'rectangle':
+    case 'ellipse':
+    case 'polygon':
+    case 'star': {
+      const bounds = isClick
+        ? { x: start.x, y: start.y, width: 100, height: 100 }
+        : boundsFromPoints(start, end);
+      return {
+        ...base,
+        type: tool,
+        position: { x: bounds.x, y: bounds.y },
+        dimensions: {
+          width: Math.max(bounds.width, MIN_SIZE),
+          height: Math.max(bounds.height, MIN_SIZE)
+        },
+        fill: { type: 'solid', color: '#3B82F6', opacity: 1 },
+        stroke: null,
+        rectangleProps: tool === 'rectangle' ? { borderRadius: 0 } : null,
+        ellipseProps: tool === 'ellipse' ? { startAngle: 0, sweepAngle: 360, innerRadius: 0 } : null,
+        polygonProps: tool === 'polygon' ? { sides: 6 } : null,
+        starProps: tool === 'star' ? { points: 5, innerRadius: 0.5 } : null
+      };
+    }
+  }
+}
+
+/**
+ * Builds the createElement input for a path drawn with the pen or pencil. The box is approximate;
+ * the server works out the exact one from the commands
+ */
+export function buildPathInput(canvasId: string, commands: PathCommand[], zIndex: number): CreateElementInput {
+  const bounds = getPathControlBounds(commands);
+  const closed = commands[commands.length - 1]?.type === 'close';
+  return {
+    canvasId,
+    zIndex,
+    visible: true,
+    locked: false,
+    type: 'path',
+    position: { x: bounds.x, y: bounds.y },
+    dimensions: { width: Math.max(bounds.width, MIN_SIZE), height: Math.max(bounds.height, MIN_SIZE) },
+    fill: closed ? { type: 'solid', color: '#3B82F6', opacity: 1 } : null,
+    stroke: { color: '#111827', width: 2, opacity: 1, cap: 'round', join: 'round' },
+    pathProps: { commands, fillRule: 'nonzero' }
+  };
+}
+
+/**
+ * Image of an uploaded asset centered on a point, at its natural size scaled down to fit MAX_IMAGE_SIZE
+ */
+export function buildImageInput(canvasId: string, asset: Asset, center: Point, zIndex: number): CreateElementInput {
+  const naturalWidth = asset.width ?? DEFAULT_IMAGE_SIZE;
+  const naturalHeight = asset.height ?? DEFAULT_IMAGE_SIZE;
+  const scale = Math.min(1, MAX_IMAGE_SIZE / Math.max(naturalWidth, naturalHeight));
+  const width = Math.max(naturalWidth * scale, MIN_SIZE);
+  const height = Math.max(naturalHeight * scale, MIN_SIZE);
+  return {
+    canvasId,
+    zIndex,
+    visible: true,
+    locked: false,
+    type: 'image',
+    position: { x: center.x - width / 2, y: center.y - height / 2 },
+    dimensions: { width, height },
+    imageProps: { assetId: asset.id, fit: 'cover', crop: null }
+  };
+}
+
+/**
+ * Turns a createElement input into a renderable element, used for drawing previews
+ */
+export function previewElement(input: CreateElementInput, id: string): CanvasElement {
+  const now = new Date();
+  return {
+    id,
+    type: input.type,
+    canvasId: input.canvasId,
+    parentId: input.parentId ?? null,
+    position: input.position,
+    dimensions: input.dimensions,
+    zIndex: input.zIndex ?? 0,
+    visible: input.visible ?? true,
+    locked: input.locked ?? false,
+    transform: input.transform ?? null,
+    effects: input.effects ?? [],
+    fill: input.fill ?? null,
+    stroke: input.stroke ?? null,
+    extraFills: input.extraFills ?? [],
+    extraStrokes: input.extraStrokes ?? [],
+    textStyle: input.textStyle ?? null,
+    rectangleProps: input.rectangleProps ?? null,
+    lineProps: input.lineProps ?? null,
+    textProps: input.textProps ?? null,
+    ellipseProps: input.ellipseProps ?? null,
+    polygonProps: input.polygonProps ?? null,
+    starProps: input.starProps ?? null,
+    arrowProps: input.arrowProps ?? null,
+    pathProps: input.pathProps ?? null,
+    imageProps: input.imageProps ?? null,
+    createdAt: now,
+    updatedAt: now
+  };
+}
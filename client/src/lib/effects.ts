@@ -0,0 +1,79 @@
+import type { Bounds } from '@/lib/canvas';
+import type { ElementEffect } from '../../../server/src/schema';
+
+export type EffectType = ElementEffect['type'];
+
+export const EFFECT_LABELS: Record<EffectType, string> = {
+  'drop-shadow': 'Drop shadow',
+  'inner-shadow': 'Inner shadow',
+  'layer-blur': 'Layer blur',
+  'background-blur': 'Background blur'
+};
+
+// A blur's standard deviation is half its radius, and Gaussian blurs fade out within about three of them
+const BLUR_EXTENT = 1.5;
+
+/**
+ * Id of the filter an element's effects are drawn with, unique within the document like its crop clip
+ */
+export function getEffectsFilterId(elementId: string): string {
+  return `effects-${elementId}`;
+}
+
+/**
+ * Effects that are switched on and drawn with a filter on the element; background blurs are drawn behind it instead
+ */
+export function getFilterEffects(effects: ElementEffect[]): ElementEffect[] {
+  return effects.filter((effect: ElementEffect) => effect.visible && effect.type !== 'background-blur');
+}
+
+export function getBackgroundBlur(effects: ElementEffect[]): number | null {
+  const blurs = effects.filter((effect: ElementEffect) => effect.visible && effect.type === 'background-blur');
+  return blurs.length > 0 ? Math.max(...blurs.map((effect: ElementEffect) => effect.blur)) : null;
+}
+
+/**
+ * Region the effects' filter draws into: the element's box grown by how far its strokes reach past the outline
+ * and by how far shadows and blurs reach
+ */
+export function getFilterRegion(bounds: Bounds, effects: ElementEffect[], strokeReach: number): Bounds {
+  const reach = Math.max(0, ...effects.map((effect: ElementEffect) => {
+    const blur = effect.blur * BLUR_EXTENT;
+    // Inner shadows are cast from outside the shape, so they need the room too
+    return 'offset' in effect
+      ? blur + Math.max(effect.spread, 0) + Math.max(Math.abs(effect.offset.x), Math.abs(effect.offset.y))
+      : blur;
+  }));
+  const margin = reach + strokeReach + 1;
+  return {
+    x: bounds.x - margin,
+    y: bounds.y - margin,
+    width: bounds.width + margin * 2,
+    height: bounds.height + margin * 2
+  };
+}
+
+/**
+ * A new effect of the given type with the schema's defaults
+ */
+export function createEffect(type: EffectType): ElementEffect {
+  switch (type) {
+    case 'drop-shadow':
+    case 'inner-shadow':
+      return { type, visible: true, offset: { x: 0, y: 4 }, blur: 4, spread: 0, color: '#000000', opacity: 0.25 };
+    case 'layer-blur':
+    case 'background-blur':
+      return { type, visible: true, blur: 4 };
+  }
+}
+
+/**
+ * The effect turned into another type, keeping what the two have in common
+ */
+export function changeEffectType(effect: ElementEffect, type: EffectType): ElementEffect {
+  const changed = createEffect(type);
+  if ('offset' in effect && 'offset' in changed) {
+    return { ...effect, type: changed.type };
+  }
+  return { ...changed, visible: effect.visible, blur: effect.blur };
+}
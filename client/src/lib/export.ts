@@ -0,0 +1,53 @@
+import { createElement } from 'react';
+import CanvasArtboard from '@/components/CanvasArtboard';
+import { getAssetUrl } from '@/lib/assets';
+import type { Canvas, CanvasElement } from '../../../server/src/schema';
+
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+
+/**
+ * The canvas as a standalone SVG file, drawn by the same renderer as the editor, so transforms, gradients and effects
+ * come out as SVG transforms, gradients and filters. Images are embedded, so the file doesn't need the server
+ */
+export async function exportCanvasSvg(canvas: Canvas, elements: CanvasElement[]): Promise<string> {
+  // Only loaded when something is exported
+  const { renderToStaticMarkup } = await import('react-dom/server');
+  let markup = renderToStaticMarkup(createElement(
+    'svg',
+    { xmlns: SVG_NAMESPACE, width: canvas.width, height: canvas.height, viewBox: `0 0 ${canvas.width} ${canvas.height}` },
+    createElement(CanvasArtboard, { canvas, elements })
+  ));
+
+  const assetIds = new Set(elements.flatMap((element: CanvasElement) => element.imageProps ? [element.imageProps.assetId] : []));
+  for (const assetId of assetIds) {
+    markup = markup.split(`href="${getAssetUrl(assetId)}"`).join(`href="${await readAssetAsDataUrl(assetId)}"`);
+  }
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${markup}`;
+}
+
+/**
+ * Let the browser save text content as a file
+ */
+export function downloadFile(fileName: string, content: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  // Characters file systems reject are replaced
+  link.download = fileName.replace(/[\\/:*?"<>|]+/g, '-');
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+async function readAssetAsDataUrl(assetId: string): Promise<string> {
+  const response = await fetch(getAssetUrl(assetId));
+  if (!response.ok) {
+    throw new Error(`Failed to load asset ${assetId}: ${response.status}`);
+  }
+  const blob = await response.blob();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
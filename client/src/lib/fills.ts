@@ -0,0 +1,40 @@
+import type { Bounds, Point } from '@/lib/canvas';
+import type { CanvasElement, FillStyle } from '../../../server/src/schema';
+
+/**
+ * The fill and the extra fills painted over it, bottom to top
+ */
+export function getFillLayers(element: CanvasElement): FillStyle[] {
+  return element.fill ? [element.fill, ...element.extraFills] : element.extraFills;
+}
+
+/**
+ * Id of the gradient a fill layer is painted with, unique within the document like its crop clip
+ */
+export function getGradientId(elementId: string, layer: number): string {
+  return `fill-${elementId}-${layer}`;
+}
+
+/**
+ * SVG paint for a fill layer: its color when solid, a reference to the layer's gradient otherwise
+ */
+export function getFillPaint(elementId: string, layer: number, fill: FillStyle): string {
+  return fill.type === 'solid' ? fill.color : `url(#${getGradientId(elementId, layer)})`;
+}
+
+/**
+ * Start and end of a linear gradient at `angle` (degrees clockwise, 0 running left to right) across the bounds.
+ * They lie on the line through the center, far enough out that the first and last stops touch opposite corners
+ */
+export function getLinearGradientPoints(bounds: Bounds, angle: number): { start: Point; end: Point } {
+  const radians = (angle * Math.PI) / 180;
+  const dx = Math.cos(radians);
+  const dy = Math.sin(radians);
+  const halfLength = (Math.abs(bounds.width * dx) + Math.abs(bounds.height * dy)) / 2;
+  const centerX = bounds.x + bounds.width / 2;
+  const centerY = bounds.y + bounds.height / 2;
+  return {
+    start: { x: centerX - dx * halfLength, y: centerY - dy * halfLength },
+    end: { x: centerX + dx * halfLength, y: centerY + dy * halfLength }
+  };
+}
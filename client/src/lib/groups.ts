@@ -0,0 +1,82 @@
+import { applyElementChanges, getElementBounds, getTransformChanges, type ElementChanges } from '@/lib/canvas';
+import { getPassedTransformChanges } from '@/lib/transforms';
+import type { CanvasElement } from '../../../server/src/schema';
+
+/**
+ * Ids of the groups an element is nested in, innermost first
+ */
+export function getAncestorIds(elements: CanvasElement[], elementId: string): string[] {
+  const byId = new Map(elements.map((element: CanvasElement) => [element.id, element]));
+  const ancestorIds: string[] = [];
+  let parentId = byId.get(elementId)?.parentId ?? null;
+  // The server rejects cycles; stopping at a repeat only guards against changes that are half applied locally
+  while (parentId && !ancestorIds.includes(parentId)) {
+    ancestorIds.push(parentId);
+    parentId = byId.get(parentId)?.parentId ?? null;
+  }
+  return ancestorIds;
+}
+
+/**
+ * The element itself, or the outermost group it is nested in; clicking a member selects this
+ */
+export function getOutermostId(elements: CanvasElement[], elementId: string): string {
+  const ancestorIds = getAncestorIds(elements, elementId);
+  return ancestorIds[ancestorIds.length - 1] ?? elementId;
+}
+
+/**
+ * Every element nested anywhere inside a group
+ */
+export function getDescendants(elements: CanvasElement[], groupId: string): CanvasElement[] {
+  const descendants: CanvasElement[] = [];
+  let parentIds = [groupId];
+  while (parentIds.length > 0) {
+    const members = elements.filter((element: CanvasElement) =>
+      element.parentId !== null && parentIds.includes(element.parentId) && !descendants.includes(element)
+    );
+    descendants.push(...members);
+    parentIds = members.map((element: CanvasElement) => element.id);
+  }
+  return descendants;
+}
+
+/**
+ * Elements that are drawn: hiding a group hides everything inside it
+ */
+export function getShownElements(elements: CanvasElement[]): CanvasElement[] {
+  const byId = new Map(elements.map((element: CanvasElement) => [element.id, element]));
+  return elements.filter((element: CanvasElement) =>
+    element.visible &&
+    (element.parentId === null ||
+      getAncestorIds(elements, element.id).every((id: string) => byId.get(id)?.visible ?? true))
+  );
+}
+
+/**
+ * Adds the changes that carry the members of moved, resized or transformed groups along, mirroring what the
+ * server does when it saves the groups' own changes
+ */
+export function withMemberChanges(
+  elements: CanvasElement[],
+  changesById: Record<string, ElementChanges>
+): Record<string, ElementChanges> {
+  const result = { ...changesById };
+  for (const [id, changes] of Object.entries(changesById)) {
+    const group = elements.find((element: CanvasElement) => element.id === id);
+    if (group?.type !== 'group') continue;
+
+    const updated = applyElementChanges(group, changes);
+    const from = getElementBounds(group);
+    const to = getElementBounds(updated);
+    for (const member of getDescendants(elements, id)) {
+      if (result[member.id]) continue;
+      const carried = changes.position || changes.dimensions ? getTransformChanges(member, from, to) : {};
+      // Groups stay untransformed; a transform given to one ends up on the elements inside it
+      result[member.id] = changes.transform && member.type !== 'group'
+        ? { ...carried, ...getPassedTransformChanges(applyElementChanges(member, carried), updated, changes.transform) }
+        : carried;
+    }
+  }
+  return result;
+}
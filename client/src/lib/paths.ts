@@ -0,0 +1,191 @@
+import type { Bounds, Point } from '@/lib/canvas';
+import type { PathCommand } from '../../../server/src/schema';
+
+// A point placed with the pen tool; dragging while placing it pulls out a handle for a smooth curve
+export interface PenAnchor {
+  point: Point;
+  // Outgoing control point; the incoming one mirrors it through the anchor
+  handle: Point | null;
+}
+
+/**
+ * SVG path data for path commands
+ */
+export function getPathData(commands: PathCommand[]): string {
+  return commands.map((command: PathCommand) => {
+    switch (command.type) {
+      case 'move':
+        return `M ${command.x} ${command.y}`;
+      case 'line':
+        return `L ${command.x} ${command.y}`;
+      case 'quadratic':
+        return `Q ${command.x1} ${command.y1} ${command.x} ${command.y}`;
+      case 'cubic':
+        return `C ${command.x1} ${command.y1} ${command.x2} ${command.y2} ${command.x} ${command.y}`;
+      case 'close':
+        return 'Z';
+    }
+  }).join(' ');
+}
+
+/**
+ * Box around every point and control point. Curves never leave it, so it is a quick stand-in
+ * for the exact bounds the server computes
+ */
+export function getPathControlBounds(commands: PathCommand[]): Bounds {
+  const points = commands.flatMap((command: PathCommand): Point[] => {
+    switch (command.type) {
+      case 'move':
+      case 'line':
+        return [command];
+      case 'quadratic':
+        return [{ x: command.x1, y: command.y1 }, command];
+      case 'cubic':
+        return [{ x: command.x1, y: command.y1 }, { x: command.x2, y: command.y2 }, command];
+      case 'close':
+        return [];
+    }
+  });
+
+  const left = Math.min(...points.map((point: Point) => point.x));
+  const top = Math.min(...points.map((point: Point) => point.y));
+  return {
+    x: left,
+    y: top,
+    width: Math.max(...points.map((point: Point) => point.x)) - left,
+    height: Math.max(...points.map((point: Point) => point.y)) - top
+  };
+}
+
+/**
+ * Map every point and control point from one box to another, as the server does when a path's box changes
+ */
+export function fitPath(commands: PathCommand[], from: Bounds, to: Bounds): PathCommand[] {
+  const scaleX = from.width > 0 ? to.width / from.width : 1;
+  const scaleY = from.height > 0 ? to.height / from.height : 1;
+  const map = (x: number, y: number): Point => ({ x: to.x + (x - from.x) * scaleX, y: to.y + (y - from.y) * scaleY });
+
+  return commands.map((command: PathCommand): PathCommand => {
+    switch (command.type) {
+      case 'move':
+      case 'line':
+        return { type: command.type, ...map(command.x, command.y) };
+      case 'quadratic': {
+        const control = map(command.x1, command.y1);
+        return { type: 'quadratic', x1: control.x, y1: control.y, ...map(command.x, command.y) };
+      }
+      case 'cubic': {
+        const first = map(command.x1, command.y1);
+        const second = map(command.x2, command.y2);
+        return { type: 'cubic', x1: first.x, y1: first.y, x2: second.x, y2: second.y, ...map(command.x, command.y) };
+      }
+      case 'close':
+        return command;
+    }
+  });
+}
+
+export function translatePath(commands: PathCommand[], dx: number, dy: number): PathCommand[] {
+  const bounds = getPathControlBounds(commands);
+  return fitPath(commands, bounds, { ...bounds, x: bounds.x + dx, y: bounds.y + dy });
+}
+
+/**
+ * Commands for the anchors placed with the pen tool: straight segments between plain anchors, curves where
+ * either end has a handle
+ */
+export function getPenCommands(anchors: PenAnchor[], closed: boolean): PathCommand[] {
+  if (anchors.length === 0) {
+    return [];
+  }
+
+  const segment = (from: PenAnchor, to: PenAnchor): PathCommand => {
+    if (!from.handle && !to.handle) {
+      return { type: 'line', ...to.point };
+    }
+    const first = from.handle ?? from.point;
+    const second = to.handle ? mirror(to.handle, to.point) : to.point;
+    return { type: 'cubic', x1: first.x, y1: first.y, x2: second.x, y2: second.y, ...to.point };
+  };
+
+  const commands: PathCommand[] = [{ type: 'move', ...anchors[0].point }];
+  for (let index = 1; index < anchors.length; index++) {
+    commands.push(segment(anchors[index - 1], anchors[index]));
+  }
+  if (closed) {
+    commands.push(segment(anchors[anchors.length - 1], anchors[0]), { type: 'close' });
+  }
+  return commands;
+}
+
+/**
+ * Smooth curve through points drawn with the pencil. The points are thinned out first, so jitter
+ * smaller than `tolerance` disappears and the path stays small
+ */
+export function getFreehandCommands(points: Point[], tolerance: number): PathCommand[] {
+  const kept = simplifyPoints(points, tolerance);
+  if (kept.length < 3) {
+    return kept.map((point: Point, index: number): PathCommand => ({ type: index === 0 ? 'move' : 'line', ...point }));
+  }
+
+  // Catmull-Rom spline through the kept points, written as cubic Béziers
+  const commands: PathCommand[] = [{ type: 'move', ...kept[0] }];
+  for (let index = 0; index < kept.length - 1; index++) {
+    const previous = kept[Math.max(index - 1, 0)];
+    const from = kept[index];
+    const to = kept[index + 1];
+    const next = kept[Math.min(index + 2, kept.length - 1)];
+    commands.push({
+      type: 'cubic',
+      x1: from.x + (to.x - previous.x) / 6,
+      y1: from.y + (to.y - previous.y) / 6,
+      x2: to.x - (next.x - from.x) / 6,
+      y2: to.y - (next.y - from.y) / 6,
+      ...to
+    });
+  }
+  return commands;
+}
+
+/**
+ * Ramer-Douglas-Peucker: drop points that lie within `tolerance` of the line through their neighbours
+ */
+function simplifyPoints(points: Point[], tolerance: number): Point[] {
+  if (points.length < 3) {
+    return points;
+  }
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  let farthestIndex = 0;
+  let farthestDistance = 0;
+  for (let index = 1; index < points.length - 1; index++) {
+    const distance = distanceToSegment(points[index], first, last);
+    if (distance > farthestDistance) {
+      farthestIndex = index;
+      farthestDistance = distance;
+    }
+  }
+
+  if (farthestDistance <= tolerance) {
+    return [first, last];
+  }
+  return [
+    ...simplifyPoints(points.slice(0, farthestIndex + 1), tolerance).slice(0, -1),
+    ...simplifyPoints(points.slice(farthestIndex), tolerance)
+  ];
+}
+
+function distanceToSegment(point: Point, start: Point, end: Point): number {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0
+    ? 0
+    : Math.max(0, Math.min(1, ((point.x - start.x) * dx + (point.y - start.y) * dy) / lengthSquared));
+  return Math.hypot(point.x - (start.x + t * dx), point.y - (start.y + t * dy));
+}
+
+function mirror(point: Point, center: Point): Point {
+  return { x: 2 * center.x - point.x, y: 2 * center.y - point.y };
+}
@@ -0,0 +1,33 @@
+const NAME_STORAGE_KEY = 'design-canvas:viewer-name';
+
+export interface LocalViewer {
+  sessionId: string;
+  name: string;
+}
+
+// One session per tab, so two tabs of the same browser show up as two viewers
+const sessionId = crypto.randomUUID();
+
+/**
+ * Who this tab is to other viewers. There are no accounts, so a guest name is picked once and remembered
+ */
+export function getLocalViewer(): LocalViewer {
+  let name = localStorage.getItem(NAME_STORAGE_KEY);
+  if (!name) {
+    name = `Guest ${Math.floor(1000 + Math.random() * 9000)}`;
+    localStorage.setItem(NAME_STORAGE_KEY, name);
+  }
+  return { sessionId, name };
+}
+
+/**
+ * Up to two initials for an avatar, e.g. "Guest 4821" -> "G4"
+ */
+export function getInitials(name: string): string {
+  return name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((word: string) => word[0].toUpperCase())
+    .join('');
+}
@@ -0,0 +1,138 @@
+import type { Bounds, Point } from '@/lib/canvas';
+import type { CanvasElement } from '../../../server/src/schema';
+
+type EllipseProps = NonNullable<CanvasElement['ellipseProps']>;
+type ArrowHead = NonNullable<CanvasElement['arrowProps']>['endHead'];
+
+export interface ArrowHeadShape {
+  d: string;
+  // Closed heads are filled with the stroke color; open ones are stroked like the shaft
+  closed: boolean;
+  // How far the shaft stops short of the tip so it doesn't poke through a closed head
+  inset: number;
+}
+
+/**
+ * Vertices of a regular polygon inscribed in the bounds, first vertex at the top, as an SVG points list
+ */
+export function getPolygonPoints(bounds: Bounds, sides: number): string {
+  return formatPoints(Array.from({ length: sides }, (_, index: number) =>
+    pointOnEllipse(bounds, 1, -Math.PI / 2 + (index * 2 * Math.PI) / sides)
+  ));
+}
+
+/**
+ * Vertices of a star inscribed in the bounds, alternating between outer points and inner corners
+ */
+export function getStarPoints(bounds: Bounds, points: number, innerRadius: number): string {
+  return formatPoints(Array.from({ length: points * 2 }, (_, index: number) =>
+    pointOnEllipse(bounds, index % 2 === 0 ? 1 : innerRadius, -Math.PI / 2 + (index * Math.PI) / points)
+  ));
+}
+
+/**
+ * SVG path of an ellipse arc, pie or ring filling the bounds; null when a plain ellipse will do
+ */
+export function getEllipsePath(bounds: Bounds, props: EllipseProps): string | null {
+  const sweep = Math.max(-360, Math.min(360, props.sweepAngle));
+  const isFull = Math.abs(sweep) >= 360;
+  if (isFull && props.innerRadius <= 0) {
+    return null;
+  }
+
+  if (isFull) {
+    // A ring: the inner ellipse is cut out with the even-odd fill rule
+    return `${fullEllipsePath(bounds, 1)} ${fullEllipsePath(bounds, props.innerRadius)}`;
+  }
+
+  const start = (props.startAngle * Math.PI) / 180;
+  const end = ((props.startAngle + sweep) * Math.PI) / 180;
+  const largeArc = Math.abs(sweep) > 180 ? 1 : 0;
+  const direction = sweep > 0 ? 1 : 0;
+  const rx = bounds.width / 2;
+  const ry = bounds.height / 2;
+  const outerStart = pointOnEllipse(bounds, 1, start);
+  const outerEnd = pointOnEllipse(bounds, 1, end);
+  const outerArc = `M ${outerStart.x} ${outerStart.y} A ${rx} ${ry} 0 ${largeArc} ${direction} ${outerEnd.x} ${outerEnd.y}`;
+
+  if (props.innerRadius <= 0) {
+    const center = pointOnEllipse(bounds, 0, 0);
+    return `${outerArc} L ${center.x} ${center.y} Z`;
+  }
+
+  const innerStart = pointOnEllipse(bounds, props.innerRadius, start);
+  const innerEnd = pointOnEllipse(bounds, props.innerRadius, end);
+  return `${outerArc} L ${innerEnd.x} ${innerEnd.y} ` +
+    `A ${rx * props.innerRadius} ${ry * props.innerRadius} 0 ${largeArc} ${1 - direction} ${innerStart.x} ${innerStart.y} Z`;
+}
+
+/**
+ * Path of an arrow head whose tip is at `tip`, pointing away from `from`. Heads scale with the stroke width
+ */
+export function getArrowHeadShape(head: ArrowHead, from: Point, tip: Point, strokeWidth: number): ArrowHeadShape | null {
+  const length = Math.hypot(tip.x - from.x, tip.y - from.y);
+  if (head === 'none' || length === 0) {
+    return null;
+  }
+
+  const size = Math.max(10, strokeWidth * 4);
+  // Unit vectors along the shaft (towards the tip) and across it
+  const ux = (tip.x - from.x) / length;
+  const uy = (tip.y - from.y) / length;
+  const at = (along: number, across: number): Point => ({
+    x: tip.x - ux * along - uy * across,
+    y: tip.y - uy * along + ux * across
+  });
+
+  switch (head) {
+    case 'triangle':
+      return { d: pathThrough([at(0, 0), at(size, size / 2), at(size, -size / 2)], true), closed: true, inset: size };
+    case 'open':
+      return { d: pathThrough([at(size, size / 2), at(0, 0), at(size, -size / 2)], false), closed: false, inset: 0 };
+    case 'diamond':
+      return {
+        d: pathThrough([at(0, 0), at(size / 2, size / 3), at(size, 0), at(size / 2, -size / 3)], true),
+        closed: true,
+        inset: size
+      };
+    case 'circle': {
+      const radius = size / 3;
+      const left = at(0, 0);
+      const right = at(radius * 2, 0);
+      return {
+        d: `M ${left.x} ${left.y} A ${radius} ${radius} 0 1 0 ${right.x} ${right.y} A ${radius} ${radius} 0 1 0 ${left.x} ${left.y} Z`,
+        closed: true,
+        inset: radius * 2
+      };
+    }
+    case 'bar':
+      return { d: pathThrough([at(0, size / 2), at(0, -size / 2)], false), closed: false, inset: 0 };
+  }
+}
+
+/**
+ * Point at `angle` (radians, clockwise from 3 o'clock) on the ellipse filling the bounds, scaled towards its center
+ */
+function pointOnEllipse(bounds: Bounds, scale: number, angle: number): Point {
+  return {
+    x: bounds.x + (bounds.width / 2) * (1 + scale * Math.cos(angle)),
+    y: bounds.y + (bounds.height / 2) * (1 + scale * Math.sin(angle))
+  };
+}
+
+function fullEllipsePath(bounds: Bounds, scale: number): string {
+  const rx = (bounds.width / 2) * scale;
+  const ry = (bounds.height / 2) * scale;
+  const right = pointOnEllipse(bounds, scale, 0);
+  const left = pointOnEllipse(bounds, scale, Math.PI);
+  return `M ${right.x} ${right.y} A ${rx} ${ry} 0 1 1 ${left.x} ${left.y} A ${rx} ${ry} 0 1 1 ${right.x} ${right.y} Z`;
+}
+
+function pathThrough(points: Point[], closed: boolean): string {
+  const d = points.map((point: Point, index: number) => `${index === 0 ? 'M' : 'L'} ${point.x} ${point.y}`).join(' ');
+  return closed ? `${d} Z` : d;
+}
+
+function formatPoints(points: Point[]): string {
+  return points.map((point: Point) => `${point.x},${point.y}`).join(' ');
+}
@@ -0,0 +1,47 @@
+import type { CSSProperties, SVGAttributes } from 'react';
+import type { CanvasElement, StrokeStyle } from '../../../server/src/schema';
+
+type BlendMode = NonNullable<StrokeStyle['blendMode']>;
+
+// SVG's default stroke-miterlimit: miter joins reach at most this many half widths past the outline
+const MITER_LIMIT = 4;
+
+/**
+ * The stroke and the extra strokes painted over it, bottom to top
+ */
+export function getStrokeLayers(element: CanvasElement): StrokeStyle[] {
+  return element.stroke ? [element.stroke, ...element.extraStrokes] : element.extraStrokes;
+}
+
+/**
+ * Presentation attributes drawing a stroke layer on a shape, without its alignment or blend mode
+ */
+export function getStrokePaint(stroke: StrokeStyle): SVGAttributes<SVGElement> {
+  return {
+    fill: 'none',
+    stroke: stroke.color,
+    strokeWidth: stroke.width,
+    strokeOpacity: stroke.opacity,
+    strokeLinecap: stroke.cap,
+    strokeLinejoin: stroke.join,
+    strokeDasharray: stroke.dashArray && stroke.dashArray.length > 0 ? stroke.dashArray.join(' ') : undefined,
+    strokeDashoffset: stroke.dashOffset
+  };
+}
+
+/**
+ * How far strokes can reach past the outline of the shape they are drawn on, miter joins included
+ */
+export function getStrokeReach(strokes: StrokeStyle[]): number {
+  return Math.max(0, ...strokes.map((stroke: StrokeStyle) => {
+    const halfWidth = stroke.align === 'inside' ? 0 : stroke.align === 'outside' ? stroke.width : stroke.width / 2;
+    return stroke.join === 'miter' ? halfWidth * MITER_LIMIT : halfWidth;
+  }));
+}
+
+/**
+ * Style mixing a fill or stroke layer into what is painted beneath it; none for normal blending
+ */
+export function getBlendStyle(blendMode: BlendMode | undefined): CSSProperties | undefined {
+  return blendMode && blendMode !== 'normal' ? { mixBlendMode: blendMode } : undefined;
+}
@@ -0,0 +1,186 @@
+import type { CanvasElement, TextProps, TextRun } from '../../../server/src/schema';
+
+type TextStyle = NonNullable<CanvasElement['textStyle']>;
+
+export interface RunStyle {
+  fontFamily: string;
+  fontSize: number;
+  fontWeight: number;
+  italic: boolean;
+  underline: boolean;
+  // Unset runs are painted with the element's fills
+  color?: string;
+}
+
+export interface TextSegment {
+  text: string;
+  style: RunStyle;
+}
+
+export interface TextLine {
+  segments: TextSegment[];
+  width: number;
+  // Offset of the line's baseline from the top of the text
+  baseline: number;
+}
+
+export interface TextLayout {
+  lines: TextLine[];
+  width: number;
+  height: number;
+}
+
+export const DEFAULT_TEXT_STYLE: TextStyle = {
+  fontFamily: 'Arial',
+  fontSize: 16,
+  fontWeight: 400,
+  textAlign: 'left',
+  lineHeight: 1.2
+};
+
+// Height of capitals and ascenders above the baseline as a fraction of the font size, typical of sans-serif fonts
+const ASCENT = 0.8;
+
+// Dimensions must be positive, even for a box holding nothing but an empty line
+const MIN_TEXT_SIZE = 1;
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+export function getPlainText(runs: TextRun[]): string {
+  return runs.map((run: TextRun) => run.text).join('');
+}
+
+/**
+ * A run's styling with the element's text style filled in where the run leaves it unset
+ */
+export function getRunStyle(run: TextRun, textStyle: TextStyle): RunStyle {
+  return {
+    fontFamily: textStyle.fontFamily,
+    fontSize: run.fontSize ?? textStyle.fontSize,
+    fontWeight: run.fontWeight ?? textStyle.fontWeight,
+    italic: run.italic ?? false,
+    underline: run.underline ?? false,
+    color: run.color
+  };
+}
+
+/**
+ * CSS font shorthand for a run style, as canvas measuring expects it
+ */
+export function getFont(style: RunStyle): string {
+  return `${style.italic ? 'italic ' : ''}${style.fontWeight} ${style.fontSize}px ${style.fontFamily}`;
+}
+
+/**
+ * Width the browser gives text in a run style, measured on a shared offscreen canvas
+ */
+export function measureTextWidth(text: string, style: RunStyle): number {
+  measureContext ??= document.createElement('canvas').getContext('2d');
+  if (!measureContext) {
+    return text.length * style.fontSize / 2;
+  }
+  measureContext.font = getFont(style);
+  return measureContext.measureText(text).width;
+}
+
+/**
+ * Break text runs into lines: at every line break, and between words wherever a line would otherwise run past
+ * `maxWidth`. A word wider than `maxWidth` gets a line to itself rather than being split. Each line is as tall as its
+ * largest text times the line height, with the extra space shared above and below, as in CSS
+ */
+export function layoutText(textProps: TextProps, textStyle: TextStyle | null): TextLayout {
+  const style = textStyle ?? DEFAULT_TEXT_STYLE;
+  const paragraphs: TextSegment[][] = [[]];
+  for (const run of textProps.content) {
+    run.text.split('\n').forEach((text: string, index: number) => {
+      if (index > 0) paragraphs.push([]);
+      if (text) paragraphs[paragraphs.length - 1].push({ text, style: getRunStyle(run, style) });
+    });
+  }
+
+  const lines: TextLine[] = [];
+  let height = 0;
+  for (const paragraph of paragraphs) {
+    for (const segments of wrapSegments(paragraph, textProps.maxWidth)) {
+      const fontSize = Math.max(0, ...segments.map((segment: TextSegment) => segment.style.fontSize)) || style.fontSize;
+      const lineHeight = fontSize * style.lineHeight;
+      lines.push({
+        segments,
+        width: segments.reduce((sum: number, segment: TextSegment) => sum + measureTextWidth(segment.text, segment.style), 0),
+        baseline: height + (lineHeight - fontSize) / 2 + fontSize * ASCENT
+      });
+      height += lineHeight;
+    }
+  }
+
+  return { lines, width: Math.max(0, ...lines.map((line: TextLine) => line.width)), height };
+}
+
+/**
+ * Dimensions that fit the text: as wide as `maxWidth` when it wraps, otherwise as its longest line, and as tall as
+ * its lines
+ */
+export function getTextDimensions(textProps: TextProps, textStyle: TextStyle | null): { width: number; height: number } {
+  const layout = layoutText(textProps, textStyle);
+  return {
+    width: Math.max(textProps.maxWidth ?? Math.ceil(layout.width), MIN_TEXT_SIZE),
+    height: Math.max(Math.ceil(layout.height), MIN_TEXT_SIZE)
+  };
+}
+
+/**
+ * Greedy word wrap of one paragraph. Spaces where a line breaks are dropped, and neighboring pieces with the same
+ * style are joined again
+ */
+function wrapSegments(segments: TextSegment[], maxWidth: number | undefined): TextSegment[][] {
+  // Words may span runs, so they are kept as lists of pieces
+  const tokens: { space: boolean; pieces: TextSegment[] }[] = [];
+  for (const segment of segments) {
+    for (const text of segment.text.split(/(\s+)/)) {
+      if (!text) continue;
+      const space = /^\s/.test(text);
+      const last = tokens[tokens.length - 1];
+      if (last && !last.space && !space) {
+        last.pieces.push({ text, style: segment.style });
+      } else {
+        tokens.push({ space, pieces: [{ text, style: segment.style }] });
+      }
+    }
+  }
+
+  const lines: TextSegment[][] = [];
+  let line: TextSegment[] = [];
+  let lineWidth = 0;
+  let spaces: TextSegment[] = [];
+  const measure = (pieces: TextSegment[]) =>
+    pieces.reduce((sum: number, piece: TextSegment) => sum + measureTextWidth(piece.text, piece.style), 0);
+
+  for (const token of tokens) {
+    if (token.space) {
+      spaces.push(...token.pieces);
+      continue;
+    }
+    const wordWidth = measure(token.pieces);
+    const spaceWidth = measure(spaces);
+    if (maxWidth !== undefined && line.length > 0 && lineWidth + spaceWidth + wordWidth > maxWidth) {
+      lines.push(line);
+      line = [...token.pieces];
+      lineWidth = wordWidth;
+    } else {
+      line.push(...spaces, ...token.pieces);
+      lineWidth += spaceWidth + wordWidth;
+    }
+    spaces = [];
+  }
+  lines.push([...line, ...spaces]);
+
+  return lines.map((pieces: TextSegment[]) => pieces.reduce((joined: TextSegment[], piece: TextSegment) => {
+    const last = joined[joined.length - 1];
+    if (last && JSON.stringify(last.style) === JSON.stringify(piece.style)) {
+      joined[joined.length - 1] = { ...last, text: last.text + piece.text };
+    } else {
+      joined.push(piece);
+    }
+    return joined;
+  }, []));
+}
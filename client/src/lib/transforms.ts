@@ -0,0 +1,180 @@
+import { getElementBounds, getMoveChanges, resizeBounds, type Bounds, type ElementChanges, type Point, type ResizeHandle } from '@/lib/canvas';
+import type { CanvasElement } from '../../../server/src/schema';
+
+export type ElementTransform = NonNullable<CanvasElement['transform']>;
+
+export const IDENTITY_TRANSFORM: ElementTransform = {
+  rotation: 0,
+  scaleX: 1,
+  scaleY: 1,
+  skewX: 0,
+  skewY: 0,
+  originX: 0.5,
+  originY: 0.5
+};
+
+const OPPOSITE_HANDLES: Record<ResizeHandle, ResizeHandle> = {
+  nw: 'se',
+  n: 's',
+  ne: 'sw',
+  e: 'w',
+  se: 'nw',
+  s: 'n',
+  sw: 'ne',
+  w: 'e'
+};
+
+/**
+ * Point the element's transform turns, scales and skews about; the transform leaves it in place
+ */
+export function getTransformOrigin(element: CanvasElement): Point {
+  const transform = element.transform ?? IDENTITY_TRANSFORM;
+  const bounds = getElementBounds(element);
+  return { x: bounds.x + transform.originX * bounds.width, y: bounds.y + transform.originY * bounds.height };
+}
+
+/**
+ * Matrix taking points of the element's untransformed box to where they are drawn
+ */
+export function getElementMatrix(element: CanvasElement): DOMMatrix {
+  if (!element.transform) {
+    return new DOMMatrix();
+  }
+  const origin = getTransformOrigin(element);
+  return new DOMMatrix()
+    .translate(origin.x, origin.y)
+    .multiply(getLinearMatrix(element.transform))
+    .translate(-origin.x, -origin.y);
+}
+
+/**
+ * SVG transform attribute for an element, or undefined when it has no transform
+ */
+export function getSvgTransform(element: CanvasElement): string | undefined {
+  if (!element.transform) {
+    return undefined;
+  }
+  const { a, b, c, d, e, f } = getElementMatrix(element);
+  return `matrix(${a} ${b} ${c} ${d} ${e} ${f})`;
+}
+
+/**
+ * Where a point of the element's untransformed box is drawn
+ */
+export function toDrawnPoint(element: CanvasElement, point: Point): Point {
+  const mapped = getElementMatrix(element).transformPoint(point);
+  return { x: mapped.x, y: mapped.y };
+}
+
+/**
+ * Point in the element's untransformed box that is drawn at `point`
+ */
+export function toElementPoint(element: CanvasElement, point: Point): Point {
+  const mapped = getElementMatrix(element).inverse().transformPoint(point);
+  return { x: mapped.x, y: mapped.y };
+}
+
+/**
+ * Box around an element as it is drawn, transform included, mirroring how the server fits groups
+ */
+export function getDrawnBounds(element: CanvasElement): Bounds {
+  const bounds = getElementBounds(element);
+  if (!element.transform) {
+    return bounds;
+  }
+
+  const corners = [
+    { x: bounds.x, y: bounds.y },
+    { x: bounds.x + bounds.width, y: bounds.y },
+    { x: bounds.x, y: bounds.y + bounds.height },
+    { x: bounds.x + bounds.width, y: bounds.y + bounds.height }
+  ].map((corner: Point) => toDrawnPoint(element, corner));
+  const left = Math.min(...corners.map((corner: Point) => corner.x));
+  const top = Math.min(...corners.map((corner: Point) => corner.y));
+  return {
+    x: left,
+    y: top,
+    width: Math.max(...corners.map((corner: Point) => corner.x)) - left,
+    height: Math.max(...corners.map((corner: Point) => corner.y)) - top
+  };
+}
+
+/**
+ * Where a resize handle of the element's untransformed box is
+ */
+export function getHandlePosition(bounds: Bounds, handle: ResizeHandle): Point {
+  return {
+    x: handle.includes('w') ? bounds.x : handle.includes('e') ? bounds.x + bounds.width : bounds.x + bounds.width / 2,
+    y: handle.includes('n') ? bounds.y : handle.includes('s') ? bounds.y + bounds.height : bounds.y + bounds.height / 2
+  };
+}
+
+/**
+ * New untransformed box for dragging a resize handle from `start` to `point`. The drag is measured along the
+ * element's own axes, and the box shifts so the opposite handle stays where it is drawn
+ */
+export function resizeElementBounds(element: CanvasElement, handle: ResizeHandle, start: Point, point: Point): Bounds {
+  const from = toElementPoint(element, start);
+  const to = toElementPoint(element, point);
+  const bounds = getElementBounds(element);
+  const resized = resizeBounds(bounds, handle, to.x - from.x, to.y - from.y);
+  if (!element.transform) {
+    return resized;
+  }
+
+  // The origin is a fraction of the box, so resizing moves it and with it everything that is drawn
+  const opposite = OPPOSITE_HANDLES[handle];
+  const anchor = toDrawnPoint(element, getHandlePosition(bounds, opposite));
+  const preview = { ...element, position: { x: resized.x, y: resized.y }, dimensions: { width: resized.width, height: resized.height } };
+  const moved = toDrawnPoint(preview, getHandlePosition(resized, opposite));
+  return { ...resized, x: resized.x + anchor.x - moved.x, y: resized.y + anchor.y - moved.y };
+}
+
+/**
+ * Changes that put a transform given to a group on a member instead, as the server does when it saves the
+ * group: the member's box moves to where the group's transform takes the member's origin, and the member
+ * takes the group's transform on top of its own
+ */
+export function getPassedTransformChanges(
+  member: CanvasElement,
+  group: CanvasElement,
+  transform: ElementTransform
+): ElementChanges {
+  const origin = getTransformOrigin(member);
+  const target = toDrawnPoint({ ...group, transform }, origin);
+  return {
+    ...getMoveChanges(member, target.x - origin.x, target.y - origin.y),
+    transform: combineTransforms(transform, member.transform)
+  };
+}
+
+/**
+ * Transform with the rotation, scale and skew of `outer` applied after those of `inner`, about inner's origin,
+ * written without skewY like the server does
+ */
+export function combineTransforms(outer: ElementTransform, inner: ElementTransform | null): ElementTransform {
+  const { a, b, c, d } = getLinearMatrix(outer).multiply(getLinearMatrix(inner ?? IDENTITY_TRANSFORM));
+  const scaleX = Math.hypot(a, b);
+  const scaleY = (a * d - b * c) / scaleX;
+  return {
+    rotation: toDegrees(Math.atan2(b, a)),
+    scaleX,
+    scaleY,
+    skewX: toDegrees(Math.atan((a * c + b * d) / (scaleX * scaleY))),
+    skewY: 0,
+    originX: inner?.originX ?? IDENTITY_TRANSFORM.originX,
+    originY: inner?.originY ?? IDENTITY_TRANSFORM.originY
+  };
+}
+
+function getLinearMatrix(transform: ElementTransform): DOMMatrix {
+  return new DOMMatrix()
+    .rotate(transform.rotation)
+    .skewX(transform.skewX)
+    .skewY(transform.skewY)
+    .scale(transform.scaleX, transform.scaleY);
+}
+
+function toDegrees(radians: number): number {
+  return radians * 180 / Math.PI;
+}
@@ -0,0 +1,68 @@
+import type { Bounds, Point } from '@/lib/canvas';
+
+/**
+ * Maps canvas coordinates to screen coordinates inside the editor:
+ * screen = canvas * zoom + pan. Mirrors Canvas.zoom/panX/panY on the server.
+ */
+export interface Viewport {
+  zoom: number;
+  panX: number;
+  panY: number;
+}
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+export const MIN_ZOOM = 0.1;
+export const MAX_ZOOM = 10;
+
+// Step used by the zoom in/out buttons and keyboard shortcuts
+export const ZOOM_STEP = 1.25;
+
+// Screen space left around content when zooming to fit
+const FIT_PADDING = 48;
+
+export function clampZoom(zoom: number): number {
+  return Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+}
+
+/**
+ * Zooms by `factor` while keeping the canvas point under `anchor` (in container pixels) fixed
+ */
+export function zoomAtPoint(viewport: Viewport, factor: number, anchor: Point): Viewport {
+  const zoom = clampZoom(viewport.zoom * factor);
+  const canvasX = (anchor.x - viewport.panX) / viewport.zoom;
+  const canvasY = (anchor.y - viewport.panY) / viewport.zoom;
+
+  return {
+    zoom,
+    panX: anchor.x - canvasX * zoom,
+    panY: anchor.y - canvasY * zoom
+  };
+}
+
+/**
+ * Viewport that centers `bounds` in a container of `size`, as large as fits with padding.
+ * Never zooms past 100% for small content so a single tiny element doesn't fill the screen.
+ */
+export function fitBounds(bounds: Bounds, size: Size, maxZoom: number = 1): Viewport {
+  const availableWidth = Math.max(size.width - FIT_PADDING * 2, 1);
+  const availableHeight = Math.max(size.height - FIT_PADDING * 2, 1);
+  const zoom = clampZoom(Math.min(
+    availableWidth / Math.max(bounds.width, 1),
+    availableHeight / Math.max(bounds.height, 1),
+    maxZoom
+  ));
+
+  return {
+    zoom,
+    panX: size.width / 2 - (bounds.x + bounds.width / 2) * zoom,
+    panY: size.height / 2 - (bounds.y + bounds.height / 2) * zoom
+  };
+}
+
+export function isSameViewport(a: Viewport, b: Viewport): boolean {
+  return a.zoom === b.zoom && a.panX === b.panX && a.panY === b.panY;
+}
@@ -1,10 +1,21 @@
-import { createTRPCClient, httpBatchLink, loggerLink } from '@trpc/client';
+import { createTRPCClient, createWSClient, httpBatchLink, loggerLink, splitLink, TRPCClientError, wsLink } from '@trpc/client';
 import type { AppRouter } from '../../../server/src';
 import superjson from 'superjson';
 
+// Subscriptions need a WebSocket; it goes through the same /api proxy (any path reaches the server) and only
+// opens while a subscription is active
+const wsClient = createWSClient({
+  url: `${window.location.protocol === 'https:' ? 'wss' : 'ws'}://${window.location.host}/api/ws`,
+  lazy: { enabled: true, closeMs: 0 },
+});
+
 export const trpc = createTRPCClient<AppRouter>({
   links: [
-    httpBatchLink({ url: '/api', transformer: superjson }),
+    splitLink({
+      condition: (op) => op.type === 'subscription',
+      true: wsLink({ client: wsClient, transformer: superjson }),
+      false: httpBatchLink({ url: '/api', transformer: superjson }),
+    }),
     loggerLink({
           enabled: (opts) =>
             (typeof window !== 'undefined') ||
@@ -12,3 +23,13 @@ export const trpc = createTRPCClient<AppRouter>({
         }),
   ],
 });
+
+/**
+ * The server's current state carried by a CONFLICT error (a stale expectedUpdatedAt), or null for any other error
+ */
+export function getConflictState<T>(err: unknown): T | null {
+  if (err instanceof TRPCClientError && err.data?.code === 'CONFLICT' && err.data.current) {
+    return err.data.current as T;
+  }
+  return null;
+}
@@ -0,0 +1,24 @@
+import { localDesignProvider } from './local_provider';
+import { createOpenAIDesignProvider } from './openai_provider';
+import { type DesignProvider } from './types';
+
+/**
+ * Select the design provider from the environment. AI_PROVIDER=openai (with OPENAI_API_KEY) uses an LLM;
+ * anything else falls back to the offline keyword matcher.
+ */
+export function getDesignProvider(): DesignProvider {
+  if (process.env['AI_PROVIDER'] === 'openai') {
+    const apiKey = process.env['OPENAI_API_KEY'];
+    if (!apiKey) {
+      throw new Error('AI_PROVIDER is set to openai but OPENAI_API_KEY is missing');
+    }
+
+    return createOpenAIDesignProvider({
+      apiKey,
+      model: process.env['OPENAI_MODEL'] || 'gpt-4o-mini',
+      baseUrl: process.env['OPENAI_BASE_URL'] || 'https://api.openai.com/v1'
+    });
+  }
+
+  return localDesignProvider;
+}
@@ -0,0 +1,670 @@
+import { type CanvasElement, type UpdateElementInput } from '../schema';
+import { type DesignContext, type DesignPlan, type DesignProvider, type ElementPlan } from './types';
+
+/**
+ * Deterministic keyword matcher that needs no network access; the default provider and the one used in tests
+ */
+export const localDesignProvider: DesignProvider = {
+  name: 'local',
+
+  async plan(prompt: string, context: DesignContext): Promise<DesignPlan> {
+    if (isEditRequest(prompt, context.contextElements)) {
+      return { create: [], update: planEdits(prompt, context) };
+    }
+
+    const elements = parsePrompt(prompt, context.canvasWidth, context.canvasHeight);
+    return {
+      create: adjustElementsForContext(elements, context.contextElements, context.canvasWidth, context.canvasHeight),
+      update: []
+    };
+  }
+};
+
+type ShapeKind = 'rectangle' | 'square' | 'circle' | 'ellipse' | 'polygon' | 'star' | 'line' | 'arrow' | 'text' | 'title';
+
+// A shape mentioned in the prompt together with the adjectives that precede it
+interface ShapeRequest {
+  kind: ShapeKind;
+  sides?: number; // Polygons named by their side count, e.g. "hexagon"
+  count: number;
+  color: string | null;
+  size: string | null;
+  rounded: boolean;
+  bold: boolean;
+}
+
+interface PlanBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const SHAPE_NOUNS: Record<string, { kind: ShapeKind; plural: boolean; sides?: number }> = {
+  rectangle: { kind: 'rectangle', plural: false },
+  rectangles: { kind: 'rectangle', plural: true },
+  box: { kind: 'rectangle', plural: false },
+  boxes: { kind: 'rectangle', plural: true },
+  square: { kind: 'square', plural: false },
+  squares: { kind: 'square', plural: true },
+  circle: { kind: 'circle', plural: false },
+  circles: { kind: 'circle', plural: true },
+  ellipse: { kind: 'ellipse', plural: false },
+  ellipses: { kind: 'ellipse', plural: true },
+  oval: { kind: 'ellipse', plural: false },
+  ovals: { kind: 'ellipse', plural: true },
+  polygon: { kind: 'polygon', plural: false },
+  polygons: { kind: 'polygon', plural: true },
+  triangle: { kind: 'polygon', plural: false, sides: 3 },
+  triangles: { kind: 'polygon', plural: true, sides: 3 },
+  pentagon: { kind: 'polygon', plural: false, sides: 5 },
+  pentagons: { kind: 'polygon', plural: true, sides: 5 },
+  hexagon: { kind: 'polygon', plural: false, sides: 6 },
+  hexagons: { kind: 'polygon', plural: true, sides: 6 },
+  octagon: { kind: 'polygon', plural: false, sides: 8 },
+  octagons: { kind: 'polygon', plural: true, sides: 8 },
+  star: { kind: 'star', plural: false },
+  stars: { kind: 'star', plural: true },
+  line: { kind: 'line', plural: false },
+  lines: { kind: 'line', plural: true },
+  arrow: { kind: 'arrow', plural: false },
+  arrows: { kind: 'arrow', plural: true },
+  text: { kind: 'text', plural: false },
+  texts: { kind: 'text', plural: true },
+  label: { kind: 'text', plural: false },
+  labels: { kind: 'text', plural: true },
+  title: { kind: 'title', plural: false },
+  titles: { kind: 'title', plural: true }
+};
+
+const COLORS: Record<string, string> = {
+  red: '#EF4444',
+  blue: '#3B82F6',
+  green: '#10B981',
+  yellow: '#F59E0B',
+  purple: '#8B5CF6',
+  pink: '#EC4899',
+  orange: '#F97316',
+  gray: '#6B7280',
+  grey: '#6B7280',
+  black: '#000000',
+  white: '#FFFFFF'
+};
+
+const DEFAULT_COLOR = '#3B82F6'; // Blue
+
+const QUANTITIES: Record<string, number> = {
+  a: 1, an: 1, one: 1, single: 1,
+  two: 2, pair: 2, couple: 2,
+  three: 3, few: 3, several: 3,
+  four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12
+};
+
+// How many to create for a bare plural such as "circles"
+const DEFAULT_PLURAL_COUNT = 3;
+const MAX_COUNT = 20;
+
+// Scale factors for shapes and font sizes for text, keyed by size adjective
+const SIZE_SCALES: Record<string, number> = { tiny: 0.5, small: 0.75, large: 1.5, big: 1.5, huge: 2 };
+const SIZE_FONT_SIZES: Record<string, number> = { tiny: 10, small: 12, large: 20, big: 20, huge: 32 };
+
+// Words that decide whether a prompt with context elements edits them or adds something new
+const CREATE_VERBS = ['add', 'create', 'draw', 'insert', 'place'];
+const EDIT_VERBS = ['make', 'change', 'set', 'turn', 'recolor', 'resize', 'scale', 'move', 'align', 'color', 'colour'];
+const REFERENCE_WORDS = ['selected', 'selection', 'this', 'these', 'those', 'it', 'them'];
+
+/**
+ * Split a prompt into lowercase words, ignoring quoted text
+ */
+function tokenize(prompt: string): string[] {
+  return prompt.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 0);
+}
+
+/**
+ * Parse natural language prompt to determine what elements to create
+ */
+function parsePrompt(prompt: string, canvasWidth: number, canvasHeight: number): ElementPlan[] {
+  const { quotes, remainder } = extractQuotedText(prompt);
+  const words = tokenize(remainder);
+  const requests = extractShapeRequests(words);
+
+  // Common positioning helpers
+  const centerX = canvasWidth / 2;
+  const centerY = canvasHeight / 2;
+
+  // Quoted strings become the content of text elements, in the order both appear
+  let quoteIndex = 0;
+  const elements: ElementPlan[] = [];
+  for (const request of requests) {
+    for (let i = 0; i < request.count; i++) {
+      const content = request.kind === 'text' || request.kind === 'title' ? quotes[quoteIndex++] : undefined;
+      elements.push(buildElement(request, centerX, centerY, content));
+    }
+  }
+
+  // If no specific elements were detected, create a default rectangle
+  if (elements.length === 0) {
+    elements.push({
+      type: 'rectangle',
+      position: { x: centerX - 75, y: centerY - 50 },
+      dimensions: { width: 150, height: 100 },
+      fill: { type: 'solid', color: DEFAULT_COLOR, opacity: 1 },
+      stroke: { color: '#1E40AF', width: 2, opacity: 1, cap: 'butt', join: 'miter' },
+      rectangleProps: { borderRadius: 0 },
+    });
+  }
+
+  // Every element is built around the canvas center; spread several out so they don't stack
+  return elements.length > 1 ? layoutElements(elements, canvasWidth, canvasHeight) : elements;
+}
+
+/**
+ * Pull quoted strings out of the prompt so their words aren't mistaken for shapes or colors
+ */
+function extractQuotedText(prompt: string): { quotes: string[]; remainder: string } {
+  const quotes: string[] = [];
+  // Single quotes must wrap the text on both sides so apostrophes ("let's") aren't treated as quotes
+  const remainder = prompt.replace(/"([^"]+)"|(^|\s)'([^']+)'(?=$|[\s.,!?])/g, (_match, doubleQuoted, leading, singleQuoted) => {
+    quotes.push(doubleQuoted ?? singleQuoted);
+    return leading ?? ' ';
+  });
+  return { quotes, remainder };
+}
+
+/**
+ * Find every shape noun and bind the adjectives between it and the previous noun to it
+ */
+function extractShapeRequests(words: string[]): ShapeRequest[] {
+  const requests: ShapeRequest[] = [];
+  let modifiers: string[] = [];
+
+  for (const word of words) {
+    const noun = SHAPE_NOUNS[word];
+    if (!noun) {
+      modifiers.push(word);
+      continue;
+    }
+
+    const quantity = findLast(modifiers, word => QUANTITIES[word] ?? (/^\d+$/.test(word) ? parseInt(word, 10) : undefined));
+    requests.push({
+      kind: noun.kind,
+      sides: noun.sides,
+      count: Math.min(quantity ?? (noun.plural ? DEFAULT_PLURAL_COUNT : 1), MAX_COUNT),
+      color: findLast(modifiers, word => COLORS[word]) ?? null,
+      size: findLast(modifiers, word => word in SIZE_SCALES ? word : undefined) ?? null,
+      rounded: modifiers.includes('rounded'),
+      bold: modifiers.includes('bold')
+    });
+    modifiers = [];
+  }
+
+  // Words after the last noun ("a circle in red") still describe it
+  const last = requests[requests.length - 1];
+  if (last && modifiers.length > 0) {
+    last.color ??= findLast(modifiers, word => COLORS[word]) ?? null;
+    last.size ??= findLast(modifiers, word => word in SIZE_SCALES ? word : undefined) ?? null;
+    last.rounded ||= modifiers.includes('rounded');
+    last.bold ||= modifiers.includes('bold');
+  }
+
+  // "Something round" still means a circle when no shape is named
+  if (requests.length === 0 && words.includes('round')) {
+    requests.push({
+      kind: 'circle',
+      count: 1,
+      color: findLast(words, word => COLORS[word]) ?? null,
+      size: findLast(words, word => word in SIZE_SCALES ? word : undefined) ?? null,
+      rounded: false,
+      bold: false
+    });
+  }
+
+  return requests;
+}
+
+/**
+ * Map words from the end and return the first defined result, so the adjective nearest the noun wins
+ */
+function findLast<T>(words: string[], map: (word: string) => T | undefined): T | undefined {
+  for (let i = words.length - 1; i >= 0; i--) {
+    const value = map(words[i]);
+    if (value !== undefined) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Build a single element centered on the given point
+ */
+function buildElement(request: ShapeRequest, centerX: number, centerY: number, content?: string): ElementPlan {
+  const color = request.color ?? DEFAULT_COLOR;
+  const scale = request.size ? SIZE_SCALES[request.size] : 1;
+
+  switch (request.kind) {
+    case 'rectangle':
+    case 'square': {
+      const dimensions = request.kind === 'square'
+        ? { width: 100 * scale, height: 100 * scale }
+        : { width: 150 * scale, height: 100 * scale };
+      return {
+        type: 'rectangle',
+        position: { x: centerX - dimensions.width / 2, y: centerY - dimensions.height / 2 },
+        dimensions,
+        fill: { type: 'solid', color, opacity: 1 },
+        stroke: { color: '#000000', width: 2, opacity: 1, cap: 'butt', join: 'miter' },
+        rectangleProps: { borderRadius: request.rounded ? 10 : 0 },
+      };
+    }
+
+    case 'circle': {
+      const radius = 50 * scale;
+      return {
+        type: 'circle',
+        position: { x: centerX - radius, y: centerY - radius },
+        dimensions: { width: radius * 2, height: radius * 2 },
+        fill: { type: 'solid', color, opacity: 1 },
+        stroke: { color: '#000000', width: 2, opacity: 1, cap: 'butt', join: 'miter' },
+      };
+    }
+
+    case 'ellipse': {
+      const dimensions = { width: 150 * scale, height: 100 * scale };
+      return {
+        type: 'ellipse',
+        position: { x: centerX - dimensions.width / 2, y: centerY - dimensions.height / 2 },
+        dimensions,
+        fill: { type: 'solid', color, opacity: 1 },
+        stroke: { color: '#000000', width: 2, opacity: 1, cap: 'butt', join: 'miter' },
+        ellipseProps: { startAngle: 0, sweepAngle: 360, innerRadius: 0 },
+      };
+    }
+
+    case 'polygon':
+    case 'star': {
+      const size = 100 * scale;
+      return {
+        type: request.kind,
+        position: { x: centerX - size / 2, y: centerY - size / 2 },
+        dimensions: { width: size, height: size },
+        fill: { type: 'solid', color, opacity: 1 },
+        stroke: { color: '#000000', width: 2, opacity: 1, cap: 'butt', join: 'miter' },
+        ...(request.kind === 'polygon'
+          ? { polygonProps: { sides: request.sides ?? 6 } }
+          : { starProps: { points: 5, innerRadius: 0.5 } }),
+      };
+    }
+
+    case 'line': {
+      const halfLength = 75 * scale;
+      return {
+        type: 'line',
+        position: { x: centerX - halfLength, y: centerY },
+        stroke: { color, width: 3, opacity: 1, cap: 'round', join: 'miter' },
+        lineProps: { x1: centerX - halfLength, y1: centerY, x2: centerX + halfLength, y2: centerY },
+      };
+    }
+
+    case 'arrow': {
+      const halfLength = 75 * scale;
+      return {
+        type: 'arrow',
+        position: { x: centerX - halfLength, y: centerY },
+        stroke: { color, width: 3, opacity: 1, cap: 'round', join: 'miter' },
+        arrowProps: {
+          x1: centerX - halfLength,
+          y1: centerY,
+          x2: centerX + halfLength,
+          y2: centerY,
+          startHead: 'none',
+          endHead: 'triangle'
+        },
+      };
+    }
+
+    case 'text':
+    case 'title': {
+      const fontSize = request.kind === 'title' ? 24 : request.size ? SIZE_FONT_SIZES[request.size] : 16;
+      return {
+        type: 'text',
+        position: { x: centerX - 50, y: centerY },
+        dimensions: { width: 200, height: fontSize * 1.5 },
+        fill: { type: 'solid', color, opacity: 1 },
+        textStyle: {
+          fontFamily: 'Arial',
+          fontSize,
+          fontWeight: request.bold ? 700 : 400,
+          textAlign: 'left',
+          lineHeight: 1.2,
+        },
+        textProps: { content: [{ text: content || 'Sample Text' }] },
+      };
+    }
+  }
+}
+
+/**
+ * Arrange elements in centered rows, wrapping before a row gets wider than the canvas
+ */
+function layoutElements(elements: ElementPlan[], canvasWidth: number, canvasHeight: number): ElementPlan[] {
+  const gap = 40;
+  const margin = 50;
+  const maxRowWidth = Math.max(canvasWidth - margin * 2, 0);
+
+  const rows: { items: { element: ElementPlan; bounds: PlanBounds }[]; width: number; height: number }[] = [];
+  for (const element of elements) {
+    const bounds = getPlanBounds(element);
+    const row = rows[rows.length - 1];
+    if (row && row.width + gap + bounds.width <= maxRowWidth) {
+      row.items.push({ element, bounds });
+      row.width += gap + bounds.width;
+      row.height = Math.max(row.height, bounds.height);
+    } else {
+      rows.push({ items: [{ element, bounds }], width: bounds.width, height: bounds.height });
+    }
+  }
+
+  const totalHeight = rows.reduce((sum, row) => sum + row.height, 0) + gap * (rows.length - 1);
+  let y = canvasHeight / 2 - totalHeight / 2;
+
+  const positioned: ElementPlan[] = [];
+  for (const row of rows) {
+    let x = canvasWidth / 2 - row.width / 2;
+    for (const { element, bounds } of row.items) {
+      // Center each element vertically within its row
+      const targetY = y + (row.height - bounds.height) / 2;
+      positioned.push(translatePlan(element, x - bounds.x, targetY - bounds.y));
+      x += bounds.width + gap;
+    }
+    y += row.height + gap;
+  }
+
+  return positioned;
+}
+
+/**
+ * Bounding box of a planned element; lines and arrows are measured from their endpoints
+ */
+function getPlanBounds(element: Pick<ElementPlan, 'position' | 'dimensions' | 'lineProps' | 'arrowProps'>): PlanBounds {
+  const endpoints = element.lineProps ?? element.arrowProps;
+  if (endpoints) {
+    const { x1, y1, x2, y2 } = endpoints;
+    return { x: Math.min(x1, x2), y: Math.min(y1, y2), width: Math.abs(x2 - x1), height: Math.abs(y2 - y1) };
+  }
+  return {
+    x: element.position.x,
+    y: element.position.y,
+    width: element.dimensions?.width ?? 0,
+    height: element.dimensions?.height ?? 0
+  };
+}
+
+/**
+ * Move a planned element, keeping line and arrow endpoints in step with its position
+ */
+function translatePlan<T extends Pick<ElementPlan, 'position' | 'lineProps' | 'arrowProps'>>(element: T, dx: number, dy: number): T {
+  return {
+    ...element,
+    position: { x: element.position.x + dx, y: element.position.y + dy },
+    lineProps: element.lineProps ? translateEndpoints(element.lineProps, dx, dy) : element.lineProps,
+    arrowProps: element.arrowProps ? translateEndpoints(element.arrowProps, dx, dy) : element.arrowProps
+  };
+}
+
+function translateEndpoints<T extends { x1: number; y1: number; x2: number; y2: number }>(endpoints: T, dx: number, dy: number): T {
+  return {
+    ...endpoints,
+    x1: endpoints.x1 + dx,
+    y1: endpoints.y1 + dy,
+    x2: endpoints.x2 + dx,
+    y2: endpoints.y2 + dy
+  };
+}
+
+/**
+ * Adjust element positions based on context elements
+ */
+function adjustElementsForContext(
+  elements: ElementPlan[],
+  contextElements: CanvasElement[],
+  canvasWidth: number,
+  canvasHeight: number
+): ElementPlan[] {
+  if (contextElements.length === 0) {
+    return elements;
+  }
+
+  // Simple adjustment: offset new elements to avoid overlap with context. The whole group moves together
+  // so a laid-out arrangement keeps its spacing
+  const offset = 50;
+  return elements.map(element => translatePlan(element, offset, offset));
+}
+
+/**
+ * Whether a prompt asks to change the context elements rather than add new ones. A prompt naming a shape
+ * only edits when one of the context elements is of that type ("make the circle red"); otherwise the shape
+ * is new ("make a red circle", "put a star next to it")
+ */
+function isEditRequest(prompt: string, contextElements: CanvasElement[]): boolean {
+  const words = tokenize(extractQuotedText(prompt).remainder);
+  if (contextElements.length === 0 || words.some(word => CREATE_VERBS.includes(word))) {
+    return false;
+  }
+  const namedTypes = getNamedTypes(words);
+  if (namedTypes.size > 0 && !contextElements.some(element => namedTypes.has(element.type))) {
+    return false;
+  }
+  return words.some(word => EDIT_VERBS.includes(word) || REFERENCE_WORDS.includes(word));
+}
+
+/**
+ * Element types of the shapes a prompt names
+ */
+function getNamedTypes(words: string[]): Set<CanvasElement['type']> {
+  return new Set(words.flatMap(word => SHAPE_NOUNS[word] ? [SHAPE_ELEMENT_TYPES[SHAPE_NOUNS[word].kind]] : []));
+}
+
+// Size words: which axes they affect and, for comparatives, how much
+const WIDTH_WORDS = ['wide', 'wider', 'width', 'narrow', 'narrower'];
+const HEIGHT_WORDS = ['tall', 'taller', 'high', 'higher', 'height', 'short', 'shorter'];
+const SIZE_WORDS = ['big', 'bigger', 'large', 'larger', 'size', 'small', 'smaller'];
+const COMPARATIVE_FACTORS: Record<string, number> = {
+  bigger: 1.5, larger: 1.5, wider: 1.5, taller: 1.5, higher: 1.5,
+  smaller: 0.75, narrower: 0.75, shorter: 0.75
+};
+const MULTIPLIERS: Record<string, number> = { twice: 2, double: 2, triple: 3, thrice: 3, half: 0.5 };
+
+// Fallbacks for elements that have no style of the kind being edited yet
+const DEFAULT_STROKE_STYLE = { width: 2, opacity: 1, cap: 'butt' as const, join: 'miter' as const };
+const DEFAULT_TEXT_STYLE = { fontFamily: 'Arial', fontSize: 16, fontWeight: 400, textAlign: 'left' as const, lineHeight: 1.2 };
+
+// Element type each shape noun refers to, so "make the circle red" only touches circles
+const SHAPE_ELEMENT_TYPES: Record<ShapeKind, CanvasElement['type']> = {
+  rectangle: 'rectangle', square: 'rectangle', circle: 'circle', ellipse: 'ellipse', polygon: 'polygon', star: 'star',
+  line: 'line', arrow: 'arrow', text: 'text', title: 'text'
+};
+
+/**
+ * Work out property changes for each context element. Edits are applied to working copies in turn so later
+ * steps (alignment) see the result of earlier ones (resizing); only the changed properties are returned
+ */
+function planEdits(prompt: string, context: DesignContext): UpdateElementInput[] {
+  const { quotes, remainder } = extractQuotedText(prompt);
+  const words = tokenize(remainder);
+  // Narrow to the element types the prompt names; only a prompt naming none applies to every context element
+  const namedTypes = getNamedTypes(words);
+  let working = namedTypes.size > 0
+    ? context.contextElements.filter(element => namedTypes.has(element.type))
+    : context.contextElements;
+
+  const changes = new Map<string, UpdateElementInput>(working.map(element => [element.id, { id: element.id }]));
+
+  const change = (element: CanvasElement, properties: Omit<UpdateElementInput, 'id'>): CanvasElement => {
+    Object.assign(changes.get(element.id)!, properties);
+    return { ...element, ...properties } as CanvasElement;
+  };
+
+  // Color: the last color named wins ("make the red one green"); borders take it as the stroke color
+  const color = findLast(words, word => COLORS[word]);
+  if (color) {
+    const targetsStroke = words.some(word => ['border', 'stroke', 'outline'].includes(word));
+    working = working.map(element => targetsStroke || element.type === 'line' || element.type === 'arrow'
+      ? change(element, {
+          stroke: { ...(element.stroke ?? DEFAULT_STROKE_STYLE), color }
+        })
+      : change(element, { fill: { type: 'solid', color, opacity: element.fill?.opacity ?? 1 } }));
+  }
+
+  const scale = parseScale(words);
+  if (scale) {
+    working = working.map(element => change(element, scaleElement(element, scale.width, scale.height)));
+  }
+
+  if (words.includes('rounded')) {
+    working = working.map(element => element.type === 'rectangle'
+      ? change(element, { rectangleProps: { ...element.rectangleProps, borderRadius: 10 } })
+      : element);
+  }
+
+  if (words.includes('bold')) {
+    working = working.map(element => element.type === 'text'
+      ? change(element, { textStyle: { ...(element.textStyle ?? DEFAULT_TEXT_STYLE), fontWeight: 700 } })
+      : element);
+  }
+
+  // Quoted text replaces the content of text elements ("change it to 'Sale'")
+  if (quotes.length > 0) {
+    working = working.map(element => element.type === 'text'
+      ? change(element, { textProps: { ...element.textProps, content: [{ text: quotes[0] }] } })
+      : element);
+  }
+
+  const alignment = parseAlignment(words);
+  if (alignment) {
+    // A single element is aligned to the canvas, several to their shared bounds
+    const reference = working.length > 1
+      ? unionPlanBounds(working.map(getPlanBounds))
+      : { x: 0, y: 0, width: context.canvasWidth, height: context.canvasHeight };
+    working = working.map(element => {
+      const bounds = getPlanBounds(element);
+      const { dx, dy } = getAlignmentOffset(bounds, reference, alignment);
+      if (dx === 0 && dy === 0) return element;
+      const moved = translatePlan(element, dx, dy);
+      return change(element, {
+        position: moved.position,
+        ...(moved.lineProps && { lineProps: moved.lineProps }),
+        ...(moved.arrowProps && { arrowProps: moved.arrowProps })
+      });
+    });
+  }
+
+  // Only report elements that actually changed
+  return [...changes.values()].filter(update => Object.keys(update).length > 1);
+}
+
+/**
+ * Parse resize requests such as "twice as wide", "half the size", "3x bigger" or "taller"
+ */
+function parseScale(words: string[]): { width: number; height: number } | null {
+  let factor = findLast(words, word => MULTIPLIERS[word]);
+  words.forEach((word, index) => {
+    const multiple = word.match(/^(\d+)x$/);
+    if (multiple) factor = parseInt(multiple[1], 10);
+    if (/^\d+$/.test(word) && words[index + 1] === 'times') factor = parseInt(word, 10);
+  });
+
+  const affectsWidth = words.some(word => WIDTH_WORDS.includes(word));
+  const affectsHeight = words.some(word => HEIGHT_WORDS.includes(word));
+  const affectsSize = words.some(word => SIZE_WORDS.includes(word));
+  if (!affectsWidth && !affectsHeight && !affectsSize && factor === undefined) {
+    return null;
+  }
+
+  factor ??= findLast(words, word => COMPARATIVE_FACTORS[word]);
+  // "0x bigger" has no size to scale to
+  if (factor === undefined || factor <= 0) {
+    return null;
+  }
+
+  // Without a specific axis ("twice as big", "double the size") both dimensions scale
+  const both = affectsSize || (!affectsWidth && !affectsHeight);
+  return {
+    width: both || affectsWidth ? factor : 1,
+    height: both || affectsHeight ? factor : 1
+  };
+}
+
+/**
+ * Resize an element from its top-left corner; lines and arrows scale from their start point
+ */
+function scaleElement(element: CanvasElement, widthFactor: number, heightFactor: number): Omit<UpdateElementInput, 'id'> {
+  if (element.lineProps) {
+    const { x1, y1, x2, y2 } = element.lineProps;
+    const lineProps = { x1, y1, x2: x1 + (x2 - x1) * widthFactor, y2: y1 + (y2 - y1) * heightFactor };
+    return { lineProps, position: { x: Math.min(lineProps.x1, lineProps.x2), y: Math.min(lineProps.y1, lineProps.y2) } };
+  }
+
+  if (element.arrowProps) {
+    const { x1, y1, x2, y2 } = element.arrowProps;
+    const arrowProps = { ...element.arrowProps, x2: x1 + (x2 - x1) * widthFactor, y2: y1 + (y2 - y1) * heightFactor };
+    return { arrowProps, position: { x: Math.min(arrowProps.x1, arrowProps.x2), y: Math.min(arrowProps.y1, arrowProps.y2) } };
+  }
+
+  if (!element.dimensions) {
+    return {};
+  }
+
+  const dimensions = { width: element.dimensions.width * widthFactor, height: element.dimensions.height * heightFactor };
+  // Text grows with its box when scaled uniformly
+  if (element.type === 'text' && widthFactor === heightFactor) {
+    const textStyle = element.textStyle ?? DEFAULT_TEXT_STYLE;
+    return { dimensions, textStyle: { ...textStyle, fontSize: textStyle.fontSize * widthFactor } };
+  }
+  return { dimensions };
+}
+
+type Alignment = 'left' | 'right' | 'center' | 'top' | 'bottom' | 'middle';
+
+/**
+ * Parse "align ... left/right/top/bottom/center/middle"
+ */
+function parseAlignment(words: string[]): Alignment | null {
+  if (!words.includes('align')) {
+    return null;
+  }
+  const edge = findLast(words, word => ['left', 'right', 'top', 'bottom', 'center', 'centre', 'middle'].includes(word) ? word : undefined);
+  if (!edge) {
+    return null;
+  }
+  if (edge === 'centre' || edge === 'center') {
+    return words.includes('vertically') ? 'middle' : 'center';
+  }
+  return edge as Alignment;
+}
+
+function getAlignmentOffset(bounds: PlanBounds, reference: PlanBounds, alignment: Alignment): { dx: number; dy: number } {
+  switch (alignment) {
+    case 'left':
+      return { dx: reference.x - bounds.x, dy: 0 };
+    case 'right':
+      return { dx: reference.x + reference.width - (bounds.x + bounds.width), dy: 0 };
+    case 'center':
+      return { dx: reference.x + reference.width / 2 - (bounds.x + bounds.width / 2), dy: 0 };
+    case 'top':
+      return { dx: 0, dy: reference.y - bounds.y };
+    case 'bottom':
+      return { dx: 0, dy: reference.y + reference.height - (bounds.y + bounds.height) };
+    case 'middle':
+      return { dx: 0, dy: reference.y + reference.height / 2 - (bounds.y + bounds.height / 2) };
+  }
+}
+
+function unionPlanBounds(bounds: PlanBounds[]): PlanBounds {
+  const left = Math.min(...bounds.map(b => b.x));
+  const top = Math.min(...bounds.map(b => b.y));
+  const right = Math.max(...bounds.map(b => b.x + b.width));
+  const bottom = Math.max(...bounds.map(b => b.y + b.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
@@ -0,0 +1,125 @@
+import { CREATE_ELEMENT_TOOL, UPDATE_ELEMENT_TOOL, parseElementChange, parseElementPlan } from './tools';
+import { type DesignContext, type DesignPlan, type DesignProvider } from './types';
+
+export interface OpenAIProviderConfig {
+  apiKey: string;
+  model: string;
+  // Any OpenAI-compatible chat completions endpoint
+  baseUrl: string;
+}
+
+interface ChatCompletionResponse {
+  choices: {
+    message: {
+      tool_calls?: { type: string; function: { name: string; arguments: string } }[];
+    };
+  }[];
+}
+
+/**
+ * Provider backed by an LLM with tool calling. The model plans a design as a series of create_element and
+ * update_element calls, which lets a single prompt produce multi-element layouts or edit the referenced elements.
+ */
+export function createOpenAIDesignProvider(config: OpenAIProviderConfig): DesignProvider {
+  return {
+    name: 'openai',
+
+    async plan(prompt: string, context: DesignContext): Promise<DesignPlan> {
+      const response = await fetch(`${config.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${config.apiKey}`
+        },
+        body: JSON.stringify({
+          model: config.model,
+          messages: [
+            { role: 'system', content: buildSystemPrompt(context) },
+            { role: 'user', content: prompt }
+          ],
+          tools: [
+            { type: 'function', function: CREATE_ELEMENT_TOOL },
+            // Editing only makes sense when the user referenced existing elements
+            ...(context.contextElements.length > 0 ? [{ type: 'function', function: UPDATE_ELEMENT_TOOL }] : [])
+          ],
+          tool_choice: 'required'
+        })
+      });
+
+      if (!response.ok) {
+        throw new Error(`LLM request failed with status ${response.status}: ${await response.text()}`);
+      }
+
+      const completion = await response.json() as ChatCompletionResponse;
+      const toolCalls = completion.choices[0]?.message.tool_calls ?? [];
+
+      const plan: DesignPlan = { create: [], update: [] };
+      for (const call of toolCalls) {
+        if (call.type !== 'function') continue;
+
+        // Skip malformed calls rather than failing the whole design
+        if (call.function.name === CREATE_ELEMENT_TOOL.name) {
+          const element = parseElementPlan(call.function.arguments);
+          if (element) {
+            plan.create.push(element);
+          } else {
+            console.warn('Ignoring invalid create_element call:', call.function.arguments);
+          }
+        } else if (call.function.name === UPDATE_ELEMENT_TOOL.name) {
+          const change = parseElementChange(call.function.arguments);
+          if (change) {
+            plan.update.push(change);
+          } else {
+            console.warn('Ignoring invalid update_element call:', call.function.arguments);
+          }
+        }
+      }
+
+      return plan;
+    }
+  };
+}
+
+/**
+ * Describe the canvas and any referenced elements so the model can place new elements sensibly
+ */
+function buildSystemPrompt(context: DesignContext): string {
+  const lines = [
+    'You are a design assistant that edits a vector canvas by calling tools.',
+    `The canvas is ${context.canvasWidth}x${context.canvasHeight} pixels; (0, 0) is the top-left corner.`,
+    'To add elements, call create_element once per element. Elements with a higher zIndex are drawn on top.',
+    'Lines and arrows are positioned by lineProps and arrowProps; every other element needs position and dimensions. Colors are #RRGGBB hex.',
+    'Use ellipseProps, polygonProps and starProps to shape ellipses, polygons and stars.',
+    'Paths are drawn with pathProps commands in canvas coordinates; their position and dimensions follow from the commands.',
+    'Images show files the user uploaded: never create image elements, but you may move, resize or refit existing ones.',
+    'Elements with a parentId are members of that group: never create groups, but moving or resizing one takes its members along.',
+    'To tilt, flip or skew an element, set its transform; rotation and skew are in degrees about an origin given as a fraction of its box.',
+    'Fills are solid colors or linear and radial gradients through two or more color stops; gradient angles are in degrees clockwise, 0 running left to right.',
+    'Effects add drop shadows, inner shadows and blurs; updating effects replaces the whole list, and groups cannot have any.',
+    'Strokes can be dashed with dashArray and aligned inside or outside the outline; extraFills and extraStrokes stack further layers over the fill and stroke, each with an optional blend mode.',
+    'Text content is an array of runs; a run may set its own fontWeight, fontSize, italic, underline and color over the textStyle and fill, and line breaks are \\n inside run text.'
+  ];
+
+  if (context.contextElements.length > 0) {
+    const summary = context.contextElements.map(element => ({
+      id: element.id,
+      type: element.type,
+      parentId: element.parentId,
+      position: element.position,
+      dimensions: element.dimensions,
+      transform: element.transform,
+      effects: element.effects,
+      fill: element.fill,
+      stroke: element.stroke,
+      extraFills: element.extraFills,
+      extraStrokes: element.extraStrokes,
+      lineProps: element.lineProps,
+      arrowProps: element.arrowProps,
+      text: element.textProps?.content
+    }));
+    lines.push(`The user is referring to these existing elements: ${JSON.stringify(summary)}`);
+    lines.push('When the request changes them rather than adding something new, call update_element for each one instead.');
+  }
+
+  return lines.join('\n');
+}
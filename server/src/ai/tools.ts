@@ -0,0 +1,47 @@
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { createElementInputSchema, elementTypeSchema, updateElementInputSchema, type UpdateElementInput } from '../schema';
+import { type ElementPlan } from './types';
+
+// Tool arguments mirror the element procedures' input so model output is validated exactly like API input.
+// Grouping is left to the user, so the model neither creates groups nor places elements in them, and images
+// need a file the user uploaded, so it doesn't create those either
+export const elementPlanSchema = createElementInputSchema
+  .omit({ canvasId: true, parentId: true, imageProps: true })
+  .extend({ type: elementTypeSchema.exclude(['image', 'group']) });
+export const elementChangeSchema = updateElementInputSchema.omit({ expectedUpdatedAt: true, parentId: true });
+
+export const CREATE_ELEMENT_TOOL = {
+  name: 'create_element',
+  description: 'Add one element to the canvas. Call once per element; coordinates are canvas pixels from the top-left corner.',
+  parameters: zodToJsonSchema(elementPlanSchema, { $refStrategy: 'none' })
+};
+
+export const UPDATE_ELEMENT_TOOL = {
+  name: 'update_element',
+  description: 'Change properties of one of the referenced existing elements, identified by id. Only include the properties that change.',
+  parameters: zodToJsonSchema(elementChangeSchema, { $refStrategy: 'none' })
+};
+
+/**
+ * Validate create_element arguments (a JSON string or parsed object), returning null when they don't fit the schema
+ */
+export function parseElementPlan(args: unknown): ElementPlan | null {
+  return parseToolArguments(args, value => elementPlanSchema.safeParse(value));
+}
+
+/**
+ * Validate update_element arguments (a JSON string or parsed object), returning null when they don't fit the schema
+ */
+export function parseElementChange(args: unknown): UpdateElementInput | null {
+  return parseToolArguments(args, value => elementChangeSchema.safeParse(value));
+}
+
+function parseToolArguments<T>(args: unknown, safeParse: (value: unknown) => { success: boolean; data?: T }): T | null {
+  try {
+    const value = typeof args === 'string' ? JSON.parse(args) : args;
+    const result = safeParse(value);
+    return result.success ? result.data! : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,28 @@
+import { type CanvasElement, type CreateElementInput, type UpdateElementInput } from '../schema';
+
+// An element the provider wants created; the caller assigns it to the target canvas. Providers create neither
+// groups nor images
+export type ElementPlan = Omit<CreateElementInput, 'canvasId' | 'parentId' | 'type' | 'imageProps'> & {
+  type: Exclude<CreateElementInput['type'], 'image' | 'group'>;
+};
+
+// What the provider wants done: new elements to add and changes to the context elements
+export interface DesignPlan {
+  create: ElementPlan[];
+  update: UpdateElementInput[];
+}
+
+export interface DesignContext {
+  canvasWidth: number;
+  canvasHeight: number;
+  // Elements the user pointed at, e.g. the current selection; the only ones a plan may update
+  contextElements: CanvasElement[];
+}
+
+/**
+ * Turns a natural language prompt into elements to add to a canvas and edits to existing ones
+ */
+export interface DesignProvider {
+  readonly name: string;
+  plan(prompt: string, context: DesignContext): Promise<DesignPlan>;
+}
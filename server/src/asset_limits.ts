@@ -0,0 +1,4 @@
+// What uploads may be. Kept apart from the schema so the client can check files before sending them without
+// bundling zod
+export const ASSET_MIME_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/svg+xml'] as const;
+export const MAX_ASSET_SIZE = 10 * 1024 * 1024;
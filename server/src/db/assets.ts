@@ -0,0 +1,57 @@
+import { and, eq, inArray } from 'drizzle-orm';
+import { type DbExecutor } from './index';
+import { assetsTable } from './schema';
+import { type Asset } from '../schema';
+
+export type AssetRow = typeof assetsTable.$inferSelect;
+
+/**
+ * Check that image elements reference assets uploaded to their own canvas, and that their crops lie
+ * within the source image where its size is known
+ */
+export async function validateImageProps(
+  executor: DbExecutor,
+  canvasId: string,
+  images: { assetId: string; crop?: { x: number; y: number; width: number; height: number } | null }[]
+): Promise<void> {
+  if (images.length === 0) {
+    return;
+  }
+
+  const assetIds = [...new Set(images.map(image => image.assetId))];
+  const rows = await executor.select()
+    .from(assetsTable)
+    .where(and(eq(assetsTable.canvasId, canvasId), inArray(assetsTable.id, assetIds)))
+    .execute();
+  const assets = new Map(rows.map(row => [row.id, row]));
+
+  const missingIds = assetIds.filter(id => !assets.has(id));
+  if (missingIds.length > 0) {
+    throw new Error(`Assets not found on canvas ${canvasId}: ${missingIds.join(', ')}`);
+  }
+
+  for (const image of images) {
+    const asset = assets.get(image.assetId)!;
+    const crop = image.crop;
+    if (crop && asset.width !== null && asset.height !== null &&
+      (crop.x + crop.width > asset.width || crop.y + crop.height > asset.height)) {
+      throw new Error(`Crop extends past the ${asset.width}x${asset.height} image of asset ${asset.id}`);
+    }
+  }
+}
+
+/**
+ * Convert an asset row to the API shape; the storage key stays on the server
+ */
+export function convertToAsset(row: AssetRow): Asset {
+  return {
+    id: row.id,
+    canvasId: row.canvasId,
+    fileName: row.fileName,
+    mimeType: row.mimeType as Asset['mimeType'],
+    size: row.size,
+    width: row.width,
+    height: row.height,
+    createdAt: row.createdAt
+  };
+}
@@ -0,0 +1,102 @@
+import { randomUUID } from 'crypto';
+import { canvasElementsTable, type NewCanvasElement } from './schema';
+import { canvasElementSchema, type CanvasElement, type CreateElementInput } from '../schema';
+import { withPathBounds } from '../geometry';
+
+export type ElementRow = typeof canvasElementsTable.$inferSelect;
+
+/**
+ * Convert an element row - or one stored in the undo history or a snapshot - to the API shape. The JSON columns
+ * are read through the schema, so values saved in an older form are upgraded and columns that didn't exist yet
+ * when a snapshot was taken get their defaults
+ */
+export function convertToCanvasElement(row: ElementRow): CanvasElement {
+  const element = {
+    id: row.id,
+    type: row.type,
+    canvasId: row.canvasId,
+    parentId: row.parentId,
+    position: {
+      x: parseFloat(row.positionX),
+      y: parseFloat(row.positionY)
+    },
+    dimensions: row.width && row.height ? {
+      width: parseFloat(row.width),
+      height: parseFloat(row.height)
+    } : undefined,
+    zIndex: row.zIndex,
+    visible: row.visible,
+    locked: row.locked,
+    transform: row.transform,
+    effects: row.effects,
+    fill: row.fill,
+    stroke: row.stroke,
+    extraFills: row.extraFills,
+    extraStrokes: row.extraStrokes,
+    textStyle: row.textStyle,
+    rectangleProps: row.rectangleProps,
+    lineProps: row.lineProps,
+    textProps: row.textProps,
+    ellipseProps: row.ellipseProps,
+    polygonProps: row.polygonProps,
+    starProps: row.starProps,
+    arrowProps: row.arrowProps,
+    pathProps: row.pathProps,
+    imageProps: row.imageProps,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt
+  };
+  const result = canvasElementSchema.safeParse(element);
+  if (result.success) {
+    return result.data;
+  }
+
+  // A row that no longer fits mustn't make its whole canvas unreadable: the properties it fails on are left out,
+  // falling back to their defaults
+  console.warn(`Element ${row.id} does not fit the element schema:`, result.error.issues);
+  const invalidKeys = new Set(result.error.issues.map(issue => issue.path[0]));
+  return canvasElementSchema.parse(
+    Object.fromEntries(Object.entries(element).filter(([key]) => !invalidKeys.has(key)))
+  );
+}
+
+/**
+ * The row to insert for a new element on a canvas. Paths are positioned by their commands rather than by what the
+ * caller sent, and a new group has no transform or effects of its own yet
+ */
+export function toElementValues(
+  canvasId: string,
+  input: Omit<CreateElementInput, 'canvasId'>
+): NewCanvasElement {
+  const { position, dimensions } = withPathBounds(input);
+  const isGroup = input.type === 'group';
+  return {
+    id: randomUUID(),
+    type: input.type,
+    canvasId,
+    parentId: input.parentId ?? null,
+    positionX: position.x.toString(),
+    positionY: position.y.toString(),
+    width: dimensions?.width?.toString() || null,
+    height: dimensions?.height?.toString() || null,
+    zIndex: input.zIndex ?? 0,
+    visible: input.visible ?? true,
+    locked: input.locked ?? false,
+    transform: isGroup ? null : input.transform ?? null,
+    effects: isGroup ? [] : input.effects ?? [],
+    fill: input.fill ?? null,
+    stroke: input.stroke ?? null,
+    extraFills: input.extraFills ?? [],
+    extraStrokes: input.extraStrokes ?? [],
+    textStyle: input.textStyle ?? null,
+    rectangleProps: input.rectangleProps ?? null,
+    lineProps: input.lineProps ?? null,
+    textProps: input.textProps ?? null,
+    ellipseProps: input.ellipseProps ?? null,
+    polygonProps: input.polygonProps ?? null,
+    starProps: input.starProps ?? null,
+    arrowProps: input.arrowProps ?? null,
+    pathProps: input.pathProps ?? null,
+    imageProps: input.imageProps ?? null
+  };
+}
@@ -0,0 +1,301 @@
+import { eq } from 'drizzle-orm';
+import { type DbExecutor } from './index';
+import { canvasElementsTable } from './schema';
+import { recordOperation } from './operation_log';
+import { type ElementRow } from './elements';
+import {
+  applyMatrix,
+  combineTransforms,
+  fitPathToBounds,
+  getTransformedBounds,
+  getTransformMatrix,
+  getTransformOrigin,
+  type Bounds
+} from '../geometry';
+import { elementTransformSchema, type ElementTransform, type PathCommand } from '../schema';
+
+interface Endpoints {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+// Groups need positive dimensions even around a single straight line
+const MIN_GROUP_SIZE = 1;
+
+// Stored coordinates have two decimals; closer than this counts as unchanged
+const BOUNDS_EPSILON = 0.005;
+
+const IDENTITY_TRANSFORM = elementTransformSchema.parse({});
+
+/**
+ * Box an element row takes up: lines and arrows by their endpoints, everything else by position and dimensions
+ */
+export function getRowBounds(row: ElementRow): Bounds {
+  const endpoints = (row.lineProps ?? row.arrowProps) as Endpoints | null;
+  if (endpoints) {
+    const x = Math.min(endpoints.x1, endpoints.x2);
+    const y = Math.min(endpoints.y1, endpoints.y2);
+    return { x, y, width: Math.abs(endpoints.x2 - endpoints.x1), height: Math.abs(endpoints.y2 - endpoints.y1) };
+  }
+
+  return {
+    x: parseFloat(row.positionX),
+    y: parseFloat(row.positionY),
+    width: row.width ? parseFloat(row.width) : 0,
+    height: row.height ? parseFloat(row.height) : 0
+  };
+}
+
+/**
+ * Box around a set of element rows as they are drawn, transforms included, with the minimum size an element needs
+ */
+export function getGroupBounds(rows: ElementRow[]): Bounds {
+  const boxes = rows.map(row => getTransformedBounds(getRowBounds(row), row.transform as ElementTransform | null));
+  const x = Math.min(...boxes.map(box => box.x));
+  const y = Math.min(...boxes.map(box => box.y));
+  return {
+    x,
+    y,
+    width: Math.max(Math.max(...boxes.map(box => box.x + box.width)) - x, MIN_GROUP_SIZE),
+    height: Math.max(Math.max(...boxes.map(box => box.y + box.height)) - y, MIN_GROUP_SIZE)
+  };
+}
+
+/**
+ * Every element nested anywhere inside a group, parents before their members
+ */
+export async function getDescendantRows(executor: DbExecutor, group: ElementRow): Promise<ElementRow[]> {
+  const rows = await executor.select()
+    .from(canvasElementsTable)
+    .where(eq(canvasElementsTable.canvasId, group.canvasId))
+    .execute();
+
+  const descendants: ElementRow[] = [];
+  const seen = new Set([group.id]);
+  let parentIds = [group.id];
+  while (parentIds.length > 0) {
+    const members = rows.filter(row => row.parentId !== null && parentIds.includes(row.parentId) && !seen.has(row.id));
+    members.forEach(row => seen.add(row.id));
+    descendants.push(...members);
+    parentIds = members.map(row => row.id);
+  }
+  return descendants;
+}
+
+/**
+ * Check that a group can take an element: it is a group on the same canvas and, when the element is already
+ * on the canvas, not the element itself or nested inside it
+ */
+export async function validateParent(
+  executor: DbExecutor,
+  canvasId: string,
+  parentId: string,
+  elementId?: string
+): Promise<void> {
+  let currentId: string | null = parentId;
+  while (currentId) {
+    if (currentId === elementId) {
+      throw new Error(`Element with id ${elementId} cannot be moved into itself or a group inside it`);
+    }
+
+    const rows: ElementRow[] = await executor.select()
+      .from(canvasElementsTable)
+      .where(eq(canvasElementsTable.id, currentId))
+      .execute();
+
+    if (rows.length === 0 || rows[0].canvasId !== canvasId) {
+      throw new Error(`Group with id ${parentId} not found on canvas ${canvasId}`);
+    }
+    if (currentId === parentId && rows[0].type !== 'group') {
+      throw new Error(`Element with id ${parentId} is not a group`);
+    }
+    currentId = rows[0].parentId;
+  }
+}
+
+/**
+ * Move and scale everything inside a group from the group's old box to its new one, recording each change
+ * in the undo group. Returns the rows as written
+ */
+export async function transformDescendants(
+  executor: DbExecutor,
+  group: ElementRow,
+  from: Bounds,
+  to: Bounds,
+  groupId: string
+): Promise<ElementRow[]> {
+  const written: ElementRow[] = [];
+  for (const row of await getDescendantRows(executor, group)) {
+    const result = await executor.update(canvasElementsTable)
+      .set(transformRow(row, from, to))
+      .where(eq(canvasElementsTable.id, row.id))
+      .returning()
+      .execute();
+
+    await recordOperation(executor, { canvasId: row.canvasId, groupId, kind: 'update', before: row, after: result[0] });
+    written.push(result[0]);
+  }
+  return written;
+}
+
+/**
+ * Apply a transform given to a group to everything inside it instead, about the group's origin: each element
+ * keeps its box, moved to where the transform takes its own origin, and takes the transform on top of its own.
+ * Groups themselves stay untransformed and are refitted afterwards. Returns the rows as written
+ */
+export async function passTransformToMembers(
+  executor: DbExecutor,
+  group: ElementRow,
+  transform: ElementTransform,
+  groupId: string
+): Promise<ElementRow[]> {
+  const matrix = getTransformMatrix(getRowBounds(group), transform);
+  const written: ElementRow[] = [];
+  for (const row of await getDescendantRows(executor, group)) {
+    if (row.type === 'group') {
+      continue;
+    }
+
+    const current = row.transform as ElementTransform | null;
+    const bounds = getRowBounds(row);
+    const origin = getTransformOrigin(bounds, current ?? IDENTITY_TRANSFORM);
+    const target = applyMatrix(matrix, origin);
+    const moved = { ...bounds, x: bounds.x + target.x - origin.x, y: bounds.y + target.y - origin.y };
+
+    const result = await executor.update(canvasElementsTable)
+      .set({ ...transformRow(row, bounds, moved), transform: combineTransforms(transform, current) })
+      .where(eq(canvasElementsTable.id, row.id))
+      .returning()
+      .execute();
+
+    await recordOperation(executor, { canvasId: row.canvasId, groupId, kind: 'update', before: row, after: result[0] });
+    written.push(result[0]);
+  }
+  return written;
+}
+
+/**
+ * Fit groups around their members again after members were added, changed or removed, and their own groups
+ * in turn, recording each change in the undo group. An empty group keeps its last box. Returns the groups that changed
+ */
+export async function refitGroups(
+  executor: DbExecutor,
+  parentIds: (string | null)[],
+  groupId: string
+): Promise<ElementRow[]> {
+  const changed = new Map<string, ElementRow>();
+  let pending = [...new Set(parentIds.filter((id): id is string => id !== null))];
+
+  while (pending.length > 0) {
+    const next: string[] = [];
+    for (const id of pending) {
+      const groups = await executor.select()
+        .from(canvasElementsTable)
+        .where(eq(canvasElementsTable.id, id))
+        .execute();
+      const members = await executor.select()
+        .from(canvasElementsTable)
+        .where(eq(canvasElementsTable.parentId, id))
+        .execute();
+      if (groups.length === 0 || members.length === 0) {
+        continue;
+      }
+
+      const group = groups[0];
+      const current = getRowBounds(group);
+      const bounds = getGroupBounds(members);
+      if (
+        Math.abs(current.x - bounds.x) < BOUNDS_EPSILON &&
+        Math.abs(current.y - bounds.y) < BOUNDS_EPSILON &&
+        Math.abs(current.width - bounds.width) < BOUNDS_EPSILON &&
+        Math.abs(current.height - bounds.height) < BOUNDS_EPSILON
+      ) {
+        continue;
+      }
+
+      const result = await executor.update(canvasElementsTable)
+        .set({
+          positionX: bounds.x.toString(),
+          positionY: bounds.y.toString(),
+          width: bounds.width.toString(),
+          height: bounds.height.toString(),
+          updatedAt: new Date()
+        })
+        .where(eq(canvasElementsTable.id, id))
+        .returning()
+        .execute();
+
+      await recordOperation(executor, { canvasId: group.canvasId, groupId, kind: 'update', before: group, after: result[0] });
+      changed.set(id, result[0]);
+      if (group.parentId) {
+        next.push(group.parentId);
+      }
+    }
+    pending = [...new Set(next)];
+  }
+
+  return [...changed.values()];
+}
+
+/**
+ * Delete an element, and everything inside it when it is a group, then refit the group it was in.
+ * Returns the deleted rows (none when the element doesn't exist) and the groups that changed
+ */
+export async function deleteElementTree(
+  executor: DbExecutor,
+  elementId: string,
+  groupId: string
+): Promise<{ deleted: ElementRow[]; refitted: ElementRow[] }> {
+  const rows = await executor.select()
+    .from(canvasElementsTable)
+    .where(eq(canvasElementsTable.id, elementId))
+    .execute();
+
+  if (rows.length === 0) {
+    return { deleted: [], refitted: [] };
+  }
+
+  const deleted = [rows[0], ...(rows[0].type === 'group' ? await getDescendantRows(executor, rows[0]) : [])];
+  for (const row of deleted) {
+    await executor.delete(canvasElementsTable)
+      .where(eq(canvasElementsTable.id, row.id))
+      .execute();
+    await recordOperation(executor, { canvasId: row.canvasId, groupId, kind: 'delete', before: row, after: null });
+  }
+
+  return { deleted, refitted: await refitGroups(executor, [rows[0].parentId], groupId) };
+}
+
+/**
+ * Column values that map an element from one box to another, scaling its geometry along
+ */
+function transformRow(row: ElementRow, from: Bounds, to: Bounds): Partial<ElementRow> {
+  const scaleX = from.width > 0 ? to.width / from.width : 1;
+  const scaleY = from.height > 0 ? to.height / from.height : 1;
+  const mapX = (x: number) => to.x + (x - from.x) * scaleX;
+  const mapY = (y: number) => to.y + (y - from.y) * scaleY;
+  const mapEndpoints = (endpoints: Endpoints) =>
+    ({ ...endpoints, x1: mapX(endpoints.x1), y1: mapY(endpoints.y1), x2: mapX(endpoints.x2), y2: mapY(endpoints.y2) });
+
+  const values: Partial<ElementRow> = {
+    positionX: mapX(parseFloat(row.positionX)).toString(),
+    positionY: mapY(parseFloat(row.positionY)).toString(),
+    width: row.width ? (parseFloat(row.width) * scaleX).toString() : row.width,
+    height: row.height ? (parseFloat(row.height) * scaleY).toString() : row.height,
+    updatedAt: new Date()
+  };
+
+  if (row.lineProps) {
+    values.lineProps = mapEndpoints(row.lineProps as Endpoints);
+  }
+  if (row.arrowProps) {
+    values.arrowProps = mapEndpoints(row.arrowProps as Endpoints);
+  }
+  if (row.pathProps) {
+    const path = row.pathProps as { commands: PathCommand[] };
+    values.pathProps = { ...path, commands: fitPathToBounds(path.commands, from, to) };
+  }
+  return values;
+}
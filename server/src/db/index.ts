@@ -9,3 +9,8 @@ const pool = new Pool({
 
 // Pass schema to drizzle for relation queries
 export const db = drizzle(pool, { schema });
+
+// A transaction handle exposes the same query API as `db`, so handlers that may run inside a
+// caller's transaction accept either
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+export type DbExecutor = typeof db | DbTransaction;
@@ -0,0 +1,125 @@
+import { and, desc, eq, inArray, max, notInArray, sql } from 'drizzle-orm';
+import { type DbExecutor } from './index';
+import { canvasElementsTable, operationLogTable } from './schema';
+import { convertToCanvasElement, type ElementRow } from './elements';
+import { type HistoryResult, type HistoryState } from '../schema';
+
+// Undo steps kept per canvas; older ones are dropped as new ones are recorded
+export const MAX_UNDO_STEPS = 100;
+
+/**
+ * Record one element mutation in the undo history. A new change discards anything that could
+ * have been redone, as in any linear undo stack, and steps beyond the last MAX_UNDO_STEPS
+ */
+export async function recordOperation(
+  executor: DbExecutor,
+  operation: {
+    canvasId: string;
+    groupId: string;
+    kind: 'create' | 'update' | 'delete';
+    before: ElementRow | null;
+    after: ElementRow | null;
+  }
+): Promise<void> {
+  await executor.delete(operationLogTable)
+    .where(and(eq(operationLogTable.canvasId, operation.canvasId), eq(operationLogTable.undone, true)))
+    .execute();
+
+  await executor.insert(operationLogTable)
+    .values({
+      canvasId: operation.canvasId,
+      groupId: operation.groupId,
+      elementId: (operation.after ?? operation.before)!.id,
+      kind: operation.kind,
+      before: operation.before,
+      after: operation.after
+    })
+    .execute();
+
+  const recentGroups = executor.select({ groupId: operationLogTable.groupId })
+    .from(operationLogTable)
+    .where(eq(operationLogTable.canvasId, operation.canvasId))
+    .groupBy(operationLogTable.groupId)
+    .orderBy(desc(max(operationLogTable.seq)))
+    .limit(MAX_UNDO_STEPS);
+  await executor.delete(operationLogTable)
+    .where(and(
+      eq(operationLogTable.canvasId, operation.canvasId),
+      notInArray(operationLogTable.groupId, recentGroups)
+    ))
+    .execute();
+}
+
+/**
+ * Put an element back into a recorded state: a snapshot is written back as-is, null removes the element.
+ * Returns the element row as written, or null when it was removed
+ */
+export async function restoreElementSnapshot(
+  executor: DbExecutor,
+  elementId: string,
+  snapshot: unknown
+): Promise<ElementRow | null> {
+  if (!snapshot) {
+    await executor.delete(canvasElementsTable)
+      .where(eq(canvasElementsTable.id, elementId))
+      .execute();
+    return null;
+  }
+
+  // Snapshots went through JSON, so timestamps come back as strings. The restore itself is a change, hence updatedAt.
+  // Rows recorded before elements had effects or layered fills and strokes have none
+  const row = snapshot as ElementRow;
+  const values = {
+    ...row,
+    effects: row.effects ?? [],
+    extraFills: row.extraFills ?? [],
+    extraStrokes: row.extraStrokes ?? [],
+    createdAt: new Date(row.createdAt),
+    updatedAt: new Date()
+  };
+  const result = await executor.insert(canvasElementsTable)
+    .values(values)
+    .onConflictDoUpdate({ target: canvasElementsTable.id, set: values })
+    .returning()
+    .execute();
+  return result[0];
+}
+
+/**
+ * Whether the canvas has operations to undo and to redo
+ */
+export async function getHistoryStateFor(executor: DbExecutor, canvasId: string): Promise<HistoryState> {
+  const result = await executor.select({
+    canUndo: sql<boolean>`coalesce(bool_or(not ${operationLogTable.undone}), false)`,
+    canRedo: sql<boolean>`coalesce(bool_or(${operationLogTable.undone}), false)`
+  })
+    .from(operationLogTable)
+    .where(eq(operationLogTable.canvasId, canvasId))
+    .execute();
+
+  return result[0];
+}
+
+/**
+ * Report the current state of elements touched by an undo/redo step: those that exist and the IDs of those that don't
+ */
+export async function buildHistoryResult(
+  executor: DbExecutor,
+  canvasId: string,
+  elementIds: string[]
+): Promise<HistoryResult> {
+  const rows = elementIds.length > 0
+    ? await executor.select()
+      .from(canvasElementsTable)
+      .where(inArray(canvasElementsTable.id, elementIds))
+      .execute()
+    : [];
+
+  const existingIds = new Set(rows.map(row => row.id));
+  return {
+    applied: elementIds.length > 0,
+    elements: rows.map(convertToCanvasElement),
+    deletedElementIds: [...new Set(elementIds)].filter(id => !existingIds.has(id)),
+    ...await getHistoryStateFor(executor, canvasId)
+  };
+}
@@ -12,8 +12,9 @@ import {
 } from 'drizzle-orm/pg-core';
 
 // Enums for design elements
-export const elementTypeEnum = pgEnum('element_type', ['rectangle', 'circle', 'line', 'text']);
+export const elementTypeEnum = pgEnum('element_type', ['rectangle', 'circle', 'line', 'text', 'ellipse', 'polygon', 'star', 'arrow', 'path', 'image', 'group']);
 export const chatRoleEnum = pgEnum('chat_role', ['user', 'assistant']);
+export const operationKindEnum = pgEnum('operation_kind', ['create', 'update', 'delete']);
 
 // Canvas table
 export const canvasTable = pgTable('canvas', {
@@ -26,6 +27,7 @@ export const canvasTable = pgTable('canvas', {
   zoom: numeric('zoom', { precision: 5, scale: 2 }).notNull().default('1'),
   panX: numeric('pan_x', { precision: 10, scale: 2 }).notNull().default('0'),
   panY: numeric('pan_y', { precision: 10, scale: 2 }).notNull().default('0'),
+  archivedAt: timestamp('archived_at'), // Nullable - set while the canvas is archived
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
@@ -35,6 +37,8 @@ export const canvasElementsTable = pgTable('canvas_elements', {
   id: varchar('id', { length: 36 }).primaryKey(),
   type: elementTypeEnum('type').notNull(),
   canvasId: varchar('canvas_id', { length: 36 }).notNull().references(() => canvasTable.id, { onDelete: 'cascade' }),
+  // Nullable - the group containing the element. No foreign key: undo and restores write rows one at a time, in any order
+  parentId: varchar('parent_id', { length: 36 }),
   
   // Position and layout
   positionX: numeric('position_x', { precision: 10, scale: 2 }).notNull(),
@@ -46,16 +50,26 @@ export const canvasElementsTable = pgTable('canvas_elements', {
   // State
   visible: boolean('visible').notNull().default(true),
   locked: boolean('locked').notNull().default(false),
+  transform: jsonb('transform'), // Nullable - rotation, scale and skew about an origin
+  effects: jsonb('effects').notNull().default([]), // Array of shadows and blurs
   
   // Style properties stored as JSONB for flexibility
   fill: jsonb('fill'), // Nullable - stores fill style object
   stroke: jsonb('stroke'), // Nullable - stores stroke style object
+  extraFills: jsonb('extra_fills').notNull().default([]), // Array of fill styles painted over the fill
+  extraStrokes: jsonb('extra_strokes').notNull().default([]), // Array of stroke styles painted over the stroke
   textStyle: jsonb('text_style'), // Nullable - stores text style object
   
   // Element-specific properties stored as JSONB
   rectangleProps: jsonb('rectangle_props'), // Nullable - for rectangles
   lineProps: jsonb('line_props'), // Nullable - for lines
   textProps: jsonb('text_props'), // Nullable - for text elements
+  ellipseProps: jsonb('ellipse_props'), // Nullable - for ellipses
+  polygonProps: jsonb('polygon_props'), // Nullable - for polygons
+  starProps: jsonb('star_props'), // Nullable - for stars
+  arrowProps: jsonb('arrow_props'), // Nullable - for arrows
+  pathProps: jsonb('path_props'), // Nullable - for paths
+  imageProps: jsonb('image_props'), // Nullable - for images
   
   // Metadata
   createdAt: timestamp('created_at').defaultNow().notNull(),
@@ -75,6 +89,42 @@ export const chatMessagesTable = pgTable('chat_messages', {
   elementsModified: jsonb('elements_modified'), // Array of element IDs
 });
 
+// Operation log backing undo/redo: one row per element mutation with full before/after snapshots
+export const operationLogTable = pgTable('operation_log', {
+  seq: serial('seq').primaryKey(), // Global order of operations
+  canvasId: varchar('canvas_id', { length: 36 }).notNull().references(() => canvasTable.id, { onDelete: 'cascade' }),
+  groupId: varchar('group_id', { length: 36 }).notNull(), // Operations from one user action are undone together
+  elementId: varchar('element_id', { length: 36 }).notNull(), // No foreign key - the element may since have been deleted
+  kind: operationKindEnum('kind').notNull(),
+  before: jsonb('before'), // Element row before the change; null for creates
+  after: jsonb('after'), // Element row after the change; null for deletes
+  undone: boolean('undone').notNull().default(false), // Undone operations form the redo stack
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Named version snapshots: full copies of the canvas row and its element rows at one point in time
+export const canvasSnapshotsTable = pgTable('canvas_snapshots', {
+  id: varchar('id', { length: 36 }).primaryKey(),
+  canvasId: varchar('canvas_id', { length: 36 }).notNull().references(() => canvasTable.id, { onDelete: 'cascade' }),
+  label: text('label').notNull(),
+  canvas: jsonb('canvas').notNull(), // Canvas row as it was when the snapshot was taken
+  elements: jsonb('elements').notNull(), // Array of element rows
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Uploaded files; the bytes live in asset storage under storageKey
+export const assetsTable = pgTable('assets', {
+  id: varchar('id', { length: 36 }).primaryKey(),
+  canvasId: varchar('canvas_id', { length: 36 }).notNull().references(() => canvasTable.id, { onDelete: 'cascade' }),
+  fileName: text('file_name').notNull(),
+  mimeType: text('mime_type').notNull(),
+  size: integer('size').notNull(),
+  width: integer('width'), // Nullable - for files without an intrinsic size
+  height: integer('height'), // Nullable - for files without an intrinsic size
+  storageKey: text('storage_key').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
 // TypeScript types for the table schemas
 export type Canvas = typeof canvasTable.$inferSelect;
 export type NewCanvas = typeof canvasTable.$inferInsert;
@@ -85,9 +135,21 @@ export type NewCanvasElement = typeof canvasElementsTable.$inferInsert;
 export type ChatMessage = typeof chatMessagesTable.$inferSelect;
 export type NewChatMessage = typeof chatMessagesTable.$inferInsert;
 
+export type Operation = typeof operationLogTable.$inferSelect;
+export type NewOperation = typeof operationLogTable.$inferInsert;
+
+export type CanvasSnapshot = typeof canvasSnapshotsTable.$inferSelect;
+export type NewCanvasSnapshot = typeof canvasSnapshotsTable.$inferInsert;
+
+export type Asset = typeof assetsTable.$inferSelect;
+export type NewAsset = typeof assetsTable.$inferInsert;
+
 // Export all tables for relation queries
 export const tables = {
   canvas: canvasTable,
   canvasElements: canvasElementsTable,
-  chatMessages: chatMessagesTable
+  chatMessages: chatMessagesTable,
+  operationLog: operationLogTable,
+  canvasSnapshots: canvasSnapshotsTable,
+  assets: assetsTable
 };
\ No newline at end of file
@@ -0,0 +1,14 @@
+import { TRPCError } from '@trpc/server';
+
+/**
+ * A write based on stale data: the row changed since the client last read it. Carries the row's current
+ * state, which the error formatter sends to the client so it can merge instead of refetching
+ */
+export class ConflictError<T> extends TRPCError {
+  readonly current: T;
+
+  constructor(message: string, current: T) {
+    super({ code: 'CONFLICT', message });
+    this.current = current;
+  }
+}
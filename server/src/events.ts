@@ -0,0 +1,47 @@
+import { EventEmitter, on } from 'events';
+import { type CanvasEvent, type HistoryResult } from './schema';
+
+// In-process event bus; every subscription listens on the ID of the canvas it follows
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+/**
+ * Broadcast a change to everyone following the canvas. Call only after the change has been committed,
+ * so subscribers never see writes that are later rolled back
+ */
+export function publishCanvasEvent(canvasId: string, event: CanvasEvent): void {
+  emitter.emit(canvasId, event);
+}
+
+/**
+ * Yield the canvas's events as they are published, until the signal aborts
+ */
+export async function* subscribeToCanvas(canvasId: string, signal?: AbortSignal): AsyncGenerator<CanvasEvent> {
+  try {
+    for await (const [event] of on(emitter, canvasId, { signal })) {
+      yield event as CanvasEvent;
+    }
+  } catch (error) {
+    // Aborting is how a subscription ends
+    if (!signal?.aborted) {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Broadcast the element changes of an undo/redo step, then the history state it left. Restored elements
+ * are sent as updates, since subscribers apply created and updated elements alike
+ */
+export function publishHistoryResult(canvasId: string, result: HistoryResult): void {
+  if (!result.applied) {
+    return;
+  }
+  if (result.elements.length > 0) {
+    publishCanvasEvent(canvasId, { type: 'elements.updated', elements: result.elements });
+  }
+  if (result.deletedElementIds.length > 0) {
+    publishCanvasEvent(canvasId, { type: 'elements.deleted', elementIds: result.deletedElementIds });
+  }
+  publishCanvasEvent(canvasId, { type: 'history.changed', canUndo: result.canUndo, canRedo: result.canRedo });
+}
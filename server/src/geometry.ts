@@ -0,0 +1,259 @@
+import { type ElementTransform, type PathCommand } from './schema';
+
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// 2D affine matrix in SVG order: (x, y) maps to (a*x + c*y + e, b*x + d*y + f)
+export interface Matrix {
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+  e: number;
+  f: number;
+}
+
+// Elements need positive dimensions, so a perfectly straight path still gets a sliver of a box
+const MIN_PATH_SIZE = 1;
+
+/**
+ * Exact bounding box of a path, including the parts of curves that bulge past their end points
+ */
+export function getPathBounds(commands: PathCommand[]): Bounds {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  let current = { x: 0, y: 0 };
+
+  for (const command of commands) {
+    if (command.type === 'close') {
+      continue;
+    }
+
+    if (command.type === 'quadratic') {
+      xs.push(...quadraticExtrema(current.x, command.x1, command.x));
+      ys.push(...quadraticExtrema(current.y, command.y1, command.y));
+    } else if (command.type === 'cubic') {
+      xs.push(...cubicExtrema(current.x, command.x1, command.x2, command.x));
+      ys.push(...cubicExtrema(current.y, command.y1, command.y2, command.y));
+    }
+
+    xs.push(command.x);
+    ys.push(command.y);
+    current = { x: command.x, y: command.y };
+  }
+
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return {
+    x,
+    y,
+    width: Math.max(Math.max(...xs) - x, MIN_PATH_SIZE),
+    height: Math.max(Math.max(...ys) - y, MIN_PATH_SIZE)
+  };
+}
+
+/**
+ * Map a path from one box to another, scaling and translating every point and control point
+ */
+export function fitPathToBounds(commands: PathCommand[], from: Bounds, to: Bounds): PathCommand[] {
+  const scaleX = from.width > 0 ? to.width / from.width : 1;
+  const scaleY = from.height > 0 ? to.height / from.height : 1;
+  const mapX = (x: number) => to.x + (x - from.x) * scaleX;
+  const mapY = (y: number) => to.y + (y - from.y) * scaleY;
+
+  return commands.map((command): PathCommand => {
+    switch (command.type) {
+      case 'move':
+      case 'line':
+        return { type: command.type, x: mapX(command.x), y: mapY(command.y) };
+      case 'quadratic':
+        return { type: 'quadratic', x1: mapX(command.x1), y1: mapY(command.y1), x: mapX(command.x), y: mapY(command.y) };
+      case 'cubic':
+        return {
+          type: 'cubic',
+          x1: mapX(command.x1),
+          y1: mapY(command.y1),
+          x2: mapX(command.x2),
+          y2: mapY(command.y2),
+          x: mapX(command.x),
+          y: mapY(command.y)
+        };
+      case 'close':
+        return command;
+    }
+  });
+}
+
+/**
+ * Position and dimensions of an element input, taken from its path when it has one
+ */
+export function withPathBounds<T extends {
+  position: { x: number; y: number };
+  dimensions?: { width: number; height: number };
+  pathProps?: { commands: PathCommand[] } | null;
+}>(input: T): T {
+  if (!input.pathProps) {
+    return input;
+  }
+
+  const bounds = getPathBounds(input.pathProps.commands);
+  return {
+    ...input,
+    position: { x: bounds.x, y: bounds.y },
+    dimensions: { width: bounds.width, height: bounds.height }
+  };
+}
+
+/**
+ * Point in a box that a transform's origin refers to
+ */
+export function getTransformOrigin(bounds: Bounds, transform: ElementTransform): { x: number; y: number } {
+  return { x: bounds.x + transform.originX * bounds.width, y: bounds.y + transform.originY * bounds.height };
+}
+
+/**
+ * Matrix of a transform applied to an element with the given box
+ */
+export function getTransformMatrix(bounds: Bounds, transform: ElementTransform): Matrix {
+  const origin = getTransformOrigin(bounds, transform);
+  const linear = getLinearMatrix(transform);
+  const mapped = applyMatrix(linear, origin);
+  return { ...linear, e: origin.x - mapped.x, f: origin.y - mapped.y };
+}
+
+export function applyMatrix(matrix: Matrix, point: { x: number; y: number }): { x: number; y: number } {
+  return {
+    x: matrix.a * point.x + matrix.c * point.y + matrix.e,
+    y: matrix.b * point.x + matrix.d * point.y + matrix.f
+  };
+}
+
+/**
+ * Box around an element's box once its transform is applied. Shapes stay inside their box, so this holds them too
+ */
+export function getTransformedBounds(bounds: Bounds, transform: ElementTransform | null): Bounds {
+  if (!transform) {
+    return bounds;
+  }
+
+  const matrix = getTransformMatrix(bounds, transform);
+  const corners = [
+    { x: bounds.x, y: bounds.y },
+    { x: bounds.x + bounds.width, y: bounds.y },
+    { x: bounds.x, y: bounds.y + bounds.height },
+    { x: bounds.x + bounds.width, y: bounds.y + bounds.height }
+  ].map(corner => applyMatrix(matrix, corner));
+
+  const x = Math.min(...corners.map(corner => corner.x));
+  const y = Math.min(...corners.map(corner => corner.y));
+  return {
+    x,
+    y,
+    width: Math.max(...corners.map(corner => corner.x)) - x,
+    height: Math.max(...corners.map(corner => corner.y)) - y
+  };
+}
+
+/**
+ * Transform with the rotation, scale and skew of `outer` applied after those of `inner`, about inner's origin.
+ * The result is written without skewY, which any combination can do without
+ */
+export function combineTransforms(outer: ElementTransform, inner: ElementTransform | null): ElementTransform {
+  const first = getLinearMatrix(outer);
+  const second = inner ? getLinearMatrix(inner) : IDENTITY_MATRIX;
+  const { a, b, c, d } = multiplyMatrices(first, second);
+
+  // Split into rotate(rotation) skewX(skewX) scale(scaleX, scaleY): the x axis gives rotation and scaleX,
+  // the y axis what is left; a flip shows up as a negative scaleY
+  const scaleX = Math.hypot(a, b);
+  const rotation = Math.atan2(b, a);
+  const scaleY = (a * d - b * c) / scaleX;
+  const skew = Math.atan((a * c + b * d) / (scaleX * scaleY));
+  return {
+    rotation: toDegrees(rotation),
+    scaleX,
+    scaleY,
+    skewX: toDegrees(skew),
+    skewY: 0,
+    originX: inner?.originX ?? 0.5,
+    originY: inner?.originY ?? 0.5
+  };
+}
+
+/**
+ * Values of a quadratic Bézier coordinate where its derivative is zero, within the segment
+ */
+function quadraticExtrema(p0: number, p1: number, p2: number): number[] {
+  const denominator = p0 - 2 * p1 + p2;
+  if (denominator === 0) {
+    return [];
+  }
+  const t = (p0 - p1) / denominator;
+  return t > 0 && t < 1 ? [(1 - t) ** 2 * p0 + 2 * (1 - t) * t * p1 + t ** 2 * p2] : [];
+}
+
+/**
+ * Values of a cubic Bézier coordinate where its derivative is zero, within the segment
+ */
+function cubicExtrema(p0: number, p1: number, p2: number, p3: number): number[] {
+  // The derivative divided by 3 is a*t^2 + b*t + c
+  const a = -p0 + 3 * p1 - 3 * p2 + p3;
+  const b = 2 * (p0 - 2 * p1 + p2);
+  const c = p1 - p0;
+
+  let roots: number[];
+  if (Math.abs(a) < 1e-12) {
+    roots = b === 0 ? [] : [-c / b];
+  } else {
+    const discriminant = b * b - 4 * a * c;
+    if (discriminant < 0) {
+      return [];
+    }
+    const sqrt = Math.sqrt(discriminant);
+    roots = [(-b + sqrt) / (2 * a), (-b - sqrt) / (2 * a)];
+  }
+
+  return roots
+    .filter(t => t > 0 && t < 1)
+    .map(t => (1 - t) ** 3 * p0 + 3 * (1 - t) ** 2 * t * p1 + 3 * (1 - t) * t ** 2 * p2 + t ** 3 * p3);
+}
+
+const IDENTITY_MATRIX: Matrix = { a: 1, b: 0, c: 0, d: 1, e: 0, f: 0 };
+
+/**
+ * Rotation, skew and scale of a transform about (0, 0)
+ */
+function getLinearMatrix(transform: ElementTransform): Matrix {
+  const rotation = toRadians(transform.rotation);
+  const cos = Math.cos(rotation);
+  const sin = Math.sin(rotation);
+  return [
+    { a: cos, b: sin, c: -sin, d: cos, e: 0, f: 0 },
+    { a: 1, b: 0, c: Math.tan(toRadians(transform.skewX)), d: 1, e: 0, f: 0 },
+    { a: 1, b: Math.tan(toRadians(transform.skewY)), c: 0, d: 1, e: 0, f: 0 },
+    { a: transform.scaleX, b: 0, c: 0, d: transform.scaleY, e: 0, f: 0 }
+  ].reduce(multiplyMatrices);
+}
+
+function multiplyMatrices(first: Matrix, second: Matrix): Matrix {
+  return {
+    a: first.a * second.a + first.c * second.b,
+    b: first.b * second.a + first.d * second.b,
+    c: first.a * second.c + first.c * second.d,
+    d: first.b * second.c + first.d * second.d,
+    e: first.a * second.e + first.c * second.f + first.e,
+    f: first.b * second.e + first.d * second.f + first.f
+  };
+}
+
+function toRadians(degrees: number): number {
+  return degrees * Math.PI / 180;
+}
+
+function toDegrees(radians: number): number {
+  return radians * 180 / Math.PI;
+}
@@ -0,0 +1,40 @@
+import { db } from '../db';
+import { canvasTable } from '../db/schema';
+import { type ArchiveCanvasInput, type Canvas } from '../schema';
+import { eq } from 'drizzle-orm';
+
+/**
+ * Archives or restores a canvas
+ * This handler will set or clear the archive timestamp, hiding the canvas from listings without deleting it
+ */
+export async function archiveCanvas(input: ArchiveCanvasInput): Promise<Canvas> {
+  try {
+    const now = new Date();
+    const result = await db.update(canvasTable)
+      .set({
+        archivedAt: input.archived ? now : null,
+        updatedAt: now
+      })
+      .where(eq(canvasTable.id, input.id))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error(`Canvas with id ${input.id} not found`);
+    }
+
+    // Convert numeric fields back to numbers before returning
+    const canvas = result[0];
+    return {
+      ...canvas,
+      width: parseFloat(canvas.width),
+      height: parseFloat(canvas.height),
+      zoom: parseFloat(canvas.zoom),
+      panX: parseFloat(canvas.panX),
+      panY: parseFloat(canvas.panY)
+    };
+  } catch (error) {
+    console.error('Canvas archiving failed:', error);
+    throw error;
+  }
+}
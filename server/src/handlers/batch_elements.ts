@@ -0,0 +1,131 @@
+import { db } from '../db';
+import { canvasElementsTable, canvasTable } from '../db/schema';
+import { type BatchElementsInput, type BatchElementsResult, type CanvasElement } from '../schema';
+import { updateElementTree } from './update_element';
+import { recordOperation } from '../db/operation_log';
+import { validateImageProps } from '../db/assets';
+import { deleteElementTree, refitGroups, validateParent } from '../db/groups';
+import { convertToCanvasElement, toElementValues } from '../db/elements';
+import { publishCanvasEvent } from '../events';
+import { and, eq, inArray } from 'drizzle-orm';
+import { randomUUID } from 'crypto';
+
+/**
+ * Applies a list of element creates, updates and deletes to one canvas
+ * This handler will check that every referenced element belongs to the canvas before writing anything,
+ * then apply the operations in order in a single transaction and undo step - if any of them fails,
+ * none are applied - and broadcast the result once committed. As with the single-element procedures, groups
+ * take their members along and are refitted around them; the result includes every element that changed
+ */
+export async function batchElements(input: BatchElementsInput): Promise<BatchElementsResult> {
+  try {
+    const canvas = await db.select()
+      .from(canvasTable)
+      .where(eq(canvasTable.id, input.canvasId))
+      .execute();
+
+    if (canvas.length === 0) {
+      throw new Error(`Canvas with id ${input.canvasId} not found`);
+    }
+
+    // Validate ownership up front, so a batch naming another canvas's element is rejected as a whole
+    const referencedIds = [...new Set(input.operations.flatMap(operation => {
+      if (operation.op === 'update') return [operation.element.id];
+      if (operation.op === 'delete') return [operation.id];
+      return [];
+    }))];
+
+    if (referencedIds.length > 0) {
+      const owned = await db.select({ id: canvasElementsTable.id })
+        .from(canvasElementsTable)
+        .where(and(
+          eq(canvasElementsTable.canvasId, input.canvasId),
+          inArray(canvasElementsTable.id, referencedIds)
+        ))
+        .execute();
+      const ownedIds = new Set(owned.map(row => row.id));
+      const foreignIds = referencedIds.filter(id => !ownedIds.has(id));
+      if (foreignIds.length > 0) {
+        throw new Error(`Elements not found on canvas ${input.canvasId}: ${foreignIds.join(', ')}`);
+      }
+    }
+
+    // Updates check their images themselves, against the element's canvas
+    await validateImageProps(db, input.canvasId, input.operations.flatMap(operation =>
+      operation.op === 'create' && operation.element.imageProps ? [operation.element.imageProps] : []
+    ));
+
+    const groupId = randomUUID();
+    const result = await db.transaction(async (tx) => {
+      // Latest state of each created or updated element, in the order they were first touched
+      const elements = new Map<string, CanvasElement>();
+      const createdIds = new Set<string>();
+      const deletedIds: string[] = [];
+      const removedIds = new Set<string>();
+
+      for (const operation of input.operations) {
+        if (operation.op === 'create') {
+          const element = operation.element;
+          if (element.parentId) {
+            await validateParent(tx, input.canvasId, element.parentId);
+          }
+          const created = await tx.insert(canvasElementsTable)
+            .values(toElementValues(input.canvasId, element))
+            .returning()
+            .execute();
+
+          await recordOperation(tx, {
+            canvasId: input.canvasId,
+            groupId,
+            kind: 'create',
+            before: null,
+            after: created[0]
+          });
+          createdIds.add(created[0].id);
+          elements.set(created[0].id, convertToCanvasElement(created[0]));
+          for (const group of await refitGroups(tx, [created[0].parentId], groupId)) {
+            elements.set(group.id, convertToCanvasElement(group));
+          }
+        } else if (operation.op === 'update') {
+          const { element, related } = await updateElementTree(operation.element, tx, groupId);
+          elements.set(element.id, element);
+          related.forEach(relatedElement => elements.set(relatedElement.id, relatedElement));
+        } else if (!removedIds.has(operation.id)) { // Skip members already deleted along with their group
+          const { deleted, refitted } = await deleteElementTree(tx, operation.id, groupId);
+          if (deleted.length === 0) {
+            throw new Error(`Element with id ${operation.id} not found`);
+          }
+
+          for (const row of deleted) {
+            removedIds.add(row.id);
+            elements.delete(row.id);
+            // An element created and deleted in the same batch never existed as far as anyone else is concerned
+            if (!createdIds.delete(row.id)) {
+              deletedIds.push(row.id);
+            }
+          }
+          refitted.forEach(group => elements.set(group.id, convertToCanvasElement(group)));
+        }
+      }
+
+      return { elements: [...elements.values()], createdIds, deletedElementIds: deletedIds };
+    });
+
+    const created = result.elements.filter(element => result.createdIds.has(element.id));
+    const updated = result.elements.filter(element => !result.createdIds.has(element.id));
+    if (created.length > 0) {
+      publishCanvasEvent(input.canvasId, { type: 'elements.created', elements: created });
+    }
+    if (updated.length > 0) {
+      publishCanvasEvent(input.canvasId, { type: 'elements.updated', elements: updated });
+    }
+    if (result.deletedElementIds.length > 0) {
+      publishCanvasEvent(input.canvasId, { type: 'elements.deleted', elementIds: result.deletedElementIds });
+    }
+
+    return { elements: result.elements, deletedElementIds: result.deletedElementIds };
+  } catch (error) {
+    console.error('Batch element operation failed:', error);
+    throw error;
+  }
+}
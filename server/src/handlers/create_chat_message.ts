@@ -1,6 +1,7 @@
 import { db } from '../db';
 import { chatMessagesTable, canvasTable } from '../db/schema';
 import { type CreateChatMessageInput, type ChatMessage } from '../schema';
+import { publishCanvasEvent } from '../events';
 import { eq } from 'drizzle-orm';
 import { randomUUID } from 'crypto';
 
@@ -33,11 +34,14 @@ export const createChatMessage = async (input: CreateChatMessageInput): Promise<
     const chatMessage = result[0];
     
     // Convert null to undefined to match schema type
-    return {
+    const message: ChatMessage = {
       ...chatMessage,
       elementsCreated: chatMessage.elementsCreated ? (chatMessage.elementsCreated as string[]) : undefined,
       elementsModified: chatMessage.elementsModified ? (chatMessage.elementsModified as string[]) : undefined
     };
+
+    publishCanvasEvent(message.canvasId, { type: 'chat.messages', messages: [message] });
+    return message;
   } catch (error) {
     console.error('Chat message creation failed:', error);
     throw error;
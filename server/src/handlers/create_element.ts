@@ -1,12 +1,18 @@
 import { db } from '../db';
 import { canvasElementsTable, canvasTable } from '../db/schema';
 import { type CreateElementInput, type CanvasElement } from '../schema';
+import { recordOperation } from '../db/operation_log';
+import { convertToCanvasElement, toElementValues } from '../db/elements';
+import { validateImageProps } from '../db/assets';
+import { refitGroups, validateParent } from '../db/groups';
+import { publishCanvasEvent } from '../events';
 import { eq } from 'drizzle-orm';
 import { randomUUID } from 'crypto';
 
 /**
  * Creates a new canvas element (shape or text) on the specified canvas
- * This handler will generate a unique ID for the element and persist it to the database
+ * This handler will generate a unique ID for the element, persist it to the database,
+ * record the creation in the canvas's undo history and broadcast it to the canvas's subscribers
  */
 export async function createElement(input: CreateElementInput): Promise<CanvasElement> {
   try {
@@ -20,60 +26,41 @@ export async function createElement(input: CreateElementInput): Promise<CanvasEl
       throw new Error(`Canvas with id ${input.canvasId} not found`);
     }
 
-    // Generate unique ID
-    const elementId = randomUUID();
+    if (input.imageProps) {
+      await validateImageProps(db, input.canvasId, [input.imageProps]);
+    }
+    if (input.parentId) {
+      await validateParent(db, input.canvasId, input.parentId);
+    }
+
+    // Insert the element and its history entry together
+    const { element, groups } = await db.transaction(async (tx) => {
+      const result = await tx.insert(canvasElementsTable)
+        .values(toElementValues(input.canvasId, input))
+        .returning()
+        .execute();
 
-    // Insert the element into the database
-    const result = await db.insert(canvasElementsTable)
-      .values({
-        id: elementId,
-        type: input.type,
+      const groupId = randomUUID();
+      await recordOperation(tx, {
         canvasId: input.canvasId,
-        positionX: input.position.x.toString(),
-        positionY: input.position.y.toString(),
-        width: input.dimensions?.width?.toString() || null,
-        height: input.dimensions?.height?.toString() || null,
-        zIndex: input.zIndex || 0,
-        visible: input.visible !== undefined ? input.visible : true,
-        locked: input.locked !== undefined ? input.locked : false,
-        fill: input.fill || null,
-        stroke: input.stroke || null,
-        textStyle: input.textStyle || null,
-        rectangleProps: input.rectangleProps || null,
-        lineProps: input.lineProps || null,
-        textProps: input.textProps || null
-      })
-      .returning()
-      .execute();
+        groupId,
+        kind: 'create',
+        before: null,
+        after: result[0]
+      });
+      // The group the element was created in grows to take it in
+      return { element: result[0], groups: await refitGroups(tx, [result[0].parentId], groupId) };
+    });
 
-    // Convert the database result back to the expected format
-    const element = result[0];
-    return {
-      id: element.id,
-      type: element.type,
-      canvasId: element.canvasId,
-      position: {
-        x: parseFloat(element.positionX),
-        y: parseFloat(element.positionY)
-      },
-      dimensions: element.width && element.height ? {
-        width: parseFloat(element.width),
-        height: parseFloat(element.height)
-      } : undefined,
-      zIndex: element.zIndex,
-      visible: element.visible,
-      locked: element.locked,
-      fill: element.fill as any,
-      stroke: element.stroke as any,
-      textStyle: element.textStyle as any,
-      rectangleProps: element.rectangleProps as any,
-      lineProps: element.lineProps as any,
-      textProps: element.textProps as any,
-      createdAt: element.createdAt,
-      updatedAt: element.updatedAt
-    };
+    const created = convertToCanvasElement(element);
+    publishCanvasEvent(created.canvasId, { type: 'elements.created', elements: [created] });
+    if (groups.length > 0) {
+      publishCanvasEvent(created.canvasId, { type: 'elements.updated', elements: groups.map(convertToCanvasElement) });
+    }
+    return created;
   } catch (error) {
     console.error('Element creation failed:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
@@ -0,0 +1,55 @@
+import { db } from '../db';
+import { canvasTable, canvasElementsTable, canvasSnapshotsTable } from '../db/schema';
+import { type CreateSnapshotInput, type CanvasSnapshot } from '../schema';
+import { asc, eq } from 'drizzle-orm';
+import { randomUUID } from 'crypto';
+
+/**
+ * Saves a named version of a canvas
+ * This handler will copy the canvas row and all of its element rows into a snapshot that can later be
+ * compared with or restored
+ */
+export async function createSnapshot(input: CreateSnapshotInput): Promise<CanvasSnapshot> {
+  try {
+    // Read and write in one transaction so the snapshot is a consistent point in time
+    return await db.transaction(async (tx) => {
+      const canvases = await tx.select()
+        .from(canvasTable)
+        .where(eq(canvasTable.id, input.canvasId))
+        .execute();
+
+      if (canvases.length === 0) {
+        throw new Error(`Canvas with id ${input.canvasId} not found`);
+      }
+
+      const elements = await tx.select()
+        .from(canvasElementsTable)
+        .where(eq(canvasElementsTable.canvasId, input.canvasId))
+        .orderBy(asc(canvasElementsTable.zIndex), asc(canvasElementsTable.createdAt))
+        .execute();
+
+      const result = await tx.insert(canvasSnapshotsTable)
+        .values({
+          id: randomUUID(),
+          canvasId: input.canvasId,
+          label: input.label,
+          canvas: canvases[0] as any,
+          elements: elements as any
+        })
+        .returning()
+        .execute();
+
+      const snapshot = result[0];
+      return {
+        id: snapshot.id,
+        canvasId: snapshot.canvasId,
+        label: snapshot.label,
+        elementCount: elements.length,
+        createdAt: snapshot.createdAt
+      };
+    });
+  } catch (error) {
+    console.error('Snapshot creation failed:', error);
+    throw error;
+  }
+}
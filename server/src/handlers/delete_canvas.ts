@@ -0,0 +1,31 @@
+import { db } from '../db';
+import { assetsTable, canvasTable } from '../db/schema';
+import { getAssetStorage, type AssetStorage } from '../storage';
+import { eq } from 'drizzle-orm';
+
+/**
+ * Deletes a canvas by its ID
+ * This handler will remove the canvas; its elements, chat messages and assets are removed by the cascading
+ * foreign keys, after which the asset files are deleted from storage
+ */
+export async function deleteCanvas(canvasId: string, storage: AssetStorage = getAssetStorage()): Promise<void> {
+  try {
+    const deleted = await db.transaction(async (tx) => {
+      const assets = await tx.select({ storageKey: assetsTable.storageKey })
+        .from(assetsTable)
+        .where(eq(assetsTable.canvasId, canvasId))
+        .execute();
+
+      await tx.delete(canvasTable)
+        .where(eq(canvasTable.id, canvasId))
+        .execute();
+      return assets;
+    });
+
+    // Only once the rows are gone for good, so a failed deletion never leaves assets without their files
+    await Promise.all(deleted.map(asset => storage.delete(asset.storageKey)));
+  } catch (error) {
+    console.error('Canvas deletion failed:', error);
+    throw error;
+  }
+}
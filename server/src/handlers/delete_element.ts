@@ -1,18 +1,28 @@
 import { db } from '../db';
-import { canvasElementsTable } from '../db/schema';
-import { eq } from 'drizzle-orm';
+import { deleteElementTree } from '../db/groups';
+import { convertToCanvasElement } from '../db/elements';
+import { publishCanvasEvent } from '../events';
+import { randomUUID } from 'crypto';
 
 /**
  * Deletes a canvas element by its ID
- * This handler will remove the specified element from the database
+ * This handler will remove the specified element, and everything inside it when it is a group, from the database,
+ * fit the group it was in to its remaining members, record the deletion in the canvas's undo history and broadcast it
  */
 export async function deleteElement(elementId: string): Promise<void> {
   try {
-    await db.delete(canvasElementsTable)
-      .where(eq(canvasElementsTable.id, elementId))
-      .execute();
+    // Deleting an element that no longer exists changes nothing, so there is nothing to undo
+    const { deleted, refitted } = await db.transaction(tx => deleteElementTree(tx, elementId, randomUUID()));
+
+    if (deleted.length > 0) {
+      const canvasId = deleted[0].canvasId;
+      publishCanvasEvent(canvasId, { type: 'elements.deleted', elementIds: deleted.map(row => row.id) });
+      if (refitted.length > 0) {
+        publishCanvasEvent(canvasId, { type: 'elements.updated', elements: refitted.map(convertToCanvasElement) });
+      }
+    }
   } catch (error) {
     console.error('Element deletion failed:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,91 @@
+import { db } from '../db';
+import { canvasElementsTable, canvasSnapshotsTable } from '../db/schema';
+import { convertToCanvasElement, type ElementRow } from '../db/elements';
+import { type DiffSnapshotInput, type SnapshotDiff, type CanvasElement } from '../schema';
+import { eq } from 'drizzle-orm';
+
+/**
+ * Compares a saved version of a canvas with the current canvas or with another saved version
+ * This handler will report which elements were added, removed or modified since the snapshot
+ */
+export async function diffSnapshot(input: DiffSnapshotInput): Promise<SnapshotDiff> {
+  try {
+    const snapshot = await findSnapshot(input.snapshotId);
+
+    let targetRows: ElementRow[];
+    if (input.compareToSnapshotId) {
+      const target = await findSnapshot(input.compareToSnapshotId);
+      if (target.canvasId !== snapshot.canvasId) {
+        throw new Error(`Snapshot with id ${target.id} belongs to a different canvas`);
+      }
+      targetRows = target.elements as ElementRow[];
+    } else {
+      targetRows = await db.select()
+        .from(canvasElementsTable)
+        .where(eq(canvasElementsTable.canvasId, snapshot.canvasId))
+        .execute();
+    }
+
+    const before = new Map((snapshot.elements as ElementRow[]).map(row => [row.id, convertToCanvasElement(row)]));
+    const after = new Map(targetRows.map(row => [row.id, convertToCanvasElement(row)]));
+
+    const diff: SnapshotDiff = { added: [], removed: [], modified: [], unchangedCount: 0 };
+    for (const [id, element] of after) {
+      const previous = before.get(id);
+      if (!previous) {
+        diff.added.push(element);
+      } else if (hasContentChanged(previous, element)) {
+        diff.modified.push({ before: previous, after: element });
+      } else {
+        diff.unchangedCount++;
+      }
+    }
+    for (const [id, element] of before) {
+      if (!after.has(id)) {
+        diff.removed.push(element);
+      }
+    }
+
+    return diff;
+  } catch (error) {
+    console.error('Snapshot comparison failed:', error);
+    throw error;
+  }
+}
+
+async function findSnapshot(snapshotId: string) {
+  const snapshots = await db.select()
+    .from(canvasSnapshotsTable)
+    .where(eq(canvasSnapshotsTable.id, snapshotId))
+    .execute();
+
+  if (snapshots.length === 0) {
+    throw new Error(`Snapshot with id ${snapshotId} not found`);
+  }
+  return snapshots[0];
+}
+
+/**
+ * Whether two versions of an element differ in anything but their timestamps
+ */
+function hasContentChanged(before: CanvasElement, after: CanvasElement): boolean {
+  const { createdAt: _createdBefore, updatedAt: _updatedBefore, ...beforeContent } = before;
+  const { createdAt: _createdAfter, updatedAt: _updatedAfter, ...afterContent } = after;
+  return !isEqualValue(beforeContent, afterContent);
+}
+
+/**
+ * Deep equality that ignores key order, since JSONB does not preserve it
+ */
+function isEqualValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  // Undefined properties are treated as absent, like in JSON
+  const keysOf = (value: object) => Object.keys(value).filter(key => (value as Record<string, unknown>)[key] !== undefined);
+  const aKeys = keysOf(a);
+  const bKeys = keysOf(b);
+  return aKeys.length === bKeys.length &&
+    aKeys.every(key => isEqualValue((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+}
@@ -0,0 +1,146 @@
+import { db } from '../db';
+import { assetsTable, canvasTable, canvasElementsTable, chatMessagesTable } from '../db/schema';
+import { type CanvasElement, type DuplicateCanvasInput, type Canvas } from '../schema';
+import { getAssetStorage, type AssetStorage } from '../storage';
+import { asc, eq } from 'drizzle-orm';
+import { randomUUID } from 'crypto';
+
+/**
+ * Duplicates a canvas together with all of its elements
+ * This handler will deep-copy the canvas, its elements and its assets (files included) under new IDs,
+ * optionally including the chat history
+ */
+export async function duplicateCanvas(
+  input: DuplicateCanvasInput,
+  storage: AssetStorage = getAssetStorage()
+): Promise<Canvas> {
+  // Files copied so far, removed again if the duplication fails
+  const copiedKeys: string[] = [];
+  try {
+    return await db.transaction(async (tx) => {
+      const sources = await tx.select()
+        .from(canvasTable)
+        .where(eq(canvasTable.id, input.id))
+        .execute();
+
+      if (sources.length === 0) {
+        throw new Error(`Canvas with id ${input.id} not found`);
+      }
+
+      const source = sources[0];
+      const result = await tx.insert(canvasTable)
+        .values({
+          id: randomUUID(),
+          name: input.name ?? `${source.name} (copy)`,
+          description: source.description,
+          width: source.width,
+          height: source.height,
+          backgroundColor: source.backgroundColor,
+          zoom: source.zoom,
+          panX: source.panX,
+          panY: source.panY
+        })
+        .returning()
+        .execute();
+
+      const canvas = result[0];
+
+      // The copy gets its own assets, so deleting either canvas leaves the other's images intact
+      const assets = await tx.select()
+        .from(assetsTable)
+        .where(eq(assetsTable.canvasId, source.id))
+        .execute();
+
+      const assetIdMap = new Map<string, string>();
+      for (const asset of assets) {
+        const id = randomUUID();
+        const storageKey = `${canvas.id}/${id}`;
+        const data = await storage.get(asset.storageKey);
+        if (!data) {
+          throw new Error(`File of asset ${asset.id} is missing from storage`);
+        }
+        await storage.put(storageKey, data);
+        copiedKeys.push(storageKey);
+        assetIdMap.set(asset.id, id);
+
+        await tx.insert(assetsTable)
+          .values({ ...asset, id, canvasId: canvas.id, storageKey, createdAt: new Date() })
+          .execute();
+      }
+
+      const elements = await tx.select()
+        .from(canvasElementsTable)
+        .where(eq(canvasElementsTable.canvasId, source.id))
+        .orderBy(asc(canvasElementsTable.createdAt))
+        .execute();
+
+      // Map old element IDs to their copies so chat metadata can point at the new elements
+      const elementIdMap = new Map<string, string>();
+      for (const element of elements) {
+        elementIdMap.set(element.id, randomUUID());
+      }
+
+      if (elements.length > 0) {
+        await tx.insert(canvasElementsTable)
+          .values(elements.map(element => ({
+            ...element,
+            id: elementIdMap.get(element.id)!,
+            canvasId: canvas.id,
+            parentId: element.parentId ? elementIdMap.get(element.parentId) ?? null : null,
+            imageProps: remapAsset(element.imageProps, assetIdMap)
+          })))
+          .execute();
+      }
+
+      if (input.includeChatHistory) {
+        const messages = await tx.select()
+          .from(chatMessagesTable)
+          .where(eq(chatMessagesTable.canvasId, source.id))
+          .orderBy(asc(chatMessagesTable.timestamp))
+          .execute();
+
+        // Drop references to elements that no longer exist on the source canvas
+        const remapIds = (ids: unknown): string[] | null => ids
+          ? (ids as string[]).flatMap(id => elementIdMap.has(id) ? [elementIdMap.get(id)!] : [])
+          : null;
+
+        if (messages.length > 0) {
+          await tx.insert(chatMessagesTable)
+            .values(messages.map(message => ({
+              ...message,
+              id: randomUUID(),
+              canvasId: canvas.id,
+              elementsCreated: remapIds(message.elementsCreated),
+              elementsModified: remapIds(message.elementsModified)
+            })))
+            .execute();
+        }
+      }
+
+      // Convert numeric fields back to numbers before returning
+      return {
+        ...canvas,
+        width: parseFloat(canvas.width),
+        height: parseFloat(canvas.height),
+        zoom: parseFloat(canvas.zoom),
+        panX: parseFloat(canvas.panX),
+        panY: parseFloat(canvas.panY)
+      };
+    });
+  } catch (error) {
+    await Promise.all(copiedKeys.map(key => storage.delete(key)));
+    console.error('Canvas duplication failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Point an image at the copy of its asset
+ */
+function remapAsset(imageProps: unknown, assetIdMap: Map<string, string>): CanvasElement['imageProps'] {
+  if (!imageProps) {
+    return null;
+  }
+  const props = imageProps as NonNullable<CanvasElement['imageProps']>;
+  return { ...props, assetId: assetIdMap.get(props.assetId) ?? props.assetId };
+}
@@ -1,16 +1,29 @@
 import { db } from '../db';
 import { canvasTable } from '../db/schema';
-import { type Canvas } from '../schema';
+import { type Canvas, type GetAllCanvasesInput } from '../schema';
+import { asc, desc, isNull } from 'drizzle-orm';
 
 /**
  * Retrieves all canvases in the system
- * This handler will fetch all available canvases for listing/browsing purposes
+ * This handler will fetch all available canvases for listing/browsing purposes,
+ * optionally sorted by name or timestamp. Archived canvases are left out unless requested
  */
-export const getAllCanvases = async (): Promise<Canvas[]> => {
+export const getAllCanvases = async (input: GetAllCanvasesInput = {}): Promise<Canvas[]> => {
   try {
-    const results = await db.select()
-      .from(canvasTable)
-      .execute();
+    // Build query step by step
+    let query = db.select().from(canvasTable).$dynamic();
+
+    if (!input.includeArchived) {
+      query = query.where(isNull(canvasTable.archivedAt));
+    }
+
+    // Apply ordering; ties are broken on id so the order is stable across requests
+    if (input.sortBy) {
+      const direction = input.sortOrder === 'desc' ? desc : asc;
+      query = query.orderBy(direction(canvasTable[input.sortBy]), asc(canvasTable.id));
+    }
+
+    const results = await query.execute();
 
     // Convert numeric fields back to numbers
     return results.map(canvas => ({
@@ -25,4 +38,4 @@ export const getAllCanvases = async (): Promise<Canvas[]> => {
     console.error('Failed to retrieve canvases:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,36 @@
+import { db } from '../db';
+import { assetsTable } from '../db/schema';
+import { convertToAsset } from '../db/assets';
+import { type Asset } from '../schema';
+import { getAssetStorage, type AssetStorage } from '../storage';
+import { eq } from 'drizzle-orm';
+
+/**
+ * Retrieves an asset together with its file contents
+ * This handler will look up the asset and read its file from storage, for serving it over HTTP
+ */
+export async function getAssetFile(
+  assetId: string,
+  storage: AssetStorage = getAssetStorage()
+): Promise<{ asset: Asset; data: Buffer }> {
+  try {
+    const rows = await db.select()
+      .from(assetsTable)
+      .where(eq(assetsTable.id, assetId))
+      .execute();
+
+    if (rows.length === 0) {
+      throw new Error(`Asset with id ${assetId} not found`);
+    }
+
+    const data = await storage.get(rows[0].storageKey);
+    if (!data) {
+      throw new Error(`File of asset ${assetId} is missing from storage`);
+    }
+
+    return { asset: convertToAsset(rows[0]), data };
+  } catch (error) {
+    console.error('Failed to retrieve asset file:', error);
+    throw error;
+  }
+}
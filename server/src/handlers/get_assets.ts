@@ -0,0 +1,24 @@
+import { db } from '../db';
+import { assetsTable } from '../db/schema';
+import { convertToAsset } from '../db/assets';
+import { type Asset } from '../schema';
+import { desc, eq } from 'drizzle-orm';
+
+/**
+ * Retrieves the files uploaded to a canvas
+ * This handler will list the canvas's assets newest first, without their contents
+ */
+export async function getAssets(canvasId: string): Promise<Asset[]> {
+  try {
+    const results = await db.select()
+      .from(assetsTable)
+      .where(eq(assetsTable.canvasId, canvasId))
+      .orderBy(desc(assetsTable.createdAt))
+      .execute();
+
+    return results.map(convertToAsset);
+  } catch (error) {
+    console.error('Failed to retrieve assets:', error);
+    throw error;
+  }
+}
@@ -1,13 +1,22 @@
 import { db } from '../db';
 import { canvasElementsTable } from '../db/schema';
-import { type CanvasElement } from '../schema';
+import { convertToCanvasElement } from '../db/elements';
+import { type CanvasElement, type CanvasElementNode, type GetCanvasElementsInput } from '../schema';
 import { eq, asc } from 'drizzle-orm';
 
+// Callers other than the router, which applies the schema default, may leave the format out
+type ElementsQuery = Omit<GetCanvasElementsInput, 'format'> & Partial<Pick<GetCanvasElementsInput, 'format'>>;
+
 /**
  * Retrieves all elements for a specific canvas
- * This handler will fetch all canvas elements from the database for the given canvas ID
+ * This handler will fetch all canvas elements from the database for the given canvas ID, in paint order,
+ * either as a flat list or as a tree of groups and their members
  */
-export const getCanvasElements = async (canvasId: string): Promise<CanvasElement[]> => {
+export async function getCanvasElements(input: string | { canvasId: string; format?: 'flat' }): Promise<CanvasElement[]>;
+export async function getCanvasElements(input: { canvasId: string; format: 'tree' }): Promise<CanvasElementNode[]>;
+export async function getCanvasElements(input: string | ElementsQuery): Promise<CanvasElement[] | CanvasElementNode[]>;
+export async function getCanvasElements(input: string | ElementsQuery): Promise<CanvasElement[] | CanvasElementNode[]> {
+  const { canvasId, format = 'flat' } = typeof input === 'string' ? { canvasId: input } : input;
   try {
     const results = await db.select()
       .from(canvasElementsTable)
@@ -15,33 +24,29 @@ export const getCanvasElements = async (canvasId: string): Promise<CanvasElement
       .orderBy(asc(canvasElementsTable.zIndex), asc(canvasElementsTable.createdAt))
       .execute();
 
-    // Convert database results to CanvasElement format with proper type conversions
-    return results.map(element => ({
-      id: element.id,
-      type: element.type,
-      canvasId: element.canvasId,
-      position: {
-        x: parseFloat(element.positionX),
-        y: parseFloat(element.positionY)
-      },
-      dimensions: element.width && element.height ? {
-        width: parseFloat(element.width),
-        height: parseFloat(element.height)
-      } : undefined,
-      zIndex: element.zIndex,
-      visible: element.visible,
-      locked: element.locked,
-      fill: element.fill as any, // JSONB data is already parsed
-      stroke: element.stroke as any, // JSONB data is already parsed
-      textStyle: element.textStyle as any, // JSONB data is already parsed
-      rectangleProps: element.rectangleProps as any, // JSONB data is already parsed
-      lineProps: element.lineProps as any, // JSONB data is already parsed
-      textProps: element.textProps as any, // JSONB data is already parsed
-      createdAt: element.createdAt,
-      updatedAt: element.updatedAt
-    }));
+    const elements = results.map(convertToCanvasElement);
+
+    return format === 'tree' ? buildTree(elements) : elements;
   } catch (error) {
     console.error('Failed to retrieve canvas elements:', error);
     throw error;
   }
-};
\ No newline at end of file
+}
+
+/**
+ * Nest elements under their groups. Siblings keep the order of the list; elements whose group is
+ * missing are kept at the top level
+ */
+function buildTree(elements: CanvasElement[]): CanvasElementNode[] {
+  const nodes = new Map(elements.map(element => [element.id, { ...element, children: [] as CanvasElementNode[] }]));
+  const roots: CanvasElementNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+  return roots;
+}
\ No newline at end of file
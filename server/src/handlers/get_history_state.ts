@@ -0,0 +1,16 @@
+import { db } from '../db';
+import { getHistoryStateFor } from '../db/operation_log';
+import { type HistoryState } from '../schema';
+
+/**
+ * Retrieves whether a canvas has changes to undo or redo
+ * This handler will inspect the canvas's operation log
+ */
+export async function getHistoryState(canvasId: string): Promise<HistoryState> {
+  try {
+    return await getHistoryStateFor(db, canvasId);
+  } catch (error) {
+    console.error('Failed to retrieve history state:', error);
+    throw error;
+  }
+}
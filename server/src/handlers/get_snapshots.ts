@@ -0,0 +1,29 @@
+import { db } from '../db';
+import { canvasSnapshotsTable } from '../db/schema';
+import { type CanvasSnapshot } from '../schema';
+import { desc, eq, sql } from 'drizzle-orm';
+
+/**
+ * Retrieves the saved versions of a canvas
+ * This handler will list snapshots newest first, without their stored contents
+ */
+export async function getSnapshots(canvasId: string): Promise<CanvasSnapshot[]> {
+  try {
+    const results = await db.select({
+      id: canvasSnapshotsTable.id,
+      canvasId: canvasSnapshotsTable.canvasId,
+      label: canvasSnapshotsTable.label,
+      elementCount: sql<number>`jsonb_array_length(${canvasSnapshotsTable.elements})`.mapWith(Number),
+      createdAt: canvasSnapshotsTable.createdAt
+    })
+      .from(canvasSnapshotsTable)
+      .where(eq(canvasSnapshotsTable.canvasId, canvasId))
+      .orderBy(desc(canvasSnapshotsTable.createdAt))
+      .execute();
+
+    return results;
+  } catch (error) {
+    console.error('Failed to retrieve snapshots:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,90 @@
+import { db } from '../db';
+import { canvasElementsTable } from '../db/schema';
+import { recordOperation } from '../db/operation_log';
+import { getGroupBounds } from '../db/groups';
+import { convertToCanvasElement } from '../db/elements';
+import { type BatchElementsResult, type CanvasElement, type GroupElementsInput } from '../schema';
+import { publishCanvasEvent } from '../events';
+import { and, eq, inArray } from 'drizzle-orm';
+import { randomUUID } from 'crypto';
+
+/**
+ * Groups elements of a canvas
+ * This handler will wrap elements that share a parent in a new group fitted around them and drawn at the level of
+ * the topmost one, as a single undo step, and broadcast the change. Returns the group and its members
+ */
+export async function groupElements(input: GroupElementsInput): Promise<BatchElementsResult> {
+  try {
+    const elementIds = [...new Set(input.elementIds)];
+    const result = await db.transaction(async (tx) => {
+      const members = await tx.select()
+        .from(canvasElementsTable)
+        .where(and(eq(canvasElementsTable.canvasId, input.canvasId), inArray(canvasElementsTable.id, elementIds)))
+        .execute();
+
+      const foundIds = new Set(members.map(member => member.id));
+      const missingIds = elementIds.filter(id => !foundIds.has(id));
+      if (missingIds.length > 0) {
+        throw new Error(`Elements not found on canvas ${input.canvasId}: ${missingIds.join(', ')}`);
+      }
+
+      // The new group takes the members' place in the hierarchy, so they must all have the same one
+      const parentId = members[0].parentId;
+      if (members.some(member => member.parentId !== parentId)) {
+        throw new Error('Only elements in the same group can be grouped together');
+      }
+
+      const groupId = randomUUID();
+      const bounds = getGroupBounds(members);
+      const created = await tx.insert(canvasElementsTable)
+        .values({
+          id: randomUUID(),
+          type: 'group',
+          canvasId: input.canvasId,
+          parentId,
+          positionX: bounds.x.toString(),
+          positionY: bounds.y.toString(),
+          width: bounds.width.toString(),
+          height: bounds.height.toString(),
+          zIndex: Math.max(...members.map(member => member.zIndex))
+        })
+        .returning()
+        .execute();
+
+      await recordOperation(tx, {
+        canvasId: input.canvasId,
+        groupId,
+        kind: 'create',
+        before: null,
+        after: created[0]
+      });
+
+      const grouped: CanvasElement[] = [];
+      for (const member of members) {
+        const updated = await tx.update(canvasElementsTable)
+          .set({ parentId: created[0].id, updatedAt: new Date() })
+          .where(eq(canvasElementsTable.id, member.id))
+          .returning()
+          .execute();
+
+        await recordOperation(tx, {
+          canvasId: input.canvasId,
+          groupId,
+          kind: 'update',
+          before: member,
+          after: updated[0]
+        });
+        grouped.push(convertToCanvasElement(updated[0]));
+      }
+
+      return { group: convertToCanvasElement(created[0]), members: grouped };
+    });
+
+    publishCanvasEvent(input.canvasId, { type: 'elements.created', elements: [result.group] });
+    publishCanvasEvent(input.canvasId, { type: 'elements.updated', elements: result.members });
+    return { elements: [result.group, ...result.members], deletedElementIds: [] };
+  } catch (error) {
+    console.error('Grouping elements failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,52 @@
+import { db } from '../db';
+import { operationLogTable } from '../db/schema';
+import { buildHistoryResult, restoreElementSnapshot } from '../db/operation_log';
+import { publishHistoryResult } from '../events';
+import { type HistoryResult } from '../schema';
+import { and, asc, eq } from 'drizzle-orm';
+
+/**
+ * Reapplies the most recently undone change on a canvas
+ * This handler will bring every element touched by the next undone operation group back to its later state
+ * and broadcast the result to the canvas's subscribers
+ */
+export async function redo(canvasId: string): Promise<HistoryResult> {
+  try {
+    const result = await db.transaction(async (tx) => {
+      // Undone groups are discarded on every new change, so the oldest remaining one is next in line
+      const next = await tx.select()
+        .from(operationLogTable)
+        .where(and(eq(operationLogTable.canvasId, canvasId), eq(operationLogTable.undone, true)))
+        .orderBy(asc(operationLogTable.seq))
+        .limit(1)
+        .execute();
+
+      if (next.length === 0) {
+        return buildHistoryResult(tx, canvasId, []);
+      }
+
+      const operations = await tx.select()
+        .from(operationLogTable)
+        .where(and(eq(operationLogTable.groupId, next[0].groupId), eq(operationLogTable.undone, true)))
+        .orderBy(asc(operationLogTable.seq))
+        .execute();
+
+      for (const operation of operations) {
+        await restoreElementSnapshot(tx, operation.elementId, operation.after);
+      }
+
+      await tx.update(operationLogTable)
+        .set({ undone: false })
+        .where(eq(operationLogTable.groupId, next[0].groupId))
+        .execute();
+
+      return buildHistoryResult(tx, canvasId, operations.map(operation => operation.elementId));
+    });
+
+    publishHistoryResult(canvasId, result);
+    return result;
+  } catch (error) {
+    console.error('Redo failed:', error);
+    throw error;
+  }
+}
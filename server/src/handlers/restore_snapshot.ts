@@ -0,0 +1,105 @@
+import { db } from '../db';
+import { canvasTable, canvasElementsTable, canvasSnapshotsTable } from '../db/schema';
+import { recordOperation, restoreElementSnapshot } from '../db/operation_log';
+import { convertToCanvasElement, type ElementRow } from '../db/elements';
+import { publishCanvasEvent } from '../events';
+import { type RestoreSnapshotResult } from '../schema';
+import { asc, eq } from 'drizzle-orm';
+import { randomUUID } from 'crypto';
+
+/**
+ * Restores a canvas to a saved version
+ * This handler will atomically replace the canvas's elements with the stored ones and bring back the stored
+ * canvas size and background. The replacement is recorded as a single undo step and broadcast to the canvas's subscribers
+ */
+export async function restoreSnapshot(snapshotId: string): Promise<RestoreSnapshotResult> {
+  try {
+    const { result, removedIds } = await db.transaction(async (tx) => {
+      const snapshots = await tx.select()
+        .from(canvasSnapshotsTable)
+        .where(eq(canvasSnapshotsTable.id, snapshotId))
+        .execute();
+
+      if (snapshots.length === 0) {
+        throw new Error(`Snapshot with id ${snapshotId} not found`);
+      }
+
+      const snapshot = snapshots[0];
+      const storedCanvas = snapshot.canvas as typeof canvasTable.$inferSelect;
+      const storedElements = snapshot.elements as ElementRow[];
+      const storedIds = new Set(storedElements.map(row => row.id));
+
+      const currentElements = await tx.select()
+        .from(canvasElementsTable)
+        .where(eq(canvasElementsTable.canvasId, snapshot.canvasId))
+        .execute();
+      const currentById = new Map(currentElements.map(row => [row.id, row]));
+
+      const groupId = randomUUID();
+      const removedIds: string[] = [];
+      for (const row of currentElements) {
+        if (!storedIds.has(row.id)) {
+          removedIds.push(row.id);
+          await restoreElementSnapshot(tx, row.id, null);
+          await recordOperation(tx, { canvasId: snapshot.canvasId, groupId, kind: 'delete', before: row, after: null });
+        }
+      }
+      for (const stored of storedElements) {
+        const before = currentById.get(stored.id) ?? null;
+        const after = await restoreElementSnapshot(tx, stored.id, stored);
+        await recordOperation(tx, {
+          canvasId: snapshot.canvasId,
+          groupId,
+          kind: before ? 'update' : 'create',
+          before,
+          after
+        });
+      }
+
+      // Elements are positioned against the canvas, so its size and background come back with them;
+      // name, description and viewport are left as they are
+      const canvasResult = await tx.update(canvasTable)
+        .set({
+          width: storedCanvas.width,
+          height: storedCanvas.height,
+          backgroundColor: storedCanvas.backgroundColor,
+          updatedAt: new Date()
+        })
+        .where(eq(canvasTable.id, snapshot.canvasId))
+        .returning()
+        .execute();
+
+      const elements = await tx.select()
+        .from(canvasElementsTable)
+        .where(eq(canvasElementsTable.canvasId, snapshot.canvasId))
+        .orderBy(asc(canvasElementsTable.zIndex), asc(canvasElementsTable.createdAt))
+        .execute();
+
+      const canvas = canvasResult[0];
+      const result: RestoreSnapshotResult = {
+        canvas: {
+          ...canvas,
+          width: parseFloat(canvas.width),
+          height: parseFloat(canvas.height),
+          zoom: parseFloat(canvas.zoom),
+          panX: parseFloat(canvas.panX),
+          panY: parseFloat(canvas.panY)
+        },
+        elements: elements.map(convertToCanvasElement)
+      };
+      return { result, removedIds };
+    });
+
+    publishCanvasEvent(result.canvas.id, { type: 'canvas.updated', canvas: result.canvas });
+    if (removedIds.length > 0) {
+      publishCanvasEvent(result.canvas.id, { type: 'elements.deleted', elementIds: removedIds });
+    }
+    if (result.elements.length > 0) {
+      publishCanvasEvent(result.canvas.id, { type: 'elements.updated', elements: result.elements });
+    }
+    return result;
+  } catch (error) {
+    console.error('Snapshot restore failed:', error);
+    throw error;
+  }
+}
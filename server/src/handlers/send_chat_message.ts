@@ -0,0 +1,108 @@
+import { db } from '../db';
+import { chatMessagesTable } from '../db/schema';
+import { type ChatSendInput, type ChatSendResult, type CanvasElement, type ChatMessage } from '../schema';
+import { applyGeneration, planGeneration, publishElementChanges } from './ai_generate_elements';
+import { publishCanvasEvent } from '../events';
+import { randomUUID } from 'crypto';
+
+/**
+ * Runs one conversational turn with the design assistant
+ * This handler will let the provider plan first, then record the user's prompt, write the planned elements and
+ * record the assistant's reply in a single transaction, so the reply's element IDs always match what was actually
+ * written, then broadcast the turn to the canvas's subscribers
+ */
+export async function sendChatMessage(input: ChatSendInput): Promise<ChatSendResult> {
+  try {
+    // Planning also verifies the canvas exists, so nothing is written for an unknown canvas. It happens outside the
+    // transaction, since a provider may spend a while answering
+    const generation = await planGeneration({
+      canvasId: input.canvasId,
+      prompt: input.content,
+      contextElementIds: input.contextElementIds
+    });
+
+    const result = await db.transaction(async (tx): Promise<ChatSendResult> => {
+      const { created: elementsCreated, modified: elementsModified } = await applyGeneration(tx, generation);
+
+      // Timestamps are set explicitly: the column default is the transaction start time, which would
+      // give both messages the same timestamp and make their order ambiguous
+      const sentAt = new Date();
+      const repliedAt = new Date(Math.max(Date.now(), sentAt.getTime() + 1));
+
+      const messages = await tx.insert(chatMessagesTable)
+        .values([
+          {
+            id: randomUUID(),
+            canvasId: input.canvasId,
+            role: 'user' as const,
+            content: input.content,
+            timestamp: sentAt
+          },
+          {
+            id: randomUUID(),
+            canvasId: input.canvasId,
+            role: 'assistant' as const,
+            content: summarizeChanges(elementsCreated, elementsModified),
+            timestamp: repliedAt,
+            elementsCreated: elementsCreated.map(element => element.id),
+            elementsModified: elementsModified.map(element => element.id)
+          }
+        ])
+        .returning()
+        .execute();
+
+      return {
+        userMessage: convertToChatMessage(messages[0]),
+        assistantMessage: convertToChatMessage(messages[1]),
+        elementsCreated,
+        elementsModified
+      };
+    });
+
+    publishElementChanges(input.canvasId, { created: result.elementsCreated, modified: result.elementsModified });
+    publishCanvasEvent(input.canvasId, { type: 'chat.messages', messages: [result.userMessage, result.assistantMessage] });
+    return result;
+  } catch (error) {
+    console.error('Chat message send failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Describe what the assistant did, e.g. "Created 2 rectangles and a text element."
+ */
+function summarizeChanges(created: CanvasElement[], modified: CanvasElement[]): string {
+  const sentences: string[] = [];
+  if (created.length > 0) {
+    sentences.push(`Created ${describeElements(created)}.`);
+  }
+  if (modified.length > 0) {
+    sentences.push(`Updated ${describeElements(modified)}.`);
+  }
+  return sentences.length > 0 ? sentences.join(' ') : "I couldn't make any changes from that prompt.";
+}
+
+/**
+ * List element counts by type in plain English
+ */
+function describeElements(elements: CanvasElement[]): string {
+  const counts = new Map<string, number>();
+  elements.forEach(element => counts.set(element.type, (counts.get(element.type) ?? 0) + 1));
+
+  const parts = [...counts.entries()].map(([type, count]) => {
+    const noun = type === 'text' ? 'text element' : type;
+    return count === 1 ? `a ${noun}` : `${count} ${noun}s`;
+  });
+  return parts.length > 1 ? `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}` : parts[0];
+}
+
+/**
+ * Convert database row to ChatMessage, mapping null metadata to undefined
+ */
+function convertToChatMessage(dbMessage: typeof chatMessagesTable.$inferSelect): ChatMessage {
+  return {
+    ...dbMessage,
+    elementsCreated: dbMessage.elementsCreated ? (dbMessage.elementsCreated as string[]) : undefined,
+    elementsModified: dbMessage.elementsModified ? (dbMessage.elementsModified as string[]) : undefined
+  };
+}
@@ -0,0 +1,52 @@
+import { db } from '../db';
+import { operationLogTable } from '../db/schema';
+import { buildHistoryResult, restoreElementSnapshot } from '../db/operation_log';
+import { publishHistoryResult } from '../events';
+import { type HistoryResult } from '../schema';
+import { and, desc, eq } from 'drizzle-orm';
+
+/**
+ * Reverts the most recent change on a canvas
+ * This handler will restore every element touched by the latest operation group to its previous state
+ * and broadcast the result to the canvas's subscribers
+ */
+export async function undo(canvasId: string): Promise<HistoryResult> {
+  try {
+    const result = await db.transaction(async (tx) => {
+      const latest = await tx.select()
+        .from(operationLogTable)
+        .where(and(eq(operationLogTable.canvasId, canvasId), eq(operationLogTable.undone, false)))
+        .orderBy(desc(operationLogTable.seq))
+        .limit(1)
+        .execute();
+
+      if (latest.length === 0) {
+        return buildHistoryResult(tx, canvasId, []);
+      }
+
+      // Revert newest first so each operation sees the state it produced
+      const operations = await tx.select()
+        .from(operationLogTable)
+        .where(and(eq(operationLogTable.groupId, latest[0].groupId), eq(operationLogTable.undone, false)))
+        .orderBy(desc(operationLogTable.seq))
+        .execute();
+
+      for (const operation of operations) {
+        await restoreElementSnapshot(tx, operation.elementId, operation.before);
+      }
+
+      await tx.update(operationLogTable)
+        .set({ undone: true })
+        .where(eq(operationLogTable.groupId, latest[0].groupId))
+        .execute();
+
+      return buildHistoryResult(tx, canvasId, operations.map(operation => operation.elementId));
+    });
+
+    publishHistoryResult(canvasId, result);
+    return result;
+  } catch (error) {
+    console.error('Undo failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,80 @@
+import { db } from '../db';
+import { canvasElementsTable } from '../db/schema';
+import { recordOperation } from '../db/operation_log';
+import { convertToCanvasElement } from '../db/elements';
+import { type BatchElementsResult, type CanvasElement } from '../schema';
+import { publishCanvasEvent } from '../events';
+import { eq } from 'drizzle-orm';
+import { randomUUID } from 'crypto';
+
+/**
+ * Dissolves a group
+ * This handler will move the group's members up into the group containing it (or the top level) and delete the
+ * group, as a single undo step, and broadcast the change. Returns the former members
+ */
+export async function ungroupElements(groupElementId: string): Promise<BatchElementsResult> {
+  try {
+    const result = await db.transaction(async (tx) => {
+      const groups = await tx.select()
+        .from(canvasElementsTable)
+        .where(eq(canvasElementsTable.id, groupElementId))
+        .execute();
+
+      if (groups.length === 0) {
+        throw new Error(`Element with id ${groupElementId} not found`);
+      }
+      if (groups[0].type !== 'group') {
+        throw new Error(`Element with id ${groupElementId} is not a group`);
+      }
+
+      const group = groups[0];
+      const members = await tx.select()
+        .from(canvasElementsTable)
+        .where(eq(canvasElementsTable.parentId, group.id))
+        .execute();
+
+      // Members keep their positions, so the group they move up into keeps its box
+      const groupId = randomUUID();
+      const ungrouped: CanvasElement[] = [];
+      for (const member of members) {
+        const updated = await tx.update(canvasElementsTable)
+          .set({ parentId: group.parentId, updatedAt: new Date() })
+          .where(eq(canvasElementsTable.id, member.id))
+          .returning()
+          .execute();
+
+        await recordOperation(tx, {
+          canvasId: group.canvasId,
+          groupId,
+          kind: 'update',
+          before: member,
+          after: updated[0]
+        });
+        ungrouped.push(convertToCanvasElement(updated[0]));
+      }
+
+      await tx.delete(canvasElementsTable)
+        .where(eq(canvasElementsTable.id, group.id))
+        .execute();
+
+      await recordOperation(tx, {
+        canvasId: group.canvasId,
+        groupId,
+        kind: 'delete',
+        before: group,
+        after: null
+      });
+
+      return { canvasId: group.canvasId, members: ungrouped };
+    });
+
+    if (result.members.length > 0) {
+      publishCanvasEvent(result.canvasId, { type: 'elements.updated', elements: result.members });
+    }
+    publishCanvasEvent(result.canvasId, { type: 'elements.deleted', elementIds: [groupElementId] });
+    return { elements: result.members, deletedElementIds: [groupElementId] };
+  } catch (error) {
+    console.error('Ungrouping elements failed:', error);
+    throw error;
+  }
+}
@@ -1,18 +1,24 @@
 import { db } from '../db';
 import { canvasTable } from '../db/schema';
 import { type UpdateCanvasInput, type Canvas } from '../schema';
+import { ConflictError } from '../errors';
+import { publishCanvasEvent } from '../events';
 import { eq } from 'drizzle-orm';
 
 /**
  * Updates an existing canvas with new properties
- * This handler will update the specified canvas properties in the database
+ * This handler will update the specified canvas properties in the database. With expectedUpdatedAt set,
+ * it refuses to overwrite changes made since then and reports the current canvas instead
  */
 export async function updateCanvas(input: UpdateCanvasInput): Promise<Canvas> {
   try {
+    // The viewport is only where an editor last looked. Saving it alone leaves updatedAt as it was, so panning
+    // neither reorders the gallery nor makes other editors' expectedUpdatedAt stale, and isn't broadcast
+    const changesContent = [input.name, input.description, input.width, input.height, input.backgroundColor]
+      .some(value => value !== undefined);
+
     // Build the update data object with only provided fields
-    const updateData: Partial<typeof canvasTable.$inferInsert> = {
-      updatedAt: new Date()
-    };
+    const updateData: Partial<typeof canvasTable.$inferInsert> = changesContent ? { updatedAt: new Date() } : {};
 
     if (input.name !== undefined) {
       updateData.name = input.name;
@@ -46,29 +52,55 @@ export async function updateCanvas(input: UpdateCanvasInput): Promise<Canvas> {
       updateData.panY = input.panY.toString();
     }
 
-    // Update the canvas record
-    const result = await db.update(canvasTable)
-      .set(updateData)
-      .where(eq(canvasTable.id, input.id))
-      .returning()
-      .execute();
+    // Check and write under a row lock so a concurrent update can't slip in between
+    const canvas = await db.transaction(async (tx) => {
+      const existing = await tx.select()
+        .from(canvasTable)
+        .where(eq(canvasTable.id, input.id))
+        .for('update')
+        .execute();
 
-    if (result.length === 0) {
-      throw new Error(`Canvas with id ${input.id} not found`);
-    }
+      if (existing.length === 0) {
+        throw new Error(`Canvas with id ${input.id} not found`);
+      }
+
+      if (input.expectedUpdatedAt && existing[0].updatedAt.getTime() !== input.expectedUpdatedAt.getTime()) {
+        throw new ConflictError(`Canvas with id ${input.id} was changed by someone else`, convertToCanvas(existing[0]));
+      }
+
+      if (Object.keys(updateData).length === 0) {
+        return existing[0];
+      }
+
+      const result = await tx.update(canvasTable)
+        .set(updateData)
+        .where(eq(canvasTable.id, input.id))
+        .returning()
+        .execute();
+      return result[0];
+    });
 
-    // Convert numeric fields back to numbers before returning
-    const canvas = result[0];
-    return {
-      ...canvas,
-      width: parseFloat(canvas.width),
-      height: parseFloat(canvas.height),
-      zoom: parseFloat(canvas.zoom),
-      panX: parseFloat(canvas.panX),
-      panY: parseFloat(canvas.panY)
-    };
+    const updated = convertToCanvas(canvas);
+    if (changesContent) {
+      publishCanvasEvent(updated.id, { type: 'canvas.updated', canvas: updated });
+    }
+    return updated;
   } catch (error) {
     console.error('Canvas update failed:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Convert numeric fields back to numbers
+ */
+function convertToCanvas(canvas: typeof canvasTable.$inferSelect): Canvas {
+  return {
+    ...canvas,
+    width: parseFloat(canvas.width),
+    height: parseFloat(canvas.height),
+    zoom: parseFloat(canvas.zoom),
+    panX: parseFloat(canvas.panX),
+    panY: parseFloat(canvas.panY)
+  };
+}
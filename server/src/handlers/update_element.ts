@@ -1,13 +1,40 @@
-import { db } from '../db';
+import { db, type DbExecutor } from '../db';
 import { canvasElementsTable } from '../db/schema';
-import { type UpdateElementInput, type CanvasElement } from '../schema';
+import { type UpdateElementInput, type CanvasElement, type PathCommand } from '../schema';
+import { recordOperation } from '../db/operation_log';
+import { validateImageProps } from '../db/assets';
+import { getRowBounds, passTransformToMembers, refitGroups, transformDescendants, validateParent } from '../db/groups';
+import { convertToCanvasElement, type ElementRow } from '../db/elements';
+import { publishCanvasEvent } from '../events';
+import { ConflictError } from '../errors';
+import { fitPathToBounds, getPathBounds, type Bounds } from '../geometry';
 import { eq } from 'drizzle-orm';
+import { randomUUID } from 'crypto';
 
 /**
  * Updates an existing canvas element with new properties
- * This handler will update the specified element properties in the database
+ * This handler will update the specified element properties in the database, record the change
+ * in the undo history and broadcast it, optionally as part of a caller's transaction and undo group.
+ * With expectedUpdatedAt set, it refuses to overwrite changes made since then and reports the current element instead
  */
-export async function updateElement(input: UpdateElementInput): Promise<CanvasElement> {
+export async function updateElement(
+  input: UpdateElementInput,
+  executor: DbExecutor = db,
+  groupId: string = randomUUID()
+): Promise<CanvasElement> {
+  const { element } = await updateElementTree(input, executor, groupId);
+  return element;
+}
+
+/**
+ * Updates an element like updateElement, also returning the other elements the update changed:
+ * the members of a moved or resized group, and the groups around the element, refitted to their members
+ */
+export async function updateElementTree(
+  input: UpdateElementInput,
+  executor: DbExecutor = db,
+  groupId: string = randomUUID()
+): Promise<{ element: CanvasElement; related: CanvasElement[] }> {
   try {
     // Prepare update data, converting numeric fields to strings for database storage
     const updateData: Record<string, any> = {
@@ -30,57 +57,134 @@ export async function updateElement(input: UpdateElementInput): Promise<CanvasEl
     if (input.zIndex !== undefined) updateData['zIndex'] = input.zIndex;
     if (input.visible !== undefined) updateData['visible'] = input.visible;
     if (input.locked !== undefined) updateData['locked'] = input.locked;
+    if (input.transform !== undefined) updateData['transform'] = input.transform;
+    if (input.effects !== undefined) updateData['effects'] = input.effects;
 
     // Handle style properties - store as JSONB
     if (input.fill !== undefined) updateData['fill'] = input.fill;
     if (input.stroke !== undefined) updateData['stroke'] = input.stroke;
+    if (input.extraFills !== undefined) updateData['extraFills'] = input.extraFills;
+    if (input.extraStrokes !== undefined) updateData['extraStrokes'] = input.extraStrokes;
     if (input.textStyle !== undefined) updateData['textStyle'] = input.textStyle;
 
     // Handle element-specific properties - store as JSONB
     if (input.rectangleProps !== undefined) updateData['rectangleProps'] = input.rectangleProps;
     if (input.lineProps !== undefined) updateData['lineProps'] = input.lineProps;
     if (input.textProps !== undefined) updateData['textProps'] = input.textProps;
+    if (input.ellipseProps !== undefined) updateData['ellipseProps'] = input.ellipseProps;
+    if (input.polygonProps !== undefined) updateData['polygonProps'] = input.polygonProps;
+    if (input.starProps !== undefined) updateData['starProps'] = input.starProps;
+    if (input.arrowProps !== undefined) updateData['arrowProps'] = input.arrowProps;
+    if (input.pathProps !== undefined) updateData['pathProps'] = input.pathProps;
+    if (input.imageProps !== undefined) updateData['imageProps'] = input.imageProps;
+    if (input.parentId !== undefined) updateData['parentId'] = input.parentId;
 
-    // Update element in database
-    const result = await db.update(canvasElementsTable)
-      .set(updateData)
-      .where(eq(canvasElementsTable.id, input.id))
-      .returning()
-      .execute();
+    // Snapshot, update and history entry are written together (a savepoint inside a caller's transaction)
+    const { element, related } = await executor.transaction(async (tx) => {
+      // Locked so a concurrent update can't slip in between the version check and the write
+      const before = await tx.select()
+        .from(canvasElementsTable)
+        .where(eq(canvasElementsTable.id, input.id))
+        .for('update')
+        .execute();
 
-    if (result.length === 0) {
-      throw new Error(`Element with id ${input.id} not found`);
-    }
+      if (before.length === 0) {
+        throw new Error(`Element with id ${input.id} not found`);
+      }
 
-    const element = result[0];
-
-    // Convert numeric fields back to numbers before returning
-    return {
-      id: element.id,
-      type: element.type,
-      canvasId: element.canvasId,
-      position: {
-        x: parseFloat(element.positionX),
-        y: parseFloat(element.positionY)
-      },
-      dimensions: element.width && element.height ? {
-        width: parseFloat(element.width),
-        height: parseFloat(element.height)
-      } : undefined,
-      zIndex: element.zIndex,
-      visible: element.visible,
-      locked: element.locked,
-      fill: element.fill as any,
-      stroke: element.stroke as any,
-      textStyle: element.textStyle as any,
-      rectangleProps: element.rectangleProps as any,
-      lineProps: element.lineProps as any,
-      textProps: element.textProps as any,
-      createdAt: element.createdAt,
-      updatedAt: element.updatedAt
-    };
+      if (input.expectedUpdatedAt && before[0].updatedAt.getTime() !== input.expectedUpdatedAt.getTime()) {
+        throw new ConflictError(`Element with id ${input.id} was changed by someone else`, convertToCanvasElement(before[0]));
+      }
+
+      // Members are drawn on their own, so there is nothing a group's effects could be drawn around
+      if (before[0].type === 'group' && input.effects && input.effects.length > 0) {
+        throw new Error(`Group with id ${input.id} cannot have effects`);
+      }
+      if (input.imageProps) {
+        await validateImageProps(tx, before[0].canvasId, [input.imageProps]);
+      }
+      if (input.parentId) {
+        await validateParent(tx, before[0].canvasId, input.parentId, input.id);
+      }
+
+      // Paths are positioned by their commands: new commands set the box, and a new box refits the commands
+      const currentPath = before[0].pathProps as { commands: PathCommand[] } | null;
+      let pathBounds: Bounds | null = null;
+      if (input.pathProps) {
+        pathBounds = getPathBounds(input.pathProps.commands);
+      } else if (currentPath && (input.position || input.dimensions)) {
+        const from = getPathBounds(currentPath.commands);
+        const commands = fitPathToBounds(currentPath.commands, from, {
+          x: input.position?.x ?? from.x,
+          y: input.position?.y ?? from.y,
+          width: input.dimensions?.width ?? from.width,
+          height: input.dimensions?.height ?? from.height
+        });
+        updateData['pathProps'] = { ...currentPath, commands };
+        pathBounds = getPathBounds(commands);
+      }
+      if (pathBounds) {
+        updateData['positionX'] = pathBounds.x.toString();
+        updateData['positionY'] = pathBounds.y.toString();
+        updateData['width'] = pathBounds.width.toString();
+        updateData['height'] = pathBounds.height.toString();
+      }
+
+      // Groups stay untransformed: a transform given to one is passed on to its members below
+      if (before[0].type === 'group' && input.transform) {
+        updateData['transform'] = null;
+      }
+
+      const result = await tx.update(canvasElementsTable)
+        .set(updateData)
+        .where(eq(canvasElementsTable.id, input.id))
+        .returning()
+        .execute();
+
+      await recordOperation(tx, {
+        canvasId: result[0].canvasId,
+        groupId,
+        kind: 'update',
+        before: before[0],
+        after: result[0]
+      });
+
+      // Groups carry their members along, and the groups around the element fit it again, before and after
+      // a move between groups
+      const related = new Map<string, ElementRow>();
+      const refitIds = [before[0].parentId, result[0].parentId];
+      if (result[0].type === 'group' && (input.position || input.dimensions)) {
+        const members = await transformDescendants(tx, result[0], getRowBounds(before[0]), getRowBounds(result[0]), groupId);
+        members.forEach(row => related.set(row.id, row));
+      }
+      if (result[0].type === 'group' && input.transform) {
+        const members = await passTransformToMembers(tx, result[0], input.transform, groupId);
+        members.forEach(row => related.set(row.id, row));
+        refitIds.push(...members.map(row => row.parentId));
+      }
+      const movesElement = input.position || input.dimensions || input.lineProps || input.arrowProps || input.pathProps ||
+        input.transform !== undefined;
+      if (movesElement || input.parentId !== undefined) {
+        const groups = await refitGroups(tx, refitIds, groupId);
+        groups.forEach(row => related.set(row.id, row));
+      }
+
+      // A group refitted around its transformed members comes back among the related rows
+      const element = related.get(result[0].id) ?? result[0];
+      related.delete(result[0].id);
+      return { element, related: [...related.values()] };
+    });
+
+    const updated = convertToCanvasElement(element);
+    const relatedElements = related.map(convertToCanvasElement);
+
+    // Inside a caller's transaction nothing is committed yet; the caller broadcasts once it is
+    if (executor === db) {
+      publishCanvasEvent(updated.canvasId, { type: 'elements.updated', elements: [updated, ...relatedElements] });
+    }
+    return { element: updated, related: relatedElements };
   } catch (error) {
     console.error('Element update failed:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
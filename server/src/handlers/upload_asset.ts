@@ -0,0 +1,67 @@
+import { db } from '../db';
+import { assetsTable, canvasTable } from '../db/schema';
+import { convertToAsset } from '../db/assets';
+import { type Asset, type UploadAssetInput } from '../schema';
+import { MAX_ASSET_SIZE } from '../asset_limits';
+import { readImageSize } from '../image_size';
+import { getAssetStorage, type AssetStorage } from '../storage';
+import { eq } from 'drizzle-orm';
+import { randomUUID } from 'crypto';
+
+/**
+ * Uploads a file that image elements on a canvas can show
+ * This handler will check that the contents match the declared type, store the file and record it
+ * together with its pixel size. Pass a storage to keep the file somewhere other than the configured default
+ */
+export async function uploadAsset(input: UploadAssetInput, storage: AssetStorage = getAssetStorage()): Promise<Asset> {
+  try {
+    const canvas = await db.select()
+      .from(canvasTable)
+      .where(eq(canvasTable.id, input.canvasId))
+      .execute();
+
+    if (canvas.length === 0) {
+      throw new Error(`Canvas with id ${input.canvasId} not found`);
+    }
+
+    const data = Buffer.from(input.data, 'base64');
+    if (data.length === 0 || data.length > MAX_ASSET_SIZE) {
+      throw new Error(`Asset files must be between 1 byte and ${MAX_ASSET_SIZE} bytes`);
+    }
+
+    const size = readImageSize(data, input.mimeType);
+    if (!size) {
+      throw new Error(`File ${input.fileName} is not a valid ${input.mimeType} image`);
+    }
+
+    // Files are grouped per canvas so they are easy to find on disk
+    const id = randomUUID();
+    const storageKey = `${input.canvasId}/${id}`;
+    await storage.put(storageKey, data);
+
+    try {
+      const result = await db.insert(assetsTable)
+        .values({
+          id,
+          canvasId: input.canvasId,
+          fileName: input.fileName,
+          mimeType: input.mimeType,
+          size: data.length,
+          width: size.width === null ? null : Math.round(size.width),
+          height: size.height === null ? null : Math.round(size.height),
+          storageKey
+        })
+        .returning()
+        .execute();
+
+      return convertToAsset(result[0]);
+    } catch (error) {
+      // Don't leave an unreferenced file behind
+      await storage.delete(storageKey);
+      throw error;
+    }
+  } catch (error) {
+    console.error('Asset upload failed:', error);
+    throw error;
+  }
+}
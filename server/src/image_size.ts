@@ -0,0 +1,104 @@
+import { type Asset } from './schema';
+
+export interface ImageSize {
+  width: number | null;
+  height: number | null;
+}
+
+/**
+ * Read an image's pixel size from its file header. Returns null when the data is not an image of the given type.
+ * SVGs without a width, height or viewBox have no intrinsic size and come back with null dimensions
+ */
+export function readImageSize(data: Buffer, mimeType: Asset['mimeType']): ImageSize | null {
+  switch (mimeType) {
+    case 'image/png':
+      return readPngSize(data);
+    case 'image/jpeg':
+      return readJpegSize(data);
+    case 'image/gif':
+      return readGifSize(data);
+    case 'image/webp':
+      return readWebpSize(data);
+    case 'image/svg+xml':
+      return readSvgSize(data);
+  }
+}
+
+function readPngSize(data: Buffer): ImageSize | null {
+  const signature = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+  if (data.length < 24 || !data.subarray(0, 8).equals(signature) || data.toString('latin1', 12, 16) !== 'IHDR') {
+    return null;
+  }
+  return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+}
+
+function readGifSize(data: Buffer): ImageSize | null {
+  const header = data.toString('latin1', 0, 6);
+  if (data.length < 10 || (header !== 'GIF87a' && header !== 'GIF89a')) {
+    return null;
+  }
+  return { width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+}
+
+function readJpegSize(data: Buffer): ImageSize | null {
+  if (data.length < 4 || data[0] !== 0xff || data[1] !== 0xd8) {
+    return null;
+  }
+
+  // Walk the marker segments up to the start-of-frame, which holds the size
+  let offset = 2;
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) {
+      return null;
+    }
+    const marker = data[offset + 1];
+    if (marker === 0xff) {
+      offset++; // Fill byte
+      continue;
+    }
+    // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC) which share the range
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+    }
+    // Restart markers carry no length
+    offset += marker >= 0xd0 && marker <= 0xd7 ? 2 : 2 + data.readUInt16BE(offset + 2);
+  }
+  return null;
+}
+
+function readWebpSize(data: Buffer): ImageSize | null {
+  if (data.length < 30 || data.toString('latin1', 0, 4) !== 'RIFF' || data.toString('latin1', 8, 12) !== 'WEBP') {
+    return null;
+  }
+
+  switch (data.toString('latin1', 12, 16)) {
+    case 'VP8 ': // Lossy
+      return { width: data.readUInt16LE(26) & 0x3fff, height: data.readUInt16LE(28) & 0x3fff };
+    case 'VP8L': { // Lossless: two 14-bit fields, each one less than the size
+      const bits = data.readUInt32LE(21);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    case 'VP8X': // Extended: two 24-bit fields, each one less than the size
+      return { width: data.readUIntLE(24, 3) + 1, height: data.readUIntLE(27, 3) + 1 };
+    default:
+      return null;
+  }
+}
+
+function readSvgSize(data: Buffer): ImageSize | null {
+  const root = data.toString('utf8').match(/<svg\b[^>]*>/i)?.[0];
+  if (!root) {
+    return null;
+  }
+
+  // Absolute width and height win; percentages and other units fall back to the viewBox
+  const length = (name: string) => {
+    const value = root.match(new RegExp(`\\s${name}\\s*=\\s*["']\\s*([\\d.]+)(px)?\\s*["']`))?.[1];
+    return value ? parseFloat(value) : null;
+  };
+  const viewBox = root.match(/\sviewBox\s*=\s*["']\s*[-\d.]+[\s,]+[-\d.]+[\s,]+([\d.]+)[\s,]+([\d.]+)\s*["']/);
+  return {
+    width: length('width') ?? (viewBox ? parseFloat(viewBox[1]) : null),
+    height: length('height') ?? (viewBox ? parseFloat(viewBox[2]) : null)
+  };
+}
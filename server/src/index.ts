@@ -1,7 +1,10 @@
 import { initTRPC } from '@trpc/server';
 import { createHTTPServer } from '@trpc/server/adapters/standalone';
+import { applyWSSHandler } from '@trpc/server/adapters/ws';
+import { WebSocketServer } from 'ws';
 import 'dotenv/config';
 import cors from 'cors';
+import { type ServerResponse } from 'http';
 import superjson from 'superjson';
 import { z } from 'zod';
 
@@ -9,10 +12,22 @@ import { z } from 'zod';
 import { 
   createCanvasInputSchema,
   updateCanvasInputSchema,
+  getAllCanvasesInputSchema,
+  duplicateCanvasInputSchema,
+  archiveCanvasInputSchema,
   createElementInputSchema,
   updateElementInputSchema,
+  batchElementsInputSchema,
+  getCanvasElementsInputSchema,
+  groupElementsInputSchema,
   createChatMessageInputSchema,
-  aiGenerateRequestSchema
+  aiGenerateRequestSchema,
+  chatSendInputSchema,
+  createSnapshotInputSchema,
+  diffSnapshotInputSchema,
+  uploadAssetInputSchema,
+  watchPresenceInputSchema,
+  updatePresenceInputSchema
 } from './schema';
 
 // Import handlers
@@ -20,16 +35,46 @@ import { createCanvas } from './handlers/create_canvas';
 import { getCanvas } from './handlers/get_canvas';
 import { updateCanvas } from './handlers/update_canvas';
 import { getAllCanvases } from './handlers/get_all_canvases';
+import { deleteCanvas } from './handlers/delete_canvas';
+import { duplicateCanvas } from './handlers/duplicate_canvas';
+import { archiveCanvas } from './handlers/archive_canvas';
 import { createElement } from './handlers/create_element';
 import { updateElement } from './handlers/update_element';
 import { getCanvasElements } from './handlers/get_canvas_elements';
 import { deleteElement } from './handlers/delete_element';
+import { batchElements } from './handlers/batch_elements';
+import { groupElements } from './handlers/group_elements';
+import { ungroupElements } from './handlers/ungroup_elements';
 import { createChatMessage } from './handlers/create_chat_message';
 import { getChatMessages } from './handlers/get_chat_messages';
 import { aiGenerateElements } from './handlers/ai_generate_elements';
+import { sendChatMessage } from './handlers/send_chat_message';
+import { undo } from './handlers/undo';
+import { redo } from './handlers/redo';
+import { getHistoryState } from './handlers/get_history_state';
+import { createSnapshot } from './handlers/create_snapshot';
+import { getSnapshots } from './handlers/get_snapshots';
+import { diffSnapshot } from './handlers/diff_snapshot';
+import { restoreSnapshot } from './handlers/restore_snapshot';
+import { uploadAsset } from './handlers/upload_asset';
+import { getAssets } from './handlers/get_assets';
+import { getAssetFile } from './handlers/get_asset_file';
+import { subscribeToCanvas } from './events';
+import { updatePresence, watchPresence } from './presence';
+import { ConflictError } from './errors';
 
 const t = initTRPC.create({
   transformer: superjson,
+  // Conflicts carry the current server state so clients can merge their change into it
+  errorFormatter({ shape, error }) {
+    return {
+      ...shape,
+      data: {
+        ...shape.data,
+        current: error instanceof ConflictError ? error.current : undefined,
+      },
+    };
+  },
 });
 
 const publicProcedure = t.procedure;
@@ -55,7 +100,20 @@ const appRouter = router({
     .mutation(({ input }) => updateCanvas(input)),
 
   getAllCanvases: publicProcedure
-    .query(() => getAllCanvases()),
+    .input(getAllCanvasesInputSchema.optional())
+    .query(({ input }) => getAllCanvases(input)),
+
+  deleteCanvas: publicProcedure
+    .input(z.string())
+    .mutation(({ input }) => deleteCanvas(input)),
+
+  duplicateCanvas: publicProcedure
+    .input(duplicateCanvasInputSchema)
+    .mutation(({ input }) => duplicateCanvas(input)),
+
+  archiveCanvas: publicProcedure
+    .input(archiveCanvasInputSchema)
+    .mutation(({ input }) => archiveCanvas(input)),
 
   // Canvas element management
   createElement: publicProcedure
@@ -66,14 +124,66 @@ const appRouter = router({
     .input(updateElementInputSchema)
     .mutation(({ input }) => updateElement(input)),
 
+  // A canvas ID alone returns the flat list
   getCanvasElements: publicProcedure
-    .input(z.string())
+    .input(z.union([z.string(), getCanvasElementsInputSchema]))
     .query(({ input }) => getCanvasElements(input)),
 
   deleteElement: publicProcedure
     .input(z.string())
     .mutation(({ input }) => deleteElement(input)),
 
+  batchElements: publicProcedure
+    .input(batchElementsInputSchema)
+    .mutation(({ input }) => batchElements(input)),
+
+  groupElements: publicProcedure
+    .input(groupElementsInputSchema)
+    .mutation(({ input }) => groupElements(input)),
+
+  ungroupElements: publicProcedure
+    .input(z.string())
+    .mutation(({ input }) => ungroupElements(input)),
+
+  // Undo/redo history, per canvas
+  undo: publicProcedure
+    .input(z.string())
+    .mutation(({ input }) => undo(input)),
+
+  redo: publicProcedure
+    .input(z.string())
+    .mutation(({ input }) => redo(input)),
+
+  getHistoryState: publicProcedure
+    .input(z.string())
+    .query(({ input }) => getHistoryState(input)),
+
+  // Named version snapshots
+  createSnapshot: publicProcedure
+    .input(createSnapshotInputSchema)
+    .mutation(({ input }) => createSnapshot(input)),
+
+  getSnapshots: publicProcedure
+    .input(z.string())
+    .query(({ input }) => getSnapshots(input)),
+
+  diffSnapshot: publicProcedure
+    .input(diffSnapshotInputSchema)
+    .query(({ input }) => diffSnapshot(input)),
+
+  restoreSnapshot: publicProcedure
+    .input(z.string())
+    .mutation(({ input }) => restoreSnapshot(input)),
+
+  // Uploaded files for image elements; the files themselves are served at GET /assets/:id
+  uploadAsset: publicProcedure
+    .input(uploadAssetInputSchema)
+    .mutation(({ input }) => uploadAsset(input)),
+
+  getAssets: publicProcedure
+    .input(z.string())
+    .query(({ input }) => getAssets(input)),
+
   // Chat/AI functionality
   createChatMessage: publicProcedure
     .input(createChatMessageInputSchema)
@@ -86,20 +196,85 @@ const appRouter = router({
   aiGenerateElements: publicProcedure
     .input(aiGenerateRequestSchema)
     .mutation(({ input }) => aiGenerateElements(input)),
+
+  // Live changes to one canvas, made by anyone editing it
+  onCanvasEvent: publicProcedure
+    .input(z.string())
+    .subscription(({ input, signal }) => subscribeToCanvas(input, signal)),
+
+  // Cursors, selections and who is viewing; ephemeral and dropped on disconnect
+  presence: router({
+    watch: publicProcedure
+      .input(watchPresenceInputSchema)
+      .subscription(({ input, signal }) => watchPresence(input, signal)),
+
+    update: publicProcedure
+      .input(updatePresenceInputSchema)
+      .mutation(({ input }) => updatePresence(input)),
+  }),
+
+  chat: router({
+    // Records the prompt, generates elements and records the reply in one transaction
+    send: publicProcedure
+      .input(chatSendInputSchema)
+      .mutation(({ input }) => sendChatMessage(input)),
+  }),
 });
 
 export type AppRouter = typeof appRouter;
 
+const ASSET_PATH = /^\/assets\/([\w-]+)$/;
+
+/**
+ * Serve an asset file. Assets never change once uploaded, so clients may cache them for good
+ */
+async function serveAsset(assetId: string, res: ServerResponse) {
+  try {
+    const { asset, data } = await getAssetFile(assetId);
+    res.writeHead(200, {
+      'Content-Type': asset.mimeType,
+      'Content-Length': data.length,
+      'Cache-Control': 'public, max-age=31536000, immutable',
+      'X-Content-Type-Options': 'nosniff',
+      // Uploaded SVGs opened directly must not run scripts on this origin
+      'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'",
+    });
+    res.end(data);
+  } catch {
+    res.writeHead(404, { 'Content-Type': 'text/plain' });
+    res.end('Asset not found');
+  }
+}
+
 async function start() {
   const port = process.env['SERVER_PORT'] || 2022;
   const server = createHTTPServer({
     middleware: (req, res, next) => {
-      cors()(req, res, next);
+      cors()(req, res, () => {
+        const assetId = req.method === 'GET' ? req.url?.split('?')[0].match(ASSET_PATH)?.[1] : undefined;
+        if (assetId) {
+          void serveAsset(assetId, res);
+        } else {
+          next();
+        }
+      });
+    },
+    router: appRouter,
+    createContext() {
+      return {};
     },
+  });
+  // Subscriptions run over WebSocket on the same port
+  const wss = new WebSocketServer({ server });
+  applyWSSHandler({
+    wss,
     router: appRouter,
     createContext() {
       return {};
     },
+    keepAlive: {
+      enabled: true,
+    },
   });
   server.listen(port);
   console.log(`TRPC server listening at port: ${port}`);
@@ -0,0 +1,98 @@
+import { EventEmitter, on } from 'events';
+import { type UpdatePresenceInput, type Viewer, type WatchPresenceInput } from './schema';
+
+// Distinct, readable on white; assigned in join order
+const VIEWER_COLORS = ['#E11D48', '#2563EB', '#16A34A', '#D97706', '#9333EA', '#0891B2', '#DB2777', '#65A30D'];
+
+interface ViewerEntry {
+  viewer: Viewer;
+  // A tab that reconnects can briefly have two subscriptions; it leaves when the last one ends
+  connections: number;
+}
+
+// Ephemeral by design: presence lives only as long as the viewers' connections, never in the database
+const viewersByCanvas = new Map<string, Map<string, ViewerEntry>>();
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+/**
+ * Everyone currently viewing the canvas, in join order
+ */
+export function getViewers(canvasId: string): Viewer[] {
+  return [...(viewersByCanvas.get(canvasId)?.values() ?? [])].map(entry => entry.viewer);
+}
+
+/**
+ * Register the viewer for as long as the subscription runs, yielding the full viewer list on every change.
+ * The viewer is removed when the signal aborts, which is what happens when the connection drops
+ */
+export async function* watchPresence(input: WatchPresenceInput, signal?: AbortSignal): AsyncGenerator<Viewer[]> {
+  // Listen before announcing the viewer so no change is missed between the first list and the next
+  const changes = on(emitter, input.canvasId, { signal });
+  join(input);
+  try {
+    yield getViewers(input.canvasId);
+    for await (const _ of changes) {
+      yield getViewers(input.canvasId);
+    }
+  } catch (error) {
+    // Aborting is how a subscription ends
+    if (!signal?.aborted) {
+      throw error;
+    }
+  } finally {
+    leave(input.canvasId, input.sessionId);
+  }
+}
+
+/**
+ * Move a viewer's cursor or change their selection. Updates for viewers that are not watching are ignored
+ */
+export function updatePresence(input: UpdatePresenceInput): void {
+  const entry = viewersByCanvas.get(input.canvasId)?.get(input.sessionId);
+  if (!entry) return;
+
+  entry.viewer = {
+    ...entry.viewer,
+    cursor: input.cursor !== undefined ? input.cursor : entry.viewer.cursor,
+    selection: input.selection ?? entry.viewer.selection
+  };
+  emitter.emit(input.canvasId);
+}
+
+function join(input: WatchPresenceInput): void {
+  let viewers = viewersByCanvas.get(input.canvasId);
+  if (!viewers) {
+    viewers = new Map();
+    viewersByCanvas.set(input.canvasId, viewers);
+  }
+
+  const existing = viewers.get(input.sessionId);
+  if (existing) {
+    existing.connections++;
+    existing.viewer = { ...existing.viewer, name: input.name };
+  } else {
+    const usedColors = new Set([...viewers.values()].map(entry => entry.viewer.color));
+    const color = VIEWER_COLORS.find(candidate => !usedColors.has(candidate)) ?? VIEWER_COLORS[viewers.size % VIEWER_COLORS.length];
+    viewers.set(input.sessionId, {
+      viewer: { sessionId: input.sessionId, name: input.name, color, cursor: null, selection: [] },
+      connections: 1
+    });
+  }
+  emitter.emit(input.canvasId);
+}
+
+function leave(canvasId: string, sessionId: string): void {
+  const viewers = viewersByCanvas.get(canvasId);
+  const entry = viewers?.get(sessionId);
+  if (!viewers || !entry) return;
+
+  entry.connections--;
+  if (entry.connections > 0) return;
+
+  viewers.delete(sessionId);
+  if (viewers.size === 0) {
+    viewersByCanvas.delete(canvasId);
+  }
+  emitter.emit(canvasId);
+}
@@ -1,10 +1,21 @@
 import { z } from 'zod';
+import { ASSET_MIME_TYPES, MAX_ASSET_SIZE } from './asset_limits';
 
 // Enum schemas for design elements
-export const elementTypeSchema = z.enum(['rectangle', 'circle', 'line', 'text']);
+export const elementTypeSchema = z.enum(['rectangle', 'circle', 'line', 'text', 'ellipse', 'polygon', 'star', 'arrow', 'path', 'image', 'group']);
 export const strokeCapSchema = z.enum(['butt', 'round', 'square']);
 export const strokeJoinSchema = z.enum(['miter', 'round', 'bevel']);
 export const textAlignSchema = z.enum(['left', 'center', 'right']);
+export const arrowHeadSchema = z.enum(['none', 'triangle', 'open', 'circle', 'diamond', 'bar']);
+export const fillRuleSchema = z.enum(['nonzero', 'evenodd']);
+export const strokeAlignSchema = z.enum(['center', 'inside', 'outside']);
+// How a fill or stroke layer mixes with what is painted beneath it, as CSS mix-blend-mode
+export const blendModeSchema = z.enum([
+  'normal', 'multiply', 'screen', 'overlay', 'darken', 'lighten', 'color-dodge', 'color-burn',
+  'hard-light', 'soft-light', 'difference', 'exclusion', 'hue', 'saturation', 'color', 'luminosity'
+]);
+export const imageFitSchema = z.enum(['fill', 'contain', 'cover']);
+export const assetMimeTypeSchema = z.enum(ASSET_MIME_TYPES);
 
 // Base position and dimensions
 export const positionSchema = z.object({
@@ -12,25 +23,71 @@ export const positionSchema = z.object({
   y: z.number()
 });
 
+// Sizes are stored to two decimals, so anything smaller would be saved as zero
 export const dimensionsSchema = z.object({
-  width: z.number().positive(),
-  height: z.number().positive()
+  width: z.number().min(0.01),
+  height: z.number().min(0.01)
 });
 
 // Style properties
-export const fillStyleSchema = z.object({
-  color: z.string().regex(/^#[0-9A-Fa-f]{6}$/), // Hex color
+const hexColorSchema = z.string().regex(/^#[0-9A-Fa-f]{6}$/);
+
+export const gradientStopSchema = z.object({
+  offset: z.number().min(0).max(1), // Fraction of the way along the gradient
+  color: hexColorSchema,
   opacity: z.number().min(0).max(1).default(1)
 });
 
+// Gradients are laid out in the element's box: positions and lengths are fractions of its width and height
+const typedFillSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('solid'),
+    color: hexColorSchema,
+    opacity: z.number().min(0).max(1).default(1),
+    blendMode: blendModeSchema.optional() // Normal when unset
+  }),
+  z.object({
+    type: z.literal('linear'),
+    angle: z.number().default(0), // Degrees clockwise; 0 runs left to right
+    stops: z.array(gradientStopSchema).min(2).max(32),
+    opacity: z.number().min(0).max(1).default(1),
+    blendMode: blendModeSchema.optional()
+  }),
+  z.object({
+    type: z.literal('radial'),
+    center: z.object({ x: z.number().min(0).max(1), y: z.number().min(0).max(1) }).default({ x: 0.5, y: 0.5 }),
+    radius: z.number().positive().default(0.5),
+    stops: z.array(gradientStopSchema).min(2).max(32),
+    opacity: z.number().min(0).max(1).default(1),
+    blendMode: blendModeSchema.optional()
+  })
+]);
+
+export const fillStyleSchema = z.union([
+  typedFillSchema,
+  // Fills saved before gradients have no type and are solid
+  z.object({
+    color: hexColorSchema,
+    opacity: z.number().min(0).max(1).default(1)
+  }).strict().transform((fill): z.infer<typeof typedFillSchema> => ({ type: 'solid', ...fill }))
+]);
+
+export type FillStyle = z.infer<typeof fillStyleSchema>;
+
 export const strokeStyleSchema = z.object({
   color: z.string().regex(/^#[0-9A-Fa-f]{6}$/), // Hex color
   width: z.number().min(0).default(1),
   opacity: z.number().min(0).max(1).default(1),
   cap: strokeCapSchema.default('butt'),
-  join: strokeJoinSchema.default('miter')
+  join: strokeJoinSchema.default('miter'),
+  dashArray: z.array(z.number().min(0)).max(32).optional(), // Alternating dash and gap lengths; solid when unset
+  dashOffset: z.number().optional(), // How far into the dash pattern the stroke starts
+  align: strokeAlignSchema.optional(), // Centered on the outline when unset; lines, arrows, open paths and text always are
+  blendMode: blendModeSchema.optional() // Normal when unset
 });
 
+export type StrokeStyle = z.infer<typeof strokeStyleSchema>;
+
 export const textStyleSchema = z.object({
   fontFamily: z.string().default('Arial'),
   fontSize: z.number().positive().default(16),
@@ -51,29 +108,158 @@ export const linePropsSchema = z.object({
   y2: z.number()
 });
 
+// A stretch of text with its own styling; anything unset falls back to the element's text style and fill
+export const textRunSchema = z.object({
+  text: z.string(), // May contain line breaks
+  fontWeight: z.number().int().min(100).max(900).optional(),
+  fontSize: z.number().positive().optional(),
+  italic: z.boolean().optional(),
+  underline: z.boolean().optional(),
+  color: hexColorSchema.optional()
+});
+
+export type TextRun = z.infer<typeof textRunSchema>;
+
 export const textPropsSchema = z.object({
-  content: z.string(),
-  maxWidth: z.number().positive().optional()
+  content: z.union([
+    z.array(textRunSchema).max(1000),
+    // Text saved before styled runs is one plain string
+    z.string().transform((text): TextRun[] => [{ text }])
+  ]),
+  maxWidth: z.number().positive().optional() // Lines wrap at this width
+});
+
+export type TextProps = z.infer<typeof textPropsSchema>;
+
+// Ellipses fill their dimensions; a partial sweep or an inner radius turns them into arcs, pies and rings
+export const ellipsePropsSchema = z.object({
+  startAngle: z.number().default(0), // Degrees clockwise from 3 o'clock
+  sweepAngle: z.number().min(-360).max(360).default(360),
+  innerRadius: z.number().min(0).max(0.99).default(0) // Fraction of the outer radius
+});
+
+// Regular polygons and stars are inscribed in their dimensions with the first vertex at the top
+export const polygonPropsSchema = z.object({
+  sides: z.number().int().min(3).max(100).default(6)
+});
+
+export const starPropsSchema = z.object({
+  points: z.number().int().min(3).max(100).default(5),
+  innerRadius: z.number().min(0.01).max(1).default(0.5) // Fraction of the outer radius
+});
+
+// Arrows are lines with a head at either end
+export const arrowPropsSchema = linePropsSchema.extend({
+  startHead: arrowHeadSchema.default('none'),
+  endHead: arrowHeadSchema.default('triangle')
+});
+
+// Freeform vector paths: absolute canvas coordinates, with control points for curves
+export const pathCommandSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('move'), x: z.number(), y: z.number() }),
+  z.object({ type: z.literal('line'), x: z.number(), y: z.number() }),
+  z.object({ type: z.literal('quadratic'), x1: z.number(), y1: z.number(), x: z.number(), y: z.number() }),
+  z.object({
+    type: z.literal('cubic'),
+    x1: z.number(),
+    y1: z.number(),
+    x2: z.number(),
+    y2: z.number(),
+    x: z.number(),
+    y: z.number()
+  }),
+  z.object({ type: z.literal('close') })
+]);
+
+export type PathCommand = z.infer<typeof pathCommandSchema>;
+
+export const pathPropsSchema = z.object({
+  commands: z.array(pathCommandSchema)
+    .min(2)
+    .max(10000)
+    .refine(commands => commands[0]?.type === 'move', 'A path must start with a move command'),
+  fillRule: fillRuleSchema.default('nonzero')
+});
+
+// Images show an uploaded asset, optionally cropped, fitted into the element's box
+export const imageCropSchema = z.object({
+  x: z.number().nonnegative(),
+  y: z.number().nonnegative(),
+  width: z.number().positive(),
+  height: z.number().positive()
+});
+
+export const imagePropsSchema = z.object({
+  assetId: z.string(),
+  fit: imageFitSchema.default('cover'), // fill stretches, contain letterboxes, cover fills the box and clips the overflow
+  crop: imageCropSchema.nullable().default(null) // Region of the source image in its own pixels; the whole image when null
+});
+
+// Rotation, skew and scale applied on top of an element's box, about an origin given as a fraction of the box:
+// rotate(rotation) skewX(skewX) skewY(skewY) scale(scaleX, scaleY) in SVG terms
+export const elementTransformSchema = z.object({
+  rotation: z.number().default(0), // Degrees clockwise
+  scaleX: z.number().refine(value => value !== 0, 'Scale cannot be zero').default(1), // Negative values flip
+  scaleY: z.number().refine(value => value !== 0, 'Scale cannot be zero').default(1),
+  skewX: z.number().gt(-90).lt(90).default(0), // Degrees
+  skewY: z.number().gt(-90).lt(90).default(0),
+  originX: z.number().min(0).max(1).default(0.5),
+  originY: z.number().min(0).max(1).default(0.5)
 });
 
+export type ElementTransform = z.infer<typeof elementTransformSchema>;
+
+// Shadows and blurs drawn with an element. Blur is a radius in pixels; spread grows (or, negative, shrinks) the
+// shadow's shape before it is blurred
+const shadowEffectShape = {
+  visible: z.boolean().default(true),
+  offset: z.object({ x: z.number(), y: z.number() }).default({ x: 0, y: 4 }),
+  blur: z.number().min(0).max(1000).default(4),
+  spread: z.number().min(-1000).max(1000).default(0),
+  color: hexColorSchema.default('#000000'),
+  opacity: z.number().min(0).max(1).default(0.25)
+};
+
+export const elementEffectSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('drop-shadow'), ...shadowEffectShape }), // Behind the element, outside its shape
+  z.object({ type: z.literal('inner-shadow'), ...shadowEffectShape }), // On top of the element, inside its shape
+  z.object({ type: z.literal('layer-blur'), visible: z.boolean().default(true), blur: z.number().min(0).max(1000).default(4) }),
+  // Blurs what is behind the element within its shape, for frosted glass under a translucent fill
+  z.object({ type: z.literal('background-blur'), visible: z.boolean().default(true), blur: z.number().min(0).max(1000).default(4) })
+]);
+
+export type ElementEffect = z.infer<typeof elementEffectSchema>;
+
 // Main canvas element schema
 export const canvasElementSchema = z.object({
   id: z.string(),
   type: elementTypeSchema,
   canvasId: z.string(),
+  parentId: z.string().nullable().default(null), // Group the element belongs to; null at the top level
   position: positionSchema,
-  dimensions: dimensionsSchema.optional(), // Not needed for lines
+  dimensions: dimensionsSchema.optional(), // Not needed for lines; groups are kept fitted around their members
   zIndex: z.number().int().default(0),
   visible: z.boolean().default(true),
   locked: z.boolean().default(false),
+  transform: elementTransformSchema.nullable().default(null), // Untransformed when null; on groups it is passed on to the members
+  effects: z.array(elementEffectSchema).max(16).default([]), // Groups have none
   // Style properties (optional)
   fill: fillStyleSchema.nullable().default(null),
   stroke: strokeStyleSchema.nullable().default(null),
+  // Further layers painted over the fill and the stroke, bottom to top
+  extraFills: z.array(fillStyleSchema).max(16).default([]),
+  extraStrokes: z.array(strokeStyleSchema).max(16).default([]),
   textStyle: textStyleSchema.nullable().default(null),
   // Element-specific properties
   rectangleProps: rectanglePropsSchema.nullable().default(null),
   lineProps: linePropsSchema.nullable().default(null),
   textProps: textPropsSchema.nullable().default(null),
+  ellipseProps: ellipsePropsSchema.nullable().default(null),
+  polygonProps: polygonPropsSchema.nullable().default(null),
+  starProps: starPropsSchema.nullable().default(null),
+  arrowProps: arrowPropsSchema.nullable().default(null),
+  pathProps: pathPropsSchema.nullable().default(null),
+  imageProps: imagePropsSchema.nullable().default(null),
   // Metadata
   createdAt: z.coerce.date(),
   updatedAt: z.coerce.date()
@@ -81,6 +267,20 @@ export const canvasElementSchema = z.object({
 
 export type CanvasElement = z.infer<typeof canvasElementSchema>;
 
+// An element with the elements nested in it, for the tree form of getCanvasElements
+export type CanvasElementNode = CanvasElement & { children: CanvasElementNode[] };
+
+export const canvasElementNodeSchema: z.ZodType<CanvasElementNode, z.ZodTypeDef, unknown> = canvasElementSchema.extend({
+  children: z.lazy(() => z.array(canvasElementNodeSchema))
+});
+
+export const getCanvasElementsInputSchema = z.object({
+  canvasId: z.string(),
+  format: z.enum(['flat', 'tree']).default('flat') // Tree nests members under their groups, siblings in paint order
+});
+
+export type GetCanvasElementsInput = z.infer<typeof getCanvasElementsInputSchema>;
+
 // Canvas schema
 export const canvasSchema = z.object({
   id: z.string(),
@@ -92,6 +292,7 @@ export const canvasSchema = z.object({
   zoom: z.number().positive().default(1),
   panX: z.number().default(0),
   panY: z.number().default(0),
+  archivedAt: z.coerce.date().nullable().default(null), // Archived canvases are hidden from listings
   createdAt: z.coerce.date(),
   updatedAt: z.coerce.date()
 });
@@ -132,46 +333,130 @@ export const updateCanvasInputSchema = z.object({
   backgroundColor: z.string().regex(/^#[0-9A-Fa-f]{6}$/).optional(),
   zoom: z.number().positive().optional(),
   panX: z.number().optional(),
-  panY: z.number().optional()
+  panY: z.number().optional(),
+  // Optimistic concurrency: the update fails with CONFLICT when the canvas changed since this time
+  expectedUpdatedAt: z.coerce.date().optional()
 });
 
 export type UpdateCanvasInput = z.infer<typeof updateCanvasInputSchema>;
 
+// Canvas listing options
+export const canvasSortFieldSchema = z.enum(['updatedAt', 'createdAt', 'name']);
+export const sortOrderSchema = z.enum(['asc', 'desc']);
+
+export const getAllCanvasesInputSchema = z.object({
+  sortBy: canvasSortFieldSchema.optional(), // Unsorted (insertion order) when omitted
+  sortOrder: sortOrderSchema.optional(), // Defaults to ascending
+  includeArchived: z.boolean().optional() // Archived canvases are excluded unless requested
+});
+
+export type GetAllCanvasesInput = z.infer<typeof getAllCanvasesInputSchema>;
+
+export const duplicateCanvasInputSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1).optional(), // Defaults to "<original name> (copy)"
+  includeChatHistory: z.boolean().default(false)
+});
+
+export type DuplicateCanvasInput = z.infer<typeof duplicateCanvasInputSchema>;
+
+export const archiveCanvasInputSchema = z.object({
+  id: z.string(),
+  archived: z.boolean()
+});
+
+export type ArchiveCanvasInput = z.infer<typeof archiveCanvasInputSchema>;
+
 export const createElementInputSchema = z.object({
   type: elementTypeSchema,
   canvasId: z.string(),
+  parentId: z.string().nullable().optional(), // Creates the element inside this group
   position: positionSchema,
   dimensions: dimensionsSchema.optional(),
   zIndex: z.number().int().optional(),
   visible: z.boolean().optional(),
   locked: z.boolean().optional(),
+  transform: elementTransformSchema.nullable().optional(),
+  effects: z.array(elementEffectSchema).max(16).optional(),
   fill: fillStyleSchema.nullable().optional(),
   stroke: strokeStyleSchema.nullable().optional(),
+  extraFills: z.array(fillStyleSchema).max(16).optional(),
+  extraStrokes: z.array(strokeStyleSchema).max(16).optional(),
   textStyle: textStyleSchema.nullable().optional(),
   rectangleProps: rectanglePropsSchema.nullable().optional(),
   lineProps: linePropsSchema.nullable().optional(),
-  textProps: textPropsSchema.nullable().optional()
+  textProps: textPropsSchema.nullable().optional(),
+  ellipseProps: ellipsePropsSchema.nullable().optional(),
+  polygonProps: polygonPropsSchema.nullable().optional(),
+  starProps: starPropsSchema.nullable().optional(),
+  arrowProps: arrowPropsSchema.nullable().optional(),
+  pathProps: pathPropsSchema.nullable().optional(), // Paths take their position and dimensions from the commands
+  imageProps: imagePropsSchema.nullable().optional()
 });
 
 export type CreateElementInput = z.infer<typeof createElementInputSchema>;
 
 export const updateElementInputSchema = z.object({
   id: z.string(),
+  parentId: z.string().nullable().optional(), // Moves the element into another group, or to the top level with null
   position: positionSchema.optional(),
   dimensions: dimensionsSchema.optional(),
   zIndex: z.number().int().optional(),
   visible: z.boolean().optional(),
   locked: z.boolean().optional(),
+  transform: elementTransformSchema.nullable().optional(),
+  effects: z.array(elementEffectSchema).max(16).optional(),
   fill: fillStyleSchema.nullable().optional(),
   stroke: strokeStyleSchema.nullable().optional(),
+  extraFills: z.array(fillStyleSchema).max(16).optional(),
+  extraStrokes: z.array(strokeStyleSchema).max(16).optional(),
   textStyle: textStyleSchema.nullable().optional(),
   rectangleProps: rectanglePropsSchema.nullable().optional(),
   lineProps: linePropsSchema.nullable().optional(),
-  textProps: textPropsSchema.nullable().optional()
+  textProps: textPropsSchema.nullable().optional(),
+  ellipseProps: ellipsePropsSchema.nullable().optional(),
+  polygonProps: polygonPropsSchema.nullable().optional(),
+  starProps: starPropsSchema.nullable().optional(),
+  arrowProps: arrowPropsSchema.nullable().optional(),
+  pathProps: pathPropsSchema.nullable().optional(),
+  imageProps: imagePropsSchema.nullable().optional(),
+  // Optimistic concurrency: the update fails with CONFLICT when the element changed since this time
+  expectedUpdatedAt: z.coerce.date().optional()
 });
 
 export type UpdateElementInput = z.infer<typeof updateElementInputSchema>;
 
+// Several element mutations on one canvas, applied atomically as a single undo step
+export const batchElementOperationSchema = z.discriminatedUnion('op', [
+  z.object({ op: z.literal('create'), element: createElementInputSchema.omit({ canvasId: true }) }),
+  z.object({ op: z.literal('update'), element: updateElementInputSchema }),
+  z.object({ op: z.literal('delete'), id: z.string() })
+]);
+
+export type BatchElementOperation = z.infer<typeof batchElementOperationSchema>;
+
+export const batchElementsInputSchema = z.object({
+  canvasId: z.string(),
+  operations: z.array(batchElementOperationSchema).min(1).max(500) // Applied in order
+});
+
+export type BatchElementsInput = z.infer<typeof batchElementsInputSchema>;
+
+export const batchElementsResultSchema = z.object({
+  elements: z.array(canvasElementSchema), // Final state of the created and updated elements
+  deletedElementIds: z.array(z.string())
+});
+
+export type BatchElementsResult = z.infer<typeof batchElementsResultSchema>;
+
+// Grouping wraps elements that share a parent in a new group; ungrouping moves a group's members up a level
+export const groupElementsInputSchema = z.object({
+  canvasId: z.string(),
+  elementIds: z.array(z.string()).min(1).max(500)
+});
+
+export type GroupElementsInput = z.infer<typeof groupElementsInputSchema>;
+
 export const createChatMessageInputSchema = z.object({
   canvasId: z.string(),
   role: z.enum(['user', 'assistant']),
@@ -189,4 +474,155 @@ export const aiGenerateRequestSchema = z.object({
   contextElementIds: z.array(z.string()).optional() // Optional context elements to consider
 });
 
-export type AIGenerateRequest = z.infer<typeof aiGenerateRequestSchema>;
\ No newline at end of file
+export type AIGenerateRequest = z.infer<typeof aiGenerateRequestSchema>;
+
+export const aiGenerateResultSchema = z.object({
+  created: z.array(canvasElementSchema),
+  modified: z.array(canvasElementSchema) // Context elements the prompt changed
+});
+
+export type AIGenerateResult = z.infer<typeof aiGenerateResultSchema>;
+
+// Conversational AI turn: the prompt and the assistant's reply are recorded alongside the generated elements
+export const chatSendInputSchema = z.object({
+  canvasId: z.string(),
+  content: z.string().min(1),
+  contextElementIds: z.array(z.string()).optional() // Optional context elements to consider
+});
+
+export type ChatSendInput = z.infer<typeof chatSendInputSchema>;
+
+export const chatSendResultSchema = z.object({
+  userMessage: chatMessageSchema,
+  assistantMessage: chatMessageSchema,
+  elementsCreated: z.array(canvasElementSchema),
+  elementsModified: z.array(canvasElementSchema)
+});
+
+export type ChatSendResult = z.infer<typeof chatSendResultSchema>;
+
+// Undo/redo history
+export const historyStateSchema = z.object({
+  canUndo: z.boolean(),
+  canRedo: z.boolean()
+});
+
+export type HistoryState = z.infer<typeof historyStateSchema>;
+
+export const historyResultSchema = historyStateSchema.extend({
+  applied: z.boolean(), // False when there was nothing to undo/redo
+  elements: z.array(canvasElementSchema), // Current state of the elements the step touched
+  deletedElementIds: z.array(z.string()) // Touched elements that no longer exist
+});
+
+export type HistoryResult = z.infer<typeof historyResultSchema>;
+
+// Named version snapshots
+export const canvasSnapshotSchema = z.object({
+  id: z.string(),
+  canvasId: z.string(),
+  label: z.string(),
+  elementCount: z.number().int(),
+  createdAt: z.coerce.date()
+});
+
+export type CanvasSnapshot = z.infer<typeof canvasSnapshotSchema>;
+
+export const createSnapshotInputSchema = z.object({
+  canvasId: z.string(),
+  label: z.string().trim().min(1).max(100)
+});
+
+export type CreateSnapshotInput = z.infer<typeof createSnapshotInputSchema>;
+
+export const diffSnapshotInputSchema = z.object({
+  snapshotId: z.string(),
+  compareToSnapshotId: z.string().optional() // Compare against the current canvas when omitted
+});
+
+export type DiffSnapshotInput = z.infer<typeof diffSnapshotInputSchema>;
+
+export const snapshotDiffSchema = z.object({
+  added: z.array(canvasElementSchema), // Only in the compared state
+  removed: z.array(canvasElementSchema), // Only in the snapshot
+  modified: z.array(z.object({
+    before: canvasElementSchema,
+    after: canvasElementSchema
+  })),
+  unchangedCount: z.number().int()
+});
+
+export type SnapshotDiff = z.infer<typeof snapshotDiffSchema>;
+
+export const restoreSnapshotResultSchema = z.object({
+  canvas: canvasSchema,
+  elements: z.array(canvasElementSchema)
+});
+
+export type RestoreSnapshotResult = z.infer<typeof restoreSnapshotResultSchema>;
+
+// Uploaded files (images) that elements on the canvas can reference
+
+export const assetSchema = z.object({
+  id: z.string(),
+  canvasId: z.string(),
+  fileName: z.string(),
+  mimeType: assetMimeTypeSchema,
+  size: z.number().int(), // Bytes
+  width: z.number().nullable(), // Intrinsic pixel size; null when the file doesn't declare one
+  height: z.number().nullable(),
+  createdAt: z.coerce.date()
+});
+
+export type Asset = z.infer<typeof assetSchema>;
+
+export const uploadAssetInputSchema = z.object({
+  canvasId: z.string(),
+  fileName: z.string().trim().min(1).max(255),
+  mimeType: assetMimeTypeSchema,
+  data: z.string().base64().max(Math.ceil(MAX_ASSET_SIZE / 3) * 4) // File contents
+});
+
+export type UploadAssetInput = z.infer<typeof uploadAssetInputSchema>;
+
+// Real-time canvas events, broadcast to everyone subscribed to the canvas
+export const canvasEventSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('elements.created'), elements: z.array(canvasElementSchema) }),
+  z.object({ type: z.literal('elements.updated'), elements: z.array(canvasElementSchema) }),
+  z.object({ type: z.literal('elements.deleted'), elementIds: z.array(z.string()) }),
+  z.object({ type: z.literal('canvas.updated'), canvas: canvasSchema }),
+  z.object({ type: z.literal('chat.messages'), messages: z.array(chatMessageSchema) }),
+  // Follows the element events of an undo or redo step. Any other element change adds an undo step and
+  // discards the redo steps, so it needs no event of its own
+  historyStateSchema.extend({ type: z.literal('history.changed') })
+]);
+
+export type CanvasEvent = z.infer<typeof canvasEventSchema>;
+
+// Live presence of the people viewing a canvas; kept in memory only
+export const viewerSchema = z.object({
+  sessionId: z.string(),
+  name: z.string(),
+  color: z.string(),
+  cursor: positionSchema.nullable(), // Canvas coordinates; null while the pointer is off the canvas
+  selection: z.array(z.string())
+});
+
+export type Viewer = z.infer<typeof viewerSchema>;
+
+export const watchPresenceInputSchema = z.object({
+  canvasId: z.string(),
+  sessionId: z.string().min(1).max(64), // One per browser tab
+  name: z.string().trim().min(1).max(50)
+});
+
+export type WatchPresenceInput = z.infer<typeof watchPresenceInputSchema>;
+
+export const updatePresenceInputSchema = z.object({
+  canvasId: z.string(),
+  sessionId: z.string(),
+  cursor: positionSchema.nullable().optional(),
+  selection: z.array(z.string()).optional()
+});
+
+export type UpdatePresenceInput = z.infer<typeof updatePresenceInputSchema>;
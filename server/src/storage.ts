@@ -0,0 +1,55 @@
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { dirname, resolve, sep } from 'path';
+
+/**
+ * Where uploaded asset files are kept. Keys are opaque, slash-separated names chosen by the server
+ */
+export interface AssetStorage {
+  put(key: string, data: Buffer): Promise<void>;
+  // Null when nothing is stored under the key
+  get(key: string): Promise<Buffer | null>;
+  // Removing a key that holds nothing is not an error
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Storage in a directory on local disk, one file per key
+ */
+export function createLocalAssetStorage(root: string): AssetStorage {
+  const base = resolve(root);
+  const pathFor = (key: string) => {
+    const path = resolve(base, key);
+    if (!path.startsWith(base + sep)) {
+      throw new Error(`Invalid storage key ${key}`);
+    }
+    return path;
+  };
+
+  return {
+    async put(key, data) {
+      const path = pathFor(key);
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(path, data);
+    },
+    async get(key) {
+      try {
+        return await readFile(pathFor(key));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return null;
+        }
+        throw error;
+      }
+    },
+    async delete(key) {
+      await rm(pathFor(key), { force: true });
+    }
+  };
+}
+
+/**
+ * Select the asset storage from the environment: files go under ASSET_STORAGE_DIR, ./uploads by default
+ */
+export function getAssetStorage(): AssetStorage {
+  return createLocalAssetStorage(process.env['ASSET_STORAGE_DIR'] || 'uploads');
+}
@@ -4,6 +4,7 @@ import { db } from '../db';
 import { canvasTable, canvasElementsTable } from '../db/schema';
 import { type AIGenerateRequest } from '../schema';
 import { aiGenerateElements } from '../handlers/ai_generate_elements';
+import { type DesignProvider } from '../ai/types';
 import { eq } from 'drizzle-orm';
 import { randomUUID } from 'crypto';
 
@@ -33,12 +34,12 @@ describe('aiGenerateElements', () => {
         prompt: 'Create a blue rectangle'
       };
 
-      const result = await aiGenerateElements(input);
+      const { created: result } = await aiGenerateElements(input);
 
       expect(result).toHaveLength(1);
       expect(result[0].type).toBe('rectangle');
       expect(result[0].canvasId).toBe(testCanvasId);
-      expect(result[0].fill?.color).toBe('#3B82F6'); // Blue
+      expect(result[0].fill).toMatchObject({ type: 'solid', color: '#3B82F6' }); // Blue
       expect(result[0].dimensions).toBeDefined();
       expect(result[0].position).toBeDefined();
       expect(result[0].rectangleProps).toBeDefined();
@@ -50,11 +51,11 @@ describe('aiGenerateElements', () => {
         prompt: 'Add a red circle'
       };
 
-      const result = await aiGenerateElements(input);
+      const { created: result } = await aiGenerateElements(input);
 
       expect(result).toHaveLength(1);
       expect(result[0].type).toBe('circle');
-      expect(result[0].fill?.color).toBe('#EF4444'); // Red
+      expect(result[0].fill).toMatchObject({ type: 'solid', color: '#EF4444' }); // Red
       expect(result[0].dimensions?.width).toBe(100);
       expect(result[0].dimensions?.height).toBe(100);
     });
@@ -65,7 +66,7 @@ describe('aiGenerateElements', () => {
         prompt: 'Draw a green line'
       };
 
-      const result = await aiGenerateElements(input);
+      const { created: result } = await aiGenerateElements(input);
 
       expect(result).toHaveLength(1);
       expect(result[0].type).toBe('line');
@@ -83,11 +84,11 @@ describe('aiGenerateElements', () => {
         prompt: 'Add text that says "Hello World"'
       };
 
-      const result = await aiGenerateElements(input);
+      const { created: result } = await aiGenerateElements(input);
 
       expect(result).toHaveLength(1);
       expect(result[0].type).toBe('text');
-      expect(result[0].textProps?.content).toBe('Hello World');
+      expect(result[0].textProps?.content).toEqual([{ text: 'Hello World' }]);
       expect(result[0].textStyle?.fontSize).toBe(16);
       expect(result[0].textStyle?.fontFamily).toBe('Arial');
     });
@@ -100,11 +101,11 @@ describe('aiGenerateElements', () => {
         prompt: 'Create a yellow square'
       };
 
-      const result = await aiGenerateElements(input);
+      const { created: result } = await aiGenerateElements(input);
 
       expect(result).toHaveLength(1);
       expect(result[0].type).toBe('rectangle');
-      expect(result[0].fill?.color).toBe('#F59E0B'); // Yellow
+      expect(result[0].fill).toMatchObject({ type: 'solid', color: '#F59E0B' }); // Yellow
       expect(result[0].dimensions?.width).toBe(100);
       expect(result[0].dimensions?.height).toBe(100);
     });
@@ -115,11 +116,11 @@ describe('aiGenerateElements', () => {
         prompt: 'Add a rounded purple rectangle'
       };
 
-      const result = await aiGenerateElements(input);
+      const { created: result } = await aiGenerateElements(input);
 
       expect(result).toHaveLength(1);
       expect(result[0].type).toBe('rectangle');
-      expect(result[0].fill?.color).toBe('#8B5CF6'); // Purple
+      expect(result[0].fill).toMatchObject({ type: 'solid', color: '#8B5CF6' }); // Purple
       expect(result[0].rectangleProps?.borderRadius).toBe(10);
     });
 
@@ -129,11 +130,11 @@ describe('aiGenerateElements', () => {
         prompt: 'Create a title that says "Main Header"'
       };
 
-      const result = await aiGenerateElements(input);
+      const { created: result } = await aiGenerateElements(input);
 
       expect(result).toHaveLength(1);
       expect(result[0].type).toBe('text');
-      expect(result[0].textProps?.content).toBe('Main Header');
+      expect(result[0].textProps?.content).toEqual([{ text: 'Main Header' }]);
       expect(result[0].textStyle?.fontSize).toBe(24);
     });
 
@@ -143,11 +144,11 @@ describe('aiGenerateElements', () => {
         prompt: 'Add bold text "Important Note"'
       };
 
-      const result = await aiGenerateElements(input);
+      const { created: result } = await aiGenerateElements(input);
 
       expect(result).toHaveLength(1);
       expect(result[0].type).toBe('text');
-      expect(result[0].textProps?.content).toBe('Important Note');
+      expect(result[0].textProps?.content).toEqual([{ text: 'Important Note' }]);
       expect(result[0].textStyle?.fontWeight).toBe(700);
     });
   });
@@ -169,13 +170,13 @@ describe('aiGenerateElements', () => {
           prompt: test.prompt
         };
 
-        const result = await aiGenerateElements(input);
+        const { created: result } = await aiGenerateElements(input);
         expect(result).toHaveLength(1);
         
         if (test.prompt.includes('line')) {
           expect(result[0].stroke?.color).toBe(test.expectedColor);
         } else {
-          expect(result[0].fill?.color).toBe(test.expectedColor);
+          expect(result[0].fill).toMatchObject({ type: 'solid', color: test.expectedColor });
         }
       }
     });
@@ -186,10 +187,10 @@ describe('aiGenerateElements', () => {
         prompt: 'Create a rectangle'
       };
 
-      const result = await aiGenerateElements(input);
+      const { created: result } = await aiGenerateElements(input);
 
       expect(result).toHaveLength(1);
-      expect(result[0].fill?.color).toBe('#3B82F6'); // Default blue
+      expect(result[0].fill).toMatchObject({ type: 'solid', color: '#3B82F6' }); // Default blue
     });
   });
 
@@ -200,11 +201,11 @@ describe('aiGenerateElements', () => {
         prompt: 'xyz abc random prompt'
       };
 
-      const result = await aiGenerateElements(input);
+      const { created: result } = await aiGenerateElements(input);
 
       expect(result).toHaveLength(1);
       expect(result[0].type).toBe('rectangle');
-      expect(result[0].fill?.color).toBe('#3B82F6'); // Default blue
+      expect(result[0].fill).toMatchObject({ type: 'solid', color: '#3B82F6' }); // Default blue
       expect(result[0].dimensions?.width).toBe(150);
       expect(result[0].dimensions?.height).toBe(100);
     });
@@ -217,7 +218,7 @@ describe('aiGenerateElements', () => {
         prompt: 'Create a rectangle'
       };
 
-      const result = await aiGenerateElements(input);
+      const { created: result } = await aiGenerateElements(input);
       const element = result[0];
       
       // Canvas is 1920x1080, so center is 960, 540
@@ -249,7 +250,7 @@ describe('aiGenerateElements', () => {
         contextElementIds: [contextElementId]
       };
 
-      const result = await aiGenerateElements(input);
+      const { created: result } = await aiGenerateElements(input);
 
       expect(result).toHaveLength(1);
       // Position should be offset from default due to context
@@ -265,7 +266,7 @@ describe('aiGenerateElements', () => {
         contextElementIds: []
       };
 
-      const result = await aiGenerateElements(input);
+      const { created: result } = await aiGenerateElements(input);
 
       expect(result).toHaveLength(1);
       expect(result[0].type).toBe('rectangle');
@@ -279,7 +280,7 @@ describe('aiGenerateElements', () => {
         prompt: 'Create a red circle'
       };
 
-      const result = await aiGenerateElements(input);
+      const { created: result } = await aiGenerateElements(input);
       const elementId = result[0].id;
 
       // Verify element exists in database
@@ -299,7 +300,7 @@ describe('aiGenerateElements', () => {
         prompt: 'Create a rectangle'
       };
 
-      const result = await aiGenerateElements(input);
+      const { created: result } = await aiGenerateElements(input);
       const element = result[0];
 
       // Check that numeric fields are properly converted
@@ -328,26 +329,372 @@ describe('aiGenerateElements', () => {
         contextElementIds: ['invalid-id-1', 'invalid-id-2']
       };
 
-      const result = await aiGenerateElements(input);
+      const { created: result } = await aiGenerateElements(input);
 
       expect(result).toHaveLength(1);
       expect(result[0].type).toBe('rectangle');
     });
   });
 
+  describe('editing context elements', () => {
+    const insertElement = async (values: Partial<typeof canvasElementsTable.$inferInsert> = {}) => {
+      const id = randomUUID();
+      await db.insert(canvasElementsTable).values({
+        id,
+        type: 'rectangle',
+        canvasId: testCanvasId,
+        positionX: '100',
+        positionY: '100',
+        width: '150',
+        height: '100',
+        fill: { color: '#3B82F6', opacity: 0.8 },
+        ...values,
+      }).execute();
+      return id;
+    };
+
+    it('should recolor and resize the selected element', async () => {
+      const elementId = await insertElement();
+
+      const result = await aiGenerateElements({
+        canvasId: testCanvasId,
+        prompt: 'make the selected rectangle green and twice as wide',
+        contextElementIds: [elementId]
+      });
+
+      expect(result.created).toEqual([]);
+      expect(result.modified).toHaveLength(1);
+      expect(result.modified[0].id).toBe(elementId);
+      expect(result.modified[0].fill).toEqual({ type: 'solid', color: '#10B981', opacity: 0.8 });
+      expect(result.modified[0].dimensions).toEqual({ width: 300, height: 100 });
+      expect(result.modified[0].position).toEqual({ x: 100, y: 100 });
+
+      // Changes are persisted like any other update
+      const rows = await db.select()
+        .from(canvasElementsTable)
+        .where(eq(canvasElementsTable.id, elementId))
+        .execute();
+      expect(parseFloat(rows[0].width!)).toBe(300);
+      expect(rows[0].fill).toEqual({ type: 'solid', color: '#10B981', opacity: 0.8 });
+    });
+
+    it('should align several elements to their left edge', async () => {
+      const first = await insertElement({ positionX: '200', positionY: '50' });
+      const second = await insertElement({ positionX: '80', positionY: '300' });
+      const line = await insertElement({
+        type: 'line',
+        positionX: '400',
+        positionY: '500',
+        width: null,
+        height: null,
+        lineProps: { x1: 400, y1: 500, x2: 600, y2: 500 }
+      });
+
+      const result = await aiGenerateElements({
+        canvasId: testCanvasId,
+        prompt: 'align these to the left',
+        contextElementIds: [first, second, line]
+      });
+
+      // The element already on the edge is left alone
+      expect(result.modified.map(element => element.id).sort()).toEqual([first, line].sort());
+      result.modified.forEach(element => expect(element.position.x).toBe(80));
+      const movedLine = result.modified.find(element => element.id === line)!;
+      expect(movedLine.lineProps).toEqual({ x1: 80, y1: 500, x2: 280, y2: 500 });
+    });
+
+    it('should only edit the element types named in the prompt', async () => {
+      const rectangle = await insertElement();
+      const circle = await insertElement({ type: 'circle' });
+
+      const result = await aiGenerateElements({
+        canvasId: testCanvasId,
+        prompt: 'turn the circle red',
+        contextElementIds: [rectangle, circle]
+      });
+
+      expect(result.modified.map(element => element.id)).toEqual([circle]);
+      expect(result.modified[0].fill).toMatchObject({ type: 'solid', color: '#EF4444' });
+    });
+
+    it('should update text content and weight', async () => {
+      const text = await insertElement({
+        type: 'text',
+        textStyle: { fontFamily: 'Arial', fontSize: 16, fontWeight: 400, textAlign: 'left', lineHeight: 1.2 },
+        textProps: { content: 'Old' }
+      });
+
+      const result = await aiGenerateElements({
+        canvasId: testCanvasId,
+        prompt: 'change this to bold "New headline"',
+        contextElementIds: [text]
+      });
+
+      expect(result.modified[0].textProps?.content).toEqual([{ text: 'New headline' }]);
+      expect(result.modified[0].textStyle?.fontWeight).toBe(700);
+    });
+
+    it('should not edit locked elements', async () => {
+      const locked = await insertElement({ locked: true });
+
+      const result = await aiGenerateElements({
+        canvasId: testCanvasId,
+        prompt: 'make it red',
+        contextElementIds: [locked]
+      });
+
+      expect(result.modified).toEqual([]);
+      const rows = await db.select()
+        .from(canvasElementsTable)
+        .where(eq(canvasElementsTable.id, locked))
+        .execute();
+      expect((rows[0].fill as any).color).toBe('#3B82F6');
+    });
+
+    it('should still create elements when the prompt asks to add', async () => {
+      const elementId = await insertElement();
+
+      const result = await aiGenerateElements({
+        canvasId: testCanvasId,
+        prompt: 'add a red circle next to this',
+        contextElementIds: [elementId]
+      });
+
+      expect(result.created).toHaveLength(1);
+      expect(result.created[0].type).toBe('circle');
+      expect(result.modified).toEqual([]);
+    });
+
+    it('should create shapes that no context element is', async () => {
+      const elementId = await insertElement();
+
+      const nextTo = await aiGenerateElements({
+        canvasId: testCanvasId,
+        prompt: 'put a star next to it',
+        contextElementIds: [elementId]
+      });
+      const made = await aiGenerateElements({
+        canvasId: testCanvasId,
+        prompt: 'make a red circle',
+        contextElementIds: [elementId]
+      });
+
+      expect(nextTo.created.map(element => element.type)).toEqual(['star']);
+      expect(made.created.map(element => element.type)).toEqual(['circle']);
+      expect(made.created[0].fill).toMatchObject({ color: '#EF4444' });
+      expect([...nextTo.modified, ...made.modified]).toEqual([]);
+      const rows = await db.select()
+        .from(canvasElementsTable)
+        .where(eq(canvasElementsTable.id, elementId))
+        .execute();
+      expect((rows[0].fill as any).color).toBe('#3B82F6');
+    });
+
+    it('should ignore scaling to nothing', async () => {
+      const elementId = await insertElement();
+
+      const result = await aiGenerateElements({
+        canvasId: testCanvasId,
+        prompt: 'make it 0x bigger',
+        contextElementIds: [elementId]
+      });
+
+      expect(result.modified).toEqual([]);
+    });
+
+    it('should skip proposed changes that do not fit the schema', async () => {
+      const first = await insertElement();
+      const second = await insertElement();
+      const provider: DesignProvider = {
+        name: 'test',
+        plan: async () => ({
+          create: [],
+          update: [
+            { id: first, dimensions: { width: 0, height: 100 } },
+            { id: second, dimensions: { width: 50, height: 100 } }
+          ]
+        })
+      };
+
+      const result = await aiGenerateElements(
+        { canvasId: testCanvasId, prompt: 'resize', contextElementIds: [first, second] },
+        provider
+      );
+
+      expect(result.modified.map(element => element.id)).toEqual([second]);
+      expect(result.modified[0].dimensions).toEqual({ width: 50, height: 100 });
+    });
+  });
+
   describe('multiple element types', () => {
-    it('should prioritize first element type in prompt', async () => {
+    it('should create every element type in prompt', async () => {
       const input: AIGenerateRequest = {
         canvasId: testCanvasId,
         prompt: 'Create a blue rectangle and add text that says "Label"'
       };
 
-      const result = await aiGenerateElements(input);
+      const { created: result } = await aiGenerateElements(input);
 
-      // Should create only one element (rectangle takes priority)
-      expect(result).toHaveLength(1);
+      expect(result).toHaveLength(2);
       expect(result[0].type).toBe('rectangle');
-      expect(result[0].fill?.color).toBe('#3B82F6'); // Blue
+      expect(result[0].fill).toMatchObject({ type: 'solid', color: '#3B82F6' }); // Blue
+      expect(result[1].type).toBe('text');
+      expect(result[1].textProps?.content).toEqual([{ text: 'Label' }]);
+    });
+
+    it('should bind each color to its own shape', async () => {
+      const input: AIGenerateRequest = {
+        canvasId: testCanvasId,
+        prompt: 'Add a red circle and a blue square'
+      };
+
+      const { created: result } = await aiGenerateElements(input);
+
+      expect(result).toHaveLength(2);
+      expect(result[0].type).toBe('circle');
+      expect(result[0].fill).toMatchObject({ type: 'solid', color: '#EF4444' }); // Red
+      expect(result[1].type).toBe('rectangle');
+      expect(result[1].fill).toMatchObject({ type: 'solid', color: '#3B82F6' }); // Blue
+      expect(result[1].dimensions).toEqual({ width: 100, height: 100 });
+    });
+
+    it('should leave shapes without a color at the default', async () => {
+      const input: AIGenerateRequest = {
+        canvasId: testCanvasId,
+        prompt: 'a green box next to a circle'
+      };
+
+      const { created: result } = await aiGenerateElements(input);
+
+      expect(result.map(element => element.fill)).toMatchObject([{ type: 'solid', color: '#10B981' }, { type: 'solid', color: '#3B82F6' }]);
+    });
+
+    it('should apply colors that follow the last shape', async () => {
+      const input: AIGenerateRequest = {
+        canvasId: testCanvasId,
+        prompt: 'Draw a line in orange'
+      };
+
+      const { created: result } = await aiGenerateElements(input);
+
+      expect(result).toHaveLength(1);
+      expect(result[0].stroke?.color).toBe('#F97316'); // Orange
+    });
+
+    it('should assign quoted text to text elements in order', async () => {
+      const input: AIGenerateRequest = {
+        canvasId: testCanvasId,
+        prompt: 'Add a title "Red Square Inc" and a small label \'Since 1999\''
+      };
+
+      const { created: result } = await aiGenerateElements(input);
+
+      // Shape and color words inside quotes are content, not instructions
+      expect(result).toHaveLength(2);
+      expect(result[0].textProps?.content).toEqual([{ text: 'Red Square Inc' }]);
+      expect(result[0].textStyle?.fontSize).toBe(24);
+      expect(result[0].fill).toMatchObject({ type: 'solid', color: '#3B82F6' });
+      expect(result[1].textProps?.content).toEqual([{ text: 'Since 1999' }]);
+      expect(result[1].textStyle?.fontSize).toBe(12);
+    });
+  });
+
+  describe('quantities', () => {
+    it('should honor number words', async () => {
+      const input: AIGenerateRequest = {
+        canvasId: testCanvasId,
+        prompt: 'three circles'
+      };
+
+      const { created: result } = await aiGenerateElements(input);
+
+      expect(result).toHaveLength(3);
+      result.forEach(element => expect(element.type).toBe('circle'));
+    });
+
+    it('should honor digits and mix quantities per shape', async () => {
+      const input: AIGenerateRequest = {
+        canvasId: testCanvasId,
+        prompt: 'Add 2 yellow squares and four purple lines'
+      };
+
+      const { created: result } = await aiGenerateElements(input);
+
+      expect(result).toHaveLength(6);
+      expect(result.filter(element => element.type === 'rectangle')).toHaveLength(2);
+      expect(result.filter(element => element.type === 'line')).toHaveLength(4);
+      result.filter(element => element.type === 'line').forEach(line => {
+        expect(line.stroke?.color).toBe('#8B5CF6'); // Purple
+      });
+    });
+
+    it('should create several elements for a bare plural', async () => {
+      const input: AIGenerateRequest = {
+        canvasId: testCanvasId,
+        prompt: 'Draw some rectangles'
+      };
+
+      const { created: result } = await aiGenerateElements(input);
+
+      expect(result).toHaveLength(3);
+    });
+  });
+
+  describe('layout', () => {
+    it('should not stack multiple elements on top of each other', async () => {
+      const input: AIGenerateRequest = {
+        canvasId: testCanvasId,
+        prompt: 'five circles and a line'
+      };
+
+      const { created: result } = await aiGenerateElements(input);
+
+      expect(result).toHaveLength(6);
+      const boxes = result.map(element => element.type === 'line'
+        ? {
+            x: Math.min(element.lineProps!.x1, element.lineProps!.x2),
+            y: Math.min(element.lineProps!.y1, element.lineProps!.y2),
+            width: Math.abs(element.lineProps!.x2 - element.lineProps!.x1),
+            height: Math.abs(element.lineProps!.y2 - element.lineProps!.y1)
+          }
+        : { ...element.position, ...element.dimensions! });
+
+      for (let i = 0; i < boxes.length; i++) {
+        for (let j = i + 1; j < boxes.length; j++) {
+          const overlaps = boxes[i].x < boxes[j].x + boxes[j].width && boxes[j].x < boxes[i].x + boxes[i].width &&
+            boxes[i].y <= boxes[j].y + boxes[j].height && boxes[j].y <= boxes[i].y + boxes[i].height;
+          expect(overlaps).toBe(false);
+        }
+      }
+
+      // Everything stays on the canvas
+      boxes.forEach(box => {
+        expect(box.x).toBeGreaterThanOrEqual(0);
+        expect(box.x + box.width).toBeLessThanOrEqual(1920);
+      });
+
+      // Lines keep their position in step with their endpoints
+      const line = result.find(element => element.type === 'line')!;
+      expect(line.position.x).toBe(Math.min(line.lineProps!.x1, line.lineProps!.x2));
+    });
+
+    it('should wrap rows that would not fit on the canvas', async () => {
+      const smallCanvasId = randomUUID();
+      await db.insert(canvasTable).values({
+        id: smallCanvasId,
+        name: 'Small Canvas',
+        width: '400',
+        height: '400',
+      }).execute();
+
+      const { created: result } = await aiGenerateElements({ canvasId: smallCanvasId, prompt: 'four small circles' });
+
+      const rowsY = new Set(result.map(element => element.position.y));
+      expect(rowsY.size).toBeGreaterThan(1);
+      result.forEach(element => {
+        expect(element.position.x).toBeGreaterThanOrEqual(0);
+        expect(element.position.x + element.dimensions!.width).toBeLessThanOrEqual(400);
+      });
     });
   });
 });
\ No newline at end of file
@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { canvasTable } from '../db/schema';
+import { archiveCanvas } from '../handlers/archive_canvas';
+import { eq } from 'drizzle-orm';
+
+describe('archiveCanvas', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  beforeEach(async () => {
+    await db.insert(canvasTable)
+      .values({
+        id: 'test-canvas-id',
+        name: 'Test Canvas',
+        width: '800',
+        height: '600',
+        updatedAt: new Date('2024-01-01T00:00:00Z')
+      })
+      .execute();
+  });
+
+  it('should archive a canvas', async () => {
+    const result = await archiveCanvas({ id: 'test-canvas-id', archived: true });
+
+    expect(result.id).toBe('test-canvas-id');
+    expect(result.archivedAt).toBeInstanceOf(Date);
+    expect(result.updatedAt.getTime()).toBeGreaterThan(new Date('2024-01-01T00:00:00Z').getTime());
+    expect(result.width).toBe(800);
+    expect(typeof result.width).toBe('number');
+
+    const canvases = await db.select()
+      .from(canvasTable)
+      .where(eq(canvasTable.id, 'test-canvas-id'))
+      .execute();
+    expect(canvases[0].archivedAt).toBeInstanceOf(Date);
+  });
+
+  it('should restore an archived canvas', async () => {
+    await archiveCanvas({ id: 'test-canvas-id', archived: true });
+    const result = await archiveCanvas({ id: 'test-canvas-id', archived: false });
+
+    expect(result.archivedAt).toBeNull();
+
+    const canvases = await db.select()
+      .from(canvasTable)
+      .where(eq(canvasTable.id, 'test-canvas-id'))
+      .execute();
+    expect(canvases[0].archivedAt).toBeNull();
+  });
+
+  it('should throw error for non-existent canvas', async () => {
+    await expect(archiveCanvas({ id: 'non-existent-id', archived: true }))
+      .rejects.toThrow(/Canvas with id non-existent-id not found/i);
+  });
+});
@@ -0,0 +1,153 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { canvasTable, canvasElementsTable, operationLogTable } from '../db/schema';
+import { batchElements } from '../handlers/batch_elements';
+import { createElement } from '../handlers/create_element';
+import { undo } from '../handlers/undo';
+import { eq } from 'drizzle-orm';
+
+describe('batchElements', () => {
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(canvasTable)
+      .values([
+        { id: 'test-canvas', name: 'Test Canvas' },
+        { id: 'other-canvas', name: 'Other Canvas' }
+      ])
+      .execute();
+  });
+  afterEach(resetDB);
+
+  const createRectangle = (canvasId: string = 'test-canvas', x: number = 10) => createElement({
+    canvasId,
+    type: 'rectangle',
+    position: { x, y: 20 },
+    dimensions: { width: 100, height: 50 }
+  });
+
+  it('should apply creates, updates and deletes together', async () => {
+    const moved = await createRectangle();
+    const removed = await createRectangle('test-canvas', 200);
+
+    const result = await batchElements({
+      canvasId: 'test-canvas',
+      operations: [
+        { op: 'update', element: { id: moved.id, position: { x: 300, y: 400 } } },
+        { op: 'delete', id: removed.id },
+        { op: 'create', element: { type: 'text', position: { x: 5, y: 5 }, textProps: { content: [{ text: 'Hello' }] } } }
+      ]
+    });
+
+    expect(result.elements).toHaveLength(2);
+    expect(result.elements[0].id).toEqual(moved.id);
+    expect(result.elements[0].position).toEqual({ x: 300, y: 400 });
+    expect(result.elements[1].type).toEqual('text');
+    expect(result.elements[1].canvasId).toEqual('test-canvas');
+    expect(result.deletedElementIds).toEqual([removed.id]);
+
+    const rows = await db.select().from(canvasElementsTable).execute();
+    expect(rows).toHaveLength(2);
+    expect(rows.map(row => row.id)).not.toContain(removed.id);
+  });
+
+  it('should move many elements in one call', async () => {
+    const elements = await Promise.all(Array.from({ length: 50 }, (_, index) => createRectangle('test-canvas', index)));
+
+    const result = await batchElements({
+      canvasId: 'test-canvas',
+      operations: elements.map(element => ({
+        op: 'update' as const,
+        element: { id: element.id, position: { x: element.position.x + 10, y: 30 } }
+      }))
+    });
+
+    expect(result.elements).toHaveLength(50);
+    result.elements.forEach((element, index) => {
+      expect(element.position).toEqual({ x: index + 10, y: 30 });
+    });
+  });
+
+  it('should reject the whole batch when an element belongs to another canvas', async () => {
+    const own = await createRectangle();
+    const foreign = await createRectangle('other-canvas');
+
+    await expect(batchElements({
+      canvasId: 'test-canvas',
+      operations: [
+        { op: 'update', element: { id: own.id, position: { x: 300, y: 400 } } },
+        { op: 'delete', id: foreign.id }
+      ]
+    })).rejects.toThrow(/not found on canvas test-canvas: .*/);
+
+    const rows = await db.select().from(canvasElementsTable).where(eq(canvasElementsTable.id, own.id)).execute();
+    expect(parseFloat(rows[0].positionX)).toEqual(10);
+    const foreignRows = await db.select().from(canvasElementsTable).where(eq(canvasElementsTable.id, foreign.id)).execute();
+    expect(foreignRows).toHaveLength(1);
+  });
+
+  it('should reject a non-existent canvas', async () => {
+    await expect(batchElements({
+      canvasId: 'missing-canvas',
+      operations: [{ op: 'create', element: { type: 'rectangle', position: { x: 0, y: 0 } } }]
+    })).rejects.toThrow(/Canvas with id missing-canvas not found/);
+  });
+
+  it('should roll back earlier operations when a later one fails', async () => {
+    const first = await createRectangle();
+    const second = await createRectangle('test-canvas', 200);
+
+    await expect(batchElements({
+      canvasId: 'test-canvas',
+      operations: [
+        { op: 'create', element: { type: 'rectangle', position: { x: 0, y: 0 } } },
+        { op: 'update', element: { id: first.id, position: { x: 300, y: 400 } } },
+        { op: 'update', element: { id: second.id, position: { x: 1, y: 1 }, expectedUpdatedAt: new Date(0) } }
+      ]
+    })).rejects.toThrow(/changed by someone else/);
+
+    const rows = await db.select().from(canvasElementsTable).execute();
+    expect(rows).toHaveLength(2);
+    expect(parseFloat(rows.find(row => row.id === first.id)!.positionX)).toEqual(10);
+  });
+
+  it('should record the batch as a single undo step', async () => {
+    const first = await createRectangle();
+    const second = await createRectangle('test-canvas', 200);
+
+    await batchElements({
+      canvasId: 'test-canvas',
+      operations: [
+        { op: 'update', element: { id: first.id, position: { x: 300, y: 400 } } },
+        { op: 'delete', id: second.id },
+        { op: 'create', element: { type: 'rectangle', position: { x: 0, y: 0 } } }
+      ]
+    });
+
+    const operations = await db.select().from(operationLogTable).orderBy(operationLogTable.seq).execute();
+    const batchGroups = new Set(operations.slice(2).map(operation => operation.groupId));
+    expect(batchGroups.size).toEqual(1);
+
+    const result = await undo('test-canvas');
+    expect(result.applied).toBe(true);
+
+    const rows = await db.select().from(canvasElementsTable).execute();
+    expect(rows.map(row => row.id).sort()).toEqual([first.id, second.id].sort());
+    expect(parseFloat(rows.find(row => row.id === first.id)!.positionX)).toEqual(10);
+  });
+
+  it('should leave elements deleted later in the batch out of the result', async () => {
+    const element = await createRectangle();
+
+    const result = await batchElements({
+      canvasId: 'test-canvas',
+      operations: [
+        { op: 'update', element: { id: element.id, zIndex: 3 } },
+        { op: 'delete', id: element.id }
+      ]
+    });
+
+    expect(result.elements).toHaveLength(0);
+    expect(result.deletedElementIds).toEqual([element.id]);
+  });
+});
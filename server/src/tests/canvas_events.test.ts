@@ -0,0 +1,149 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { canvasTable } from '../db/schema';
+import { subscribeToCanvas } from '../events';
+import { type CanvasEvent } from '../schema';
+import { createElement } from '../handlers/create_element';
+import { updateElement } from '../handlers/update_element';
+import { deleteElement } from '../handlers/delete_element';
+import { batchElements } from '../handlers/batch_elements';
+import { sendChatMessage } from '../handlers/send_chat_message';
+import { undo } from '../handlers/undo';
+import { updateCanvas } from '../handlers/update_canvas';
+
+/**
+ * Collect the events published for a canvas until stop() is called
+ */
+function collectEvents(canvasId: string) {
+  const controller = new AbortController();
+  const events: CanvasEvent[] = [];
+  const done = (async () => {
+    for await (const event of subscribeToCanvas(canvasId, controller.signal)) {
+      events.push(event);
+    }
+  })();
+
+  return {
+    events,
+    stop: async () => {
+      controller.abort();
+      await done;
+    }
+  };
+}
+
+describe('canvas events', () => {
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(canvasTable)
+      .values([
+        { id: 'test-canvas', name: 'Test Canvas' },
+        { id: 'other-canvas', name: 'Other Canvas' }
+      ])
+      .execute();
+  });
+  afterEach(resetDB);
+
+  it('should broadcast element creation, update and deletion', async () => {
+    const subscription = collectEvents('test-canvas');
+
+    const element = await createElement({ canvasId: 'test-canvas', type: 'rectangle', position: { x: 0, y: 0 } });
+    await updateElement({ id: element.id, position: { x: 50, y: 60 } });
+    await deleteElement(element.id);
+    await subscription.stop();
+
+    expect(subscription.events.map(event => event.type)).toEqual(['elements.created', 'elements.updated', 'elements.deleted']);
+    const [created, updated, deleted] = subscription.events;
+    expect(created.type === 'elements.created' && created.elements[0].id).toEqual(element.id);
+    expect(updated.type === 'elements.updated' && updated.elements[0].position).toEqual({ x: 50, y: 60 });
+    expect(deleted.type === 'elements.deleted' && deleted.elementIds).toEqual([element.id]);
+  });
+
+  it('should broadcast a batch once it is committed', async () => {
+    const element = await createElement({ canvasId: 'test-canvas', type: 'rectangle', position: { x: 0, y: 0 } });
+    const subscription = collectEvents('test-canvas');
+
+    await batchElements({
+      canvasId: 'test-canvas',
+      operations: [
+        { op: 'create', element: { type: 'line', position: { x: 10, y: 10 } } },
+        { op: 'update', element: { id: element.id, zIndex: 3 } }
+      ]
+    });
+    await expect(batchElements({
+      canvasId: 'test-canvas',
+      operations: [{ op: 'delete', id: 'missing-element' }]
+    })).rejects.toThrow();
+    await subscription.stop();
+
+    expect(subscription.events.map(event => event.type)).toEqual(['elements.created', 'elements.updated']);
+  });
+
+  it('should only deliver events of the subscribed canvas', async () => {
+    const subscription = collectEvents('test-canvas');
+
+    await createElement({ canvasId: 'other-canvas', type: 'circle', position: { x: 0, y: 0 } });
+    await subscription.stop();
+
+    expect(subscription.events).toHaveLength(0);
+  });
+
+  it('should broadcast a chat turn once it is committed', async () => {
+    const subscription = collectEvents('test-canvas');
+
+    const result = await sendChatMessage({ canvasId: 'test-canvas', content: 'two red circles' });
+    await subscription.stop();
+
+    expect(subscription.events.map(event => event.type)).toEqual(['elements.created', 'chat.messages']);
+    const [created, chat] = subscription.events;
+    expect(created.type === 'elements.created' && created.elements).toHaveLength(2);
+    expect(chat.type === 'chat.messages' && chat.messages.map(message => message.id))
+      .toEqual([result.userMessage.id, result.assistantMessage.id]);
+  });
+
+  it('should not broadcast a chat turn that failed', async () => {
+    const subscription = collectEvents('missing-canvas');
+
+    await expect(sendChatMessage({ canvasId: 'missing-canvas', content: 'a circle' })).rejects.toThrow();
+    await subscription.stop();
+
+    expect(subscription.events).toHaveLength(0);
+  });
+
+  it('should broadcast the elements an undo step restored or removed', async () => {
+    const element = await createElement({ canvasId: 'test-canvas', type: 'rectangle', position: { x: 0, y: 0 } });
+    const subscription = collectEvents('test-canvas');
+
+    await undo('test-canvas');
+    await subscription.stop();
+
+    expect(subscription.events).toEqual([
+      { type: 'elements.deleted', elementIds: [element.id] },
+      { type: 'history.changed', canUndo: false, canRedo: true }
+    ]);
+  });
+
+  it('should not broadcast an undo with nothing to undo', async () => {
+    const subscription = collectEvents('test-canvas');
+
+    await undo('test-canvas');
+    await subscription.stop();
+
+    expect(subscription.events).toHaveLength(0);
+  });
+
+  it('should broadcast canvas property changes once they are committed', async () => {
+    const subscription = collectEvents('test-canvas');
+
+    const canvas = await updateCanvas({ id: 'test-canvas', name: 'Renamed', backgroundColor: '#112233' });
+    // Viewport saves are private to the editor that made them
+    await updateCanvas({ id: 'test-canvas', zoom: 2, panX: 10, panY: 20 });
+    await expect(updateCanvas({ id: 'test-canvas', name: 'Stale', expectedUpdatedAt: new Date(0) })).rejects.toThrow();
+    await subscription.stop();
+
+    expect(subscription.events).toEqual([{ type: 'canvas.updated', canvas }]);
+    const [updated] = subscription.events;
+    expect(updated.type === 'canvas.updated' && updated.canvas.name).toEqual('Renamed');
+  });
+});
@@ -1,8 +1,8 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { canvasTable, canvasElementsTable } from '../db/schema';
-import { type CreateElementInput } from '../schema';
+import { assetsTable, canvasTable, canvasElementsTable } from '../db/schema';
+import { createElementInputSchema, type CreateElementInput } from '../schema';
 import { createElement } from '../handlers/create_element';
 import { eq } from 'drizzle-orm';
 import { randomUUID } from 'crypto';
@@ -38,6 +38,7 @@ describe('createElement', () => {
       visible: true,
       locked: false,
       fill: {
+        type: 'solid',
         color: '#FF0000',
         opacity: 0.8
       },
@@ -69,6 +70,7 @@ describe('createElement', () => {
 
     // Verify style properties
     expect(result.fill).toEqual({
+      type: 'solid',
       color: '#FF0000',
       opacity: 0.8
     });
@@ -110,6 +112,13 @@ describe('createElement', () => {
     expect(result.rectangleProps).toBeNull();
     expect(result.lineProps).toBeNull();
     expect(result.textProps).toBeNull();
+    expect(result.ellipseProps).toBeNull();
+    expect(result.polygonProps).toBeNull();
+    expect(result.starProps).toBeNull();
+    expect(result.arrowProps).toBeNull();
+    expect(result.effects).toEqual([]);
+    expect(result.extraFills).toEqual([]);
+    expect(result.extraStrokes).toEqual([]);
   });
 
   it('should create a line element without dimensions', async () => {
@@ -151,6 +160,144 @@ describe('createElement', () => {
     });
   });
 
+  it('should create ellipse, polygon and star elements with their props', async () => {
+    const base = { canvasId: testCanvasId, position: { x: 10, y: 20 }, dimensions: { width: 120, height: 80 } };
+
+    const ellipse = await createElement({
+      ...base,
+      type: 'ellipse',
+      ellipseProps: { startAngle: 90, sweepAngle: 180, innerRadius: 0.5 }
+    });
+    const polygon = await createElement({ ...base, type: 'polygon', polygonProps: { sides: 8 } });
+    const star = await createElement({ ...base, type: 'star', starProps: { points: 6, innerRadius: 0.4 } });
+
+    expect(ellipse.type).toEqual('ellipse');
+    expect(ellipse.ellipseProps).toEqual({ startAngle: 90, sweepAngle: 180, innerRadius: 0.5 });
+    expect(polygon.type).toEqual('polygon');
+    expect(polygon.polygonProps).toEqual({ sides: 8 });
+    expect(star.type).toEqual('star');
+    expect(star.starProps).toEqual({ points: 6, innerRadius: 0.4 });
+    expect(star.polygonProps).toBeNull();
+    expect(star.dimensions).toEqual({ width: 120, height: 80 });
+  });
+
+  it('should store the transform of an element', async () => {
+    const transform = { rotation: 45, scaleX: -1, scaleY: 2, skewX: 10, skewY: 0, originX: 0, originY: 1 };
+    const result = await createElement({
+      type: 'rectangle',
+      canvasId: testCanvasId,
+      position: { x: 10, y: 20 },
+      dimensions: { width: 120, height: 80 },
+      transform
+    });
+
+    expect(result.transform).toEqual(transform);
+
+    const rows = await db.select().from(canvasElementsTable).where(eq(canvasElementsTable.id, result.id)).execute();
+    expect(rows[0].transform).toEqual(transform);
+  });
+
+  it('should create an arrow element positioned by its endpoints', async () => {
+    const result = await createElement({
+      type: 'arrow',
+      canvasId: testCanvasId,
+      position: { x: 10, y: 10 },
+      stroke: { color: '#111827', width: 2, opacity: 1, cap: 'round', join: 'miter' },
+      arrowProps: { x1: 10, y1: 50, x2: 200, y2: 10, startHead: 'circle', endHead: 'open' }
+    });
+
+    expect(result.type).toEqual('arrow');
+    expect(result.dimensions).toBeUndefined();
+    expect(result.arrowProps).toEqual({ x1: 10, y1: 50, x2: 200, y2: 10, startHead: 'circle', endHead: 'open' });
+
+    const rows = await db.select().from(canvasElementsTable).where(eq(canvasElementsTable.id, result.id)).execute();
+    expect(rows[0].type).toEqual('arrow');
+    expect(rows[0].arrowProps).toEqual(result.arrowProps);
+  });
+
+  it('should position a path by the bounding box of its commands', async () => {
+    const result = await createElement({
+      type: 'path',
+      canvasId: testCanvasId,
+      position: { x: 0, y: 0 },
+      stroke: { color: '#111827', width: 2, opacity: 1, cap: 'round', join: 'round' },
+      pathProps: {
+        commands: [
+          { type: 'move', x: 50, y: 200 },
+          { type: 'cubic', x1: 50, y1: 100, x2: 150, y2: 100, x: 150, y: 200 },
+          { type: 'line', x: 100, y: 250 },
+          { type: 'close' }
+        ],
+        fillRule: 'evenodd'
+      }
+    });
+
+    expect(result.type).toEqual('path');
+    expect(result.position).toEqual({ x: 50, y: 125 });
+    expect(result.dimensions).toEqual({ width: 100, height: 125 });
+    expect(result.pathProps?.commands).toHaveLength(4);
+    expect(result.pathProps?.fillRule).toEqual('evenodd');
+  });
+
+  it('should create an image element showing an asset of the canvas', async () => {
+    await db.insert(assetsTable)
+      .values({
+        id: 'asset-1',
+        canvasId: testCanvasId,
+        fileName: 'photo.jpg',
+        mimeType: 'image/jpeg',
+        size: 2048,
+        width: 800,
+        height: 600,
+        storageKey: `${testCanvasId}/asset-1`
+      })
+      .execute();
+
+    const result = await createElement({
+      type: 'image',
+      canvasId: testCanvasId,
+      position: { x: 100, y: 100 },
+      dimensions: { width: 200, height: 200 },
+      imageProps: { assetId: 'asset-1', fit: 'cover', crop: { x: 100, y: 0, width: 600, height: 600 } }
+    });
+
+    expect(result.type).toEqual('image');
+    expect(result.imageProps).toEqual({ assetId: 'asset-1', fit: 'cover', crop: { x: 100, y: 0, width: 600, height: 600 } });
+
+    // Crops must stay within the source image
+    await expect(createElement({
+      type: 'image',
+      canvasId: testCanvasId,
+      position: { x: 0, y: 0 },
+      dimensions: { width: 200, height: 200 },
+      imageProps: { assetId: 'asset-1', fit: 'fill', crop: { x: 400, y: 0, width: 600, height: 600 } }
+    })).rejects.toThrow(/crop extends past/i);
+  });
+
+  it('should reject images of assets from other canvases', async () => {
+    await db.insert(canvasTable)
+      .values({ id: 'other-canvas', name: 'Other' })
+      .execute();
+    await db.insert(assetsTable)
+      .values({
+        id: 'foreign-asset',
+        canvasId: 'other-canvas',
+        fileName: 'logo.png',
+        mimeType: 'image/png',
+        size: 100,
+        storageKey: 'other-canvas/foreign-asset'
+      })
+      .execute();
+
+    await expect(createElement({
+      type: 'image',
+      canvasId: testCanvasId,
+      position: { x: 0, y: 0 },
+      dimensions: { width: 100, height: 100 },
+      imageProps: { assetId: 'foreign-asset', fit: 'contain', crop: null }
+    })).rejects.toThrow(/assets not found/i);
+  });
+
   it('should create a text element', async () => {
     const input: CreateElementInput = {
       type: 'text',
@@ -165,10 +312,11 @@ describe('createElement', () => {
         lineHeight: 1.4
       },
       textProps: {
-        content: 'Hello World',
+        content: [{ text: 'Hello ' }, { text: 'World', fontWeight: 700, italic: true, color: '#FF0000' }],
         maxWidth: 200
       },
       fill: {
+        type: 'solid',
         color: '#333333',
         opacity: 1
       }
@@ -185,10 +333,11 @@ describe('createElement', () => {
       lineHeight: 1.4
     });
     expect(result.textProps).toEqual({
-      content: 'Hello World',
+      content: [{ text: 'Hello ' }, { text: 'World', fontWeight: 700, italic: true, color: '#FF0000' }],
       maxWidth: 200
     });
     expect(result.fill).toEqual({
+      type: 'solid',
       color: '#333333',
       opacity: 1
     });
@@ -263,6 +412,7 @@ describe('createElement', () => {
       position: { x: 0, y: 0 },
       dimensions: { width: 100, height: 100 },
       fill: {
+        type: 'solid',
         color: '#FF5733',
         opacity: 0.75
       },
@@ -282,6 +432,7 @@ describe('createElement', () => {
 
     // Verify complex JSONB data is stored and retrieved correctly
     expect(result.fill).toEqual({
+      type: 'solid',
       color: '#FF5733',
       opacity: 0.75
     });
@@ -304,6 +455,7 @@ describe('createElement', () => {
 
     const element = elements[0];
     expect(element.fill).toEqual({
+      type: 'solid',
       color: '#FF5733',
       opacity: 0.75
     });
@@ -315,4 +467,173 @@ describe('createElement', () => {
       join: 'bevel'
     });
   });
-});
\ No newline at end of file
+
+  it('should store gradient fills with their defaults', async () => {
+    const result = await createElement(createElementInputSchema.parse({
+      canvasId: testCanvasId,
+      type: 'rectangle',
+      position: { x: 0, y: 0 },
+      dimensions: { width: 100, height: 100 },
+      fill: {
+        type: 'linear',
+        angle: 90,
+        stops: [{ offset: 0, color: '#FF0000' }, { offset: 1, color: '#0000FF', opacity: 0.5 }]
+      }
+    }));
+
+    expect(result.fill).toEqual({
+      type: 'linear',
+      angle: 90,
+      stops: [{ offset: 0, color: '#FF0000', opacity: 1 }, { offset: 1, color: '#0000FF', opacity: 0.5 }],
+      opacity: 1
+    });
+
+    const radial = await createElement(createElementInputSchema.parse({
+      canvasId: testCanvasId,
+      type: 'ellipse',
+      position: { x: 0, y: 0 },
+      dimensions: { width: 100, height: 50 },
+      fill: { type: 'radial', stops: [{ offset: 0, color: '#FFFFFF' }, { offset: 1, color: '#000000' }] }
+    }));
+
+    expect(radial.fill).toEqual({
+      type: 'radial',
+      center: { x: 0.5, y: 0.5 },
+      radius: 0.5,
+      stops: [{ offset: 0, color: '#FFFFFF', opacity: 1 }, { offset: 1, color: '#000000', opacity: 1 }],
+      opacity: 1
+    });
+  });
+
+  it('should read fills without a type as solid', () => {
+    const input = createElementInputSchema.parse({
+      canvasId: testCanvasId,
+      type: 'rectangle',
+      position: { x: 0, y: 0 },
+      fill: { color: '#FF0000' }
+    });
+
+    expect(input.fill).toEqual({ type: 'solid', color: '#FF0000', opacity: 1 });
+  });
+
+  it('should reject sizes that would be stored as zero', () => {
+    expect(createElementInputSchema.safeParse({
+      canvasId: testCanvasId,
+      type: 'rectangle',
+      position: { x: 0, y: 0 },
+      dimensions: { width: 0.001, height: 10 }
+    }).success).toBe(false);
+  });
+
+  it('should reject gradients with fewer than two stops', () => {
+    expect(createElementInputSchema.safeParse({
+      canvasId: testCanvasId,
+      type: 'rectangle',
+      position: { x: 0, y: 0 },
+      fill: { type: 'linear', stops: [{ offset: 0, color: '#FF0000' }] }
+    }).success).toBe(false);
+  });
+
+  it('should store effects with their defaults', async () => {
+    const result = await createElement(createElementInputSchema.parse({
+      canvasId: testCanvasId,
+      type: 'rectangle',
+      position: { x: 0, y: 0 },
+      dimensions: { width: 100, height: 100 },
+      effects: [
+        { type: 'drop-shadow', offset: { x: 2, y: 6 }, blur: 12, color: '#111827' },
+        { type: 'inner-shadow', spread: -2 },
+        { type: 'background-blur', blur: 20 }
+      ]
+    }));
+
+    expect(result.effects).toEqual([
+      { type: 'drop-shadow', visible: true, offset: { x: 2, y: 6 }, blur: 12, spread: 0, color: '#111827', opacity: 0.25 },
+      { type: 'inner-shadow', visible: true, offset: { x: 0, y: 4 }, blur: 4, spread: -2, color: '#000000', opacity: 0.25 },
+      { type: 'background-blur', visible: true, blur: 20 }
+    ]);
+
+    const [row] = await db.select().from(canvasElementsTable).where(eq(canvasElementsTable.id, result.id)).execute();
+    expect(row.effects).toEqual(result.effects);
+  });
+
+  it('should reject effects of unknown types', () => {
+    expect(createElementInputSchema.safeParse({
+      canvasId: testCanvasId,
+      type: 'rectangle',
+      position: { x: 0, y: 0 },
+      effects: [{ type: 'glow', blur: 4 }]
+    }).success).toBe(false);
+  });
+
+  it('should store dashed, aligned and stacked fills and strokes', async () => {
+    const result = await createElement(createElementInputSchema.parse({
+      canvasId: testCanvasId,
+      type: 'rectangle',
+      position: { x: 0, y: 0 },
+      dimensions: { width: 100, height: 100 },
+      fill: { type: 'solid', color: '#FF0000' },
+      stroke: { color: '#000000', width: 4, dashArray: [8, 4], dashOffset: 2, align: 'inside' },
+      extraFills: [
+        { type: 'linear', stops: [{ offset: 0, color: '#FFFFFF' }, { offset: 1, color: '#000000' }], blendMode: 'multiply' }
+      ],
+      extraStrokes: [{ color: '#FFFFFF', width: 1, align: 'outside', blendMode: 'screen' }]
+    }));
+
+    expect(result.stroke).toEqual({
+      color: '#000000',
+      width: 4,
+      opacity: 1,
+      cap: 'butt',
+      join: 'miter',
+      dashArray: [8, 4],
+      dashOffset: 2,
+      align: 'inside'
+    });
+    expect(result.extraFills).toEqual([{
+      type: 'linear',
+      angle: 0,
+      stops: [{ offset: 0, color: '#FFFFFF', opacity: 1 }, { offset: 1, color: '#000000', opacity: 1 }],
+      opacity: 1,
+      blendMode: 'multiply'
+    }]);
+    expect(result.extraStrokes).toEqual([
+      { color: '#FFFFFF', width: 1, opacity: 1, cap: 'butt', join: 'miter', align: 'outside', blendMode: 'screen' }
+    ]);
+
+    const [row] = await db.select().from(canvasElementsTable).where(eq(canvasElementsTable.id, result.id)).execute();
+    expect(row.extraFills).toEqual(result.extraFills);
+    expect(row.extraStrokes).toEqual(result.extraStrokes);
+  });
+
+  it('should reject negative dash lengths and unknown blend modes', () => {
+    const input = { canvasId: testCanvasId, type: 'rectangle', position: { x: 0, y: 0 } };
+
+    expect(createElementInputSchema.safeParse({ ...input, stroke: { color: '#000000', dashArray: [4, -2] } }).success)
+      .toBe(false);
+    expect(createElementInputSchema.safeParse({
+      ...input,
+      extraFills: [{ type: 'solid', color: '#000000', blendMode: 'glow' }]
+    }).success).toBe(false);
+  });
+
+  it('should read plain text content as a single run', () => {
+    const input = createElementInputSchema.parse({
+      canvasId: testCanvasId,
+      type: 'text',
+      position: { x: 0, y: 0 },
+      textProps: { content: 'Hello\nWorld' }
+    });
+
+    expect(input.textProps).toEqual({ content: [{ text: 'Hello\nWorld' }] });
+  });
+
+  it('should reject text runs with invalid styling', () => {
+    const input = { canvasId: testCanvasId, type: 'text', position: { x: 0, y: 0 } };
+
+    expect(createElementInputSchema.safeParse({ ...input, textProps: { content: [{ text: 'Hi', fontSize: 0 }] } }).success)
+      .toBe(false);
+    expect(createElementInputSchema.safeParse({ ...input, textProps: { content: [{ text: 'Hi', color: 'red' }] } }).success)
+      .toBe(false);
+  });
+});
@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { canvasTable, canvasElementsTable, canvasSnapshotsTable } from '../db/schema';
+import { createSnapshot } from '../handlers/create_snapshot';
+import { eq } from 'drizzle-orm';
+
+describe('createSnapshot', () => {
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(canvasTable)
+      .values({ id: 'test-canvas', name: 'Test Canvas', width: '800', height: '600' })
+      .execute();
+  });
+  afterEach(resetDB);
+
+  it('should store the canvas and all of its elements', async () => {
+    await db.insert(canvasElementsTable)
+      .values([
+        { id: 'element-1', type: 'rectangle', canvasId: 'test-canvas', positionX: '10', positionY: '20', width: '100', height: '50' },
+        { id: 'element-2', type: 'circle', canvasId: 'test-canvas', positionX: '200', positionY: '200', width: '80', height: '80', zIndex: 1 }
+      ])
+      .execute();
+
+    const result = await createSnapshot({ canvasId: 'test-canvas', label: 'Before AI run' });
+
+    expect(result.id).toBeDefined();
+    expect(result.canvasId).toEqual('test-canvas');
+    expect(result.label).toEqual('Before AI run');
+    expect(result.elementCount).toEqual(2);
+    expect(result.createdAt).toBeInstanceOf(Date);
+
+    const stored = await db.select()
+      .from(canvasSnapshotsTable)
+      .where(eq(canvasSnapshotsTable.id, result.id))
+      .execute();
+    expect(stored).toHaveLength(1);
+    expect((stored[0].canvas as any).width).toEqual('800.00');
+    expect((stored[0].elements as any[]).map(element => element.id)).toEqual(['element-1', 'element-2']);
+  });
+
+  it('should not change when the canvas is edited afterwards', async () => {
+    await db.insert(canvasElementsTable)
+      .values({ id: 'element-1', type: 'rectangle', canvasId: 'test-canvas', positionX: '10', positionY: '20' })
+      .execute();
+    const result = await createSnapshot({ canvasId: 'test-canvas', label: 'v1' });
+
+    await db.update(canvasElementsTable)
+      .set({ positionX: '500' })
+      .where(eq(canvasElementsTable.id, 'element-1'))
+      .execute();
+
+    const stored = await db.select()
+      .from(canvasSnapshotsTable)
+      .where(eq(canvasSnapshotsTable.id, result.id))
+      .execute();
+    expect((stored[0].elements as any[])[0].positionX).toEqual('10.00');
+  });
+
+  it('should snapshot an empty canvas', async () => {
+    const result = await createSnapshot({ canvasId: 'test-canvas', label: 'Empty' });
+
+    expect(result.elementCount).toEqual(0);
+  });
+
+  it('should throw error for non-existent canvas', async () => {
+    await expect(createSnapshot({ canvasId: 'missing-canvas', label: 'v1' }))
+      .rejects.toThrow(/Canvas with id missing-canvas not found/i);
+  });
+});
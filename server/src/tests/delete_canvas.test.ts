@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { assetsTable, canvasTable, canvasElementsTable, chatMessagesTable } from '../db/schema';
+import { deleteCanvas } from '../handlers/delete_canvas';
+import { createLocalAssetStorage } from '../storage';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { eq } from 'drizzle-orm';
+
+describe('deleteCanvas', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should delete a canvas with its elements and chat messages', async () => {
+    await db.insert(canvasTable)
+      .values({ id: 'test-canvas-id', name: 'Test Canvas' })
+      .execute();
+
+    await db.insert(canvasElementsTable)
+      .values({
+        id: 'test-element-id',
+        type: 'rectangle',
+        canvasId: 'test-canvas-id',
+        positionX: '100',
+        positionY: '200',
+        width: '150',
+        height: '100'
+      })
+      .execute();
+
+    await db.insert(chatMessagesTable)
+      .values({
+        id: 'test-message-id',
+        canvasId: 'test-canvas-id',
+        role: 'user',
+        content: 'Add a rectangle'
+      })
+      .execute();
+
+    await deleteCanvas('test-canvas-id');
+
+    const canvases = await db.select().from(canvasTable).execute();
+    expect(canvases).toHaveLength(0);
+
+    // Dependent rows are removed by the cascading foreign keys
+    const elements = await db.select().from(canvasElementsTable).execute();
+    expect(elements).toHaveLength(0);
+
+    const messages = await db.select().from(chatMessagesTable).execute();
+    expect(messages).toHaveLength(0);
+  });
+
+  it('should delete the files of the canvas\'s assets', async () => {
+    const storageDir = await mkdtemp(join(tmpdir(), 'assets-'));
+    const storage = createLocalAssetStorage(storageDir);
+    try {
+      await db.insert(canvasTable)
+        .values([{ id: 'canvas-1', name: 'Canvas 1' }, { id: 'canvas-2', name: 'Canvas 2' }])
+        .execute();
+      await db.insert(assetsTable)
+        .values([
+          { id: 'asset-1', canvasId: 'canvas-1', fileName: 'a.png', mimeType: 'image/png', size: 1, storageKey: 'canvas-1/asset-1' },
+          { id: 'asset-2', canvasId: 'canvas-2', fileName: 'b.png', mimeType: 'image/png', size: 1, storageKey: 'canvas-2/asset-2' }
+        ])
+        .execute();
+      await storage.put('canvas-1/asset-1', Buffer.from('a'));
+      await storage.put('canvas-2/asset-2', Buffer.from('b'));
+
+      await deleteCanvas('canvas-1', storage);
+
+      const assets = await db.select().from(assetsTable).execute();
+      expect(assets.map(asset => asset.id)).toEqual(['asset-2']);
+      expect(await storage.get('canvas-1/asset-1')).toBeNull();
+      expect(await storage.get('canvas-2/asset-2')).toEqual(Buffer.from('b'));
+    } finally {
+      await rm(storageDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should handle deletion of non-existent canvas gracefully', async () => {
+    await expect(deleteCanvas('non-existent-id')).resolves.toBeUndefined();
+  });
+
+  it('should delete specific canvas without affecting others', async () => {
+    await db.insert(canvasTable)
+      .values([
+        { id: 'canvas-1', name: 'Canvas 1' },
+        { id: 'canvas-2', name: 'Canvas 2' }
+      ])
+      .execute();
+
+    await db.insert(canvasElementsTable)
+      .values({
+        id: 'element-2',
+        type: 'circle',
+        canvasId: 'canvas-2',
+        positionX: '0',
+        positionY: '0',
+        width: '50',
+        height: '50'
+      })
+      .execute();
+
+    await deleteCanvas('canvas-1');
+
+    const remaining = await db.select().from(canvasTable).execute();
+    expect(remaining.map(c => c.id)).toEqual(['canvas-2']);
+
+    const elements = await db.select()
+      .from(canvasElementsTable)
+      .where(eq(canvasElementsTable.canvasId, 'canvas-2'))
+      .execute();
+    expect(elements).toHaveLength(1);
+  });
+});
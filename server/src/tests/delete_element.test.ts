@@ -3,6 +3,8 @@ import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
 import { canvasTable, canvasElementsTable } from '../db/schema';
 import { deleteElement } from '../handlers/delete_element';
+import { createElement } from '../handlers/create_element';
+import { groupElements } from '../handlers/group_elements';
 import { eq } from 'drizzle-orm';
 
 describe('deleteElement', () => {
@@ -170,4 +172,30 @@ describe('deleteElement', () => {
     expect(remaining[0].id).toBe('line-element');
     expect(remaining[0].type).toBe('line');
   });
-});
\ No newline at end of file
+
+  it('should delete the members of a group along with it and refit the group it was in', async () => {
+    await db.insert(canvasTable)
+      .values({ id: 'test-canvas-id', name: 'Test Canvas' })
+      .execute();
+
+    const createRectangle = (x: number) => createElement({
+      canvasId: 'test-canvas-id',
+      type: 'rectangle',
+      position: { x, y: 0 },
+      dimensions: { width: 100, height: 50 }
+    });
+    const first = await createRectangle(0);
+    const second = await createRectangle(200);
+    const third = await createRectangle(400);
+    const inner = (await groupElements({ canvasId: 'test-canvas-id', elementIds: [second.id, third.id] })).elements[0];
+    const outer = (await groupElements({ canvasId: 'test-canvas-id', elementIds: [first.id, inner.id] })).elements[0];
+
+    await deleteElement(inner.id);
+
+    const remaining = await db.select().from(canvasElementsTable).execute();
+    expect(remaining.map(row => row.id).sort()).toEqual([first.id, outer.id].sort());
+
+    const refitted = remaining.find(row => row.id === outer.id)!;
+    expect(parseFloat(refitted.width!)).toEqual(100);
+  });
+});
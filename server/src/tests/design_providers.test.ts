@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'bun:test';
+import { localDesignProvider } from '../ai/local_provider';
+import { CREATE_ELEMENT_TOOL, UPDATE_ELEMENT_TOOL, parseElementChange, parseElementPlan } from '../ai/tools';
+import { getDesignProvider } from '../ai';
+import { type DesignContext } from '../ai/types';
+
+const context: DesignContext = {
+  canvasWidth: 800,
+  canvasHeight: 600,
+  contextElements: []
+};
+
+describe('design providers', () => {
+  describe('create_element tool', () => {
+    it('should derive its parameters from the element input schema', () => {
+      const parameters = CREATE_ELEMENT_TOOL.parameters as any;
+
+      expect(parameters.type).toBe('object');
+      expect(parameters.properties.type.enum).toEqual(['rectangle', 'circle', 'line', 'text', 'ellipse', 'polygon', 'star', 'arrow', 'path']);
+      expect(parameters.properties.position.required).toEqual(['x', 'y']);
+      expect(parameters.required).toContain('type');
+      // The canvas is chosen by the caller, never by the model
+      expect(parameters.properties.canvasId).toBeUndefined();
+      expect(parameters.properties.imageProps).toBeUndefined();
+    });
+
+    it('should accept valid arguments given as JSON', () => {
+      const plan = parseElementPlan(JSON.stringify({
+        type: 'rectangle',
+        position: { x: 10, y: 20 },
+        dimensions: { width: 100, height: 50 },
+        fill: { color: '#FF0000' }
+      }));
+
+      expect(plan).not.toBeNull();
+      expect(plan!.type).toBe('rectangle');
+      // Schema defaults are applied
+      expect(plan!.fill).toEqual({ type: 'solid', color: '#FF0000', opacity: 1 });
+    });
+
+    it('should reject arguments that do not fit the schema', () => {
+      expect(parseElementPlan({ type: 'hexagon', position: { x: 0, y: 0 } })).toBeNull();
+      expect(parseElementPlan({ type: 'rectangle', position: { x: 0, y: 0 }, fill: { color: 'red' } })).toBeNull();
+      expect(parseElementPlan('{not json')).toBeNull();
+      // Paths must start by moving to their first point
+      expect(parseElementPlan({
+        type: 'path',
+        position: { x: 0, y: 0 },
+        pathProps: { commands: [{ type: 'line', x: 10, y: 10 }, { type: 'line', x: 20, y: 0 }] }
+      })).toBeNull();
+    });
+
+    it('should reject images and groups', () => {
+      // An image would need an asset the user uploaded, and a group would be created empty
+      expect(parseElementPlan({
+        type: 'image',
+        position: { x: 0, y: 0 },
+        dimensions: { width: 100, height: 100 },
+        imageProps: { assetId: 'made-up-asset' }
+      })).toBeNull();
+      expect(parseElementPlan({ type: 'group', position: { x: 0, y: 0 } })).toBeNull();
+    });
+  });
+
+  describe('update_element tool', () => {
+    it('should derive its parameters from the element update schema', () => {
+      const parameters = UPDATE_ELEMENT_TOOL.parameters as any;
+
+      expect(parameters.required).toEqual(['id']);
+      expect(parameters.properties.fill).toBeDefined();
+      expect(parameters.properties.type).toBeUndefined();
+    });
+
+    it('should validate change arguments', () => {
+      expect(parseElementChange('{"id":"element-1","fill":{"color":"#00FF00"}}'))
+        .toEqual({ id: 'element-1', fill: { type: 'solid', color: '#00FF00', opacity: 1 } });
+      expect(parseElementChange({ fill: { color: '#00FF00' } })).toBeNull();
+    });
+  });
+
+  describe('local provider', () => {
+    it('should be the default provider', () => {
+      expect(getDesignProvider().name).toBe('local');
+    });
+
+    it('should plan deterministically', async () => {
+      const first = await localDesignProvider.plan('Add a green rounded rectangle', context);
+      const second = await localDesignProvider.plan('Add a green rounded rectangle', context);
+
+      expect(first).toEqual(second);
+      expect(first.update).toEqual([]);
+      expect(first.create).toHaveLength(1);
+      expect(first.create[0].type).toBe('rectangle');
+      expect(first.create[0].fill).toMatchObject({ type: 'solid', color: '#10B981' });
+      expect(first.create[0].rectangleProps?.borderRadius).toBe(10);
+      // Centered on the canvas
+      expect(first.create[0].position).toEqual({ x: 325, y: 250 });
+    });
+
+    it('should create polygons, stars and arrows', async () => {
+      const plan = await localDesignProvider.plan('Add a yellow star, a triangle and an arrow', context);
+
+      expect(plan.create.map(element => element.type)).toEqual(['star', 'polygon', 'arrow']);
+      expect(plan.create[0].fill).toMatchObject({ type: 'solid', color: '#F59E0B' });
+      expect(plan.create[0].starProps).toEqual({ points: 5, innerRadius: 0.5 });
+      expect(plan.create[1].polygonProps).toEqual({ sides: 3 });
+      // Laid out in a row, the arrow's endpoints move with it
+      const arrow = plan.create[2];
+      expect(arrow.arrowProps?.endHead).toBe('triangle');
+      expect(arrow.position.x).toBe(Math.min(arrow.arrowProps!.x1, arrow.arrowProps!.x2));
+    });
+
+    it('should produce plans that satisfy the tool schema', async () => {
+      const prompts = ['a red circle', 'a line', 'a title "Welcome"', 'an oval, a hexagon, a star and an arrow', 'something else'];
+
+      for (const prompt of prompts) {
+        const plan = await localDesignProvider.plan(prompt, context);
+        plan.create.forEach(element => expect(parseElementPlan(element)).toEqual(element));
+      }
+    });
+  });
+});
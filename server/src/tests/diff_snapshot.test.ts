@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { canvasTable, canvasElementsTable, canvasSnapshotsTable } from '../db/schema';
+import { createSnapshot } from '../handlers/create_snapshot';
+import { diffSnapshot } from '../handlers/diff_snapshot';
+import { eq } from 'drizzle-orm';
+
+describe('diffSnapshot', () => {
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(canvasTable)
+      .values([
+        { id: 'test-canvas', name: 'Test Canvas' },
+        { id: 'other-canvas', name: 'Other Canvas' }
+      ])
+      .execute();
+    await db.insert(canvasElementsTable)
+      .values([
+        {
+          id: 'kept',
+          type: 'rectangle',
+          canvasId: 'test-canvas',
+          positionX: '10',
+          positionY: '10',
+          fill: { color: '#ff0000', opacity: 1 }
+        },
+        { id: 'moved', type: 'circle', canvasId: 'test-canvas', positionX: '100', positionY: '100' },
+        { id: 'removed', type: 'line', canvasId: 'test-canvas', positionX: '0', positionY: '0' }
+      ])
+      .execute();
+  });
+  afterEach(resetDB);
+
+  it('should compare a snapshot with the current canvas', async () => {
+    const snapshot = await createSnapshot({ canvasId: 'test-canvas', label: 'v1' });
+
+    await db.update(canvasElementsTable)
+      .set({ positionX: '300', updatedAt: new Date() })
+      .where(eq(canvasElementsTable.id, 'moved'))
+      .execute();
+    await db.delete(canvasElementsTable)
+      .where(eq(canvasElementsTable.id, 'removed'))
+      .execute();
+    await db.insert(canvasElementsTable)
+      .values({ id: 'added', type: 'text', canvasId: 'test-canvas', positionX: '50', positionY: '50' })
+      .execute();
+
+    const result = await diffSnapshot({ snapshotId: snapshot.id });
+
+    expect(result.added.map(element => element.id)).toEqual(['added']);
+    expect(result.removed.map(element => element.id)).toEqual(['removed']);
+    expect(result.modified).toHaveLength(1);
+    expect(result.modified[0].before.position).toEqual({ x: 100, y: 100 });
+    expect(result.modified[0].after.position).toEqual({ x: 300, y: 100 });
+    expect(result.unchangedCount).toEqual(1);
+  });
+
+  it('should ignore timestamp-only changes', async () => {
+    const snapshot = await createSnapshot({ canvasId: 'test-canvas', label: 'v1' });
+    await db.update(canvasElementsTable)
+      .set({ updatedAt: new Date(Date.now() + 1000) })
+      .execute();
+
+    const result = await diffSnapshot({ snapshotId: snapshot.id });
+
+    expect(result.modified).toHaveLength(0);
+    expect(result.unchangedCount).toEqual(3);
+  });
+
+  it('should not report elements as modified for columns added after the snapshot', async () => {
+    const snapshot = await createSnapshot({ canvasId: 'test-canvas', label: 'v1' });
+    // Snapshots taken before groups, transforms, effects, layers and the newer shapes have none of their keys
+    const newerColumns = [
+      'parentId', 'transform', 'effects', 'extraFills', 'extraStrokes',
+      'ellipseProps', 'polygonProps', 'starProps', 'arrowProps', 'pathProps', 'imageProps'
+    ];
+    const [stored] = await db.select().from(canvasSnapshotsTable).where(eq(canvasSnapshotsTable.id, snapshot.id)).execute();
+    const olderElements = (stored.elements as Record<string, unknown>[]).map(element =>
+      Object.fromEntries(Object.entries(element).filter(([key]) => !newerColumns.includes(key)))
+    );
+    await db.update(canvasSnapshotsTable)
+      .set({ elements: olderElements })
+      .where(eq(canvasSnapshotsTable.id, snapshot.id))
+      .execute();
+
+    const result = await diffSnapshot({ snapshotId: snapshot.id });
+
+    expect(result.modified).toHaveLength(0);
+    expect(result.unchangedCount).toEqual(3);
+  });
+
+  it('should compare two snapshots', async () => {
+    const first = await createSnapshot({ canvasId: 'test-canvas', label: 'v1' });
+    await db.update(canvasElementsTable)
+      .set({ fill: { color: '#0000ff', opacity: 1 } })
+      .where(eq(canvasElementsTable.id, 'kept'))
+      .execute();
+    const second = await createSnapshot({ canvasId: 'test-canvas', label: 'v2' });
+    await db.delete(canvasElementsTable).execute();
+
+    const result = await diffSnapshot({ snapshotId: first.id, compareToSnapshotId: second.id });
+
+    expect(result.added).toHaveLength(0);
+    expect(result.removed).toHaveLength(0);
+    expect(result.modified).toHaveLength(1);
+    expect(result.modified[0].after.fill).toEqual({ type: 'solid', color: '#0000ff', opacity: 1 });
+    expect(result.unchangedCount).toEqual(2);
+  });
+
+  it('should reject snapshots of different canvases', async () => {
+    const first = await createSnapshot({ canvasId: 'test-canvas', label: 'v1' });
+    const other = await createSnapshot({ canvasId: 'other-canvas', label: 'v1' });
+
+    await expect(diffSnapshot({ snapshotId: first.id, compareToSnapshotId: other.id }))
+      .rejects.toThrow(/different canvas/i);
+  });
+
+  it('should throw error for non-existent snapshot', async () => {
+    await expect(diffSnapshot({ snapshotId: 'missing-snapshot' }))
+      .rejects.toThrow(/Snapshot with id missing-snapshot not found/i);
+  });
+});
@@ -0,0 +1,232 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { assetsTable, canvasTable, canvasElementsTable, chatMessagesTable } from '../db/schema';
+import { duplicateCanvas } from '../handlers/duplicate_canvas';
+import { createLocalAssetStorage } from '../storage';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { eq } from 'drizzle-orm';
+
+describe('duplicateCanvas', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  beforeEach(async () => {
+    await db.insert(canvasTable)
+      .values({
+        id: 'source-canvas',
+        name: 'Landing Page',
+        description: 'Hero mockup',
+        width: '1280',
+        height: '720',
+        backgroundColor: '#F3F4F6',
+        zoom: '1.5',
+        panX: '40',
+        panY: '-20',
+        archivedAt: new Date('2024-01-01T00:00:00Z')
+      })
+      .execute();
+
+    await db.insert(canvasElementsTable)
+      .values([
+        {
+          id: 'element-1',
+          type: 'rectangle',
+          canvasId: 'source-canvas',
+          positionX: '10',
+          positionY: '20',
+          width: '300',
+          height: '200',
+          zIndex: 0,
+          fill: { color: '#FF0000', opacity: 1 }
+        },
+        {
+          id: 'element-2',
+          type: 'text',
+          canvasId: 'source-canvas',
+          positionX: '50',
+          positionY: '60',
+          width: '200',
+          height: '40',
+          zIndex: 1,
+          textProps: { content: 'Welcome', fontSize: 32, fontFamily: 'Arial', fontWeight: 'bold', textAlign: 'center' }
+        }
+      ])
+      .execute();
+
+    await db.insert(chatMessagesTable)
+      .values([
+        {
+          id: 'message-1',
+          canvasId: 'source-canvas',
+          role: 'user',
+          content: 'Add a heading',
+          timestamp: new Date('2024-01-01T10:00:00Z')
+        },
+        {
+          id: 'message-2',
+          canvasId: 'source-canvas',
+          role: 'assistant',
+          content: 'Added a heading',
+          timestamp: new Date('2024-01-01T10:00:01Z'),
+          elementsCreated: ['element-2', 'deleted-element'],
+          elementsModified: ['element-1']
+        }
+      ])
+      .execute();
+  });
+
+  it('should copy the canvas with a default name', async () => {
+    const result = await duplicateCanvas({ id: 'source-canvas', includeChatHistory: false });
+
+    expect(result.id).not.toBe('source-canvas');
+    expect(result.name).toBe('Landing Page (copy)');
+    expect(result.description).toBe('Hero mockup');
+    expect(result.width).toBe(1280);
+    expect(result.height).toBe(720);
+    expect(typeof result.width).toBe('number');
+    expect(result.backgroundColor).toBe('#F3F4F6');
+    expect(result.zoom).toBe(1.5);
+    expect(result.panX).toBe(40);
+    expect(result.panY).toBe(-20);
+    // The copy starts out active even when the source is archived
+    expect(result.archivedAt).toBeNull();
+  });
+
+  it('should use the provided name', async () => {
+    const result = await duplicateCanvas({ id: 'source-canvas', name: 'Variant B', includeChatHistory: false });
+
+    expect(result.name).toBe('Variant B');
+  });
+
+  it('should deep-copy all elements with new IDs', async () => {
+    const result = await duplicateCanvas({ id: 'source-canvas', includeChatHistory: false });
+
+    const copies = await db.select()
+      .from(canvasElementsTable)
+      .where(eq(canvasElementsTable.canvasId, result.id))
+      .execute();
+
+    expect(copies).toHaveLength(2);
+    copies.forEach(copy => {
+      expect(['element-1', 'element-2']).not.toContain(copy.id);
+    });
+
+    const rectangle = copies.find(copy => copy.type === 'rectangle')!;
+    expect(rectangle.positionX).toBe('10.00');
+    expect(rectangle.width).toBe('300.00');
+    expect(rectangle.fill).toEqual({ color: '#FF0000', opacity: 1 });
+
+    const text = copies.find(copy => copy.type === 'text')!;
+    expect(text.zIndex).toBe(1);
+    expect((text.textProps as any).content).toBe('Welcome');
+
+    // The source elements are left untouched
+    const originals = await db.select()
+      .from(canvasElementsTable)
+      .where(eq(canvasElementsTable.canvasId, 'source-canvas'))
+      .execute();
+    expect(originals).toHaveLength(2);
+  });
+
+  it('should give the copy its own assets', async () => {
+    const storageDir = await mkdtemp(join(tmpdir(), 'assets-'));
+    const storage = createLocalAssetStorage(storageDir);
+    try {
+      await db.insert(assetsTable)
+        .values({
+          id: 'asset-1',
+          canvasId: 'source-canvas',
+          fileName: 'logo.png',
+          mimeType: 'image/png',
+          size: 4,
+          width: 2,
+          height: 2,
+          storageKey: 'source-canvas/asset-1'
+        })
+        .execute();
+      await storage.put('source-canvas/asset-1', Buffer.from('logo'));
+      await db.insert(canvasElementsTable)
+        .values({
+          id: 'element-3',
+          type: 'image',
+          canvasId: 'source-canvas',
+          positionX: '0',
+          positionY: '0',
+          width: '100',
+          height: '100',
+          imageProps: { assetId: 'asset-1', fit: 'contain', crop: null }
+        })
+        .execute();
+
+      const result = await duplicateCanvas({ id: 'source-canvas', includeChatHistory: false }, storage);
+
+      const assets = await db.select()
+        .from(assetsTable)
+        .where(eq(assetsTable.canvasId, result.id))
+        .execute();
+      expect(assets).toHaveLength(1);
+      expect(assets[0].id).not.toBe('asset-1');
+      expect(assets[0].fileName).toBe('logo.png');
+      expect(assets[0].width).toBe(2);
+      expect(await storage.get(assets[0].storageKey)).toEqual(Buffer.from('logo'));
+
+      const images = await db.select()
+        .from(canvasElementsTable)
+        .where(eq(canvasElementsTable.canvasId, result.id))
+        .execute();
+      const image = images.find(element => element.type === 'image')!;
+      expect(image.imageProps).toEqual({ assetId: assets[0].id, fit: 'contain', crop: null });
+    } finally {
+      await rm(storageDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should not copy chat history by default', async () => {
+    const result = await duplicateCanvas({ id: 'source-canvas', includeChatHistory: false });
+
+    const messages = await db.select()
+      .from(chatMessagesTable)
+      .where(eq(chatMessagesTable.canvasId, result.id))
+      .execute();
+    expect(messages).toHaveLength(0);
+  });
+
+  it('should copy chat history pointing at the copied elements', async () => {
+    const result = await duplicateCanvas({ id: 'source-canvas', includeChatHistory: true });
+
+    const copies = await db.select()
+      .from(canvasElementsTable)
+      .where(eq(canvasElementsTable.canvasId, result.id))
+      .execute();
+    const rectangleId = copies.find(copy => copy.type === 'rectangle')!.id;
+    const textId = copies.find(copy => copy.type === 'text')!.id;
+
+    const messages = await db.select()
+      .from(chatMessagesTable)
+      .where(eq(chatMessagesTable.canvasId, result.id))
+      .execute();
+
+    expect(messages).toHaveLength(2);
+    const reply = messages.find(message => message.role === 'assistant')!;
+    expect(reply.id).not.toBe('message-2');
+    expect(reply.content).toBe('Added a heading');
+    expect(reply.timestamp).toEqual(new Date('2024-01-01T10:00:01Z'));
+    // References to elements missing from the source canvas are dropped
+    expect(reply.elementsCreated).toEqual([textId]);
+    expect(reply.elementsModified).toEqual([rectangleId]);
+
+    const prompt = messages.find(message => message.role === 'user')!;
+    expect(prompt.elementsCreated).toBeNull();
+  });
+
+  it('should throw error for non-existent canvas', async () => {
+    await expect(duplicateCanvas({ id: 'non-existent-id', includeChatHistory: false }))
+      .rejects.toThrow(/Canvas with id non-existent-id not found/i);
+
+    const canvases = await db.select().from(canvasTable).execute();
+    expect(canvases).toHaveLength(1);
+  });
+});
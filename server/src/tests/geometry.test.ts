@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  combineTransforms,
+  fitPathToBounds,
+  getPathBounds,
+  getTransformMatrix,
+  getTransformedBounds,
+  withPathBounds
+} from '../geometry';
+import { elementTransformSchema, type CreateElementInput, type PathCommand } from '../schema';
+
+describe('path geometry', () => {
+  it('should bound straight segments by their points', () => {
+    const commands: PathCommand[] = [
+      { type: 'move', x: 10, y: 20 },
+      { type: 'line', x: 110, y: 70 },
+      { type: 'line', x: 60, y: -30 },
+      { type: 'close' }
+    ];
+
+    expect(getPathBounds(commands)).toEqual({ x: 10, y: -30, width: 100, height: 100 });
+  });
+
+  it('should include the bulge of cubic curves', () => {
+    // A symmetric arch from (0, 100) to (100, 100) peaking at y = 25
+    const commands: PathCommand[] = [
+      { type: 'move', x: 0, y: 100 },
+      { type: 'cubic', x1: 0, y1: 0, x2: 100, y2: 0, x: 100, y: 100 }
+    ];
+
+    const bounds = getPathBounds(commands);
+    expect(bounds.x).toEqual(0);
+    expect(bounds.width).toEqual(100);
+    expect(bounds.y).toBeCloseTo(25);
+    expect(bounds.height).toBeCloseTo(75);
+  });
+
+  it('should include the bulge of quadratic curves', () => {
+    const commands: PathCommand[] = [
+      { type: 'move', x: 0, y: 0 },
+      { type: 'quadratic', x1: 50, y1: 100, x: 100, y: 0 }
+    ];
+
+    expect(getPathBounds(commands)).toEqual({ x: 0, y: 0, width: 100, height: 50 });
+  });
+
+  it('should give a straight path a minimal box', () => {
+    const bounds = getPathBounds([{ type: 'move', x: 0, y: 40 }, { type: 'line', x: 80, y: 40 }]);
+
+    expect(bounds).toEqual({ x: 0, y: 40, width: 80, height: 1 });
+  });
+
+  it('should map every point and control point into the new box', () => {
+    const commands: PathCommand[] = [
+      { type: 'move', x: 0, y: 0 },
+      { type: 'cubic', x1: 10, y1: 0, x2: 20, y2: 10, x: 20, y: 20 },
+      { type: 'close' }
+    ];
+
+    const fitted = fitPathToBounds(commands, { x: 0, y: 0, width: 20, height: 20 }, { x: 100, y: 50, width: 40, height: 10 });
+
+    expect(fitted).toEqual([
+      { type: 'move', x: 100, y: 50 },
+      { type: 'cubic', x1: 120, y1: 50, x2: 140, y2: 55, x: 140, y: 60 },
+      { type: 'close' }
+    ]);
+  });
+
+  it('should replace the position and dimensions of inputs with a path', () => {
+    const input: CreateElementInput = {
+      type: 'path',
+      canvasId: 'canvas-1',
+      position: { x: 0, y: 0 },
+      pathProps: { commands: [{ type: 'move', x: 5, y: 5 }, { type: 'line', x: 25, y: 45 }], fillRule: 'nonzero' }
+    };
+
+    const result = withPathBounds(input);
+    expect(result.position).toEqual({ x: 5, y: 5 });
+    expect(result.dimensions).toEqual({ width: 20, height: 40 });
+    expect(result.type).toEqual('path');
+    expect(withPathBounds({ position: { x: 1, y: 2 } })).toEqual({ position: { x: 1, y: 2 } });
+  });
+});
+
+describe('transform geometry', () => {
+  const bounds = { x: 0, y: 0, width: 100, height: 50 };
+
+  it('should rotate about the center by default', () => {
+    const transformed = getTransformedBounds(bounds, elementTransformSchema.parse({ rotation: 90 }));
+
+    expect(transformed.x).toBeCloseTo(25);
+    expect(transformed.y).toBeCloseTo(-25);
+    expect(transformed.width).toBeCloseTo(50);
+    expect(transformed.height).toBeCloseTo(100);
+  });
+
+  it('should scale about the origin', () => {
+    const transformed = getTransformedBounds(bounds, elementTransformSchema.parse({ scaleX: -2, originX: 0, originY: 0 }));
+
+    expect(transformed).toEqual({ x: -200, y: 0, width: 200, height: 50 });
+    expect(getTransformedBounds(bounds, null)).toBe(bounds);
+  });
+
+  it('should combine transforms into one with the same effect', () => {
+    const outer = elementTransformSchema.parse({ rotation: 30, scaleX: 2, skewX: 10, skewY: 5 });
+    const inner = elementTransformSchema.parse({ rotation: -70, scaleX: -1, scaleY: 1.5, skewY: -15, originX: 0, originY: 1 });
+
+    const combined = combineTransforms(outer, inner);
+    expect(combined.skewY).toEqual(0);
+    expect([combined.originX, combined.originY]).toEqual([0, 1]);
+
+    // Compare the linear parts: where each transform takes the x and y axes
+    const outerMatrix = getTransformMatrix(bounds, outer);
+    const innerMatrix = getTransformMatrix(bounds, inner);
+    const combinedMatrix = getTransformMatrix(bounds, combined);
+    expect(combinedMatrix.a).toBeCloseTo(outerMatrix.a * innerMatrix.a + outerMatrix.c * innerMatrix.b);
+    expect(combinedMatrix.b).toBeCloseTo(outerMatrix.b * innerMatrix.a + outerMatrix.d * innerMatrix.b);
+    expect(combinedMatrix.c).toBeCloseTo(outerMatrix.a * innerMatrix.c + outerMatrix.c * innerMatrix.d);
+    expect(combinedMatrix.d).toBeCloseTo(outerMatrix.b * innerMatrix.c + outerMatrix.d * innerMatrix.d);
+  });
+});
@@ -196,4 +196,59 @@ describe('getAllCanvases', () => {
     expect(typeof canvas.panY).toBe('number');
     expect(typeof canvas.zoom).toBe('number');
   });
-});
\ No newline at end of file
+
+  describe('sorting', () => {
+    beforeEach(async () => {
+      await db.insert(canvasTable)
+        .values([
+          { id: 'canvas-b', name: 'Beta', updatedAt: new Date('2024-01-02T00:00:00Z') },
+          { id: 'canvas-c', name: 'Gamma', updatedAt: new Date('2024-01-03T00:00:00Z') },
+          { id: 'canvas-a', name: 'Alpha', updatedAt: new Date('2024-01-01T00:00:00Z') }
+        ])
+        .execute();
+    });
+
+    it('should sort by most recently updated first', async () => {
+      const result = await getAllCanvases({ sortBy: 'updatedAt', sortOrder: 'desc' });
+
+      expect(result.map(c => c.id)).toEqual(['canvas-c', 'canvas-b', 'canvas-a']);
+    });
+
+    it('should default to ascending order', async () => {
+      const result = await getAllCanvases({ sortBy: 'name' });
+
+      expect(result.map(c => c.name)).toEqual(['Alpha', 'Beta', 'Gamma']);
+    });
+
+    it('should sort by name descending', async () => {
+      const result = await getAllCanvases({ sortBy: 'name', sortOrder: 'desc' });
+
+      expect(result.map(c => c.name)).toEqual(['Gamma', 'Beta', 'Alpha']);
+    });
+  });
+
+  describe('archived canvases', () => {
+    beforeEach(async () => {
+      await db.insert(canvasTable)
+        .values([
+          { id: 'canvas-active', name: 'Active' },
+          { id: 'canvas-archived', name: 'Archived', archivedAt: new Date('2024-01-01T00:00:00Z') }
+        ])
+        .execute();
+    });
+
+    it('should exclude archived canvases by default', async () => {
+      const result = await getAllCanvases();
+
+      expect(result.map(c => c.id)).toEqual(['canvas-active']);
+      expect(result[0].archivedAt).toBeNull();
+    });
+
+    it('should include archived canvases when requested', async () => {
+      const result = await getAllCanvases({ includeArchived: true });
+
+      expect(result.map(c => c.id)).toEqual(['canvas-active', 'canvas-archived']);
+      expect(result[1].archivedAt).toBeInstanceOf(Date);
+    });
+  });
+});
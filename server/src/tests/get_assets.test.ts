@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { assetsTable, canvasTable } from '../db/schema';
+import { getAssets } from '../handlers/get_assets';
+
+describe('getAssets', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should list a canvas\'s assets newest first', async () => {
+    await db.insert(canvasTable)
+      .values([{ id: 'canvas-1', name: 'First' }, { id: 'canvas-2', name: 'Second' }])
+      .execute();
+
+    await db.insert(assetsTable)
+      .values([
+        {
+          id: 'asset-old',
+          canvasId: 'canvas-1',
+          fileName: 'old.png',
+          mimeType: 'image/png',
+          size: 100,
+          width: 10,
+          height: 10,
+          storageKey: 'canvas-1/asset-old',
+          createdAt: new Date('2024-01-01T00:00:00Z')
+        },
+        {
+          id: 'asset-new',
+          canvasId: 'canvas-1',
+          fileName: 'new.svg',
+          mimeType: 'image/svg+xml',
+          size: 50,
+          storageKey: 'canvas-1/asset-new',
+          createdAt: new Date('2024-02-01T00:00:00Z')
+        },
+        {
+          id: 'asset-other',
+          canvasId: 'canvas-2',
+          fileName: 'other.png',
+          mimeType: 'image/png',
+          size: 100,
+          storageKey: 'canvas-2/asset-other'
+        }
+      ])
+      .execute();
+
+    const assets = await getAssets('canvas-1');
+
+    expect(assets.map(asset => asset.id)).toEqual(['asset-new', 'asset-old']);
+    expect(assets[0].width).toBeNull();
+    expect(assets[1]).toEqual({
+      id: 'asset-old',
+      canvasId: 'canvas-1',
+      fileName: 'old.png',
+      mimeType: 'image/png',
+      size: 100,
+      width: 10,
+      height: 10,
+      createdAt: new Date('2024-01-01T00:00:00Z')
+    });
+    // The storage location is not part of the API
+    expect(assets[1]).not.toHaveProperty('storageKey');
+  });
+
+  it('should return an empty list for a canvas without assets', async () => {
+    expect(await getAssets('no-such-canvas')).toEqual([]);
+  });
+});
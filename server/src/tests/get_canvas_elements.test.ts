@@ -3,6 +3,7 @@ import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
 import { canvasTable, canvasElementsTable } from '../db/schema';
 import { getCanvasElements } from '../handlers/get_canvas_elements';
+import { inArray } from 'drizzle-orm';
 import { nanoid } from 'nanoid';
 
 const testCanvasId = nanoid();
@@ -201,6 +202,7 @@ describe('getCanvasElements', () => {
     
     // Check fill properties
     expect(rectangleElement!.fill).toEqual({
+      type: 'solid',
       color: '#FF0000',
       opacity: 0.8
     });
@@ -238,6 +240,22 @@ describe('getCanvasElements', () => {
     });
   });
 
+  it('should still return the canvas when a stored element does not fit the schema', async () => {
+    await db.update(canvasElementsTable)
+      .set({ width: '0', rectangleProps: { borderRadius: 'round' } })
+      .where(inArray(canvasElementsTable.id, [testElementId1]))
+      .execute();
+
+    const result = await getCanvasElements(testCanvasId);
+
+    const broken = result.find(el => el.id === testElementId1);
+    expect(result).toHaveLength(3);
+    // The invalid properties fall back to their defaults, the rest is kept
+    expect(broken!.dimensions).toBeUndefined();
+    expect(broken!.rectangleProps).toBeNull();
+    expect(broken!.position).toEqual({ x: 100, y: 100 });
+  });
+
   it('should handle text elements with proper properties', async () => {
     const result = await getCanvasElements(testCanvasId);
     
@@ -253,9 +271,9 @@ describe('getCanvasElements', () => {
       lineHeight: 1.5
     });
     
-    // Check text-specific properties
+    // Check text-specific properties; content stored as a plain string comes back as a single run
     expect(textElement!.textProps).toEqual({
-      content: 'Hello World',
+      content: [{ text: 'Hello World' }],
       maxWidth: 150
     });
     
@@ -314,4 +332,31 @@ describe('getCanvasElements', () => {
     expect(visibleLocked).toBeDefined();
     expect(hiddenUnlocked).toBeDefined();
   });
-});
\ No newline at end of file
+
+  it('should nest members under their groups in tree format', async () => {
+    const groupId = nanoid();
+    await db.insert(canvasElementsTable).values({
+      id: groupId,
+      type: 'group',
+      canvasId: testCanvasId,
+      positionX: '100',
+      positionY: '100',
+      width: '350',
+      height: '150',
+      zIndex: 3
+    }).execute();
+    await db.update(canvasElementsTable)
+      .set({ parentId: groupId })
+      .where(inArray(canvasElementsTable.id, [testElementId1, testElementId2]))
+      .execute();
+
+    const flat = await getCanvasElements({ canvasId: testCanvasId, format: 'flat' });
+    expect(flat).toHaveLength(4);
+    expect(flat.find(element => element.id === testElementId1)!.parentId).toEqual(groupId);
+
+    const tree = await getCanvasElements({ canvasId: testCanvasId, format: 'tree' });
+    expect(tree.map(node => node.id)).toEqual([testElementId3, groupId]);
+    expect(tree[0].children).toEqual([]);
+    expect(tree[1].children.map(node => node.id)).toEqual([testElementId1, testElementId2]);
+  });
+});
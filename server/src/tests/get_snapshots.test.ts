@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { canvasTable, canvasElementsTable, canvasSnapshotsTable } from '../db/schema';
+import { getSnapshots } from '../handlers/get_snapshots';
+
+describe('getSnapshots', () => {
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(canvasTable)
+      .values([
+        { id: 'test-canvas', name: 'Test Canvas' },
+        { id: 'other-canvas', name: 'Other Canvas' }
+      ])
+      .execute();
+  });
+  afterEach(resetDB);
+
+  it('should list snapshots of a canvas newest first with element counts', async () => {
+    const canvas = (await db.select().from(canvasTable).execute())[0];
+    const element = { id: 'element-1', type: 'rectangle', canvasId: 'test-canvas', positionX: '0', positionY: '0' };
+    await db.insert(canvasSnapshotsTable)
+      .values([
+        { id: 'snapshot-1', canvasId: 'test-canvas', label: 'First', canvas, elements: [], createdAt: new Date('2024-01-01') },
+        { id: 'snapshot-2', canvasId: 'test-canvas', label: 'Second', canvas, elements: [element], createdAt: new Date('2024-01-02') },
+        { id: 'snapshot-3', canvasId: 'other-canvas', label: 'Elsewhere', canvas, elements: [] }
+      ])
+      .execute();
+
+    const result = await getSnapshots('test-canvas');
+
+    expect(result).toHaveLength(2);
+    expect(result.map(snapshot => snapshot.label)).toEqual(['Second', 'First']);
+    expect(result[0].elementCount).toEqual(1);
+    expect(result[1].elementCount).toEqual(0);
+    expect(result[0].createdAt).toBeInstanceOf(Date);
+  });
+
+  it('should not include stored contents', async () => {
+    await db.insert(canvasElementsTable)
+      .values({ id: 'element-1', type: 'circle', canvasId: 'test-canvas', positionX: '0', positionY: '0' })
+      .execute();
+    const canvas = (await db.select().from(canvasTable).execute())[0];
+    await db.insert(canvasSnapshotsTable)
+      .values({ id: 'snapshot-1', canvasId: 'test-canvas', label: 'First', canvas, elements: [] })
+      .execute();
+
+    const result = await getSnapshots('test-canvas');
+
+    expect(Object.keys(result[0]).sort()).toEqual(['canvasId', 'createdAt', 'elementCount', 'id', 'label']);
+  });
+
+  it('should return empty array for canvas without snapshots', async () => {
+    const result = await getSnapshots('test-canvas');
+
+    expect(result).toEqual([]);
+  });
+});
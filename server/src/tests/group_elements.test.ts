@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { canvasTable, canvasElementsTable } from '../db/schema';
+import { groupElements } from '../handlers/group_elements';
+import { createElement } from '../handlers/create_element';
+import { undo } from '../handlers/undo';
+import { eq } from 'drizzle-orm';
+
+describe('groupElements', () => {
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(canvasTable)
+      .values([
+        { id: 'test-canvas', name: 'Test Canvas' },
+        { id: 'other-canvas', name: 'Other Canvas' }
+      ])
+      .execute();
+  });
+  afterEach(resetDB);
+
+  const createRectangle = (x: number, y: number, zIndex: number = 0, canvasId: string = 'test-canvas') => createElement({
+    canvasId,
+    type: 'rectangle',
+    position: { x, y },
+    dimensions: { width: 100, height: 50 },
+    zIndex
+  });
+
+  it('should wrap the elements in a group fitted around them', async () => {
+    const first = await createRectangle(10, 20, 1);
+    const second = await createRectangle(200, 300, 4);
+
+    const result = await groupElements({ canvasId: 'test-canvas', elementIds: [first.id, second.id] });
+
+    const group = result.elements[0];
+    expect(group.type).toEqual('group');
+    expect(group.parentId).toBeNull();
+    expect(group.position).toEqual({ x: 10, y: 20 });
+    expect(group.dimensions).toEqual({ width: 290, height: 330 });
+    expect(group.zIndex).toEqual(4);
+
+    expect(result.elements.slice(1).map(element => element.parentId)).toEqual([group.id, group.id]);
+    expect(result.deletedElementIds).toEqual([]);
+
+    const rows = await db.select()
+      .from(canvasElementsTable)
+      .where(eq(canvasElementsTable.parentId, group.id))
+      .execute();
+    expect(rows.map(row => row.id).sort()).toEqual([first.id, second.id].sort());
+  });
+
+  it('should nest a group inside the group its members share', async () => {
+    const first = await createRectangle(10, 20);
+    const second = await createRectangle(200, 300);
+    const third = await createRectangle(400, 20);
+    const outer = (await groupElements({ canvasId: 'test-canvas', elementIds: [first.id, second.id, third.id] })).elements[0];
+
+    const result = await groupElements({ canvasId: 'test-canvas', elementIds: [first.id, second.id] });
+
+    expect(result.elements[0].parentId).toEqual(outer.id);
+    expect(result.elements[1].parentId).toEqual(result.elements[0].id);
+  });
+
+  it('should reject elements in different groups', async () => {
+    const first = await createRectangle(10, 20);
+    const second = await createRectangle(200, 300);
+    const third = await createRectangle(400, 20);
+    await groupElements({ canvasId: 'test-canvas', elementIds: [first.id, second.id] });
+
+    await expect(groupElements({ canvasId: 'test-canvas', elementIds: [first.id, third.id] }))
+      .rejects.toThrow(/same group/i);
+  });
+
+  it('should reject elements from another canvas', async () => {
+    const first = await createRectangle(10, 20);
+    const other = await createRectangle(200, 300, 0, 'other-canvas');
+
+    await expect(groupElements({ canvasId: 'test-canvas', elementIds: [first.id, other.id] }))
+      .rejects.toThrow(/not found/i);
+
+    const groups = await db.select()
+      .from(canvasElementsTable)
+      .where(eq(canvasElementsTable.type, 'group'))
+      .execute();
+    expect(groups).toHaveLength(0);
+  });
+
+  it('should be undone in one step', async () => {
+    const first = await createRectangle(10, 20);
+    const second = await createRectangle(200, 300);
+    await groupElements({ canvasId: 'test-canvas', elementIds: [first.id, second.id] });
+
+    await undo('test-canvas');
+
+    const rows = await db.select().from(canvasElementsTable).execute();
+    expect(rows).toHaveLength(2);
+    expect(rows.every(row => row.parentId === null)).toBe(true);
+  });
+});
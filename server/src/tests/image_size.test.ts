@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'bun:test';
+import { readImageSize } from '../image_size';
+
+describe('readImageSize', () => {
+  it('should read the size of a PNG from its header', () => {
+    const header = Buffer.alloc(24);
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(header);
+    header.write('IHDR', 12, 'latin1');
+    header.writeUInt32BE(640, 16);
+    header.writeUInt32BE(480, 20);
+
+    expect(readImageSize(header, 'image/png')).toEqual({ width: 640, height: 480 });
+  });
+
+  it('should find the frame of a JPEG past its other segments', () => {
+    const data = Buffer.from([
+      0xff, 0xd8, // Start of image
+      0xff, 0xe0, 0x00, 0x04, 0x00, 0x00, // APP0 with two bytes of payload
+      0xff, 0xc0, 0x00, 0x0b, 0x08, 0x01, 0x2c, 0x01, 0x90, 0x01, 0x01, 0x11, 0x00 // SOF0: 400x300
+    ]);
+
+    expect(readImageSize(data, 'image/jpeg')).toEqual({ width: 400, height: 300 });
+  });
+
+  it('should read the size of a GIF', () => {
+    const data = Buffer.alloc(10);
+    data.write('GIF89a', 0, 'latin1');
+    data.writeUInt16LE(32, 6);
+    data.writeUInt16LE(16, 8);
+
+    expect(readImageSize(data, 'image/gif')).toEqual({ width: 32, height: 16 });
+  });
+
+  it('should read the size of an extended WebP', () => {
+    const data = Buffer.alloc(30);
+    data.write('RIFF', 0, 'latin1');
+    data.write('WEBP', 8, 'latin1');
+    data.write('VP8X', 12, 'latin1');
+    data.writeUIntLE(1919, 24, 3);
+    data.writeUIntLE(1079, 27, 3);
+
+    expect(readImageSize(data, 'image/webp')).toEqual({ width: 1920, height: 1080 });
+  });
+
+  it('should prefer explicit SVG dimensions and allow none at all', () => {
+    expect(readImageSize(Buffer.from('<svg width="120px" height="60" viewBox="0 0 12 6"></svg>'), 'image/svg+xml'))
+      .toEqual({ width: 120, height: 60 });
+    expect(readImageSize(Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"></svg>'), 'image/svg+xml'))
+      .toEqual({ width: null, height: null });
+  });
+
+  it('should reject data of another type', () => {
+    expect(readImageSize(Buffer.from('GIF89a0000'), 'image/png')).toBeNull();
+    expect(readImageSize(Buffer.from('not an image'), 'image/jpeg')).toBeNull();
+    expect(readImageSize(Buffer.from('<html></html>'), 'image/svg+xml')).toBeNull();
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'bun:test';
+import { getViewers, updatePresence, watchPresence } from '../presence';
+import { type Viewer, type WatchPresenceInput } from '../schema';
+
+/**
+ * Keep a viewer watching the canvas, recording every viewer list it receives, until leave() is called
+ */
+function watch(input: WatchPresenceInput) {
+  const controller = new AbortController();
+  const updates: Viewer[][] = [];
+  const done = (async () => {
+    for await (const viewers of watchPresence(input, controller.signal)) {
+      updates.push(viewers);
+    }
+  })();
+
+  return {
+    updates,
+    leave: async () => {
+      controller.abort();
+      await done;
+    }
+  };
+}
+
+// Let pending emitter events reach the watchers
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('presence', () => {
+  it('should list viewers with distinct colors and drop them when they disconnect', async () => {
+    const alice = watch({ canvasId: 'canvas-1', sessionId: 'alice', name: 'Alice' });
+    const bob = watch({ canvasId: 'canvas-1', sessionId: 'bob', name: 'Bob' });
+    await flush();
+
+    const viewers = getViewers('canvas-1');
+    expect(viewers.map(viewer => viewer.name)).toEqual(['Alice', 'Bob']);
+    expect(viewers[0].color).not.toEqual(viewers[1].color);
+    expect(alice.updates[alice.updates.length - 1]).toHaveLength(2);
+
+    await bob.leave();
+    await flush();
+
+    expect(getViewers('canvas-1').map(viewer => viewer.sessionId)).toEqual(['alice']);
+    expect(alice.updates[alice.updates.length - 1].map(viewer => viewer.sessionId)).toEqual(['alice']);
+
+    await alice.leave();
+    expect(getViewers('canvas-1')).toEqual([]);
+  });
+
+  it('should share cursor and selection changes with other viewers', async () => {
+    const alice = watch({ canvasId: 'canvas-2', sessionId: 'alice', name: 'Alice' });
+    const bob = watch({ canvasId: 'canvas-2', sessionId: 'bob', name: 'Bob' });
+    await flush();
+
+    updatePresence({ canvasId: 'canvas-2', sessionId: 'bob', cursor: { x: 10, y: 20 } });
+    updatePresence({ canvasId: 'canvas-2', sessionId: 'bob', selection: ['element-1'] });
+    await flush();
+
+    const seenByAlice = alice.updates[alice.updates.length - 1].find(viewer => viewer.sessionId === 'bob');
+    expect(seenByAlice?.cursor).toEqual({ x: 10, y: 20 });
+    expect(seenByAlice?.selection).toEqual(['element-1']);
+
+    updatePresence({ canvasId: 'canvas-2', sessionId: 'bob', cursor: null });
+    await flush();
+    expect(getViewers('canvas-2').find(viewer => viewer.sessionId === 'bob')?.cursor).toBeNull();
+
+    await alice.leave();
+    await bob.leave();
+  });
+
+  it('should keep a viewer with an overlapping reconnect until the last connection ends', async () => {
+    const first = watch({ canvasId: 'canvas-3', sessionId: 'alice', name: 'Alice' });
+    const second = watch({ canvasId: 'canvas-3', sessionId: 'alice', name: 'Alice' });
+    await flush();
+    expect(getViewers('canvas-3')).toHaveLength(1);
+
+    await first.leave();
+    expect(getViewers('canvas-3')).toHaveLength(1);
+
+    await second.leave();
+    expect(getViewers('canvas-3')).toHaveLength(0);
+  });
+
+  it('should ignore updates from sessions that are not watching', () => {
+    updatePresence({ canvasId: 'canvas-4', sessionId: 'nobody', cursor: { x: 1, y: 1 } });
+
+    expect(getViewers('canvas-4')).toEqual([]);
+  });
+
+  it('should keep canvases separate', async () => {
+    const alice = watch({ canvasId: 'canvas-5', sessionId: 'alice', name: 'Alice' });
+    const bob = watch({ canvasId: 'canvas-6', sessionId: 'bob', name: 'Bob' });
+    await flush();
+
+    expect(getViewers('canvas-5').map(viewer => viewer.sessionId)).toEqual(['alice']);
+    expect(getViewers('canvas-6').map(viewer => viewer.sessionId)).toEqual(['bob']);
+
+    await alice.leave();
+    await bob.leave();
+  });
+});
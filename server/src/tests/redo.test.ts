@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { canvasTable, canvasElementsTable } from '../db/schema';
+import { redo } from '../handlers/redo';
+import { undo } from '../handlers/undo';
+import { createElement } from '../handlers/create_element';
+import { updateElement } from '../handlers/update_element';
+import { deleteElement } from '../handlers/delete_element';
+import { getHistoryState } from '../handlers/get_history_state';
+
+describe('redo', () => {
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(canvasTable)
+      .values({ id: 'test-canvas', name: 'Test Canvas' })
+      .execute();
+  });
+  afterEach(resetDB);
+
+  const createRectangle = () => createElement({
+    canvasId: 'test-canvas',
+    type: 'rectangle',
+    position: { x: 10, y: 20 },
+    dimensions: { width: 100, height: 50 }
+  });
+
+  it('should recreate an element whose creation was undone', async () => {
+    const element = await createRectangle();
+    await undo('test-canvas');
+
+    const result = await redo('test-canvas');
+
+    expect(result.applied).toBe(true);
+    expect(result.elements).toHaveLength(1);
+    expect(result.elements[0].id).toEqual(element.id);
+    expect(result.canUndo).toBe(true);
+    expect(result.canRedo).toBe(false);
+  });
+
+  it('should reapply an undone update', async () => {
+    const element = await createRectangle();
+    await updateElement({ id: element.id, position: { x: 300, y: 400 } });
+    await undo('test-canvas');
+
+    const result = await redo('test-canvas');
+
+    expect(result.elements[0].position).toEqual({ x: 300, y: 400 });
+  });
+
+  it('should delete an element again after its deletion was undone', async () => {
+    const element = await createRectangle();
+    await deleteElement(element.id);
+    await undo('test-canvas');
+
+    const result = await redo('test-canvas');
+
+    expect(result.deletedElementIds).toEqual([element.id]);
+    const rows = await db.select().from(canvasElementsTable).execute();
+    expect(rows).toHaveLength(0);
+  });
+
+  it('should redo steps in the order they were undone', async () => {
+    const element = await createRectangle();
+    await updateElement({ id: element.id, zIndex: 1 });
+    await updateElement({ id: element.id, zIndex: 2 });
+    await undo('test-canvas');
+    await undo('test-canvas');
+
+    const first = await redo('test-canvas');
+    expect(first.elements[0].zIndex).toEqual(1);
+
+    const second = await redo('test-canvas');
+    expect(second.elements[0].zIndex).toEqual(2);
+    expect(second.canRedo).toBe(false);
+  });
+
+  it('should discard the redo history when a new change is made', async () => {
+    const element = await createRectangle();
+    await updateElement({ id: element.id, zIndex: 1 });
+    await undo('test-canvas');
+    expect(await getHistoryState('test-canvas')).toEqual({ canUndo: true, canRedo: true });
+
+    await updateElement({ id: element.id, zIndex: 5 });
+    expect(await getHistoryState('test-canvas')).toEqual({ canUndo: true, canRedo: false });
+
+    const result = await redo('test-canvas');
+    expect(result.applied).toBe(false);
+    expect(result.elements).toHaveLength(0);
+  });
+});
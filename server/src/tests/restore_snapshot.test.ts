@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { canvasTable, canvasElementsTable, canvasSnapshotsTable } from '../db/schema';
+import { createSnapshot } from '../handlers/create_snapshot';
+import { restoreSnapshot } from '../handlers/restore_snapshot';
+import { undo } from '../handlers/undo';
+import { eq } from 'drizzle-orm';
+
+describe('restoreSnapshot', () => {
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(canvasTable)
+      .values({ id: 'test-canvas', name: 'Test Canvas', width: '800', height: '600', backgroundColor: '#FFFFFF' })
+      .execute();
+    await db.insert(canvasElementsTable)
+      .values([
+        { id: 'element-1', type: 'rectangle', canvasId: 'test-canvas', positionX: '10', positionY: '20', width: '100', height: '50' },
+        { id: 'element-2', type: 'circle', canvasId: 'test-canvas', positionX: '200', positionY: '200', width: '80', height: '80' }
+      ])
+      .execute();
+  });
+  afterEach(resetDB);
+
+  it('should replace the current elements with the stored ones', async () => {
+    const snapshot = await createSnapshot({ canvasId: 'test-canvas', label: 'v1' });
+
+    await db.update(canvasElementsTable)
+      .set({ positionX: '500' })
+      .where(eq(canvasElementsTable.id, 'element-1'))
+      .execute();
+    await db.delete(canvasElementsTable)
+      .where(eq(canvasElementsTable.id, 'element-2'))
+      .execute();
+    await db.insert(canvasElementsTable)
+      .values({ id: 'element-3', type: 'text', canvasId: 'test-canvas', positionX: '0', positionY: '0' })
+      .execute();
+
+    const result = await restoreSnapshot(snapshot.id);
+
+    expect(result.elements.map(element => element.id).sort()).toEqual(['element-1', 'element-2']);
+    expect(result.elements.find(element => element.id === 'element-1')!.position).toEqual({ x: 10, y: 20 });
+
+    const rows = await db.select()
+      .from(canvasElementsTable)
+      .where(eq(canvasElementsTable.canvasId, 'test-canvas'))
+      .execute();
+    expect(rows.map(row => row.id).sort()).toEqual(['element-1', 'element-2']);
+    expect(rows.find(row => row.id === 'element-2')!.width).toEqual('80.00');
+  });
+
+  it('should bring back the stored canvas size and background but keep the name', async () => {
+    const snapshot = await createSnapshot({ canvasId: 'test-canvas', label: 'v1' });
+    await db.update(canvasTable)
+      .set({ name: 'Renamed', width: '1920', height: '1080', backgroundColor: '#000000' })
+      .where(eq(canvasTable.id, 'test-canvas'))
+      .execute();
+
+    const result = await restoreSnapshot(snapshot.id);
+
+    expect(result.canvas.name).toEqual('Renamed');
+    expect(result.canvas.width).toEqual(800);
+    expect(result.canvas.height).toEqual(600);
+    expect(result.canvas.backgroundColor).toEqual('#FFFFFF');
+    expect(typeof result.canvas.zoom).toBe('number');
+  });
+
+  it('should be undoable as a single step', async () => {
+    const snapshot = await createSnapshot({ canvasId: 'test-canvas', label: 'v1' });
+    await db.delete(canvasElementsTable).execute();
+    await db.insert(canvasElementsTable)
+      .values({ id: 'element-3', type: 'text', canvasId: 'test-canvas', positionX: '0', positionY: '0' })
+      .execute();
+
+    await restoreSnapshot(snapshot.id);
+    const result = await undo('test-canvas');
+
+    expect(result.deletedElementIds.sort()).toEqual(['element-1', 'element-2']);
+    expect(result.elements.map(element => element.id)).toEqual(['element-3']);
+    expect(result.canUndo).toBe(false);
+  });
+
+  it('should throw error for non-existent snapshot', async () => {
+    await expect(restoreSnapshot('missing-snapshot'))
+      .rejects.toThrow(/Snapshot with id missing-snapshot not found/i);
+  });
+
+  it('should clear effects added since a snapshot taken before elements had them', async () => {
+    const snapshot = await createSnapshot({ canvasId: 'test-canvas', label: 'v1' });
+    const [row] = await db.select().from(canvasSnapshotsTable).where(eq(canvasSnapshotsTable.id, snapshot.id)).execute();
+    const stored = (row.elements as Record<string, unknown>[]).map(({ effects: _effects, ...element }) => element);
+    await db.update(canvasSnapshotsTable)
+      .set({ elements: stored })
+      .where(eq(canvasSnapshotsTable.id, snapshot.id))
+      .execute();
+    await db.update(canvasElementsTable)
+      .set({ effects: [{ type: 'layer-blur', visible: true, blur: 4 }] })
+      .execute();
+
+    const result = await restoreSnapshot(snapshot.id);
+
+    expect(result.elements.map(element => element.effects)).toEqual([[], []]);
+  });
+});
@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { canvasTable, canvasElementsTable, chatMessagesTable } from '../db/schema';
+import { sendChatMessage } from '../handlers/send_chat_message';
+import { getChatMessages } from '../handlers/get_chat_messages';
+import { eq } from 'drizzle-orm';
+
+describe('sendChatMessage', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  beforeEach(async () => {
+    await db.insert(canvasTable)
+      .values({
+        id: 'test-canvas-id',
+        name: 'Test Canvas',
+        width: '800',
+        height: '600'
+      })
+      .execute();
+  });
+
+  it('should record the prompt and the reply with the generated elements', async () => {
+    const result = await sendChatMessage({ canvasId: 'test-canvas-id', content: 'Add a red circle' });
+
+    expect(result.userMessage.role).toBe('user');
+    expect(result.userMessage.content).toBe('Add a red circle');
+    expect(result.userMessage.canvasId).toBe('test-canvas-id');
+
+    expect(result.elementsCreated).toHaveLength(1);
+    expect(result.elementsCreated[0].type).toBe('circle');
+    expect(result.elementsModified).toEqual([]);
+
+    expect(result.assistantMessage.role).toBe('assistant');
+    expect(result.assistantMessage.content).toBe('Created a circle.');
+    expect(result.assistantMessage.elementsCreated).toEqual([result.elementsCreated[0].id]);
+    expect(result.assistantMessage.elementsModified).toEqual([]);
+  });
+
+  it('should persist messages whose element IDs match the database', async () => {
+    const result = await sendChatMessage({ canvasId: 'test-canvas-id', content: 'Draw a blue square' });
+
+    const elements = await db.select()
+      .from(canvasElementsTable)
+      .where(eq(canvasElementsTable.canvasId, 'test-canvas-id'))
+      .execute();
+    expect(elements.map(element => element.id)).toEqual(result.assistantMessage.elementsCreated!);
+
+    const messages = await db.select()
+      .from(chatMessagesTable)
+      .where(eq(chatMessagesTable.canvasId, 'test-canvas-id'))
+      .execute();
+    expect(messages).toHaveLength(2);
+    const reply = messages.find(message => message.role === 'assistant')!;
+    expect(reply.elementsCreated).toEqual(elements.map(element => element.id));
+  });
+
+  it('should order the reply after the prompt in the history', async () => {
+    await sendChatMessage({ canvasId: 'test-canvas-id', content: 'Add a line' });
+
+    // History is returned newest first
+    const history = await getChatMessages('test-canvas-id');
+    expect(history.map(message => message.role)).toEqual(['assistant', 'user']);
+    expect(history[0].timestamp.getTime()).toBeGreaterThan(history[1].timestamp.getTime());
+  });
+
+  it('should record elements changed by the prompt as modified', async () => {
+    await db.insert(canvasElementsTable)
+      .values({
+        id: 'test-element-id',
+        type: 'circle',
+        canvasId: 'test-canvas-id',
+        positionX: '100',
+        positionY: '100',
+        width: '50',
+        height: '50'
+      })
+      .execute();
+
+    const result = await sendChatMessage({
+      canvasId: 'test-canvas-id',
+      content: 'make it twice as big',
+      contextElementIds: ['test-element-id']
+    });
+
+    expect(result.elementsCreated).toEqual([]);
+    expect(result.elementsModified.map(element => element.dimensions)).toEqual([{ width: 100, height: 100 }]);
+    expect(result.assistantMessage.content).toBe('Updated a circle.');
+    expect(result.assistantMessage.elementsCreated).toEqual([]);
+    expect(result.assistantMessage.elementsModified).toEqual(['test-element-id']);
+  });
+
+  it('should write nothing for a non-existent canvas', async () => {
+    await expect(sendChatMessage({ canvasId: 'non-existent-id', content: 'Add a circle' }))
+      .rejects.toThrow(/not found/i);
+
+    const messages = await db.select().from(chatMessagesTable).execute();
+    expect(messages).toHaveLength(0);
+    const elements = await db.select().from(canvasElementsTable).execute();
+    expect(elements).toHaveLength(0);
+  });
+});
@@ -0,0 +1,168 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { canvasTable, canvasElementsTable, operationLogTable } from '../db/schema';
+import { MAX_UNDO_STEPS } from '../db/operation_log';
+import { undo } from '../handlers/undo';
+import { createElement } from '../handlers/create_element';
+import { updateElement } from '../handlers/update_element';
+import { deleteElement } from '../handlers/delete_element';
+import { aiGenerateElements } from '../handlers/ai_generate_elements';
+import { getHistoryState } from '../handlers/get_history_state';
+import { eq } from 'drizzle-orm';
+
+describe('undo', () => {
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(canvasTable)
+      .values({ id: 'test-canvas', name: 'Test Canvas' })
+      .execute();
+  });
+  afterEach(resetDB);
+
+  const createRectangle = () => createElement({
+    canvasId: 'test-canvas',
+    type: 'rectangle',
+    position: { x: 10, y: 20 },
+    dimensions: { width: 100, height: 50 },
+    fill: { type: 'solid', color: '#ff0000', opacity: 1 }
+  });
+
+  it('should remove an element created by the last operation', async () => {
+    const element = await createRectangle();
+
+    const result = await undo('test-canvas');
+
+    expect(result.applied).toBe(true);
+    expect(result.elements).toHaveLength(0);
+    expect(result.deletedElementIds).toEqual([element.id]);
+    expect(result.canUndo).toBe(false);
+    expect(result.canRedo).toBe(true);
+
+    const rows = await db.select().from(canvasElementsTable).execute();
+    expect(rows).toHaveLength(0);
+  });
+
+  it('should restore the previous properties of an updated element', async () => {
+    const element = await createRectangle();
+    await updateElement({ id: element.id, position: { x: 300, y: 400 }, fill: { type: 'solid', color: '#00ff00', opacity: 0.5 } });
+
+    const result = await undo('test-canvas');
+
+    expect(result.applied).toBe(true);
+    expect(result.elements).toHaveLength(1);
+    expect(result.elements[0].position).toEqual({ x: 10, y: 20 });
+    expect(result.elements[0].fill).toEqual({ type: 'solid', color: '#ff0000', opacity: 1 });
+    expect(result.elements[0].createdAt).toEqual(element.createdAt);
+    expect(result.canUndo).toBe(true);
+    expect(result.canRedo).toBe(true);
+  });
+
+  it('should bring back a deleted element with its original ID', async () => {
+    const element = await createRectangle();
+    await deleteElement(element.id);
+
+    const result = await undo('test-canvas');
+
+    expect(result.elements).toHaveLength(1);
+    expect(result.elements[0].id).toEqual(element.id);
+    expect(result.elements[0].dimensions).toEqual({ width: 100, height: 50 });
+
+    const rows = await db.select()
+      .from(canvasElementsTable)
+      .where(eq(canvasElementsTable.id, element.id))
+      .execute();
+    expect(rows).toHaveLength(1);
+  });
+
+  it('should step back one operation at a time', async () => {
+    const element = await createRectangle();
+    await updateElement({ id: element.id, zIndex: 1 });
+    await updateElement({ id: element.id, zIndex: 2 });
+
+    const first = await undo('test-canvas');
+    expect(first.elements[0].zIndex).toEqual(1);
+
+    const second = await undo('test-canvas');
+    expect(second.elements[0].zIndex).toEqual(0);
+
+    const third = await undo('test-canvas');
+    expect(third.deletedElementIds).toEqual([element.id]);
+  });
+
+  it('should undo everything an AI prompt changed as one step', async () => {
+    const first = await createRectangle();
+    const second = await createRectangle();
+    await aiGenerateElements({
+      canvasId: 'test-canvas',
+      prompt: 'make them blue',
+      contextElementIds: [first.id, second.id]
+    });
+
+    const result = await undo('test-canvas');
+
+    expect(result.applied).toBe(true);
+    expect(result.elements).toHaveLength(2);
+    result.elements.forEach(element => {
+      expect(element.fill).toEqual({ type: 'solid', color: '#ff0000', opacity: 1 });
+    });
+    expect(result.canUndo).toBe(true);
+  });
+
+  it('should remove all elements an AI prompt created in one step', async () => {
+    const created = await aiGenerateElements({
+      canvasId: 'test-canvas',
+      prompt: 'three circles'
+    });
+    expect(created.created).toHaveLength(3);
+
+    const result = await undo('test-canvas');
+
+    expect(result.deletedElementIds).toHaveLength(3);
+    expect(result.canUndo).toBe(false);
+    const rows = await db.select().from(canvasElementsTable).execute();
+    expect(rows).toHaveLength(0);
+  });
+
+  it('should report nothing applied when there is nothing to undo', async () => {
+    const result = await undo('test-canvas');
+
+    expect(result.applied).toBe(false);
+    expect(result.elements).toHaveLength(0);
+    expect(result.deletedElementIds).toHaveLength(0);
+    expect(result.canUndo).toBe(false);
+    expect(result.canRedo).toBe(false);
+  });
+
+  it('should only undo operations on the given canvas', async () => {
+    await db.insert(canvasTable)
+      .values({ id: 'other-canvas', name: 'Other Canvas' })
+      .execute();
+    const element = await createRectangle();
+    await createElement({ canvasId: 'other-canvas', type: 'circle', position: { x: 0, y: 0 } });
+
+    const result = await undo('test-canvas');
+
+    expect(result.deletedElementIds).toEqual([element.id]);
+    expect(await getHistoryState('other-canvas')).toEqual({ canUndo: true, canRedo: false });
+  });
+
+  it('should not record deletions of missing elements', async () => {
+    await deleteElement('missing-element');
+
+    const operations = await db.select().from(operationLogTable).execute();
+    expect(operations).toHaveLength(0);
+  });
+
+  it('should keep only the most recent undo steps', async () => {
+    const first = await createRectangle();
+    for (let i = 0; i < MAX_UNDO_STEPS; i++) {
+      await createRectangle();
+    }
+
+    const operations = await db.select().from(operationLogTable).execute();
+    expect(new Set(operations.map(operation => operation.groupId)).size).toBe(MAX_UNDO_STEPS);
+    expect(operations.some(operation => operation.elementId === first.id)).toBe(false);
+    expect(await getHistoryState('test-canvas')).toEqual({ canUndo: true, canRedo: false });
+  });
+});
@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { canvasTable, canvasElementsTable } from '../db/schema';
+import { groupElements } from '../handlers/group_elements';
+import { ungroupElements } from '../handlers/ungroup_elements';
+import { createElement } from '../handlers/create_element';
+import { undo } from '../handlers/undo';
+
+describe('ungroupElements', () => {
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(canvasTable)
+      .values({ id: 'test-canvas', name: 'Test Canvas' })
+      .execute();
+  });
+  afterEach(resetDB);
+
+  const createRectangle = (x: number, y: number) => createElement({
+    canvasId: 'test-canvas',
+    type: 'rectangle',
+    position: { x, y },
+    dimensions: { width: 100, height: 50 }
+  });
+
+  it('should move the members up a level and delete the group', async () => {
+    const first = await createRectangle(10, 20);
+    const second = await createRectangle(200, 300);
+    const third = await createRectangle(400, 20);
+    const outer = (await groupElements({ canvasId: 'test-canvas', elementIds: [first.id, second.id, third.id] })).elements[0];
+    const inner = (await groupElements({ canvasId: 'test-canvas', elementIds: [first.id, second.id] })).elements[0];
+
+    const result = await ungroupElements(inner.id);
+
+    expect(result.deletedElementIds).toEqual([inner.id]);
+    expect(result.elements.map(element => element.id).sort()).toEqual([first.id, second.id].sort());
+    expect(result.elements.every(element => element.parentId === outer.id)).toBe(true);
+    expect(result.elements.find(element => element.id === first.id)!.position).toEqual({ x: 10, y: 20 });
+
+    const rows = await db.select().from(canvasElementsTable).execute();
+    expect(rows.map(row => row.id)).not.toContain(inner.id);
+  });
+
+  it('should reject elements that are not groups', async () => {
+    const element = await createRectangle(10, 20);
+
+    await expect(ungroupElements(element.id)).rejects.toThrow(/not a group/i);
+    await expect(ungroupElements('non-existent-id')).rejects.toThrow(/not found/i);
+  });
+
+  it('should be undone in one step', async () => {
+    const first = await createRectangle(10, 20);
+    const second = await createRectangle(200, 300);
+    const group = (await groupElements({ canvasId: 'test-canvas', elementIds: [first.id, second.id] })).elements[0];
+    await ungroupElements(group.id);
+
+    await undo('test-canvas');
+
+    const rows = await db.select().from(canvasElementsTable).execute();
+    expect(rows).toHaveLength(3);
+    expect(rows.filter(row => row.parentId === group.id)).toHaveLength(2);
+  });
+});
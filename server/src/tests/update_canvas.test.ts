@@ -2,8 +2,9 @@ import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
 import { canvasTable } from '../db/schema';
-import { type UpdateCanvasInput, type CreateCanvasInput } from '../schema';
+import { type UpdateCanvasInput, type CreateCanvasInput, type Canvas } from '../schema';
 import { updateCanvas } from '../handlers/update_canvas';
+import { ConflictError } from '../errors';
 import { eq } from 'drizzle-orm';
 import { randomUUID } from 'crypto';
 
@@ -136,6 +137,18 @@ describe('updateCanvas', () => {
     expect(result.height).toEqual(1080); // Should remain unchanged
   });
 
+  it('should keep updatedAt when only the viewport changes', async () => {
+    const testCanvas = await createTestCanvas();
+
+    const result = await updateCanvas({ id: testCanvas.id, zoom: 2, panX: 10, panY: 20 });
+    expect(result.updatedAt).toEqual(testCanvas.updatedAt);
+
+    // Editors holding the old updatedAt can still save
+    const renamed = await updateCanvas({ id: testCanvas.id, name: 'Renamed', expectedUpdatedAt: testCanvas.updatedAt });
+    expect(renamed.name).toEqual('Renamed');
+    expect(renamed.zoom).toEqual(2);
+  });
+
   it('should save updated canvas to database', async () => {
     // Create test canvas
     const testCanvas = await createTestCanvas();
@@ -217,7 +230,7 @@ describe('updateCanvas', () => {
     // Update only one property
     const updateInput: UpdateCanvasInput = {
       id: testCanvas.id,
-      zoom: 2.0
+      backgroundColor: '#0000FF'
     };
 
     const result = await updateCanvas(updateInput);
@@ -227,16 +240,51 @@ describe('updateCanvas', () => {
     expect(result.description).toEqual('Original description');
     expect(result.width).toEqual(1600);
     expect(result.height).toEqual(900);
-    expect(result.backgroundColor).toEqual('#00FF00');
+    expect(result.zoom).toEqual(1);
     expect(result.panX).toEqual(0);
     expect(result.panY).toEqual(0);
     
     // Verify changed property
-    expect(result.zoom).toEqual(2.0);
+    expect(result.backgroundColor).toEqual('#0000FF');
     
     // Verify updatedAt was changed but createdAt preserved
     expect(result.updatedAt).toBeInstanceOf(Date);
     expect(result.createdAt).toEqual(testCanvas.createdAt);
     expect(result.updatedAt > testCanvas.updatedAt).toBe(true);
   });
-});
\ No newline at end of file
+
+  it('should apply the update when the canvas is unchanged since expectedUpdatedAt', async () => {
+    const testCanvas = await createTestCanvas();
+
+    const result = await updateCanvas({
+      id: testCanvas.id,
+      name: 'Renamed',
+      expectedUpdatedAt: testCanvas.updatedAt
+    });
+
+    expect(result.name).toEqual('Renamed');
+  });
+
+  it('should reject a stale update with the current canvas', async () => {
+    const testCanvas = await createTestCanvas();
+    await updateCanvas({ id: testCanvas.id, name: 'Renamed elsewhere' });
+
+    const error = await updateCanvas({
+      id: testCanvas.id,
+      backgroundColor: '#000000',
+      expectedUpdatedAt: new Date(testCanvas.updatedAt.getTime() - 1000)
+    }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ConflictError);
+    const conflict = error as ConflictError<Canvas>;
+    expect(conflict.code).toEqual('CONFLICT');
+    expect(conflict.current.name).toEqual('Renamed elsewhere');
+    expect(conflict.current.width).toEqual(1920);
+
+    const [stored] = await db.select()
+      .from(canvasTable)
+      .where(eq(canvasTable.id, testCanvas.id))
+      .execute();
+    expect(stored.backgroundColor).toEqual('#FFFFFF');
+  });
+});
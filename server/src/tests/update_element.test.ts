@@ -2,8 +2,11 @@ import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
 import { canvasTable, canvasElementsTable } from '../db/schema';
-import { type UpdateElementInput } from '../schema';
+import { type UpdateElementInput, type CanvasElement } from '../schema';
 import { updateElement } from '../handlers/update_element';
+import { createElement } from '../handlers/create_element';
+import { groupElements } from '../handlers/group_elements';
+import { ConflictError } from '../errors';
 import { eq } from 'drizzle-orm';
 
 describe('updateElement', () => {
@@ -116,12 +119,12 @@ describe('updateElement', () => {
   it('should update fill style', async () => {
     const input: UpdateElementInput = {
       id: testElementId,
-      fill: { color: '#00FF00', opacity: 0.8 }
+      fill: { type: 'solid', color: '#00FF00', opacity: 0.8 }
     };
 
     const result = await updateElement(input);
 
-    expect(result.fill).toEqual({ color: '#00FF00', opacity: 0.8 });
+    expect(result.fill).toEqual({ type: 'solid', color: '#00FF00', opacity: 0.8 });
     expect(result.stroke).toBeNull(); // Should preserve original stroke (null)
   });
 
@@ -146,7 +149,7 @@ describe('updateElement', () => {
       cap: 'round', 
       join: 'round' 
     });
-    expect(result.fill).toEqual({ color: '#FF0000', opacity: 1 }); // Should preserve original fill
+    expect(result.fill).toEqual({ type: 'solid', color: '#FF0000', opacity: 1 }); // Should preserve original fill
   });
 
   it('should update text style', async () => {
@@ -185,6 +188,68 @@ describe('updateElement', () => {
     expect(result.textProps).toBeNull();
   });
 
+  it('should update the props of the new shape types', async () => {
+    const result = await updateElement({
+      id: testElementId,
+      starProps: { points: 7, innerRadius: 0.3 },
+      arrowProps: { x1: 0, y1: 0, x2: 50, y2: 50, startHead: 'bar', endHead: 'diamond' }
+    });
+
+    expect(result.starProps).toEqual({ points: 7, innerRadius: 0.3 });
+    expect(result.arrowProps).toEqual({ x1: 0, y1: 0, x2: 50, y2: 50, startHead: 'bar', endHead: 'diamond' });
+    expect(result.ellipseProps).toBeNull();
+    expect(result.polygonProps).toBeNull();
+  });
+
+  describe('paths', () => {
+    let pathId: string;
+
+    beforeEach(async () => {
+      pathId = `path-${Math.random().toString(36).substring(2)}`;
+      await db.insert(canvasElementsTable)
+        .values({
+          id: pathId,
+          type: 'path',
+          canvasId: testCanvasId,
+          positionX: '0',
+          positionY: '0',
+          width: '100',
+          height: '50',
+          pathProps: {
+            commands: [{ type: 'move', x: 0, y: 0 }, { type: 'line', x: 100, y: 50 }],
+            fillRule: 'nonzero'
+          }
+        })
+        .execute();
+    });
+
+    it('should take the box from new commands', async () => {
+      const result = await updateElement({
+        id: pathId,
+        position: { x: 999, y: 999 },
+        pathProps: {
+          commands: [{ type: 'move', x: 10, y: 10 }, { type: 'line', x: 40, y: 30 }],
+          fillRule: 'nonzero'
+        }
+      });
+
+      expect(result.position).toEqual({ x: 10, y: 10 });
+      expect(result.dimensions).toEqual({ width: 30, height: 20 });
+    });
+
+    it('should move and scale the commands with a new box', async () => {
+      const result = await updateElement({
+        id: pathId,
+        position: { x: 200, y: 100 },
+        dimensions: { width: 50, height: 100 }
+      });
+
+      expect(result.position).toEqual({ x: 200, y: 100 });
+      expect(result.dimensions).toEqual({ width: 50, height: 100 });
+      expect(result.pathProps?.commands).toEqual([{ type: 'move', x: 200, y: 100 }, { type: 'line', x: 250, y: 200 }]);
+    });
+  });
+
   it('should update multiple properties simultaneously', async () => {
     const input: UpdateElementInput = {
       id: testElementId,
@@ -193,7 +258,7 @@ describe('updateElement', () => {
       zIndex: 3,
       visible: false,
       locked: true,
-      fill: { color: '#FFFF00', opacity: 0.5 },
+      fill: { type: 'solid', color: '#FFFF00', opacity: 0.5 },
       stroke: { color: '#FF00FF', width: 3, opacity: 1, cap: 'square', join: 'bevel' }
     };
 
@@ -204,7 +269,7 @@ describe('updateElement', () => {
     expect(result.zIndex).toEqual(3);
     expect(result.visible).toBe(false);
     expect(result.locked).toBe(true);
-    expect(result.fill).toEqual({ color: '#FFFF00', opacity: 0.5 });
+    expect(result.fill).toEqual({ type: 'solid', color: '#FFFF00', opacity: 0.5 });
     expect(result.stroke).toEqual({ color: '#FF00FF', width: 3, opacity: 1, cap: 'square', join: 'bevel' });
   });
 
@@ -245,10 +310,30 @@ describe('updateElement', () => {
     expect(result.zIndex).toEqual(0);
     expect(result.visible).toBe(true);
     expect(result.locked).toBe(false);
-    expect(result.fill).toEqual({ color: '#FF0000', opacity: 1 });
+    expect(result.fill).toEqual({ type: 'solid', color: '#FF0000', opacity: 1 });
     expect(result.rectangleProps).toEqual({ borderRadius: 5 });
   });
 
+  it('should replace effects', async () => {
+    const effects = [{ type: 'layer-blur' as const, visible: true, blur: 8 }];
+
+    const result = await updateElement({ id: testElementId, effects });
+
+    expect(result.effects).toEqual(effects);
+    expect(result.fill).toEqual({ type: 'solid', color: '#FF0000', opacity: 1 }); // Other properties are untouched
+    expect((await updateElement({ id: testElementId, effects: [] })).effects).toEqual([]);
+  });
+
+  it('should replace extra fill and stroke layers', async () => {
+    const extraFills = [{ type: 'solid' as const, color: '#0000FF', opacity: 0.5, blendMode: 'overlay' as const }];
+
+    const result = await updateElement({ id: testElementId, extraFills });
+
+    expect(result.extraFills).toEqual(extraFills);
+    expect(result.extraStrokes).toEqual([]);
+    expect(result.fill).toEqual({ type: 'solid', color: '#FF0000', opacity: 1 });
+  });
+
   it('should throw error for non-existent element', async () => {
     const nonExistentId = `nonexistent-${Math.random().toString(36).substring(2)}`;
     const input: UpdateElementInput = {
@@ -275,4 +360,164 @@ describe('updateElement', () => {
     expect(result.textStyle).toBeNull();
     expect(result.rectangleProps).toBeNull();
   });
-})
\ No newline at end of file
+
+  describe('optimistic concurrency', () => {
+    it('should apply the update when the element is unchanged since expectedUpdatedAt', async () => {
+      const [current] = await db.select()
+        .from(canvasElementsTable)
+        .where(eq(canvasElementsTable.id, testElementId))
+        .execute();
+
+      const result = await updateElement({
+        id: testElementId,
+        position: { x: 300, y: 400 },
+        expectedUpdatedAt: current.updatedAt
+      });
+
+      expect(result.position).toEqual({ x: 300, y: 400 });
+      expect(result.updatedAt.getTime()).toBeGreaterThanOrEqual(current.updatedAt.getTime());
+    });
+
+    it('should reject a stale update with the current element', async () => {
+      const [original] = await db.select()
+        .from(canvasElementsTable)
+        .where(eq(canvasElementsTable.id, testElementId))
+        .execute();
+      const concurrent = await updateElement({ id: testElementId, fill: { type: 'solid', color: '#00FF00', opacity: 1 } });
+
+      const error = await updateElement({
+        id: testElementId,
+        position: { x: 300, y: 400 },
+        expectedUpdatedAt: new Date(original.updatedAt.getTime() - 1000)
+      }).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ConflictError);
+      const conflict = error as ConflictError<CanvasElement>;
+      expect(conflict.code).toEqual('CONFLICT');
+      expect(conflict.current.id).toEqual(testElementId);
+      expect(conflict.current.fill).toEqual({ type: 'solid', color: '#00FF00', opacity: 1 });
+      expect(conflict.current.updatedAt).toEqual(concurrent.updatedAt);
+
+      // Nothing was written
+      const [stored] = await db.select()
+        .from(canvasElementsTable)
+        .where(eq(canvasElementsTable.id, testElementId))
+        .execute();
+      expect(parseFloat(stored.positionX)).toEqual(10);
+    });
+
+    it('should still report missing elements as not found', async () => {
+      await expect(updateElement({ id: 'missing-element', zIndex: 1, expectedUpdatedAt: new Date() }))
+        .rejects.toThrow(/not found/i);
+    });
+  });
+
+  describe('groups', () => {
+    const createRectangle = (x: number, y: number) => createElement({
+      canvasId: testCanvasId,
+      type: 'rectangle',
+      position: { x, y },
+      dimensions: { width: 100, height: 50 }
+    });
+
+    it('should move and scale the members of a group along with it', async () => {
+      const first = await createRectangle(0, 0);
+      const second = await createRectangle(100, 150);
+      const group = (await groupElements({ canvasId: testCanvasId, elementIds: [first.id, second.id] })).elements[0];
+      expect(group.dimensions).toEqual({ width: 200, height: 200 });
+
+      await updateElement({ id: group.id, position: { x: 50, y: 50 }, dimensions: { width: 400, height: 100 } });
+
+      const [movedFirst] = await db.select().from(canvasElementsTable).where(eq(canvasElementsTable.id, first.id)).execute();
+      const [movedSecond] = await db.select().from(canvasElementsTable).where(eq(canvasElementsTable.id, second.id)).execute();
+      expect([parseFloat(movedFirst.positionX), parseFloat(movedFirst.positionY)]).toEqual([50, 50]);
+      expect([parseFloat(movedFirst.width!), parseFloat(movedFirst.height!)]).toEqual([200, 25]);
+      expect([parseFloat(movedSecond.positionX), parseFloat(movedSecond.positionY)]).toEqual([250, 125]);
+    });
+
+    it('should refit a group around a member that moved', async () => {
+      const first = await createRectangle(0, 0);
+      const second = await createRectangle(100, 150);
+      const group = (await groupElements({ canvasId: testCanvasId, elementIds: [first.id, second.id] })).elements[0];
+
+      await updateElement({ id: second.id, position: { x: 300, y: 20 } });
+
+      const [refitted] = await db.select().from(canvasElementsTable).where(eq(canvasElementsTable.id, group.id)).execute();
+      expect([parseFloat(refitted.positionX), parseFloat(refitted.positionY)]).toEqual([0, 0]);
+      expect([parseFloat(refitted.width!), parseFloat(refitted.height!)]).toEqual([400, 70]);
+    });
+
+    it('should move an element into a group', async () => {
+      const first = await createRectangle(0, 0);
+      const second = await createRectangle(100, 150);
+      const group = (await groupElements({ canvasId: testCanvasId, elementIds: [first.id, second.id] })).elements[0];
+
+      const result = await updateElement({ id: testElementId, parentId: group.id });
+
+      expect(result.parentId).toEqual(group.id);
+      const members = await db.select().from(canvasElementsTable).where(eq(canvasElementsTable.parentId, group.id)).execute();
+      expect(members).toHaveLength(3);
+    });
+
+    it('should reject moving a group into itself or one of its members', async () => {
+      const first = await createRectangle(0, 0);
+      const second = await createRectangle(100, 150);
+      const inner = (await groupElements({ canvasId: testCanvasId, elementIds: [first.id, second.id] })).elements[0];
+      const outer = (await groupElements({ canvasId: testCanvasId, elementIds: [inner.id, testElementId] })).elements[0];
+
+      await expect(updateElement({ id: outer.id, parentId: outer.id })).rejects.toThrow(/cannot be moved into itself/i);
+      await expect(updateElement({ id: outer.id, parentId: inner.id })).rejects.toThrow(/cannot be moved into itself/i);
+    });
+
+    it('should reject a parent that is not a group', async () => {
+      const other = await createRectangle(0, 0);
+
+      await expect(updateElement({ id: testElementId, parentId: other.id })).rejects.toThrow(/not a group/i);
+    });
+
+    it('should pass a transform given to a group on to its members', async () => {
+      const first = await createRectangle(0, 0);
+      const second = await createRectangle(100, 150);
+      const group = (await groupElements({ canvasId: testCanvasId, elementIds: [first.id, second.id] })).elements[0];
+
+      // A half turn about the group's center swaps the two corners of the group
+      const result = await updateElement({
+        id: group.id,
+        transform: { rotation: 180, scaleX: 1, scaleY: 1, skewX: 0, skewY: 0, originX: 0.5, originY: 0.5 }
+      });
+
+      expect(result.transform).toBeNull();
+      expect(result.position).toEqual({ x: 0, y: 0 });
+      expect(result.dimensions).toEqual({ width: 200, height: 200 });
+
+      const [turnedFirst] = await db.select().from(canvasElementsTable).where(eq(canvasElementsTable.id, first.id)).execute();
+      expect([parseFloat(turnedFirst.positionX), parseFloat(turnedFirst.positionY)]).toEqual([100, 150]);
+      expect((turnedFirst.transform as { rotation: number }).rotation).toBeCloseTo(180);
+    });
+
+    it('should refit a group around a rotated member', async () => {
+      const first = await createRectangle(0, 0);
+      const second = await createRectangle(100, 150);
+      const group = (await groupElements({ canvasId: testCanvasId, elementIds: [first.id, second.id] })).elements[0];
+
+      await updateElement({
+        id: second.id,
+        transform: { rotation: 90, scaleX: 1, scaleY: 1, skewX: 0, skewY: 0, originX: 0.5, originY: 0.5 }
+      });
+
+      // Turned about its center, the second rectangle now spans 125..175 by 125..225
+      const [refitted] = await db.select().from(canvasElementsTable).where(eq(canvasElementsTable.id, group.id)).execute();
+      expect([parseFloat(refitted.width!), parseFloat(refitted.height!)]).toEqual([175, 225]);
+    });
+
+    it('should reject effects on a group', async () => {
+      const first = await createRectangle(0, 0);
+      const second = await createRectangle(100, 150);
+      const group = (await groupElements({ canvasId: testCanvasId, elementIds: [first.id, second.id] })).elements[0];
+
+      await expect(updateElement({ id: group.id, effects: [{ type: 'layer-blur', visible: true, blur: 4 }] }))
+        .rejects.toThrow(/cannot have effects/i);
+      expect((await updateElement({ id: group.id, effects: [] })).effects).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { assetsTable, canvasTable } from '../db/schema';
+import { uploadAsset } from '../handlers/upload_asset';
+import { getAssetFile } from '../handlers/get_asset_file';
+import { createLocalAssetStorage, type AssetStorage } from '../storage';
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+// A 1x1 PNG
+const PNG_DATA = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+
+describe('uploadAsset', () => {
+  let storageDir: string;
+  let storage: AssetStorage;
+
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  beforeEach(async () => {
+    storageDir = await mkdtemp(join(tmpdir(), 'assets-'));
+    storage = createLocalAssetStorage(storageDir);
+
+    await db.insert(canvasTable)
+      .values({ id: 'canvas-1', name: 'Brand Kit' })
+      .execute();
+  });
+
+  afterEach(async () => {
+    await rm(storageDir, { recursive: true, force: true });
+  });
+
+  it('should store the file and record it with its pixel size', async () => {
+    const asset = await uploadAsset({
+      canvasId: 'canvas-1',
+      fileName: 'logo.png',
+      mimeType: 'image/png',
+      data: PNG_DATA
+    }, storage);
+
+    expect(asset.canvasId).toEqual('canvas-1');
+    expect(asset.fileName).toEqual('logo.png');
+    expect(asset.mimeType).toEqual('image/png');
+    expect(asset.size).toEqual(Buffer.from(PNG_DATA, 'base64').length);
+    expect(asset.width).toEqual(1);
+    expect(asset.height).toEqual(1);
+    expect(asset.createdAt).toBeInstanceOf(Date);
+
+    const rows = await db.select().from(assetsTable).execute();
+    expect(rows).toHaveLength(1);
+    expect(rows[0].storageKey).toEqual(`canvas-1/${asset.id}`);
+
+    const file = await getAssetFile(asset.id, storage);
+    expect(file.asset).toEqual(asset);
+    expect(file.data.equals(Buffer.from(PNG_DATA, 'base64'))).toBe(true);
+  });
+
+  it('should take the size of an SVG from its viewBox', async () => {
+    const svg = '<svg xmlns="http://www.w3.org/2000/svg" width="100%" viewBox="0 0 240 80"><rect width="240" height="80"/></svg>';
+    const asset = await uploadAsset({
+      canvasId: 'canvas-1',
+      fileName: 'wordmark.svg',
+      mimeType: 'image/svg+xml',
+      data: Buffer.from(svg).toString('base64')
+    }, storage);
+
+    expect(asset.width).toEqual(240);
+    expect(asset.height).toEqual(80);
+  });
+
+  it('should reject contents that do not match the declared type', async () => {
+    await expect(uploadAsset({
+      canvasId: 'canvas-1',
+      fileName: 'photo.jpg',
+      mimeType: 'image/jpeg',
+      data: PNG_DATA
+    }, storage)).rejects.toThrow(/not a valid image\/jpeg image/i);
+
+    expect(await db.select().from(assetsTable).execute()).toHaveLength(0);
+    expect(await readdir(storageDir)).toHaveLength(0);
+  });
+
+  it('should throw error for non-existent canvas', async () => {
+    await expect(uploadAsset({
+      canvasId: 'missing-canvas',
+      fileName: 'logo.png',
+      mimeType: 'image/png',
+      data: PNG_DATA
+    }, storage)).rejects.toThrow(/not found/i);
+  });
+
+  it('should report a missing asset', async () => {
+    await expect(getAssetFile('missing-asset', storage)).rejects.toThrow(/not found/i);
+  });
+});